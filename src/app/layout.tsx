@@ -26,6 +26,8 @@ export const metadata: Metadata = {
     "AWS VPC subnetting",
     "Azure VNet calculator",
     "Google Cloud VPC",
+    "Oracle Cloud VCN",
+    "Alibaba Cloud VPC",
     "CIDR calculator",
     "network infrastructure",
     "cloud networking",
@@ -97,6 +99,7 @@ export default function RootLayout({
       "AWS VPC subnet planning",
       "Azure VNet subnet planning",
       "Google Cloud VPC subnet planning",
+      "Oracle Cloud, Alibaba Cloud, DigitalOcean and IBM Cloud VPC subnet planning",
       "Subnet splitting and joining",
       "Cloud provider IP reservation handling",
       "Network configuration export",
@@ -0,0 +1,412 @@
+"use client";
+
+import React, { useState, useCallback, useRef } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Boxes, Plus, Pencil, Trash2, Upload, Download, X, AlertCircle } from "lucide-react";
+import { CustomCloudProfile, CustomProfileReservation } from "@/lib/types";
+import {
+  CUSTOM_PROFILE_TEMPLATES,
+  normalizeCustomProfile,
+  upsertCustomProfile,
+  deleteCustomProfile,
+  exportCustomProfiles,
+  parseCustomProfilesJSON
+} from "@/lib/custom-profiles";
+
+interface CustomProfileManagerProps {
+  profiles: CustomCloudProfile[];
+  onProfilesChange: (profiles: CustomCloudProfile[]) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Editor fields are kept as text until the profile is saved and validated
+interface ReservationDraft {
+  from: CustomProfileReservation["from"];
+  offset: string;
+  purpose: string;
+  description: string;
+}
+
+interface ProfileDraft {
+  id?: string;
+  name: string;
+  minCidr: string;
+  maxCidr: string;
+  reservations: ReservationDraft[];
+}
+
+// Value used by the template select to start from an empty profile
+const BLANK_TEMPLATE = "blank";
+
+function toDraft(profile: Omit<CustomCloudProfile, "id"> & { id?: string }): ProfileDraft {
+  return {
+    id: profile.id,
+    name: profile.name,
+    minCidr: profile.minCidr.toString(),
+    maxCidr: profile.maxCidr.toString(),
+    reservations: profile.reservations.map(reservation => ({ ...reservation, offset: reservation.offset.toString() }))
+  };
+}
+
+function parseWholeNumber(value: string): number {
+  return value.trim() === "" ? NaN : Number(value);
+}
+
+function describeProfile(profile: CustomCloudProfile): string {
+  const reserved = profile.reservations.length;
+  return `/${profile.minCidr} to /${profile.maxCidr}, ${reserved} reserved address${reserved === 1 ? "" : "es"}`;
+}
+
+export function CustomProfileManager({
+  profiles,
+  onProfilesChange,
+  disabled = false,
+  className = ""
+}: CustomProfileManagerProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [draft, setDraft] = useState<ProfileDraft | null>(null);
+  const [template, setTemplate] = useState(BLANK_TEMPLATE);
+  const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const startNewProfile = () => {
+    const source = CUSTOM_PROFILE_TEMPLATES.find(candidate => candidate.name === template);
+    setDraft(toDraft(source || {
+      name: "",
+      minCidr: 16,
+      maxCidr: 28,
+      reservations: [
+        { from: "start", offset: 0, purpose: "Network Address", description: "" },
+        { from: "end", offset: 0, purpose: "Broadcast Address", description: "" }
+      ]
+    }));
+    setConfirmingDeleteId(null);
+    setError(null);
+    setNotice(null);
+  };
+
+  const updateReservation = (index: number, change: Partial<ReservationDraft>) => {
+    setDraft(prev => prev && {
+      ...prev,
+      reservations: prev.reservations.map((reservation, current) => current === index ? { ...reservation, ...change } : reservation)
+    });
+  };
+
+  const saveDraft = () => {
+    if (!draft) {
+      return;
+    }
+    try {
+      const profile = normalizeCustomProfile({
+        id: draft.id,
+        name: draft.name,
+        minCidr: parseWholeNumber(draft.minCidr),
+        maxCidr: parseWholeNumber(draft.maxCidr),
+        reservations: draft.reservations.map(reservation => ({ ...reservation, offset: parseWholeNumber(reservation.offset) }))
+      });
+      onProfilesChange(upsertCustomProfile(profiles, profile));
+      setDraft(null);
+      setError(null);
+      setNotice(`Saved ${profile.name}; select it in the Mode list to apply it`);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : "Profile could not be saved");
+    }
+  };
+
+  const handleFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset the input so the same file can be selected again
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+
+    try {
+      const { profiles: imported, warnings } = parseCustomProfilesJSON(await file.text());
+      onProfilesChange(imported.reduce(upsertCustomProfile, profiles));
+      setError(warnings.length > 0 ? warnings.join(". ") : null);
+      setNotice(`Imported ${imported.length} profile${imported.length === 1 ? "" : "s"} from ${file.name}`);
+    } catch (importError) {
+      setNotice(null);
+      setError(importError instanceof Error ? importError.message : "Failed to read profiles file");
+    }
+  }, [profiles, onProfilesChange]);
+
+  const handleExport = () => {
+    const blob = new Blob([exportCustomProfiles(profiles)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "custom-profiles.json";
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card className={`${className} rounded-lg shadow-md`}>
+      <CardHeader className="p-3 pb-2 sm:p-4 sm:pb-3 lg:p-6 lg:pb-4">
+        <CardTitle className="text-lg font-medium flex items-center gap-2">
+          <Boxes className="h-5 w-5" aria-hidden="true" />
+          <span id="custom-profiles-title">Custom Profiles</span>
+        </CardTitle>
+        <CardDescription id="custom-profiles-description">
+          Describe your own platform, such as an OpenStack cloud or a VMware NSX segment: the subnet sizes it accepts and the
+          addresses it reserves. Saved profiles appear in the Mode list and are stored in this browser.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-3 sm:p-4 lg:p-6 space-y-3">
+        {profiles.length > 0 ? (
+          <ul className="space-y-2" aria-labelledby="custom-profiles-title">
+            {profiles.map(profile => (
+              <li key={profile.id} className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{profile.name}</p>
+                  <p className="text-xs text-muted-foreground">{describeProfile(profile)}</p>
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    aria-label={`Edit ${profile.name}`}
+                    onClick={() => {
+                      setDraft(toDraft(profile));
+                      setConfirmingDeleteId(null);
+                      setError(null);
+                      setNotice(null);
+                    }}
+                    disabled={disabled}
+                  >
+                    <Pencil className="h-4 w-4" aria-hidden="true" />
+                  </Button>
+                  {confirmingDeleteId === profile.id ? (
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      onClick={() => {
+                        onProfilesChange(deleteCustomProfile(profiles, profile.id));
+                        setConfirmingDeleteId(null);
+                        if (draft?.id === profile.id) {
+                          setDraft(null);
+                        }
+                      }}
+                      onBlur={() => setConfirmingDeleteId(null)}
+                      autoFocus
+                    >
+                      Confirm Delete
+                    </Button>
+                  ) : (
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      aria-label={`Delete ${profile.name}`}
+                      onClick={() => setConfirmingDeleteId(profile.id)}
+                      disabled={disabled}
+                    >
+                      <Trash2 className="h-4 w-4" aria-hidden="true" />
+                    </Button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">No custom profiles yet.</p>
+        )}
+
+        {draft ? (
+          <form
+            className="space-y-3 border-t pt-3"
+            onSubmit={(event) => {
+              event.preventDefault();
+              saveDraft();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="custom-profile-name">Profile Name</Label>
+              <Input
+                id="custom-profile-name"
+                value={draft.name}
+                onChange={(event) => setDraft({ ...draft, name: event.target.value })}
+                placeholder="Internal OpenStack"
+                autoFocus
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="custom-profile-min-cidr">Largest Subnet</Label>
+                <Input
+                  id="custom-profile-min-cidr"
+                  type="number"
+                  min="0"
+                  max="32"
+                  value={draft.minCidr}
+                  onChange={(event) => setDraft({ ...draft, minCidr: event.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="custom-profile-max-cidr">Smallest Subnet</Label>
+                <Input
+                  id="custom-profile-max-cidr"
+                  type="number"
+                  min="0"
+                  max="32"
+                  value={draft.maxCidr}
+                  onChange={(event) => setDraft({ ...draft, maxCidr: event.target.value })}
+                />
+              </div>
+            </div>
+
+            <fieldset className="space-y-2">
+              <legend className="text-sm font-medium">Reserved Addresses</legend>
+              <p className="text-xs text-muted-foreground">
+                Offsets count from the network address, or back from the broadcast address; 0 is the address itself.
+              </p>
+              {draft.reservations.map((reservation, index) => (
+                <div key={index} className="grid grid-cols-[6rem_4rem_1fr_auto] gap-2 items-center">
+                  <Select
+                    value={reservation.from}
+                    onValueChange={(value: ReservationDraft["from"]) => updateReservation(index, { from: value })}
+                  >
+                    <SelectTrigger aria-label={`Reserved address ${index + 1} counted from`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="start">Start</SelectItem>
+                      <SelectItem value="end">End</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min="0"
+                    value={reservation.offset}
+                    onChange={(event) => updateReservation(index, { offset: event.target.value })}
+                    aria-label={`Offset of reserved address ${index + 1}`}
+                  />
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    <Input
+                      value={reservation.purpose}
+                      onChange={(event) => updateReservation(index, { purpose: event.target.value })}
+                      placeholder="Purpose"
+                      aria-label={`Purpose of reserved address ${index + 1}`}
+                    />
+                    <Input
+                      value={reservation.description}
+                      onChange={(event) => updateReservation(index, { description: event.target.value })}
+                      placeholder="Description"
+                      aria-label={`Description of reserved address ${index + 1}`}
+                    />
+                  </div>
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    aria-label={`Remove reserved address ${index + 1}`}
+                    onClick={() => setDraft({ ...draft, reservations: draft.reservations.filter((_, current) => current !== index) })}
+                  >
+                    <X className="h-4 w-4" aria-hidden="true" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => setDraft({
+                  ...draft,
+                  reservations: [...draft.reservations, { from: "start", offset: "", purpose: "", description: "" }]
+                })}
+              >
+                <Plus className="h-4 w-4 mr-1" aria-hidden="true" />
+                Add Reserved Address
+              </Button>
+            </fieldset>
+
+            <div className="flex gap-2">
+              <Button type="submit" size="sm">
+                Save Profile
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                onClick={() => {
+                  setDraft(null);
+                  setError(null);
+                }}
+              >
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <Select value={template} onValueChange={setTemplate} disabled={disabled}>
+                <SelectTrigger className="flex-1" aria-label="Template for a new profile">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={BLANK_TEMPLATE}>Blank profile</SelectItem>
+                  {CUSTOM_PROFILE_TEMPLATES.map(candidate => (
+                    <SelectItem key={candidate.name} value={candidate.name}>{candidate.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button size="sm" variant="outline" onClick={startNewProfile} disabled={disabled}>
+                <Plus className="h-4 w-4 mr-1" aria-hidden="true" />
+                New Profile
+              </Button>
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="sr-only focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+              onChange={handleFileChange}
+              disabled={disabled}
+              aria-labelledby="custom-profiles-title"
+              tabIndex={-1}
+            />
+            <div className="flex flex-wrap gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={disabled}
+                aria-describedby="custom-profiles-description"
+              >
+                <Upload className="h-4 w-4 mr-1" aria-hidden="true" />
+                Import JSON
+              </Button>
+              {profiles.length > 0 && (
+                <Button size="sm" variant="outline" onClick={handleExport} disabled={disabled}>
+                  <Download className="h-4 w-4 mr-1" aria-hidden="true" />
+                  Export JSON
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {notice && !error && (
+          <p className="text-xs text-muted-foreground" aria-live="polite">{notice}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
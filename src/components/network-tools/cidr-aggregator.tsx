@@ -0,0 +1,159 @@
+"use client";
+
+import { useState, useMemo, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Minimize2, AlertCircle, AlertTriangle, Copy, Check } from "lucide-react";
+import { CIDRBlock, CIDRSupernetSummary, IPVersion } from "@/lib/types";
+import { parseCIDRList, aggregateCIDRs, summarizeCIDRs, formatCIDRBlock } from "@/lib/cidr-ranges";
+
+interface CIDRAggregatorProps {
+  onSelectBlock?: (block: CIDRBlock) => void;
+  className?: string;
+}
+
+// Number of parse errors listed before the remainder is summarized
+const MAX_DISPLAYED_ERRORS = 10;
+
+export function CIDRAggregator({ onSelectBlock, className = "" }: CIDRAggregatorProps) {
+  const [input, setInput] = useState("");
+  const [copied, setCopied] = useState(false);
+
+  const result = useMemo(() => {
+    const parsed = parseCIDRList(input);
+    const aggregated = aggregateCIDRs(parsed.blocks);
+    const summaries = (["ipv4", "ipv6"] as IPVersion[])
+      .map(ipVersion => parsed.blocks.filter(block => block.ipVersion === ipVersion))
+      .filter(blocks => blocks.length > 0)
+      .map(blocks => summarizeCIDRs(blocks));
+
+    return { ...parsed, aggregated, summaries };
+  }, [input]);
+
+  const copyAggregated = useCallback(async () => {
+    try {
+      if (!navigator.clipboard) {
+        throw new Error("Clipboard API not available");
+      }
+      await navigator.clipboard.writeText(result.aggregated.map(formatCIDRBlock).join("\n"));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.warn("Failed to copy summarized prefixes:", error);
+    }
+  }, [result.aggregated]);
+
+  const renderSummary = (summary: CIDRSupernetSummary) => (
+    <div key={summary.supernet.ipVersion} className="rounded-md border p-3 space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-mono font-medium">{formatCIDRBlock(summary.supernet)}</span>
+        {onSelectBlock && (
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => onSelectBlock(summary.supernet)}
+            aria-label={`Open ${formatCIDRBlock(summary.supernet)} in the calculator`}
+          >
+            Open
+          </Button>
+        )}
+      </div>
+      <p className="text-sm text-muted-foreground">
+        {summary.overCoveragePercent === 0
+          ? "Exact summary: the supernet covers only the listed prefixes."
+          : `Over-coverage ${summary.overCoveragePercent.toFixed(2)}%: ${summary.extraAddresses.toLocaleString()} of ${summary.supernet.addressCount.toLocaleString()} addresses are outside the listed prefixes.`}
+      </p>
+    </div>
+  );
+
+  return (
+    <Card className={`${className} rounded-lg shadow-md`}>
+      <CardHeader className="p-3 pb-2 sm:p-4 sm:pb-3 lg:p-6 lg:pb-4">
+        <CardTitle className="text-lg font-medium flex items-center gap-2">
+          <Minimize2 className="h-5 w-5" aria-hidden="true" />
+          Prefix Summarization
+        </CardTitle>
+        <CardDescription>
+          Paste IPv4 or IPv6 prefixes to collapse them into the minimal exact set for route advertisements and prefix lists, or into a single supernet with its over-coverage.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-3 sm:p-4 lg:p-6 space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="aggregate-prefixes">Prefixes</Label>
+          <Textarea
+            id="aggregate-prefixes"
+            placeholder={"10.0.0.0/24\n10.0.1.0/24\n10.0.2.0/23"}
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            className="min-h-32 font-mono"
+            spellCheck={false}
+          />
+        </div>
+
+        {result.errors.length > 0 && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              <ul className="list-disc pl-4 space-y-1">
+                {result.errors.slice(0, MAX_DISPLAYED_ERRORS).map(message => (
+                  <li key={message}>{message}</li>
+                ))}
+                {result.errors.length > MAX_DISPLAYED_ERRORS && (
+                  <li>…and {result.errors.length - MAX_DISPLAYED_ERRORS} more</li>
+                )}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {result.warnings.length > 0 && (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              <ul className="list-disc pl-4 space-y-1">
+                {result.warnings.slice(0, MAX_DISPLAYED_ERRORS).map(message => (
+                  <li key={message}>{message}</li>
+                ))}
+                {result.warnings.length > MAX_DISPLAYED_ERRORS && (
+                  <li>…and {result.warnings.length - MAX_DISPLAYED_ERRORS} more</li>
+                )}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {result.aggregated.length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <h3 className="text-sm font-medium" aria-live="polite">
+                  Minimal Exact Set ({result.blocks.length} → {result.aggregated.length})
+                </h3>
+                <Button size="sm" variant="outline" onClick={copyAggregated}>
+                  {copied ? (
+                    <Check className="h-4 w-4 mr-1" aria-hidden="true" />
+                  ) : (
+                    <Copy className="h-4 w-4 mr-1" aria-hidden="true" />
+                  )}
+                  {copied ? "Copied" : "Copy"}
+                </Button>
+              </div>
+              <ul className="max-h-64 overflow-y-auto rounded-md border p-3 font-mono text-sm space-y-1">
+                {result.aggregated.map(block => (
+                  <li key={formatCIDRBlock(block)}>{formatCIDRBlock(block)}</li>
+                ))}
+              </ul>
+            </div>
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Single Supernet</h3>
+              {result.summaries.map(renderSummary)}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,164 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Layers, AlertCircle, AlertTriangle, CheckCircle, Plus } from "lucide-react";
+import { AnalyzedNetwork, OverlapConflictType, OverlapEntryReference } from "@/lib/types";
+import { analyzeOverlaps, parseNetworkDefinitions, MAX_OVERLAP_CONFLICTS } from "@/lib/overlap-analyzer";
+
+interface OverlapAnalyzerProps {
+  currentNetwork?: AnalyzedNetwork | null; // The calculator's network and its subnets
+  className?: string;
+}
+
+// Number of parse errors and warnings listed before the remainder is summarized
+const MAX_DISPLAYED_MESSAGES = 10;
+
+const CONFLICT_LABELS: Record<OverlapConflictType, string> = {
+  duplicate: "Duplicate",
+  containment: "Contains",
+  overlap: "Overlap"
+};
+
+function formatReference(reference: OverlapEntryReference): string {
+  return `${reference.networkName}${reference.isSubnet ? " subnet" : ""} ${reference.prefix}`;
+}
+
+function renderMessages(messages: string[]) {
+  return (
+    <ul className="list-disc pl-4 space-y-1">
+      {messages.slice(0, MAX_DISPLAYED_MESSAGES).map(message => (
+        <li key={message}>{message}</li>
+      ))}
+      {messages.length > MAX_DISPLAYED_MESSAGES && (
+        <li>…and {messages.length - MAX_DISPLAYED_MESSAGES} more</li>
+      )}
+    </ul>
+  );
+}
+
+export function OverlapAnalyzer({ currentNetwork, className = "" }: OverlapAnalyzerProps) {
+  const [input, setInput] = useState("");
+
+  const result = useMemo(() => {
+    const parsed = parseNetworkDefinitions(input);
+    const analysis = analyzeOverlaps(parsed.networks);
+    return {
+      ...analysis,
+      networkCount: parsed.networks.length,
+      errors: [...parsed.errors, ...analysis.errors]
+    };
+  }, [input]);
+
+  // Appends the calculator's network so a planned VPC can be checked against its peers
+  const addCurrentNetwork = () => {
+    if (!currentNetwork) {
+      return;
+    }
+    const lines = [
+      `${currentNetwork.name}: ${currentNetwork.cidr}`,
+      ...(currentNetwork.subnets || []).map(subnet => `  ${subnet}`)
+    ];
+    setInput(previous => [previous.trimEnd(), ...lines].filter(Boolean).join("\n"));
+  };
+
+  return (
+    <Card className={`${className} rounded-lg shadow-md`}>
+      <CardHeader className="p-3 pb-2 sm:p-4 sm:pb-3 lg:p-6 lg:pb-4">
+        <CardTitle className="text-lg font-medium flex items-center gap-2">
+          <Layers className="h-5 w-5" aria-hidden="true" />
+          Overlap Analysis
+        </CardTitle>
+        <CardDescription>
+          List the VPCs, VNets and on-premises ranges to be peered or attached, one per line as name: prefix followed by their subnets, to find every duplicate, containment and overlap before it fails at apply time.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-3 sm:p-4 lg:p-6 space-y-4">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <Label htmlFor="overlap-networks">Networks</Label>
+            {currentNetwork && (
+              <Button size="sm" variant="outline" onClick={addCurrentNetwork}>
+                <Plus className="h-4 w-4 mr-1" aria-hidden="true" />
+                Add Current Network
+              </Button>
+            )}
+          </div>
+          <Textarea
+            id="overlap-networks"
+            placeholder={"prod-vpc: 10.0.0.0/16, 10.0.1.0/24, 10.0.2.0/24\non-prem: 10.0.0.0/8\nhub-vnet: 10.1.0.0/16"}
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            className="min-h-32 font-mono"
+            spellCheck={false}
+          />
+        </div>
+
+        {result.errors.length > 0 && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{renderMessages(result.errors)}</AlertDescription>
+          </Alert>
+        )}
+
+        {result.warnings.length > 0 && (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{renderMessages(result.warnings)}</AlertDescription>
+          </Alert>
+        )}
+
+        {result.networkCount > 0 && (
+          <div className="space-y-2" aria-live="polite">
+            {result.conflicts.length === 0 ? (
+              <p className="text-sm text-muted-foreground flex items-center gap-2">
+                <CheckCircle className="h-4 w-4 text-green-600" aria-hidden="true" />
+                No overlaps between {result.networkCount} network{result.networkCount === 1 ? "" : "s"}.
+              </p>
+            ) : (
+              <>
+                <h3 className="text-sm font-medium">
+                  {result.truncated ? `First ${MAX_OVERLAP_CONFLICTS}` : result.conflicts.length} conflict{result.conflicts.length === 1 ? "" : "s"} found
+                </h3>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Entries</TableHead>
+                      <TableHead>Overlapping Range</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.conflicts.map((conflict, index) => (
+                      <TableRow key={index}>
+                        <TableCell>
+                          <Badge variant={conflict.type === "overlap" ? "secondary" : "destructive"}>
+                            {CONFLICT_LABELS[conflict.type]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          <div>{formatReference(conflict.first)}</div>
+                          <div className="text-muted-foreground">{formatReference(conflict.second)}</div>
+                        </TableCell>
+                        <TableCell className="font-mono text-sm">
+                          <div>{conflict.overlapStart} – {conflict.overlapEnd}</div>
+                          <div className="text-muted-foreground">{conflict.overlapCIDRs.join(", ")}</div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
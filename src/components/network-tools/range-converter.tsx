@@ -0,0 +1,167 @@
+"use client";
+
+import { useState, useMemo, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowRightLeft, AlertCircle, Copy, Check } from "lucide-react";
+import { CIDRBlock } from "@/lib/types";
+import { rangeToCIDRs, formatCIDRBlock, parseAddressRange } from "@/lib/cidr-ranges";
+
+interface RangeConverterProps {
+  onSelectBlock?: (block: CIDRBlock) => void;
+  className?: string;
+}
+
+/**
+ * Formats a block size; large IPv6 blocks are shown as powers of two
+ */
+function formatAddressCount(block: CIDRBlock): string {
+  const hostBits = (block.ipVersion === "ipv4" ? 32 : 128) - block.prefix;
+  return hostBits > 32 ? `2^${hostBits}` : block.addressCount.toLocaleString();
+}
+
+export function RangeConverter({ onSelectBlock, className = "" }: RangeConverterProps) {
+  const [startAddress, setStartAddress] = useState("");
+  const [endAddress, setEndAddress] = useState("");
+  const [copied, setCopied] = useState(false);
+
+  const result = useMemo((): { blocks: CIDRBlock[]; error: string | null } => {
+    if (!startAddress.trim() || !endAddress.trim()) {
+      return { blocks: [], error: null };
+    }
+
+    try {
+      return { blocks: rangeToCIDRs(startAddress, endAddress), error: null };
+    } catch (error) {
+      return { blocks: [], error: error instanceof Error ? error.message : "Range conversion failed" };
+    }
+  }, [startAddress, endAddress]);
+
+  // Pasting a whole range such as "10.0.0.5-10.0.3.200" into the start field fills both fields
+  const handleStartChange = (value: string) => {
+    const range = parseAddressRange(value);
+    if (range) {
+      setStartAddress(range.start);
+      setEndAddress(range.end);
+    } else {
+      setStartAddress(value);
+    }
+  };
+
+  const copyBlocks = useCallback(async () => {
+    try {
+      if (!navigator.clipboard) {
+        throw new Error("Clipboard API not available");
+      }
+      await navigator.clipboard.writeText(result.blocks.map(formatCIDRBlock).join("\n"));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.warn("Failed to copy CIDR blocks:", error);
+    }
+  }, [result.blocks]);
+
+  return (
+    <Card className={`${className} rounded-lg shadow-md`}>
+      <CardHeader className="p-3 pb-2 sm:p-4 sm:pb-3 lg:p-6 lg:pb-4">
+        <CardTitle className="text-lg font-medium flex items-center gap-2">
+          <ArrowRightLeft className="h-5 w-5" aria-hidden="true" />
+          Range to CIDR
+        </CardTitle>
+        <CardDescription>
+          Convert an IPv4 or IPv6 start–end address range, such as one from a firewall rule, into the minimal list of CIDR blocks that covers it exactly.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-3 sm:p-4 lg:p-6 space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="range-start">Start Address</Label>
+            <Input
+              id="range-start"
+              type="text"
+              placeholder="10.0.0.5"
+              value={startAddress}
+              onChange={(e) => handleStartChange(e.target.value)}
+              className="w-full"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="range-end">End Address</Label>
+            <Input
+              id="range-end"
+              type="text"
+              placeholder="10.0.3.200"
+              value={endAddress}
+              onChange={(e) => setEndAddress(e.target.value)}
+              className="w-full"
+            />
+          </div>
+        </div>
+
+        {result.error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{result.error}</AlertDescription>
+          </Alert>
+        )}
+
+        {result.blocks.length > 0 && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm text-muted-foreground" aria-live="polite">
+                {result.blocks.length} CIDR block{result.blocks.length === 1 ? "" : "s"}
+              </p>
+              <Button size="sm" variant="outline" onClick={copyBlocks}>
+                {copied ? (
+                  <Check className="h-4 w-4 mr-1" aria-hidden="true" />
+                ) : (
+                  <Copy className="h-4 w-4 mr-1" aria-hidden="true" />
+                )}
+                {copied ? "Copied" : "Copy CIDRs"}
+              </Button>
+            </div>
+            <div className="max-h-80 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>CIDR</TableHead>
+                    <TableHead>First Address</TableHead>
+                    <TableHead>Last Address</TableHead>
+                    <TableHead>Addresses</TableHead>
+                    {onSelectBlock && <TableHead className="sr-only">Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.blocks.map(block => (
+                    <TableRow key={formatCIDRBlock(block)}>
+                      <TableCell className="font-mono">{formatCIDRBlock(block)}</TableCell>
+                      <TableCell className="font-mono">{block.firstAddress}</TableCell>
+                      <TableCell className="font-mono">{block.lastAddress}</TableCell>
+                      <TableCell>{formatAddressCount(block)}</TableCell>
+                      {onSelectBlock && (
+                        <TableCell className="text-right">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => onSelectBlock(block)}
+                            aria-label={`Open ${formatCIDRBlock(block)} in the calculator`}
+                          >
+                            Open
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,228 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FolderOpen, Plus, Pencil, Copy, Trash2, Check, X, AlertCircle, Save, SaveOff } from "lucide-react";
+import { ProjectStore, SavedProject, ShareableCalculatorState } from "@/lib/types";
+import {
+  createProject,
+  renameProject,
+  duplicateProject,
+  deleteProject,
+  getActiveProject
+} from "@/lib/project-storage";
+
+interface ProjectSwitcherProps {
+  store: ProjectStore;
+  currentState: ShareableCalculatorState;
+  onStoreChange: (store: ProjectStore) => void;
+  onOpenProject: (project: SavedProject) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Value used by the project select when the current plan is not saved in a project
+const UNSAVED_VALUE = "__unsaved__";
+
+export function ProjectSwitcher({
+  store,
+  currentState,
+  onStoreChange,
+  onOpenProject,
+  disabled = false,
+  className = ""
+}: ProjectSwitcherProps) {
+  const [editMode, setEditMode] = useState<"create" | "rename" | null>(null);
+  const [nameDraft, setNameDraft] = useState("");
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const activeProject = getActiveProject(store);
+
+  // Runs a store update and reports validation failures instead of throwing
+  const applyChange = useCallback((change: () => ProjectStore) => {
+    try {
+      onStoreChange(change());
+      setError(null);
+      return true;
+    } catch (changeError) {
+      setError(changeError instanceof Error ? changeError.message : "Project update failed");
+      return false;
+    }
+  }, [onStoreChange]);
+
+  const startEditing = (mode: "create" | "rename") => {
+    setEditMode(mode);
+    setConfirmingDelete(false);
+    setError(null);
+    setNameDraft(mode === "rename" && activeProject ? activeProject.name : "");
+  };
+
+  const submitName = () => {
+    const succeeded = applyChange(() => editMode === "rename" && activeProject
+      ? renameProject(store, activeProject.id, nameDraft)
+      : createProject(store, nameDraft, currentState));
+    if (succeeded) {
+      setEditMode(null);
+    }
+  };
+
+  const handleSelect = (value: string) => {
+    const project = store.projects.find(candidate => candidate.id === value);
+    if (project && project.id !== store.activeProjectId) {
+      setEditMode(null);
+      setConfirmingDelete(false);
+      onOpenProject(project);
+    }
+  };
+
+  return (
+    <Card className={`${className} rounded-lg shadow-md`}>
+      <CardHeader className="p-3 pb-2 sm:p-4 sm:pb-3 lg:p-6 lg:pb-4">
+        <CardTitle className="text-lg font-medium flex items-center gap-2">
+          <FolderOpen className="h-5 w-5" aria-hidden="true" />
+          <span id="project-switcher-title">Projects</span>
+        </CardTitle>
+        <CardDescription>
+          Save plans as named projects in this browser. {store.autoSave
+            ? "Changes to the open project are saved automatically."
+            : "Autosave is off; changes are not saved."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-3 sm:p-4 lg:p-6 space-y-3">
+        {store.projects.length > 0 ? (
+          <Select
+            value={activeProject ? activeProject.id : UNSAVED_VALUE}
+            onValueChange={handleSelect}
+            disabled={disabled}
+          >
+            <SelectTrigger className="w-full" aria-labelledby="project-switcher-title">
+              <SelectValue placeholder="Select a project" />
+            </SelectTrigger>
+            <SelectContent>
+              {!activeProject && (
+                <SelectItem value={UNSAVED_VALUE} disabled>Unsaved plan</SelectItem>
+              )}
+              {store.projects.map(project => (
+                <SelectItem key={project.id} value={project.id}>
+                  {project.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <p className="text-sm text-muted-foreground">No saved projects yet.</p>
+        )}
+
+        {editMode ? (
+          <form
+            className="flex items-center gap-2"
+            onSubmit={(event) => {
+              event.preventDefault();
+              submitName();
+            }}
+          >
+            <Input
+              value={nameDraft}
+              onChange={(event) => setNameDraft(event.target.value)}
+              placeholder={editMode === "create" ? "New project name" : "Project name"}
+              aria-label={editMode === "create" ? "New project name" : "Project name"}
+              autoFocus
+            />
+            <Button type="submit" size="icon" variant="outline" aria-label="Save project name" disabled={!nameDraft.trim()}>
+              <Check className="h-4 w-4" aria-hidden="true" />
+            </Button>
+            <Button
+              type="button"
+              size="icon"
+              variant="ghost"
+              aria-label="Cancel"
+              onClick={() => {
+                setEditMode(null);
+                setError(null);
+              }}
+            >
+              <X className="h-4 w-4" aria-hidden="true" />
+            </Button>
+          </form>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            <Button size="sm" variant="outline" onClick={() => startEditing("create")} disabled={disabled}>
+              <Plus className="h-4 w-4 mr-1" aria-hidden="true" />
+              Save As New
+            </Button>
+            {activeProject && (
+              <>
+                <Button size="sm" variant="outline" onClick={() => startEditing("rename")} disabled={disabled}>
+                  <Pencil className="h-4 w-4 mr-1" aria-hidden="true" />
+                  Rename
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => applyChange(() => duplicateProject(store, activeProject.id))}
+                  disabled={disabled}
+                >
+                  <Copy className="h-4 w-4 mr-1" aria-hidden="true" />
+                  Duplicate
+                </Button>
+                {confirmingDelete ? (
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    onClick={() => {
+                      applyChange(() => deleteProject(store, activeProject.id));
+                      setConfirmingDelete(false);
+                    }}
+                    onBlur={() => setConfirmingDelete(false)}
+                    autoFocus
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" aria-hidden="true" />
+                    Confirm Delete
+                  </Button>
+                ) : (
+                  <Button size="sm" variant="outline" onClick={() => setConfirmingDelete(true)} disabled={disabled}>
+                    <Trash2 className="h-4 w-4 mr-1" aria-hidden="true" />
+                    Delete
+                  </Button>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-center justify-between gap-2">
+          <Button
+            size="sm"
+            variant={store.autoSave ? "secondary" : "outline"}
+            onClick={() => onStoreChange({ ...store, autoSave: !store.autoSave })}
+            disabled={disabled}
+            aria-pressed={store.autoSave}
+          >
+            {store.autoSave ? (
+              <Save className="h-4 w-4 mr-1" aria-hidden="true" />
+            ) : (
+              <SaveOff className="h-4 w-4 mr-1" aria-hidden="true" />
+            )}
+            Autosave {store.autoSave ? "On" : "Off"}
+          </Button>
+          {activeProject && (
+            <span className="text-xs text-muted-foreground" aria-live="polite">
+              Saved {new Date(activeProject.updatedAt).toLocaleTimeString()}
+            </span>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useCallback, useMemo } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -9,23 +9,82 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Github, Newspaper, AlertCircle, Loader2, Info } from "lucide-react";
+import { Github, Newspaper, AlertCircle, Loader2, Info, Link2, Check } from "lucide-react";
 import { useTheme } from "next-themes";
 import Image from "next/image";
-import { validateIPv6, compressIPv6, validateIPv6CIDR, calculateIPv6Subnet, getIPv6SubnetSummary } from "@/lib/utils";
+import { validateIPv6, compressIPv6, validateIPv6CIDR, calculateIPv6Subnet, getIPv6SubnetSummary, generateOperationId } from "@/lib/utils";
 import {
   CloudMode,
   IPVersion,
   SplitSubnet,
   SubnetOperation,
-  SubnetError
+  BaseNetworkInput,
+  SubnetError,
+  ShareableCalculatorState,
+  ProjectStore,
+  SavedProject,
+  CIDRBlock,
+  AnalyzedNetwork,
+  CloudReservation,
+  CustomCloudProfile
 } from "@/lib/types";
 import { debounce, throttle, performanceMonitor } from "@/lib/performance";
+import { getInfrastructureExportFormats } from "@/lib/cloud-template-export";
+import { getSubnetStatus } from "@/lib/subnet-status";
+import { calculateSubnetDetailsFromNetwork, validateCloudIPv6Network } from "@/lib/subnet-splitting";
+import { CLOUD_PROVIDERS, CLOUD_PROVIDER_IDS, getCloudProvider, getUsableHostRange, isCustomCloudMode } from "@/lib/cloud-providers";
+import { classifyAddressSpace, formatAddressSpace, formatAddressSpaceFlags, getAddressSpaceWarnings } from "@/lib/special-purpose";
+import {
+  loadCustomProfiles,
+  saveCustomProfiles,
+  registerCustomProfiles,
+  findCustomProfile,
+  getCustomProfileMode
+} from "@/lib/custom-profiles";
+import { parseDualStackBlock, assignDualStackPairs, clearDualStackPairs } from "@/lib/dual-stack";
+import {
+  SHARE_STATE_PARAM,
+  encodeShareState,
+  decodeShareState,
+  getShareTokenFromHash,
+  getBaseNetworkId,
+  buildShareURL
+} from "@/lib/share-state";
+import {
+  OperationHistory,
+  createOperationHistory,
+  recordOperation,
+  jumpToPosition,
+  getCurrentSubnets,
+  getBaseNetworkAtPosition
+} from "@/lib/operation-history";
+import {
+  createEmptyProjectStore,
+  loadProjectStore,
+  saveProjectStore,
+  getActiveProject,
+  setActiveProject,
+  updateProjectState
+} from "@/lib/project-storage";
+import { ProjectSwitcher } from "@/components/project-switcher";
+import { CustomProfileManager } from "@/components/custom-profile-manager";
+import { RangeConverter } from "@/components/network-tools/range-converter";
+import { CIDRAggregator } from "@/components/network-tools/cidr-aggregator";
+import { OverlapAnalyzer } from "@/components/network-tools/overlap-analyzer";
 import { SubnetSplitter } from "@/components/subnet-management/subnet-splitter";
 import { SubnetJoiner } from "@/components/subnet-management/subnet-joiner";
 import { SubnetTree } from "@/components/subnet-management/subnet-tree";
 import { SubnetList } from "@/components/subnet-management/subnet-list";
 import { SubnetExport } from "@/components/subnet-management/subnet-export";
+import { SubnetImport } from "@/components/subnet-management/subnet-import";
+import { SubnetExcluder } from "@/components/subnet-management/subnet-excluder";
+import { VlsmPlanner } from "@/components/subnet-management/vlsm-planner";
+import { DistributionPlanner } from "@/components/subnet-management/distribution-planner";
+import { KubernetesPlanner } from "@/components/subnet-management/kubernetes-planner";
+import { AddressPlanner } from "@/components/subnet-management/address-planner";
+import { FreeSpaceFinder } from "@/components/subnet-management/free-space-finder";
+import { DualStackPlanner } from "@/components/subnet-management/dual-stack-planner";
+import { OperationHistoryPanel } from "@/components/subnet-management/operation-history";
 import { SubnetErrorBoundary } from "@/components/subnet-management/subnet-error-boundary";
 import {
   LoadingSpinner,
@@ -34,12 +93,6 @@ import {
   SubnetListSkeleton
 } from "@/components/subnet-management/loading-states";
 
-interface CloudReservation {
-  ip: string;
-  purpose: string;
-  description: string;
-}
-
 interface SubnetInfo {
   network: string;
   broadcast: string;
@@ -62,60 +115,6 @@ interface SubnetInfo {
   };
 }
 
-interface CloudProviderConfig {
-  name: string;
-  minCidr: number;
-  maxCidr: number;
-  reservedCount: number;
-  firstUsableOffset: number;
-  getReservations: (networkInt: number, broadcastInt: number, intToIp: (int: number) => string) => CloudReservation[];
-}
-
-// Cloud provider configurations
-const CLOUD_PROVIDERS: Record<Exclude<CloudMode, "normal">, CloudProviderConfig> = {
-  aws: {
-    name: "AWS",
-    minCidr: 16,
-    maxCidr: 28,
-    reservedCount: 5,
-    firstUsableOffset: 4,
-    getReservations: (networkInt, broadcastInt, intToIp) => [
-      { ip: intToIp(networkInt), purpose: "Network Address", description: "Network identifier (not assignable)" },
-      { ip: intToIp(networkInt + 1), purpose: "VPC Router", description: "Reserved for the VPC router" },
-      { ip: intToIp(networkInt + 2), purpose: "DNS Server", description: "Reserved for DNS server" },
-      { ip: intToIp(networkInt + 3), purpose: "Future Use", description: "Reserved for future use" },
-      { ip: intToIp(broadcastInt), purpose: "Broadcast Address", description: "Network broadcast address (not assignable)" }
-    ]
-  },
-  azure: {
-    name: "Azure",
-    minCidr: 8,
-    maxCidr: 29,
-    reservedCount: 5,
-    firstUsableOffset: 4,
-    getReservations: (networkInt, broadcastInt, intToIp) => [
-      { ip: intToIp(networkInt), purpose: "Network Address", description: "Network identifier (not assignable)" },
-      { ip: intToIp(networkInt + 1), purpose: "Default Gateway", description: "Reserved for default gateway" },
-      { ip: intToIp(networkInt + 2), purpose: "DNS Mapping", description: "Reserved for Azure DNS" },
-      { ip: intToIp(networkInt + 3), purpose: "DNS Mapping", description: "Reserved for Azure DNS" },
-      { ip: intToIp(broadcastInt), purpose: "Broadcast Address", description: "Network broadcast address (not assignable)" }
-    ]
-  },
-  gcp: {
-    name: "Google Cloud",
-    minCidr: 8,
-    maxCidr: 29,
-    reservedCount: 4,
-    firstUsableOffset: 2,
-    getReservations: (networkInt, broadcastInt, intToIp) => [
-      { ip: intToIp(networkInt), purpose: "Network Address", description: "Network identifier (not assignable)" },
-      { ip: intToIp(networkInt + 1), purpose: "Default Gateway", description: "Reserved for default gateway" },
-      { ip: intToIp(broadcastInt - 1), purpose: "Second-to-last IP", description: "Reserved by Google Cloud" },
-      { ip: intToIp(broadcastInt), purpose: "Broadcast Address", description: "Network broadcast address (not assignable)" }
-    ]
-  }
-};
-
 export default function SubnetCalculator() {
   const [ipAddress, setIpAddress] = useState("192.168.1.0");
   const [cidr, setCidr] = useState("24");
@@ -129,7 +128,7 @@ export default function SubnetCalculator() {
   // Subnet Management State - Enhanced for advanced subnet management
   const [splitSubnets, setSplitSubnets] = useState<SplitSubnet[]>([]);
   const [selectedSubnets, setSelectedSubnets] = useState<Set<string>>(new Set());
-  // const [splitHistory, setSplitHistory] = useState<SubnetOperation[]>([]);
+  const [operationHistory, setOperationHistory] = useState<OperationHistory>(() => createOperationHistory());
   const [isSubnetLoading, setIsSubnetLoading] = useState(false);
   const [subnetError, setSubnetError] = useState<string | null>(null);
 
@@ -140,13 +139,88 @@ export default function SubnetCalculator() {
   const [filterText, setFilterText] = useState<string>('');
   const [expandedNodes, setExpandedNodes] = useState<Set<string>>(new Set());
 
+  // Base network the current plan was built on; editing the inputs resets the plan against it
+  const planNetworkRef = useRef<BaseNetworkInput>({ ipAddress, cidr, ipVersion });
+
+  // IPv6 block paired with the IPv4 plan; empty when the plan is IPv4 only
+  const [dualStackIPv6, setDualStackIPv6] = useState('');
+
   // Performance optimization: debounced validation and calculation
   const [isValidating, setIsValidating] = useState(false);
 
+  // A plan restored from a shared link or saved project waits until its base network is calculated
+  const [pendingRestoredState, setPendingRestoredState] = useState<ShareableCalculatorState | null>(null);
+  const [shareLinkCopied, setShareLinkCopied] = useState(false);
+
+  // Saved projects; storage stays read-only until loaded, or when it holds a newer schema
+  const [projectStore, setProjectStore] = useState<ProjectStore>(() => createEmptyProjectStore());
+  const [projectStorageWritable, setProjectStorageWritable] = useState(false);
+
+  // User-defined platform profiles, registered as cloud providers under "custom:" modes
+  const [customProfiles, setCustomProfiles] = useState<CustomCloudProfile[]>([]);
+  const [customProfilesWritable, setCustomProfilesWritable] = useState(false);
+
   useEffect(() => {
     setMounted(true);
   }, []);
 
+  // Register profiles before the calculation effects below run with them
+  useEffect(() => {
+    registerCustomProfiles(customProfiles);
+  }, [customProfiles]);
+
+  const restoreCalculatorState = useCallback((state: ShareableCalculatorState) => {
+    // A plan in a custom profile mode brings the profile along when this browser does not have it
+    const sharedProfile = state.customProfile;
+    if (sharedProfile) {
+      setCustomProfiles(prev => prev.some(profile => profile.id === sharedProfile.id) ? prev : [...prev, sharedProfile]);
+    }
+    setIpVersion(state.ipVersion);
+    setIpAddress(state.ipAddress);
+    setCidr(state.cidr);
+    setMode(state.mode);
+    setDualStackIPv6(state.dualStackIPv6 || '');
+    setPendingRestoredState(state);
+  }, []);
+
+  // Restore calculator state on load: a shared link takes precedence over the last open project
+  useEffect(() => {
+    // Profiles are registered first so saved projects in a custom mode load with its reservations
+    const profileResult = loadCustomProfiles();
+    registerCustomProfiles(profileResult.profiles);
+    const { store, writable, warnings } = loadProjectStore();
+    const token = getShareTokenFromHash(window.location.hash);
+    const activeProject = getActiveProject(store);
+
+    setProjectStorageWritable(writable);
+    setCustomProfilesWritable(profileResult.writable);
+    setCustomProfiles(profileResult.profiles);
+    if (warnings.length > 0 || profileResult.warnings.length > 0) {
+      setSubnetError([...warnings, ...profileResult.warnings].join('. '));
+    }
+
+    if (token) {
+      // A shared plan opens unsaved so it never overwrites the last open project
+      setProjectStore(setActiveProject(store, null));
+      let sharedState = decodeShareState(token);
+      if (sharedState?.customProfile && !findCustomProfile(profileResult.profiles, sharedState.mode)) {
+        // Decode again once the shared profile is registered so its reservations apply to the subnets
+        registerCustomProfiles([...profileResult.profiles, sharedState.customProfile]);
+        sharedState = decodeShareState(token);
+      }
+      if (!sharedState) {
+        setSubnetError('The shared link is invalid or was created by an incompatible version and could not be restored');
+        return;
+      }
+      restoreCalculatorState(sharedState);
+    } else {
+      setProjectStore(store);
+      if (activeProject) {
+        restoreCalculatorState(activeProject.state);
+      }
+    }
+  }, [restoreCalculatorState]);
+
   const validateIP = useCallback((ip: string): boolean => {
     if (ipVersion === "ipv4") {
       const parts = ip.split(".");
@@ -172,7 +246,7 @@ export default function SubnetCalculator() {
       return num >= 0 && num <= 32;
     }
 
-    const provider = CLOUD_PROVIDERS[mode as keyof typeof CLOUD_PROVIDERS];
+    const provider = getCloudProvider(mode);
     return provider ? num >= provider.minCidr && num <= provider.maxCidr : false;
   }, [mode, ipVersion]);
 
@@ -230,7 +304,7 @@ export default function SubnetCalculator() {
             } else if (mode === "normal") {
               setError("CIDR must be between 0 and 32");
             } else {
-              const provider = CLOUD_PROVIDERS[mode as keyof typeof CLOUD_PROVIDERS];
+              const provider = getCloudProvider(mode);
               if (provider) {
                 const minHosts = Math.pow(2, 32 - provider.maxCidr);
                 setError(`${provider.name} subnets require CIDR between /${provider.minCidr} and /${provider.maxCidr} (minimum ${minHosts} IP addresses)`);
@@ -268,53 +342,147 @@ export default function SubnetCalculator() {
   };
 
   // Subnet Management State Update Functions - Enhanced for task 4.2
+  const dualStackBlock = useMemo(() => {
+    if (!dualStackIPv6 || ipVersion !== "ipv4") {
+      return null;
+    }
+    try {
+      return parseDualStackBlock(dualStackIPv6, mode as CloudMode);
+    } catch {
+      return null;
+    }
+  }, [dualStackIPv6, ipVersion, mode]);
+
+  // Applies the result of a subnet operation and records it for undo/redo
+  // In a dual-stack plan, new leaf subnets are paired with their IPv6 /64 first
+  const commitSubnetOperation = useCallback((nextSubnets: SplitSubnet[], operation: SubnetOperation) => {
+    const subnets = dualStackBlock && subnetInfo
+      ? assignDualStackPairs(nextSubnets, subnetInfo.network, dualStackBlock).subnets
+      : nextSubnets;
+    setSplitSubnets(subnets);
+    setOperationHistory(prev => recordOperation(prev, operation, subnets));
+  }, [dualStackBlock, subnetInfo]);
+
   const addSplitSubnets = useCallback((newSubnets: SplitSubnet[], operation: SubnetOperation) => {
     setIsSubnetLoading(true);
     try {
-      if (operation.type === 'split') {
-        // For split operations, replace existing subnets to avoid duplicates
-        // This handles the case where user clicks "Split Subnets" multiple times
-        setSplitSubnets(newSubnets);
+      if (operation.type === 'split' || operation.type === 'exclude' || operation.type === 'allocate') {
+        // Split, exclude and allocate operations hand over the complete plan, so it replaces the current subnets
+        // Exclusions and allocations carve the current plan; a split starts a new one from the parent network
+        commitSubnetOperation(newSubnets, operation);
         // Clear selection since we're replacing all subnets
         setSelectedSubnets(new Set());
       } else {
-        // For other operations (like join results), append to existing
-        setSplitSubnets(prev => [...prev, ...newSubnets]);
+        // For other operations, append to existing
+        commitSubnetOperation([...splitSubnets, ...newSubnets], operation);
       }
-      // setSplitHistory(prev => [...prev, operation]); // Commented out as splitHistory state is not active
       setSubnetError(null);
     } catch (error) {
       setSubnetError(error instanceof Error ? error.message : 'Failed to add split subnets');
     } finally {
       setIsSubnetLoading(false);
     }
-  }, []);
+  }, [splitSubnets, commitSubnetOperation]);
 
-  const removeSubnets = useCallback((subnetIds: string[], operation: SubnetOperation) => {
+  const importSubnetPlan = useCallback((importedSubnets: SplitSubnet[], operation: SubnetOperation) => {
+    try {
+      // Imported plans replace the current subnets, like a split of the parent network
+      commitSubnetOperation(importedSubnets, operation);
+      setSelectedSubnets(new Set());
+      setExpandedNodes(new Set());
+      setSubnetError(null);
+    } catch (error) {
+      setSubnetError(error instanceof Error ? error.message : 'Failed to import subnet plan');
+    }
+  }, [commitSubnetOperation]);
+
+  const joinSubnetGroups = useCallback((joinedSubnets: SplitSubnet[], operation: SubnetOperation) => {
     setIsSubnetLoading(true);
     try {
-      setSplitSubnets(prev => prev.filter(subnet => !subnetIds.includes(subnet.id)));
+      // Replace the joined source subnets with the new subnets in a single recorded operation
+      const sourceIds = new Set(operation.sourceSubnets);
+      commitSubnetOperation(
+        [...splitSubnets.filter(subnet => !sourceIds.has(subnet.id)), ...joinedSubnets],
+        { ...operation, type: 'join', resultSubnets: joinedSubnets }
+      );
       setSelectedSubnets(prev => {
         const newSelected = new Set(prev);
-        subnetIds.forEach(id => newSelected.delete(id));
+        sourceIds.forEach(id => newSelected.delete(id));
         return newSelected;
       });
-      // setSplitHistory(prev => [...prev, operation]); // Commented out as splitHistory state is not active
       setSubnetError(null);
     } catch (error) {
-      setSubnetError(error instanceof Error ? error.message : 'Failed to remove subnets');
+      setSubnetError(error instanceof Error ? error.message : 'Failed to join subnets');
     } finally {
       setIsSubnetLoading(false);
     }
-  }, []);
+  }, [splitSubnets, commitSubnetOperation]);
 
+  const joinSubnets = useCallback((joinedSubnet: SplitSubnet, operation: SubnetOperation) => {
+    joinSubnetGroups([joinedSubnet], operation);
+  }, [joinSubnetGroups]);
 
+  // Replaces a subnet's name and metadata as a recorded operation so edits can be undone
+  const updateSubnetDetails = useCallback((updatedSubnet: SplitSubnet) => {
+    try {
+      const previous = splitSubnets.find(subnet => subnet.id === updatedSubnet.id);
+      const name = `${updatedSubnet.label ? `${updatedSubnet.label} ` : ''}${updatedSubnet.network}/${updatedSubnet.cidr}`;
+      const status = getSubnetStatus(updatedSubnet);
+      commitSubnetOperation(
+        splitSubnets.map(subnet => (subnet.id === updatedSubnet.id ? updatedSubnet : subnet)),
+        {
+          id: generateOperationId('edit'),
+          type: 'edit',
+          timestamp: Date.now(),
+          sourceSubnets: [updatedSubnet.id],
+          resultSubnets: [updatedSubnet],
+          description: previous && getSubnetStatus(previous) !== status
+            ? `Marked ${name} as ${status}`
+            : `Edited details of ${name}`,
+          ipVersion,
+          cloudMode: mode as CloudMode
+        }
+      );
+      setSubnetError(null);
+    } catch (error) {
+      setSubnetError(error instanceof Error ? error.message : 'Failed to update subnet details');
+    }
+  }, [splitSubnets, ipVersion, mode, commitSubnetOperation]);
 
+  // Sets or removes the dual-stack IPv6 block; the plan is re-paired from scratch as a recorded operation
+  const updateDualStackBlock = useCallback((nextBlock: string) => {
+    try {
+      const block = nextBlock ? parseDualStackBlock(nextBlock, mode as CloudMode) : null;
+      const formatted = block ? `${block.network}/${block.prefix}` : '';
+      setDualStackIPv6(formatted);
+
+      if (splitSubnets.length > 0 && subnetInfo) {
+        const cleared = clearDualStackPairs(splitSubnets);
+        const nextSubnets = block ? assignDualStackPairs(cleared, subnetInfo.network, block).subnets : cleared;
+        setSplitSubnets(nextSubnets);
+        setOperationHistory(prev => recordOperation(prev, {
+          id: generateOperationId('edit'),
+          type: 'edit',
+          timestamp: Date.now(),
+          sourceSubnets: splitSubnets.map(subnet => subnet.id),
+          resultSubnets: nextSubnets.filter(subnet => subnet.pairedIPv6),
+          description: block ? `Paired subnets with ${formatted}` : 'Removed IPv6 pairs',
+          ipVersion,
+          cloudMode: mode as CloudMode
+        }, nextSubnets));
+      }
+      setSubnetError(null);
+    } catch (error) {
+      setSubnetError(error instanceof Error ? error.message : 'Failed to update the dual-stack block');
+    }
+  }, [splitSubnets, subnetInfo, ipVersion, mode]);
+
+  // Clears all subnet management state, including history; used to recover from a subnet management error
   const resetSubnetManagement = useCallback(() => {
     try {
       setSplitSubnets([]);
       setSelectedSubnets(new Set());
-      // setSplitHistory([]);
+      setOperationHistory(createOperationHistory());
       setIsSubnetLoading(false);
       setSubnetError(null);
       setCurrentView('list');
@@ -328,6 +496,49 @@ export default function SubnetCalculator() {
     }
   }, []);
 
+  // Removes all subnets as a recorded operation so it can be undone
+  const resetAllSubnets = useCallback(() => {
+    try {
+      commitSubnetOperation([], {
+        id: generateOperationId('reset'),
+        type: 'reset',
+        timestamp: Date.now(),
+        sourceSubnets: splitSubnets.map(subnet => subnet.id),
+        resultSubnets: [],
+        description: `Reset ${splitSubnets.length} subnet${splitSubnets.length === 1 ? '' : 's'}`,
+        ipVersion,
+        cloudMode: mode as CloudMode
+      });
+      setSelectedSubnets(new Set());
+      setExpandedNodes(new Set());
+      setSubnetError(null);
+    } catch (error) {
+      setSubnetError(error instanceof Error ? error.message : 'Failed to reset subnets');
+    }
+  }, [splitSubnets, ipVersion, mode, commitSubnetOperation]);
+
+  // Restores the subnet list at any point in the operation history
+  const restoreHistoryPosition = useCallback((position: number) => {
+    const nextHistory = jumpToPosition(operationHistory, position);
+    if (nextHistory === operationHistory) {
+      return;
+    }
+
+    // Undoing or redoing a reset caused by editing the base network brings its inputs back too
+    const baseNetwork = getBaseNetworkAtPosition(operationHistory, position);
+    if (baseNetwork) {
+      planNetworkRef.current = baseNetwork;
+      setIpVersion(baseNetwork.ipVersion);
+      setIpAddress(baseNetwork.ipAddress);
+      setCidr(baseNetwork.cidr);
+    }
+
+    setOperationHistory(nextHistory);
+    setSplitSubnets(getCurrentSubnets(nextHistory));
+    setSelectedSubnets(new Set());
+    setSubnetError(null);
+  }, [operationHistory]);
+
 
 
   const selectAllSubnets = useCallback(() => {
@@ -410,7 +621,7 @@ export default function SubnetCalculator() {
         } else if (mode === "normal") {
           setError("CIDR must be between 0 and 32");
         } else {
-          const provider = CLOUD_PROVIDERS[mode as keyof typeof CLOUD_PROVIDERS];
+          const provider = getCloudProvider(mode);
           if (provider) {
             const minHosts = Math.pow(2, 32 - provider.maxCidr);
             setError(`${provider.name} subnets require CIDR between /${provider.minCidr} and /${provider.maxCidr} (minimum ${minHosts} IP addresses)`);
@@ -430,7 +641,13 @@ export default function SubnetCalculator() {
         const compressedFirstHost = compressIPv6(ipv6Subnet.firstHost);
         const compressedLastHost = compressIPv6(ipv6Subnet.lastHost);
 
-        const calculatedIPv6Subnet = {
+        const cloudError = validateCloudIPv6Network(compressedNetwork, cidrNum, mode as CloudMode);
+        if (cloudError) {
+          setError(cloudError);
+          return;
+        }
+
+        const calculatedIPv6Subnet: SubnetInfo = {
           network: compressedNetwork,
           broadcast: "N/A (IPv6 has no broadcast address)",
           firstHost: compressedFirstHost,
@@ -442,13 +659,28 @@ export default function SubnetCalculator() {
           cidr: `/${cidr}`,
           // Store additional IPv6-specific information for enhanced display
           ipv6Info: {
-            addressType: ipv6Summary.addressType,
+            // Address type of the network from the IANA special-purpose registry
+            addressType: classifyAddressSpace(compressedNetwork, cidrNum).type,
             hostBits: ipv6Summary.hostBits,
             totalAddressesFormatted: ipv6Summary.totalAddresses,
             usableAddressesFormatted: ipv6Summary.usableAddresses
           }
         };
 
+        // Apply cloud provider IPv6 reservations
+        const provider = getCloudProvider(mode);
+        if (provider) {
+          const cloudDetails = calculateSubnetDetailsFromNetwork(compressedNetwork, cidrNum, "ipv6", mode as CloudMode);
+          calculatedIPv6Subnet.firstHost = cloudDetails.firstHost;
+          calculatedIPv6Subnet.lastHost = cloudDetails.lastHost;
+          calculatedIPv6Subnet.usableHosts = cloudDetails.usableHosts;
+          calculatedIPv6Subnet.ipv6Info!.usableAddressesFormatted = cloudDetails.ipv6Info!.usableAddressesFormatted;
+          calculatedIPv6Subnet.cloudReserved = {
+            provider: provider.name,
+            reservations: cloudDetails.cloudReserved || []
+          };
+        }
+
         setSubnetInfo(calculatedIPv6Subnet);
         return;
       }
@@ -558,7 +790,7 @@ export default function SubnetCalculator() {
       }
 
       const firstHostInt = networkInt + 1;
-      const lastHostInt = broadcastInt - 1;
+      let lastHostInt = broadcastInt - 1;
 
       let cloudReserved = undefined;
       let firstUsableHost: string;
@@ -573,7 +805,7 @@ export default function SubnetCalculator() {
 
       // Enhanced cloud provider handling with comprehensive error checking
       if (mode !== "normal") {
-        const provider = CLOUD_PROVIDERS[mode as keyof typeof CLOUD_PROVIDERS];
+        const provider = getCloudProvider(mode);
         if (provider) {
           try {
             // Validate that subnet is large enough for cloud provider requirements
@@ -584,14 +816,15 @@ export default function SubnetCalculator() {
 
             usableHosts = Math.max(0, totalHosts - provider.reservedCount);
 
-            // Enhanced validation for first usable offset
-            const firstUsableOffset = networkInt + provider.firstUsableOffset;
-            if (firstUsableOffset > broadcastInt || firstUsableOffset < networkInt) {
+            // First and last usable addresses outside the provider's reservations
+            const usableRange = getUsableHostRange(provider, networkInt, broadcastInt);
+            if (!usableRange) {
               setError(`${provider.name} subnet configuration error: insufficient IP addresses for required reservations`);
               return;
             }
 
-            firstUsableHost = intToIp(firstUsableOffset);
+            firstUsableHost = intToIp(usableRange.first);
+            lastHostInt = usableRange.last;
 
             // Enhanced cloud reservation generation with error handling
             try {
@@ -710,7 +943,7 @@ export default function SubnetCalculator() {
     if (ipAddress && cidr && !isValidating) {
       throttledCalculateSubnet();
     }
-  }, [ipAddress, cidr, mode, ipVersion, throttledCalculateSubnet, isValidating]);
+  }, [ipAddress, cidr, mode, ipVersion, throttledCalculateSubnet, isValidating, customProfiles]);
 
   // Handle input changes with debounced validation
   const handleIPAddressChange = useCallback((value: string) => {
@@ -723,11 +956,36 @@ export default function SubnetCalculator() {
     debouncedValidateCIDR(value);
   }, [debouncedValidateCIDR]);
 
-  // Reset subnet management when main calculation changes (Task 9.2)
+  // Editing the base network clears the plan as a recorded reset, so undo restores both (Task 9.2)
   useEffect(() => {
-    // Reset subnet management when IP address or CIDR changes
-    resetSubnetManagement();
-  }, [ipAddress, cidr, resetSubnetManagement]);
+    const previous = planNetworkRef.current;
+    if (previous.ipAddress === ipAddress && previous.cidr === cidr && previous.ipVersion === ipVersion) {
+      return;
+    }
+    planNetworkRef.current = { ipAddress, cidr, ipVersion };
+    if (splitSubnets.length === 0) {
+      return;
+    }
+
+    try {
+      commitSubnetOperation([], {
+        id: generateOperationId('reset'),
+        type: 'reset',
+        timestamp: Date.now(),
+        sourceSubnets: splitSubnets.map(subnet => subnet.id),
+        resultSubnets: [],
+        description: `Reset ${splitSubnets.length} subnet${splitSubnets.length === 1 ? '' : 's'} when the base network changed to ${ipAddress}/${cidr}`,
+        ipVersion: previous.ipVersion,
+        cloudMode: mode as CloudMode,
+        baseNetworkChange: { from: previous, to: { ipAddress, cidr, ipVersion } }
+      });
+      setSelectedSubnets(new Set());
+      setExpandedNodes(new Set());
+      setSubnetError(null);
+    } catch (error) {
+      setSubnetError(error instanceof Error ? error.message : 'Failed to reset subnets');
+    }
+  }, [ipAddress, cidr, ipVersion, mode, splitSubnets, commitSubnetOperation]);
 
   // Recalculate split subnets when cloud provider mode changes (Task 9.2)
   useEffect(() => {
@@ -743,7 +1001,7 @@ export default function SubnetCalculator() {
             let cloudReserved = undefined;
 
             if (mode !== "normal") {
-              const provider = CLOUD_PROVIDERS[mode as keyof typeof CLOUD_PROVIDERS];
+              const provider = getCloudProvider(mode);
               if (provider) {
                 usableHosts = Math.max(0, subnet.totalHosts - provider.reservedCount);
 
@@ -770,7 +1028,167 @@ export default function SubnetCalculator() {
         setIsSubnetLoading(false);
       }
     }
-  }, [mode, subnetInfo, ipVersion, splitSubnets.length]);
+  }, [mode, subnetInfo, ipVersion, splitSubnets.length, customProfiles]);
+
+  // Apply the restored split hierarchy once the shared base network has been calculated
+  useEffect(() => {
+    if (!pendingRestoredState || !subnetInfo) {
+      return;
+    }
+
+    const baseNetworkId = getBaseNetworkId(
+      pendingRestoredState.ipAddress,
+      parseInt(pendingRestoredState.cidr),
+      pendingRestoredState.ipVersion
+    );
+    if (subnetInfo.network + subnetInfo.cidr !== baseNetworkId) {
+      return;
+    }
+
+    // History covers the current session, so a restored plan starts a new one
+    setSplitSubnets(pendingRestoredState.splitSubnets);
+    setOperationHistory(createOperationHistory(pendingRestoredState.splitSubnets));
+    setSelectedSubnets(new Set());
+    setExpandedNodes(new Set(pendingRestoredState.expandedNodes));
+    setPendingRestoredState(null);
+  }, [pendingRestoredState, subnetInfo]);
+
+  const currentCalculatorState = useMemo<ShareableCalculatorState>(() => {
+    const customProfile = findCustomProfile(customProfiles, mode);
+    return {
+      ipAddress,
+      cidr,
+      mode: mode as CloudMode,
+      ipVersion,
+      splitSubnets,
+      expandedNodes: Array.from(expandedNodes),
+      ...(dualStackIPv6 ? { dualStackIPv6 } : {}),
+      ...(customProfile ? { customProfile } : {})
+    };
+  }, [ipAddress, cidr, mode, ipVersion, splitSubnets, expandedNodes, dualStackIPv6, customProfiles]);
+
+  // Keep the URL fragment in sync so a refresh restores the current plan
+  useEffect(() => {
+    if (!mounted || pendingRestoredState || !subnetInfo || error) {
+      return;
+    }
+
+    const timeoutId = setTimeout(() => {
+      try {
+        const token = encodeShareState(currentCalculatorState);
+        window.history.replaceState(window.history.state, '', `#${SHARE_STATE_PARAM}=${token}`);
+      } catch (error) {
+        console.warn('Failed to update shareable link:', error);
+      }
+    }, 500);
+
+    return () => clearTimeout(timeoutId);
+  }, [mounted, pendingRestoredState, subnetInfo, error, currentCalculatorState]);
+
+  const copyShareLink = useCallback(async () => {
+    try {
+      if (!navigator.clipboard) {
+        throw new Error('Clipboard API not available');
+      }
+
+      await navigator.clipboard.writeText(buildShareURL(currentCalculatorState, window.location));
+
+      setShareLinkCopied(true);
+      setTimeout(() => setShareLinkCopied(false), 2000);
+    } catch (error) {
+      setSubnetError(error instanceof Error ? error.message : 'Failed to copy shareable link');
+    }
+  }, [currentCalculatorState]);
+
+  // Persist saved projects whenever they change
+  useEffect(() => {
+    if (!projectStorageWritable) {
+      return;
+    }
+
+    if (!saveProjectStore(projectStore)) {
+      setSubnetError('Projects could not be saved because browser storage is full or unavailable');
+    }
+  }, [projectStore, projectStorageWritable]);
+
+  // A plan cleared by editing the base network is not autosaved until another operation confirms it,
+  // so a stray keystroke cannot overwrite the saved project; undo brings the plan back
+  const hasUnconfirmedReset = Boolean(operationHistory.entries[operationHistory.position - 1]?.operation.baseNetworkChange);
+
+  // Autosave the calculator state into the open project
+  useEffect(() => {
+    const activeProjectId = projectStore.activeProjectId;
+    if (!mounted || !projectStore.autoSave || !activeProjectId || pendingRestoredState || !subnetInfo || error || hasUnconfirmedReset) {
+      return;
+    }
+
+    const timeoutId = setTimeout(() => {
+      setProjectStore(prev => updateProjectState(prev, activeProjectId, currentCalculatorState));
+    }, 1000);
+
+    return () => clearTimeout(timeoutId);
+  }, [mounted, projectStore.autoSave, projectStore.activeProjectId, pendingRestoredState, subnetInfo, error, hasUnconfirmedReset, currentCalculatorState]);
+
+  // Persist custom profiles whenever they change
+  useEffect(() => {
+    if (!customProfilesWritable) {
+      return;
+    }
+
+    if (!saveCustomProfiles(customProfiles)) {
+      setSubnetError('Custom profiles could not be saved because browser storage is full or unavailable');
+    }
+  }, [customProfiles, customProfilesWritable]);
+
+  // Deleting the profile in use switches the calculator back to normal subnetting
+  const updateCustomProfiles = useCallback((profiles: CustomCloudProfile[]) => {
+    setCustomProfiles(profiles);
+    if (isCustomCloudMode(mode) && !findCustomProfile(profiles, mode)) {
+      setMode("normal");
+    }
+  }, [mode]);
+
+  const openProject = useCallback((project: SavedProject) => {
+    setProjectStore(prev => setActiveProject(prev, project.id));
+    restoreCalculatorState(project.state);
+  }, [restoreCalculatorState]);
+
+  // Load a block produced by one of the network tools into the calculator
+  const openCIDRBlock = useCallback((block: CIDRBlock) => {
+    setIpVersion(block.ipVersion);
+    setIpAddress(block.network);
+    setCidr(block.prefix.toString());
+  }, []);
+
+  // The calculated network and its subnets, named after the open project, for overlap analysis
+  const currentAnalyzedNetwork = useMemo((): AnalyzedNetwork | null => {
+    if (!subnetInfo || error) {
+      return null;
+    }
+    const activeProject = projectStore.projects.find(project => project.id === projectStore.activeProjectId);
+    return {
+      name: activeProject?.name.replace(/:/g, "") || "current",
+      cidr: `${subnetInfo.network}${subnetInfo.cidr}`,
+      subnets: splitSubnets.map(subnet => `${subnet.network}/${subnet.cidr}`)
+    };
+  }, [subnetInfo, error, splitSubnets, projectStore.projects, projectStore.activeProjectId]);
+
+  // Special-purpose registry entry of the calculated network, with warnings for planning with it
+  const addressSpace = useMemo(() => {
+    if (!subnetInfo) {
+      return null;
+    }
+    const prefix = parseInt(subnetInfo.cidr.replace("/", ""), 10);
+    return {
+      classification: classifyAddressSpace(subnetInfo.network, prefix),
+      warnings: getAddressSpaceWarnings(subnetInfo.network, prefix)
+    };
+  }, [subnetInfo]);
+
+  // The calculated network as the parent subnet the splitter and planners carve from
+  const planningParent = useMemo(() => {
+    return subnetInfo ? { ...subnetInfo, id: subnetInfo.network + subnetInfo.cidr, level: 0 } : null;
+  }, [subnetInfo]);
 
   // Update subnet management visibility based on calculation state (Task 9.2)
   const shouldShowSubnetManagement = useMemo(() => {
@@ -835,7 +1253,7 @@ export default function SubnetCalculator() {
         </div>
         <div className="max-w-4xl mx-auto space-y-3">
           <p className="text-base text-muted-foreground">
-            Calculate, split, and manage network subnets for <strong>AWS VPC</strong>, <strong>Azure VNet</strong>, and <strong>Google Cloud VPC</strong>.
+            Calculate, split, and manage network subnets for <strong>AWS VPC</strong>, <strong>Azure VNet</strong>, <strong>Google Cloud VPC</strong>, <strong>Oracle Cloud VCN</strong>, <strong>Alibaba Cloud VPC</strong>, <strong>DigitalOcean VPC</strong> and <strong>IBM Cloud VPC</strong>.
             Automatically handles cloud provider IP reservations and supports advanced subnet operations.
           </p>
           <div className="flex flex-wrap justify-center gap-4 text-sm text-muted-foreground">
@@ -860,108 +1278,138 @@ export default function SubnetCalculator() {
 
       {/* Side by side layout for Network Input and Subnet Information */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 sm:gap-6">
-        {/* Network Input Card - 1/3 width */}
-        <Card className="rounded-lg shadow-md lg:col-span-1">
-          <CardHeader className="p-3 pb-2 sm:p-4 sm:pb-3 lg:p-6 lg:pb-4">
-            <CardTitle className="text-lg font-medium">Network Configuration</CardTitle>
-            <CardDescription>
-              {ipVersion === "ipv4"
-                ? "Configure your IPv4 network parameters with CIDR notation. Select cloud provider mode for automatic IP reservation handling in AWS VPC, Azure VNet, or Google Cloud VPC environments."
-                : "Configure your IPv6 network with prefix length notation. Cloud providers typically use standardized /64 prefixes for IPv6 subnets with automatic address allocation."
-              }
-            </CardDescription>
-          </CardHeader>
-          <CardContent className="p-3 sm:p-4 lg:p-6 space-y-4">
-            <div className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="ipVersion">IP Version</Label>
-                <Select value={ipVersion} onValueChange={(value: IPVersion) => {
-                  setIpVersion(value);
-                  // Update default values when switching IP versions
-                  if (value === "ipv4") {
-                    setIpAddress("192.168.1.0");
-                    setCidr("24");
-                  } else {
-                    setIpAddress("2001:db8::1");
-                    setCidr("64");
-                  }
-                }}>
-                  <SelectTrigger className="w-full">
-                    <SelectValue placeholder="Select IP version" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="ipv4">IPv4</SelectItem>
-                    <SelectItem value="ipv6">IPv6</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="ip">IP Address</Label>
-                <Input
-                  id="ip"
-                  type="text"
-                  placeholder={ipVersion === "ipv4" ? "192.168.1.0" : "2001:db8::1"}
-                  value={ipAddress}
-                  onChange={(e) => handleIPAddressChange(e.target.value)}
-                  className="w-full"
-                />
-                {isValidating && (
-                  <div className="flex items-center gap-1 text-xs text-muted-foreground">
-                    <Loader2 className="h-3 w-3 animate-spin" />
-                    Validating...
-                  </div>
-                )}
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="cidr">CIDR Prefix</Label>
-                <Input
-                  id="cidr"
-                  type="number"
-                  min="0"
-                  max={ipVersion === "ipv4" ?
-                    (mode === "normal" ? "32" : CLOUD_PROVIDERS[mode as keyof typeof CLOUD_PROVIDERS]?.maxCidr || "32") :
-                    "128"
-                  }
-                  placeholder={ipVersion === "ipv4" ? "24" : "64"}
-                  value={cidr}
-                  onChange={(e) => handleCIDRChange(e.target.value)}
-                  className="w-full"
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="mode">Mode</Label>
-                <Select value={mode} onValueChange={setMode} disabled={ipVersion === "ipv6"}>
-                  <SelectTrigger className="w-full">
-                    <SelectValue placeholder="Select mode" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="normal">Normal Subnetting</SelectItem>
-                    {ipVersion === "ipv4" && (
-                      <>
-                        <SelectItem value="aws">AWS VPC Mode</SelectItem>
-                        <SelectItem value="azure">Azure VNet Mode</SelectItem>
-                        <SelectItem value="gcp">Google Cloud VPC Mode</SelectItem>
-                      </>
-                    )}
-                  </SelectContent>
-                </Select>
-                {ipVersion === "ipv6" && (
-                  <p className="text-xs text-muted-foreground">
-                    Cloud providers use fixed /64 prefixes for IPv6 subnets
-                  </p>
-                )}
+        {/* Network Input and Projects - 1/3 width */}
+        <div className="lg:col-span-1 space-y-4 sm:space-y-6">
+          <Card className="rounded-lg shadow-md">
+            <CardHeader className="p-3 pb-2 sm:p-4 sm:pb-3 lg:p-6 lg:pb-4">
+              <CardTitle className="text-lg font-medium">Network Configuration</CardTitle>
+              <CardDescription>
+                {ipVersion === "ipv4"
+                  ? "Configure your IPv4 network parameters with CIDR notation. Select cloud provider mode for automatic IP reservation handling in AWS, Azure, Google Cloud, Oracle Cloud, Alibaba Cloud, DigitalOcean or IBM Cloud networks."
+                  : "Configure your IPv6 network with prefix length notation. Cloud providers typically use standardized /64 prefixes for IPv6 subnets with automatic address allocation."
+                }
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-3 sm:p-4 lg:p-6 space-y-4">
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="ipVersion">IP Version</Label>
+                  <Select value={ipVersion} onValueChange={(value: IPVersion) => {
+                    setIpVersion(value);
+                    // Update default values when switching IP versions
+                    if (value === "ipv4") {
+                      setIpAddress("192.168.1.0");
+                      setCidr("24");
+                    } else {
+                      setIpAddress("2001:db8::1");
+                      setCidr("64");
+                    }
+                  }}>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Select IP version" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="ipv4">IPv4</SelectItem>
+                      <SelectItem value="ipv6">IPv6</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ip">IP Address</Label>
+                  <Input
+                    id="ip"
+                    type="text"
+                    placeholder={ipVersion === "ipv4" ? "192.168.1.0" : "2001:db8::1"}
+                    value={ipAddress}
+                    onChange={(e) => handleIPAddressChange(e.target.value)}
+                    className="w-full"
+                  />
+                  {isValidating && (
+                    <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                      Validating...
+                    </div>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="cidr">CIDR Prefix</Label>
+                  <Input
+                    id="cidr"
+                    type="number"
+                    min="0"
+                    max={ipVersion === "ipv4" ?
+                      (mode === "normal" ? "32" : getCloudProvider(mode)?.maxCidr || "32") :
+                      "128"
+                    }
+                    placeholder={ipVersion === "ipv4" ? "24" : "64"}
+                    value={cidr}
+                    onChange={(e) => handleCIDRChange(e.target.value)}
+                    className="w-full"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="mode">Mode</Label>
+                  <Select value={mode} onValueChange={setMode}>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Select mode" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="normal">Normal Subnetting</SelectItem>
+                      {CLOUD_PROVIDER_IDS.map(id => (
+                        <SelectItem key={id} value={id}>{CLOUD_PROVIDERS[id].modeLabel}</SelectItem>
+                      ))}
+                      {customProfiles.map(profile => (
+                        <SelectItem key={profile.id} value={getCustomProfileMode(profile)}>{profile.name} (Custom)</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {ipVersion === "ipv6" && getCloudProvider(mode) && (
+                    <p className="text-xs text-muted-foreground">
+                      {getCloudProvider(mode)!.ipv6.summary}
+                    </p>
+                  )}
+                </div>
               </div>
-            </div>
 
-            {error && (
-              <div className="text-red-500 text-sm">{error}</div>
-            )}
+              {error && (
+                <div className="text-red-500 text-sm">{error}</div>
+              )}
+
+              <Button onClick={calculateSubnet} className="w-full" size="lg">
+                Calculate Subnet
+              </Button>
+
+              <Button
+                onClick={copyShareLink}
+                variant="outline"
+                className="w-full"
+                disabled={!subnetInfo || !!error}
+                aria-label="Copy a link that restores this network and its subnet plan"
+              >
+                {shareLinkCopied ? (
+                  <Check className="h-4 w-4 mr-2" aria-hidden="true" />
+                ) : (
+                  <Link2 className="h-4 w-4 mr-2" aria-hidden="true" />
+                )}
+                {shareLinkCopied ? 'Link Copied' : 'Copy Share Link'}
+              </Button>
+            </CardContent>
+          </Card>
 
-            <Button onClick={calculateSubnet} className="w-full" size="lg">
-              Calculate Subnet
-            </Button>
-          </CardContent>
-        </Card>
+          <ProjectSwitcher
+            store={projectStore}
+            currentState={currentCalculatorState}
+            onStoreChange={setProjectStore}
+            onOpenProject={openProject}
+            disabled={!mounted || !projectStorageWritable || !!pendingRestoredState}
+          />
+
+          <CustomProfileManager
+            profiles={customProfiles}
+            onProfilesChange={updateCustomProfiles}
+            disabled={!mounted || !customProfilesWritable}
+          />
+        </div>
 
         {/* Subnet Information Card - 2/3 width */}
         {subnetInfo && (
@@ -981,7 +1429,7 @@ export default function SubnetCalculator() {
                     }
 
                     if (mode !== "normal") {
-                      description += `. Cloud provider mode (${CLOUD_PROVIDERS[mode as keyof typeof CLOUD_PROVIDERS]?.name}) automatically accounts for reserved IP addresses`;
+                      description += `. Cloud provider mode (${getCloudProvider(mode)?.name}) automatically accounts for reserved IP addresses`;
                     }
                   } else if (ipVersion === "ipv6") {
                     description += ". IPv6 subnet with 128-bit address space and no broadcast addressing";
@@ -1050,6 +1498,18 @@ export default function SubnetCalculator() {
                     <TableCell className="font-medium">CIDR Notation</TableCell>
                     <TableCell>{subnetInfo.network}{subnetInfo.cidr}</TableCell>
                   </TableRow>
+                  {addressSpace && (
+                    <>
+                      <TableRow>
+                        <TableCell className="font-medium">Address Space</TableCell>
+                        <TableCell>{formatAddressSpace(addressSpace.classification)}</TableCell>
+                      </TableRow>
+                      <TableRow>
+                        <TableCell className="font-medium">Registry Flags</TableCell>
+                        <TableCell>{formatAddressSpaceFlags(addressSpace.classification)}</TableCell>
+                      </TableRow>
+                    </>
+                  )}
                   {subnetInfo.ipv6Info && (
                     <>
                       <TableRow>
@@ -1064,6 +1524,17 @@ export default function SubnetCalculator() {
                   )}
                 </TableBody>
               </Table>
+
+              {addressSpace && addressSpace.warnings.length > 0 && (
+                <Alert className="mt-4">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    {addressSpace.warnings.map(warning => (
+                      <p key={warning}>{warning}</p>
+                    ))}
+                  </AlertDescription>
+                </Alert>
+              )}
             </CardContent>
           </Card>
         )}
@@ -1104,7 +1575,7 @@ export default function SubnetCalculator() {
           )}
 
           {/* Advanced Subnet Management Section - Updated for Task 9.2 */}
-          {shouldShowSubnetManagement && (
+          {shouldShowSubnetManagement && planningParent && (
             <Card className="rounded-lg shadow-md">
               <CardHeader className="p-3 pb-2 sm:p-4 sm:pb-3 lg:p-6 lg:pb-4">
                 <CardTitle className="text-lg font-medium flex items-center justify-between">
@@ -1122,7 +1593,7 @@ export default function SubnetCalculator() {
                       <Button
                         variant="outline"
                         size="sm"
-                        onClick={resetSubnetManagement}
+                        onClick={resetAllSubnets}
                         disabled={isSubnetLoading}
                         className="h-10 sm:h-8"
                       >
@@ -1134,7 +1605,7 @@ export default function SubnetCalculator() {
                 <CardDescription>
                   Split networks into smaller subnets, join adjacent subnets, and export configurations. 
                   View your subnets in list or tree format, select the ones you need, and export them in various formats for documentation or infrastructure as code.
-                  {mode !== "normal" && ` Cloud provider IP reservations for ${mode.toUpperCase()} are automatically calculated and applied.`}
+                  {getCloudProvider(mode) && ` Cloud provider IP reservations for ${getCloudProvider(mode)!.name} are automatically calculated and applied.`}
                 </CardDescription>
               </CardHeader>
               <CardContent className="p-3 sm:p-4 lg:p-6 space-y-4 sm:space-y-6">
@@ -1168,11 +1639,7 @@ export default function SubnetCalculator() {
                       <SubnetSplitterSkeleton />
                     ) : (
                       <SubnetSplitter
-                        parentSubnet={{
-                          ...subnetInfo,
-                          id: subnetInfo.network + subnetInfo.cidr,
-                          level: 0
-                        }}
+                        parentSubnet={planningParent}
                         ipVersion={ipVersion}
                         cloudMode={mode as CloudMode}
                         onSplit={addSplitSubnets}
@@ -1183,6 +1650,115 @@ export default function SubnetCalculator() {
                     )}
                   </div>
 
+                  {/* Dual-Stack Section */}
+                  <div className="space-y-4">
+                    <DualStackPlanner
+                      value={dualStackIPv6}
+                      subnets={splitSubnets}
+                      cloudMode={mode as CloudMode}
+                      onChange={updateDualStackBlock}
+                      disabled={isSubnetLoading}
+                    />
+                  </div>
+
+                  {/* VLSM Planning Section */}
+                  <div className="space-y-4">
+                    <VlsmPlanner
+                      parentSubnet={planningParent}
+                      ipVersion={ipVersion}
+                      cloudMode={mode as CloudMode}
+                      onPlan={addSplitSubnets}
+                      onError={(error: SubnetError) => setSubnetError(error.message)}
+                      disabled={isSubnetLoading}
+                    />
+                  </div>
+
+                  {/* Distribution Template Section */}
+                  <div className="space-y-4">
+                    <DistributionPlanner
+                      parentSubnet={planningParent}
+                      ipVersion={ipVersion}
+                      cloudMode={mode as CloudMode}
+                      onPlan={addSplitSubnets}
+                      onError={(error: SubnetError) => setSubnetError(error.message)}
+                      disabled={isSubnetLoading}
+                    />
+                  </div>
+
+                  {/* Kubernetes Planning Section */}
+                  <div className="space-y-4">
+                    <KubernetesPlanner
+                      parentSubnet={planningParent}
+                      ipVersion={ipVersion}
+                      cloudMode={mode as CloudMode}
+                      onPlan={addSplitSubnets}
+                      onError={(error: SubnetError) => setSubnetError(error.message)}
+                      disabled={isSubnetLoading}
+                    />
+                  </div>
+
+                  {/* Organization Address Plan Section */}
+                  <div className="space-y-4">
+                    <AddressPlanner
+                      parentSubnet={planningParent}
+                      ipVersion={ipVersion}
+                      cloudMode={mode as CloudMode}
+                      onPlan={addSplitSubnets}
+                      onError={(error: SubnetError) => setSubnetError(error.message)}
+                      disabled={isSubnetLoading}
+                    />
+                  </div>
+
+                  {/* Subnet Exclusion Section */}
+                  <div className="space-y-4">
+                    <SubnetExcluder
+                      parentSubnet={planningParent}
+                      subnets={splitSubnets}
+                      ipVersion={ipVersion}
+                      cloudMode={mode as CloudMode}
+                      onExclude={addSplitSubnets}
+                      onError={(error: SubnetError) => setSubnetError(error.message)}
+                      disabled={isSubnetLoading}
+                      maxSubnets={1000}
+                    />
+                  </div>
+
+                  {/* Free Space Section */}
+                  <div className="space-y-4">
+                    <FreeSpaceFinder
+                      parentSubnet={planningParent}
+                      subnets={splitSubnets}
+                      ipVersion={ipVersion}
+                      cloudMode={mode as CloudMode}
+                      onAllocate={addSplitSubnets}
+                      onError={(error: SubnetError) => setSubnetError(error.message)}
+                      disabled={isSubnetLoading}
+                    />
+                  </div>
+
+                  {/* Subnet Plan Import Section */}
+                  <div className="space-y-4">
+                    <SubnetImport
+                      parentSubnet={planningParent}
+                      ipVersion={ipVersion}
+                      cloudMode={mode as CloudMode}
+                      onImport={importSubnetPlan}
+                      onError={(error: SubnetError) => setSubnetError(error.message)}
+                      disabled={isSubnetLoading}
+                    />
+                  </div>
+
+                  {/* Operation History Section - Kept visible after a reset so it can be undone */}
+                  {operationHistory.entries.length > 0 && (
+                    <OperationHistoryPanel
+                      history={operationHistory}
+                      onUndo={() => restoreHistoryPosition(operationHistory.position - 1)}
+                      onRedo={() => restoreHistoryPosition(operationHistory.position + 1)}
+                      onJumpTo={restoreHistoryPosition}
+                      disabled={isSubnetLoading}
+                    />
+                  )}
+
                   {/* Subnet Management Controls - Only show when subnets exist */}
                   {splitSubnets.length > 0 && (
                     <>
@@ -1195,19 +1771,10 @@ export default function SubnetCalculator() {
                             availableSubnets={splitSubnets}
                             selectedSubnets={selectedSubnets}
                             ipVersion={ipVersion}
+                            cloudMode={mode as CloudMode}
                             onSelectionChange={setSelectedSubnets}
-                            onJoin={(joinedSubnet, operation) => {
-                              // Remove the joined subnets from the list
-                              const subnetIdsToRemove = operation.sourceSubnets;
-                              removeSubnets(subnetIdsToRemove, operation);
-
-                              // Add the new joined subnet
-                              addSplitSubnets([joinedSubnet], {
-                                ...operation,
-                                type: 'join',
-                                resultSubnets: [joinedSubnet]
-                              });
-                            }}
+                            onJoin={joinSubnets}
+                            onJoinAll={joinSubnetGroups}
                             onError={(error: SubnetError) => setSubnetError(error.message)}
                             disabled={isSubnetLoading}
                           />
@@ -1291,6 +1858,7 @@ Usable Hosts: ${subnet.usableHosts.toLocaleString()}`;
                                     setSubnetError('Failed to copy subnet information to clipboard');
                                   }
                                 }}
+                                onUpdateSubnet={updateSubnetDetails}
                                 sortBy={sortBy}
                                 sortOrder={sortOrder}
                                 filterText={filterText}
@@ -1323,6 +1891,7 @@ Usable Hosts: ${subnet.usableHosts.toLocaleString()}`;
                                     setSubnetError('Failed to copy subnet information to clipboard');
                                   }
                                 }}
+                                onUpdateSubnet={updateSubnetDetails}
                                 expandedNodes={expandedNodes}
                                 onExpandChange={setExpandedNodes}
                                 showRelationships={true}
@@ -1349,7 +1918,8 @@ Usable Hosts: ${subnet.usableHosts.toLocaleString()}`;
                               onError={(error) => {
                                 setSubnetError(error.message);
                               }}
-                              availableFormats={['text', 'csv', 'json']}
+                              availableFormats={['text', 'csv', 'json', 'yaml', ...getInfrastructureExportFormats(mode as CloudMode)]}
+                              cloudMode={mode as CloudMode}
                             />
                           </div>
                         </div>
@@ -1384,6 +1954,13 @@ Usable Hosts: ${subnet.usableHosts.toLocaleString()}`;
         </div>
       )}
 
+      {/* Network tools */}
+      <div className="space-y-4 sm:space-y-6">
+        <RangeConverter onSelectBlock={openCIDRBlock} />
+        <CIDRAggregator onSelectBlock={openCIDRBlock} />
+        <OverlapAnalyzer currentNetwork={currentAnalyzedNetwork} />
+      </div>
+
       {/* Footer */}
       <footer className="mt-12 pt-8 border-t border-border text-center space-y-2">
         <div className="text-sm text-muted-foreground">
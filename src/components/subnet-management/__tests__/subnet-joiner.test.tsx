@@ -0,0 +1,105 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { SubnetJoiner } from '../subnet-joiner';
+import { calculateSubnetDetailsFromNetwork } from '@/lib/subnet-splitting';
+import { CloudMode, IPVersion, SplitSubnet } from '@/lib/types';
+
+// Builds subnets the way a split in the given cloud mode would
+function createSubnets(networks: string[], cidr: number, ipVersion: IPVersion, cloudMode: CloudMode): SplitSubnet[] {
+  return networks.map((network, index) => ({
+    ...calculateSubnetDetailsFromNetwork(network, cidr, ipVersion, cloudMode),
+    id: `subnet-${index + 1}`,
+    parentId: 'parent',
+    level: 1,
+    isSelected: false,
+    ipVersion
+  }));
+}
+
+describe('SubnetJoiner', () => {
+  const mockOnSelectionChange = jest.fn();
+  const mockOnJoin = jest.fn();
+  const mockOnJoinAll = jest.fn();
+  const mockOnError = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  function renderJoiner(subnets: SplitSubnet[], ipVersion: IPVersion, cloudMode: CloudMode) {
+    return render(
+      <SubnetJoiner
+        availableSubnets={subnets}
+        selectedSubnets={new Set(subnets.map(subnet => subnet.id))}
+        ipVersion={ipVersion}
+        cloudMode={cloudMode}
+        onSelectionChange={mockOnSelectionChange}
+        onJoin={mockOnJoin}
+        onJoinAll={mockOnJoinAll}
+        onError={mockOnError}
+      />
+    );
+  }
+
+  it('refuses to join IPv6 /64 subnets in a cloud mode', () => {
+    const subnets = createSubnets(['2600:1f18:abcd:ef00::', '2600:1f18:abcd:ef01::'], 64, 'ipv6', 'aws');
+    renderJoiner(subnets, 'ipv6', 'aws');
+
+    expect(screen.getAllByText(/AWS IPv6 subnets must be \/64/).length).toBeGreaterThan(0);
+    expect(screen.getByRole('button', { name: /Join Selected Subnets/ })).toBeDisabled();
+  });
+
+  it('joins IPv6 subnets outside cloud modes', () => {
+    const subnets = createSubnets(['2001:db8::', '2001:db8:0:1::'], 64, 'ipv6', 'normal');
+    renderJoiner(subnets, 'ipv6', 'normal');
+
+    fireEvent.click(screen.getByRole('button', { name: /Join Selected Subnets/ }));
+
+    expect(mockOnJoin).toHaveBeenCalledTimes(1);
+    expect(mockOnJoin.mock.calls[0][0]).toMatchObject({ network: '2001:db8::', cidr: 63 });
+  });
+
+  it('joins all possible groups with the reservations of the active cloud mode', () => {
+    const subnets = createSubnets(['10.0.0.0', '10.0.0.64', '10.0.1.0', '10.0.1.64'], 26, 'ipv4', 'aws');
+    renderJoiner(subnets, 'ipv4', 'aws');
+
+    fireEvent.click(screen.getByRole('button', { name: /Join All Possible/ }));
+
+    expect(mockOnError).not.toHaveBeenCalled();
+    const [joinedSubnets, operation] = mockOnJoinAll.mock.calls[0];
+    expect(operation.cloudMode).toBe('aws');
+    expect(joinedSubnets.map((subnet: SplitSubnet) => `${subnet.network}/${subnet.cidr}`)).toEqual(['10.0.0.0/25', '10.0.1.0/25']);
+    expect(joinedSubnets[1].cloudReserved.map((reservation: { ip: string }) => reservation.ip))
+      .toEqual(['10.0.1.0', '10.0.1.1', '10.0.1.2', '10.0.1.3', '10.0.1.127']);
+    expect(joinedSubnets[1]).toMatchObject({ firstHost: '10.0.1.4', usableHosts: 123 });
+  });
+
+  it('joins all possible groups from leaf subnets only', () => {
+    const parents = createSubnets(['10.0.0.0', '10.0.0.128'], 25, 'ipv4', 'normal');
+    const children = createSubnets(['10.0.0.0', '10.0.0.64'], 26, 'ipv4', 'normal')
+      .map((subnet, index) => ({ ...subnet, id: `child-${index + 1}`, parentId: parents[0].id, level: 2 }));
+    renderJoiner([...parents, ...children], 'ipv4', 'normal');
+
+    fireEvent.click(screen.getByRole('button', { name: /Join All Possible/ }));
+
+    const [joinedSubnets, operation] = mockOnJoinAll.mock.calls[0];
+    expect(joinedSubnets.map((subnet: SplitSubnet) => `${subnet.network}/${subnet.cidr}`)).toEqual(['10.0.0.0/25']);
+    expect(operation.sourceSubnets).toEqual(['child-1', 'child-2']);
+  });
+
+  it.each([
+    ['alibaba', ['10.0.0.0', '10.0.0.253', '10.0.0.254', '10.0.0.255'], '10.0.0.1', 252],
+    ['gcp', ['10.0.0.0', '10.0.0.1', '10.0.0.254', '10.0.0.255'], '10.0.0.2', 252]
+  ] as const)('recalculates %s reservations for a joined subnet', (cloudMode, reservedIps, firstHost, usableHosts) => {
+    const subnets = createSubnets(['10.0.0.0', '10.0.0.128'], 25, 'ipv4', cloudMode);
+    renderJoiner(subnets, 'ipv4', cloudMode);
+
+    fireEvent.click(screen.getByRole('button', { name: /Join Selected Subnets/ }));
+
+    const [joinedSubnet, operation] = mockOnJoin.mock.calls[0];
+    expect(operation.cloudMode).toBe(cloudMode);
+    expect(joinedSubnet.cloudReserved.map((reservation: { ip: string }) => reservation.ip)).toEqual(reservedIps);
+    expect(joinedSubnet).toMatchObject({ network: '10.0.0.0', cidr: 24, firstHost, usableHosts });
+  });
+});
@@ -0,0 +1,255 @@
+"use client";
+
+import { useState, useMemo, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Building2, Plus, Trash2 } from 'lucide-react';
+import { ErrorDisplay } from './error-display';
+import { SubnetTree } from './subnet-tree';
+import {
+  SplitSubnet,
+  SubnetInfo,
+  SubnetOperation,
+  SubnetError,
+  CloudMode,
+  IPVersion,
+  AddressPlan
+} from '@/lib/types';
+import {
+  ADDRESS_PLAN_LEVEL_NAMES,
+  createAddressPlan,
+  findAddressPlan,
+  upsertAddressPlan,
+  getChildLevel,
+  getAddressPlanPath,
+  parseAddressPlanBlock,
+  addAddressPlanNodes,
+  removeAddressPlanNodes,
+  calculateAddressPlanRollups,
+  formatAddressPlanRollup,
+  addressPlanToSubnets,
+  loadAddressPlans,
+  saveAddressPlans
+} from '@/lib/address-plan';
+import { createSubnetError, ipv4ToInt } from '@/lib/subnet-splitting';
+import { generateOperationId } from '@/lib/utils';
+
+interface AddressPlannerProps {
+  parentSubnet: SubnetInfo;
+  ipVersion: IPVersion;
+  cloudMode: CloudMode;
+  onPlan: (subnets: SplitSubnet[], operation: SubnetOperation) => void;
+  onError?: (error: SubnetError) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function AddressPlanner({
+  parentSubnet,
+  ipVersion,
+  cloudMode,
+  onPlan,
+  onError,
+  disabled = false,
+  className = ''
+}: AddressPlannerProps) {
+  const [plans, setPlans] = useState<AddressPlan[]>([]);
+  const [storageWritable, setStorageWritable] = useState(false);
+  const [loadWarnings, setLoadWarnings] = useState<string[]>([]);
+  const [parentId, setParentId] = useState('');
+  const [names, setNames] = useState('');
+  const [block, setBlock] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Saved plans live in localStorage, which is only available after mounting
+  useEffect(() => {
+    const { plans, writable, warnings } = loadAddressPlans();
+    setPlans(plans);
+    setStorageWritable(writable);
+    setLoadWarnings(warnings);
+  }, []);
+
+  // The calculator's network is the organization supernet; each supernet has its own plan
+  const emptyPlan = useMemo(
+    () => createAddressPlan(parentSubnet.network, parseInt(parentSubnet.cidr.replace('/', ''), 10)),
+    [parentSubnet.network, parentSubnet.cidr]
+  );
+  const supernet = emptyPlan.nodes[0];
+  const plan = findAddressPlan(plans, supernet.network, supernet.cidr) ?? emptyPlan;
+  const root = plan.nodes[0];
+
+  // Blocks that can be carved further, in address order so each sits under its parent
+  const containers = useMemo(() => plan.nodes
+    .filter(node => getChildLevel(node.level))
+    .sort((a, b) => ipv4ToInt(a.network) - ipv4ToInt(b.network) || a.cidr - b.cidr), [plan]);
+  const parent = containers.find(node => node.id === parentId) ?? root;
+  const childLevel = getChildLevel(parent.level) ?? 'region';
+
+  const rollups = useMemo(() => calculateAddressPlanRollups(plan), [plan]);
+  const treeSubnets = useMemo(() => addressPlanToSubnets(plan, cloudMode), [plan, cloudMode]);
+  const nodeSummaries = useMemo(() => new Map(containers.map(node => [node.id, formatAddressPlanRollup(node, rollups.get(node.id)!)])), [containers, rollups]);
+  const initialExpanded = useMemo(() => new Set(containers.map(node => node.id)), [containers]);
+
+  const updatePlan = (next: AddressPlan) => {
+    const nextPlans = upsertAddressPlan(plans, next);
+    setPlans(nextPlans);
+    if (storageWritable && !saveAddressPlans(nextPlans)) {
+      setNotice('Address plans could not be saved in this browser');
+    }
+  };
+
+  const handleAdd = () => {
+    try {
+      const entries = names.split(',').map(name => name.trim()).filter(Boolean);
+      updatePlan(addAddressPlanNodes(plan, parent.id, entries, parseAddressPlanBlock(block)));
+      setNames('');
+      setNotice(`Added ${entries.join(', ')} to ${getAddressPlanPath(plan, parent.id)}`);
+    } catch (error) {
+      onError?.(createSubnetError('validation', error instanceof Error ? error.message : 'The block could not be added'));
+    }
+  };
+
+  const handleRemove = () => {
+    const nodeIds = Array.from(selected).filter(id => id !== root.id);
+    if (nodeIds.length === 0) {
+      onError?.(createSubnetError('validation', 'Select the regions, environments, VPCs or subnets to remove'));
+      return;
+    }
+    updatePlan(removeAddressPlanNodes(plan, nodeIds));
+    setSelected(new Set());
+    setNotice(`Removed ${nodeIds.length} block${nodeIds.length === 1 ? '' : 's'} and everything carved from them`);
+  };
+
+  const handleApply = () => {
+    const subnets = addressPlanToSubnets(plan, cloudMode, 'subnet')
+      .sort((a, b) => ipv4ToInt(a.network) - ipv4ToInt(b.network));
+    if (subnets.length === 0) {
+      onError?.(createSubnetError('validation', 'Add subnets to a VPC before applying the plan'));
+      return;
+    }
+
+    const operation: SubnetOperation = {
+      id: generateOperationId('split'),
+      type: 'split',
+      timestamp: Date.now(),
+      sourceSubnets: [parentSubnet.id || parentSubnet.network],
+      resultSubnets: subnets,
+      description: `Address plan subnets of ${root.network}/${root.cidr}`,
+      ipVersion,
+      cloudMode
+    };
+
+    onPlan(subnets, operation);
+  };
+
+  return (
+    <div className={`${className} space-y-4`}>
+      <Card className="w-full rounded-lg shadow-md">
+        <CardHeader className="p-6 pb-4">
+          <CardTitle className="text-lg font-medium flex items-center gap-2">
+            <Building2 className="h-5 w-5" aria-hidden="true" />
+            <span>Organization Address Plan</span>
+          </CardTitle>
+          <CardDescription id="address-planner-description">
+            Carve {root.network}/{root.cidr} into regions, then environments, then VPCs, then subnets. Blocks are
+            placed in the lowest free space of their size unless a network is given, and never overlap another
+            region. The plan is stored in this browser.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-6 space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="address-plan-parent" id="address-plan-parent-label">Carve From</Label>
+              <Select
+                value={parent.id}
+                onValueChange={setParentId}
+                disabled={disabled}
+                aria-labelledby="address-plan-parent-label"
+              >
+                <SelectTrigger id="address-plan-parent">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {containers.map(node => (
+                    <SelectItem key={node.id} value={node.id}>
+                      {ADDRESS_PLAN_LEVEL_NAMES[node.level]} {getAddressPlanPath(plan, node.id)} ({node.network}/{node.cidr})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="address-plan-names">New {ADDRESS_PLAN_LEVEL_NAMES[childLevel]} Names</Label>
+              <Input
+                id="address-plan-names"
+                placeholder={childLevel === 'region' ? 'us-east, eu-west' : 'Comma-separated'}
+                value={names}
+                onChange={(e) => setNames(e.target.value)}
+                disabled={disabled}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="address-plan-block">Size or Network</Label>
+              <Input
+                id="address-plan-block"
+                placeholder={`/${Math.min(parent.cidr + 4, 32)} or a block such as ${parent.network}/${Math.min(parent.cidr + 4, 32)}`}
+                value={block}
+                onChange={(e) => setBlock(e.target.value)}
+                disabled={disabled}
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={handleAdd} disabled={disabled}>
+              <Plus className="h-4 w-4 mr-2" aria-hidden="true" />
+              Add {ADDRESS_PLAN_LEVEL_NAMES[childLevel]}s
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleRemove} disabled={disabled}>
+              <Trash2 className="h-4 w-4 mr-2" aria-hidden="true" />
+              Remove Selected
+            </Button>
+          </div>
+
+          {notice && (
+            <p className="text-sm text-muted-foreground" role="status">{notice}</p>
+          )}
+
+          {loadWarnings.length > 0 && (
+            <ErrorDisplay validation={{ isValid: true, errors: [], warnings: loadWarnings }} />
+          )}
+
+          <p className="text-sm text-muted-foreground" aria-live="polite">
+            {root.name}: {formatAddressPlanRollup(root, rollups.get(root.id)!)}
+          </p>
+
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={handleApply}
+            disabled={disabled}
+          >
+            <Building2 className="h-4 w-4 mr-2" aria-hidden="true" />
+            Apply Plan Subnets
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* The tree is shown once something has been carved from the supernet */}
+      {plan.nodes.length > 1 && (
+        <SubnetTree
+          subnets={treeSubnets}
+          selectedSubnets={selected}
+          onSelectionChange={setSelected}
+          expandedNodes={initialExpanded}
+          nodeSummaries={nodeSummaries}
+          title="Address Plan"
+        />
+      )}
+    </div>
+  );
+}
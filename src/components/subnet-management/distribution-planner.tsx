@@ -0,0 +1,329 @@
+"use client";
+
+import { useState, useMemo, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { LayoutGrid, Save, Trash2 } from 'lucide-react';
+import { ErrorDisplay } from './error-display';
+import {
+  SplitSubnet,
+  SubnetInfo,
+  SubnetOperation,
+  SubnetError,
+  CloudMode,
+  IPVersion,
+  DistributionPattern
+} from '@/lib/types';
+import {
+  BUILT_IN_DISTRIBUTION_PATTERNS,
+  planDistribution,
+  normalizeDistributionPattern,
+  parseDistributionNames,
+  parseDistributionTiers,
+  formatDistributionTiers,
+  upsertDistributionPattern,
+  deleteDistributionPattern,
+  loadDistributionPatterns,
+  saveDistributionPatterns,
+  DistributionLayout
+} from '@/lib/distribution-templates';
+import { createSubnetError } from '@/lib/subnet-splitting';
+import { addressToBigInt } from '@/lib/cidr-ranges';
+import { generateOperationId } from '@/lib/utils';
+
+interface DistributionPlannerProps {
+  parentSubnet: SubnetInfo;
+  ipVersion: IPVersion;
+  cloudMode: CloudMode;
+  onPlan: (subnets: SplitSubnet[], operation: SubnetOperation) => void;
+  onError?: (error: SubnetError) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+interface PatternDraft {
+  name: string;
+  regions: string;
+  zones: string;
+  tiers: string;
+}
+
+const toDraft = (pattern: DistributionPattern): PatternDraft => ({
+  name: pattern.name,
+  regions: pattern.regions.join(', '),
+  zones: pattern.zones.join(', '),
+  tiers: formatDistributionTiers(pattern.tiers)
+});
+
+export function DistributionPlanner({
+  parentSubnet,
+  ipVersion,
+  cloudMode,
+  onPlan,
+  onError,
+  disabled = false,
+  className = ''
+}: DistributionPlannerProps) {
+  const [savedPatterns, setSavedPatterns] = useState<DistributionPattern[]>([]);
+  const [storageWritable, setStorageWritable] = useState(false);
+  const [loadWarnings, setLoadWarnings] = useState<string[]>([]);
+  const [selectedId, setSelectedId] = useState(BUILT_IN_DISTRIBUTION_PATTERNS[1].id);
+  const [draft, setDraft] = useState<PatternDraft>(toDraft(BUILT_IN_DISTRIBUTION_PATTERNS[1]));
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Saved patterns live in localStorage, which is only available after mounting
+  useEffect(() => {
+    const { patterns, writable, warnings } = loadDistributionPatterns();
+    setSavedPatterns(patterns);
+    setStorageWritable(writable);
+    setLoadWarnings(warnings);
+  }, []);
+
+  const isSavedPattern = savedPatterns.some(pattern => pattern.id === selectedId);
+
+  // Lay out the network as the pattern is edited so the subnets are visible before applying
+  const preview = useMemo((): { pattern: DistributionPattern | null; layout: DistributionLayout | null; error: string | null } => {
+    try {
+      const pattern = normalizeDistributionPattern({
+        id: selectedId,
+        name: draft.name,
+        regions: parseDistributionNames(draft.regions),
+        zones: parseDistributionNames(draft.zones),
+        tiers: parseDistributionTiers(draft.tiers)
+      });
+      return { pattern, layout: planDistribution(parentSubnet, pattern, cloudMode), error: null };
+    } catch (error) {
+      return { pattern: null, layout: null, error: error instanceof Error ? error.message : 'Distribution layout failed' };
+    }
+  }, [selectedId, draft, parentSubnet, cloudMode]);
+
+  const updateSavedPatterns = (patterns: DistributionPattern[]) => {
+    setSavedPatterns(patterns);
+    if (storageWritable && !saveDistributionPatterns(patterns)) {
+      setNotice('Patterns could not be saved in this browser');
+    }
+  };
+
+  const handleSelect = (patternId: string) => {
+    const pattern = [...BUILT_IN_DISTRIBUTION_PATTERNS, ...savedPatterns].find(candidate => candidate.id === patternId);
+    if (pattern) {
+      setSelectedId(pattern.id);
+      setDraft(toDraft(pattern));
+      setNotice(null);
+    }
+  };
+
+  const handleSave = () => {
+    if (!preview.pattern) {
+      onError?.(createSubnetError('validation', preview.error || 'The pattern is not valid'));
+      return;
+    }
+
+    // Built-in patterns are saved as a copy; saved patterns are updated in place
+    const pattern = isSavedPattern ? preview.pattern : normalizeDistributionPattern({ ...preview.pattern, id: undefined });
+    updateSavedPatterns(upsertDistributionPattern(savedPatterns, pattern));
+    setSelectedId(pattern.id);
+    setNotice(`Saved ${pattern.name} to the pattern library`);
+  };
+
+  const handleDelete = () => {
+    const pattern = savedPatterns.find(candidate => candidate.id === selectedId);
+    if (!pattern) {
+      return;
+    }
+    updateSavedPatterns(deleteDistributionPattern(savedPatterns, pattern.id));
+    handleSelect(BUILT_IN_DISTRIBUTION_PATTERNS[0].id);
+    setNotice(`Deleted ${pattern.name}`);
+  };
+
+  const handleApply = () => {
+    const { layout, pattern } = preview;
+    if (!layout || !pattern) {
+      onError?.(createSubnetError('validation', preview.error || 'Choose a pattern to lay out'));
+      return;
+    }
+
+    // Spare space is kept in the plan as unlabelled subnets so it can be allocated later
+    const subnets = [...layout.subnets, ...layout.spareSubnets].sort((a, b) => {
+      const difference = addressToBigInt(a.network, ipVersion) - addressToBigInt(b.network, ipVersion);
+      return difference < BigInt(0) ? -1 : difference > BigInt(0) ? 1 : 0;
+    });
+    const operation: SubnetOperation = {
+      id: generateOperationId('split'),
+      type: 'split',
+      timestamp: Date.now(),
+      sourceSubnets: [parentSubnet.id || parentSubnet.network],
+      resultSubnets: subnets,
+      description: `${pattern.name} layout of ${parentSubnet.network}${parentSubnet.cidr}`,
+      ipVersion,
+      cloudMode
+    };
+
+    onPlan(subnets, operation);
+  };
+
+  const layout = preview.layout;
+
+  return (
+    <Card className={`${className} w-full rounded-lg shadow-md`}>
+      <CardHeader className="p-6 pb-4">
+        <CardTitle className="text-lg font-medium flex items-center gap-2">
+          <LayoutGrid className="h-5 w-5" aria-hidden="true" />
+          <span>Distribution Templates</span>
+        </CardTitle>
+        <CardDescription id="distribution-planner-description">
+          Lay out {parentSubnet.network}{parentSubnet.cidr} across regions, availability zones and tiers from a pattern.
+          Tier weights of 2, 4 and so on give a tier more of each zone. Saved patterns are stored in this browser.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-6 space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="distribution-pattern" id="distribution-pattern-label">Pattern</Label>
+          <Select
+            value={selectedId}
+            onValueChange={handleSelect}
+            disabled={disabled}
+            aria-labelledby="distribution-pattern-label"
+          >
+            <SelectTrigger id="distribution-pattern">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectGroup>
+                <SelectLabel>Built-in</SelectLabel>
+                {BUILT_IN_DISTRIBUTION_PATTERNS.map(pattern => (
+                  <SelectItem key={pattern.id} value={pattern.id}>
+                    {pattern.name}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+              {savedPatterns.length > 0 && (
+                <SelectGroup>
+                  <SelectLabel>Saved</SelectLabel>
+                  {savedPatterns.map(pattern => (
+                    <SelectItem key={pattern.id} value={pattern.id}>
+                      {pattern.name}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              )}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="distribution-name">Name</Label>
+            <Input
+              id="distribution-name"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="distribution-regions">Regions</Label>
+            <Input
+              id="distribution-regions"
+              placeholder="Optional, such as us-east-1, eu-west-1"
+              value={draft.regions}
+              onChange={(e) => setDraft({ ...draft, regions: e.target.value })}
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="distribution-zones">Zones</Label>
+            <Input
+              id="distribution-zones"
+              placeholder="a, b, c"
+              value={draft.zones}
+              onChange={(e) => setDraft({ ...draft, zones: e.target.value })}
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="distribution-tiers">Tiers</Label>
+            <Input
+              id="distribution-tiers"
+              placeholder="public, private: 2, data"
+              value={draft.tiers}
+              onChange={(e) => setDraft({ ...draft, tiers: e.target.value })}
+              disabled={disabled}
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={handleSave} disabled={disabled}>
+            <Save className="h-4 w-4 mr-2" aria-hidden="true" />
+            {isSavedPattern ? 'Save Pattern' : 'Save as New Pattern'}
+          </Button>
+          {isSavedPattern && (
+            <Button variant="outline" size="sm" onClick={handleDelete} disabled={disabled}>
+              <Trash2 className="h-4 w-4 mr-2" aria-hidden="true" />
+              Delete Pattern
+            </Button>
+          )}
+        </div>
+
+        {notice && (
+          <p className="text-sm text-muted-foreground" role="status">{notice}</p>
+        )}
+
+        {loadWarnings.length > 0 && (
+          <ErrorDisplay validation={{ isValid: true, errors: [], warnings: loadWarnings }} />
+        )}
+
+        {preview.error && (
+          <ErrorDisplay validation={{ isValid: false, errors: [preview.error], warnings: [] }} />
+        )}
+
+        {layout && (
+          <div className="space-y-3" aria-live="polite">
+            <div className="max-h-80 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Subnet</TableHead>
+                    <TableHead>Usable Hosts</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {layout.subnets.map(subnet => (
+                    <TableRow key={subnet.id}>
+                      <TableCell>{subnet.label}</TableCell>
+                      <TableCell className="font-mono">{subnet.network}/{subnet.cidr}</TableCell>
+                      <TableCell>{subnet.usableHosts.toLocaleString()}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              {layout.subnets.length} tier subnet{layout.subnets.length === 1 ? '' : 's'} in {layout.blocks.length} region and zone block{layout.blocks.length === 1 ? '' : 's'}.
+              {layout.spareSubnets.length > 0
+                ? ` Spare space: ${layout.spareSubnets.map(subnet => `${subnet.network}/${subnet.cidr}`).join(', ')}`
+                : ' No spare space remains.'}
+            </p>
+          </div>
+        )}
+
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={handleApply}
+          disabled={disabled}
+        >
+          <LayoutGrid className="h-4 w-4 mr-2" aria-hidden="true" />
+          Apply Layout
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,137 @@
+"use client";
+
+import { useState, useEffect, useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Layers } from 'lucide-react';
+import { ErrorDisplay } from './error-display';
+import { SplitSubnet, CloudMode } from '@/lib/types';
+import { parseDualStackBlock } from '@/lib/dual-stack';
+import { getLeafSubnets } from '@/lib/subnet-splitting';
+import { getCloudProvider } from '@/lib/cloud-providers';
+
+interface DualStackPlannerProps {
+  value: string; // Current dual-stack IPv6 block, empty when the plan is IPv4 only
+  subnets: SplitSubnet[];
+  cloudMode: CloudMode;
+  onChange: (block: string) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function DualStackPlanner({
+  value,
+  subnets,
+  cloudMode,
+  onChange,
+  disabled = false,
+  className = ''
+}: DualStackPlannerProps) {
+  const [input, setInput] = useState(value);
+  const [isEmptySubmit, setIsEmptySubmit] = useState(false);
+
+  useEffect(() => {
+    setInput(value);
+  }, [value]);
+
+  const inputError = useMemo((): string | null => {
+    if (!input.trim()) {
+      return isEmptySubmit ? 'Enter the IPv6 block to pair subnets with' : null;
+    }
+    try {
+      parseDualStackBlock(input, cloudMode);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Invalid IPv6 block';
+    }
+  }, [input, cloudMode, isEmptySubmit]);
+
+  // The applied block can become invalid when the cloud mode changes
+  const valueError = useMemo((): string | null => {
+    if (!value) {
+      return null;
+    }
+    try {
+      parseDualStackBlock(value, cloudMode);
+      return null;
+    } catch (error) {
+      return `${value} is not paired with new subnets: ${error instanceof Error ? error.message : 'invalid block'}`;
+    }
+  }, [value, cloudMode]);
+
+  const pairing = useMemo(() => {
+    const leaves = getLeafSubnets(subnets);
+    return { leaves: leaves.length, paired: leaves.filter(subnet => subnet.pairedIPv6).length };
+  }, [subnets]);
+
+  const trimmed = input.trim();
+
+  const handlePair = () => {
+    if (!trimmed) {
+      setIsEmptySubmit(true);
+      return;
+    }
+    onChange(trimmed);
+  };
+
+  return (
+    <Card className={`${className} w-full rounded-lg shadow-md`}>
+      <CardHeader className="p-6 pb-4">
+        <CardTitle className="text-lg font-medium flex items-center gap-2">
+          <Layers className="h-5 w-5" aria-hidden="true" />
+          <span>Dual-Stack</span>
+        </CardTitle>
+        <CardDescription id="dual-stack-description">
+          Pair every subnet with an IPv6 /64 from the network&apos;s IPv6 block. Each subnet takes the /64 with the same index,
+          or the next free one, and new subnets are paired as the plan is split.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-6 space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+          <div className="space-y-2 flex-1">
+            <Label htmlFor="dual-stack-block">IPv6 Block</Label>
+            <Input
+              id="dual-stack-block"
+              placeholder={getCloudProvider(cloudMode)?.ipv6.exampleBlock || '2001:db8:abcd:ef00::/56'}
+              value={input}
+              onChange={(e) => {
+                setInput(e.target.value);
+                setIsEmptySubmit(false);
+              }}
+              className="font-mono"
+              disabled={disabled}
+              aria-describedby="dual-stack-description"
+              aria-invalid={!!inputError}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button
+              onClick={handlePair}
+              disabled={disabled || !!inputError}
+            >
+              Pair Subnets
+            </Button>
+            {value && (
+              <Button variant="outline" onClick={() => onChange('')} disabled={disabled}>
+                Remove
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {(inputError || valueError) && (
+          <ErrorDisplay validation={{ isValid: false, errors: [inputError || valueError!], warnings: [] }} />
+        )}
+
+        {value && pairing.leaves > 0 && (
+          <p className="text-sm text-muted-foreground" aria-live="polite">
+            {pairing.paired} of {pairing.leaves} subnet{pairing.leaves === 1 ? '' : 's'} paired with {value}
+            {pairing.paired < pairing.leaves && !valueError && ' (the block has no free /64 for the rest)'}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
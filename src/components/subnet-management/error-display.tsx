@@ -15,6 +15,7 @@ import {
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { SubnetError, ValidationResult } from "@/lib/types";
+import { getCloudProvider } from "@/lib/cloud-providers";
 
 // Error display variant types
 export type ErrorDisplayVariant = 'error' | 'warning' | 'info' | 'success';
@@ -132,8 +133,9 @@ function enhanceErrorMessage(
   }
 
   // Add cloud mode context
-  if (context.cloudMode && context.cloudMode !== 'normal') {
-    enhanced = `${enhanced} (${context.cloudMode.toUpperCase()} mode)`;
+  const provider = context.cloudMode ? getCloudProvider(context.cloudMode) : null;
+  if (provider) {
+    enhanced = `${enhanced} (${provider.name} mode)`;
   }
 
   return enhanced;
@@ -147,17 +149,9 @@ function generateContextualSuggestions(
   const suggestions = [...originalSuggestions];
 
   // Add cloud-specific suggestions
-  if (context?.cloudMode && context.cloudMode !== 'normal') {
-    const cloudDocs = {
-      aws: 'https://docs.aws.amazon.com/vpc/latest/userguide/VPC_Subnets.html',
-      azure: 'https://docs.microsoft.com/en-us/azure/virtual-network/virtual-networks-faq',
-      gcp: 'https://cloud.google.com/vpc/docs/subnets'
-    };
-
-    const docUrl = cloudDocs[context.cloudMode as keyof typeof cloudDocs];
-    if (docUrl) {
-      suggestions.push(`Consult ${context.cloudMode.toUpperCase()} documentation for subnet requirements`);
-    }
+  const provider = context?.cloudMode ? getCloudProvider(context.cloudMode) : null;
+  if (provider) {
+    suggestions.push(`Consult ${provider.name} documentation for subnet requirements`);
   }
 
   // Add IPv6 specific suggestions
@@ -0,0 +1,194 @@
+"use client";
+
+import { useState, useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ScanSearch, SquarePlus } from 'lucide-react';
+import { ErrorDisplay } from './error-display';
+import {
+  SplitSubnet,
+  SubnetInfo,
+  SubnetOperation,
+  SubnetError,
+  CloudMode,
+  IPVersion,
+  FreeBlockStrategy
+} from '@/lib/types';
+import { findFreeBlocks, allocateFreeBlock, FreeBlock, FreeBlockSearchResult } from '@/lib/free-space';
+import { createSubnetError } from '@/lib/subnet-splitting';
+import { generateOperationId } from '@/lib/utils';
+
+interface FreeSpaceFinderProps {
+  parentSubnet: SubnetInfo;
+  subnets: SplitSubnet[];
+  ipVersion: IPVersion;
+  cloudMode: CloudMode;
+  onAllocate: (subnets: SplitSubnet[], operation: SubnetOperation) => void;
+  onError?: (error: SubnetError) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const STRATEGY_LABELS: Record<FreeBlockStrategy, string> = {
+  first: 'First available',
+  'best-fit': 'Best fit',
+  all: 'All available'
+};
+
+export function FreeSpaceFinder({
+  parentSubnet,
+  subnets,
+  ipVersion,
+  cloudMode,
+  onAllocate,
+  onError,
+  disabled = false,
+  className = ''
+}: FreeSpaceFinderProps) {
+  const [prefixInput, setPrefixInput] = useState('');
+  const [strategy, setStrategy] = useState<FreeBlockStrategy>('first');
+  const [name, setName] = useState('');
+
+  // Search as the size is typed so the candidate blocks are visible before allocating
+  const search = useMemo((): { result: FreeBlockSearchResult | null; error: string | null } => {
+    const trimmed = prefixInput.trim().replace(/^\//, '');
+    if (!trimmed) {
+      return { result: null, error: null };
+    }
+    if (!/^\d{1,3}$/.test(trimmed)) {
+      return { result: null, error: 'Enter a prefix length such as /26' };
+    }
+
+    try {
+      return { result: findFreeBlocks(parentSubnet, subnets, { prefix: parseInt(trimmed, 10), strategy }, cloudMode), error: null };
+    } catch (error) {
+      return { result: null, error: error instanceof Error ? error.message : 'Free space search failed' };
+    }
+  }, [prefixInput, strategy, parentSubnet, subnets, cloudMode]);
+
+  const handleAllocate = (block: FreeBlock) => {
+    try {
+      const { subnets: updated, allocated, created } = allocateFreeBlock(parentSubnet, subnets, block, name, cloudMode);
+      const operation: SubnetOperation = {
+        id: generateOperationId('allocate'),
+        type: 'allocate',
+        timestamp: Date.now(),
+        sourceSubnets: [block.containerId],
+        resultSubnets: created,
+        description: `Allocated ${allocated.label} ${allocated.network}/${allocated.cidr} from free space`,
+        ipVersion,
+        cloudMode
+      };
+
+      onAllocate(updated, operation);
+      setName('');
+    } catch (error) {
+      onError?.(createSubnetError('validation', error instanceof Error ? error.message : 'Allocation failed'));
+    }
+  };
+
+  const result = search.result;
+
+  return (
+    <Card className={`${className} w-full rounded-lg shadow-md`}>
+      <CardHeader className="p-6 pb-4">
+        <CardTitle className="text-lg font-medium flex items-center gap-2">
+          <ScanSearch className="h-5 w-5" aria-hidden="true" />
+          <span>Find Free Space</span>
+        </CardTitle>
+        <CardDescription id="free-space-description">
+          Find the next available block of a given size among the unnamed subnets of {parentSubnet.network}{parentSubnet.cidr} and allocate it under a name.
+          The free subnet that holds it is split automatically.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-6 space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="free-block-prefix">Block Size</Label>
+            <Input
+              id="free-block-prefix"
+              placeholder={ipVersion === 'ipv4' ? '/26' : '/64'}
+              value={prefixInput}
+              onChange={(e) => setPrefixInput(e.target.value)}
+              className="font-mono"
+              disabled={disabled}
+              aria-describedby="free-space-description"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="free-block-strategy" id="free-block-strategy-label">Search</Label>
+            <Select
+              value={strategy}
+              onValueChange={(value) => setStrategy(value as FreeBlockStrategy)}
+              disabled={disabled}
+              aria-labelledby="free-block-strategy-label"
+            >
+              <SelectTrigger id="free-block-strategy">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(STRATEGY_LABELS) as FreeBlockStrategy[]).map(value => (
+                  <SelectItem key={value} value={value}>
+                    {STRATEGY_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="free-block-name">Name</Label>
+            <Input
+              id="free-block-name"
+              placeholder="team-a"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={disabled}
+            />
+          </div>
+        </div>
+
+        {search.error && (
+          <ErrorDisplay validation={{ isValid: false, errors: [search.error], warnings: [] }} />
+        )}
+
+        {result && (
+          <div className="space-y-2" aria-live="polite">
+            {result.blocks.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No free block of that size is available. Join adjacent free subnets or remove a name to make room.
+              </p>
+            ) : (
+              <>
+                <ul className="max-h-64 overflow-y-auto rounded-md border divide-y">
+                  {result.blocks.map(block => (
+                    <li key={`${block.network}/${block.prefix}`} className="flex items-center justify-between gap-2 p-2">
+                      <span className="font-mono text-sm">{block.network}/{block.prefix}</span>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleAllocate(block)}
+                        disabled={disabled}
+                        aria-label={`Allocate ${block.network}/${block.prefix}`}
+                      >
+                        <SquarePlus className="h-4 w-4 mr-1" aria-hidden="true" />
+                        Allocate
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+                {result.truncated && (
+                  <p className="text-sm text-muted-foreground">
+                    Showing the first {result.blocks.length} blocks.
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
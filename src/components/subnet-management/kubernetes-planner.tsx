@@ -0,0 +1,255 @@
+"use client";
+
+import { useState, useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ShipWheel } from 'lucide-react';
+import { ErrorDisplay } from './error-display';
+import {
+  SplitSubnet,
+  SubnetInfo,
+  SubnetOperation,
+  SubnetError,
+  CloudMode,
+  IPVersion,
+  KubernetesNetworkModel
+} from '@/lib/types';
+import {
+  KUBERNETES_NETWORK_MODELS,
+  DEFAULT_AWS_ENI_LIMITS,
+  planKubernetesNetwork,
+  KubernetesPlanResult
+} from '@/lib/kubernetes-planner';
+import { createSubnetError, ipv4ToInt } from '@/lib/subnet-splitting';
+import { generateOperationId } from '@/lib/utils';
+
+interface KubernetesPlannerProps {
+  parentSubnet: SubnetInfo;
+  ipVersion: IPVersion;
+  cloudMode: CloudMode;
+  onPlan: (subnets: SplitSubnet[], operation: SubnetOperation) => void;
+  onError?: (error: SubnetError) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Networking model that matches each cloud mode when the planner opens
+const DEFAULT_MODELS: Partial<Record<CloudMode, KubernetesNetworkModel>> = {
+  aws: 'aws-vpc-cni',
+  gcp: 'gke',
+  azure: 'azure-cni'
+};
+
+const toOptionalNumber = (value: string) => (value.trim() ? Number(value) : undefined);
+
+export function KubernetesPlanner({
+  parentSubnet,
+  ipVersion,
+  cloudMode,
+  onPlan,
+  onError,
+  disabled = false,
+  className = ''
+}: KubernetesPlannerProps) {
+  const [networkModel, setNetworkModel] = useState<KubernetesNetworkModel>(DEFAULT_MODELS[cloudMode] ?? 'overlay');
+  const [maxNodes, setMaxNodes] = useState('');
+  const [maxPods, setMaxPods] = useState(String(KUBERNETES_NETWORK_MODELS[networkModel].defaultMaxPods));
+  const [maxServices, setMaxServices] = useState('4000');
+  const [zones, setZones] = useState('3');
+  const [surgeNodes, setSurgeNodes] = useState('1');
+  const [nodeCidrMaskSize, setNodeCidrMaskSize] = useState('');
+  const [eniCount, setEniCount] = useState(String(DEFAULT_AWS_ENI_LIMITS.eniCount));
+  const [ipsPerEni, setIpsPerEni] = useState(String(DEFAULT_AWS_ENI_LIMITS.ipsPerEni));
+
+  const model = KUBERNETES_NETWORK_MODELS[networkModel];
+  const usesEnis = networkModel === 'aws-vpc-cni' || networkModel === 'aws-vpc-cni-prefix';
+
+  // Plan as the inputs change so the ranges and capacity are visible before applying
+  const preview = useMemo((): { plan: KubernetesPlanResult | null; error: string | null } => {
+    if (!maxNodes.trim()) {
+      return { plan: null, error: null };
+    }
+
+    try {
+      return {
+        plan: planKubernetesNetwork(parentSubnet, {
+          networkModel,
+          maxNodes: Number(maxNodes),
+          maxPodsPerNode: Number(maxPods),
+          maxServices: Number(maxServices),
+          zones: toOptionalNumber(zones),
+          surgeNodes: toOptionalNumber(surgeNodes),
+          nodeCidrMaskSize: networkModel === 'overlay' ? toOptionalNumber(nodeCidrMaskSize.replace(/^\//, '')) : undefined,
+          eniCount: usesEnis ? toOptionalNumber(eniCount) : undefined,
+          ipsPerEni: usesEnis ? toOptionalNumber(ipsPerEni) : undefined
+        }, cloudMode),
+        error: null
+      };
+    } catch (error) {
+      return { plan: null, error: error instanceof Error ? error.message : 'Kubernetes planning failed' };
+    }
+  }, [parentSubnet, cloudMode, networkModel, maxNodes, maxPods, maxServices, zones, surgeNodes, nodeCidrMaskSize, eniCount, ipsPerEni, usesEnis]);
+
+  const handleModelChange = (value: KubernetesNetworkModel) => {
+    setNetworkModel(value);
+    setMaxPods(String(KUBERNETES_NETWORK_MODELS[value].defaultMaxPods));
+  };
+
+  const handleApply = () => {
+    const { plan } = preview;
+    if (!plan) {
+      onError?.(createSubnetError('validation', preview.error || 'Enter the maximum number of nodes in the cluster'));
+      return;
+    }
+
+    // Free space is kept in the plan as unlabelled subnets so it can be split or joined later
+    const subnets = [...plan.subnets, ...plan.freeSubnets]
+      .sort((a, b) => ipv4ToInt(a.network) - ipv4ToInt(b.network));
+    const operation: SubnetOperation = {
+      id: generateOperationId('split'),
+      type: 'split',
+      timestamp: Date.now(),
+      sourceSubnets: [parentSubnet.id || parentSubnet.network],
+      resultSubnets: subnets,
+      description: `${model.name} cluster plan for ${maxNodes} nodes in ${parentSubnet.network}${parentSubnet.cidr}`,
+      ipVersion,
+      cloudMode
+    };
+
+    onPlan(subnets, operation);
+  };
+
+  const plan = preview.plan;
+
+  const numberField = (id: string, label: string, value: string, onChange: (value: string) => void, placeholder?: string) => (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Input
+        id={id}
+        inputMode="numeric"
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+      />
+    </div>
+  );
+
+  return (
+    <Card className={`${className} w-full rounded-lg shadow-md`}>
+      <CardHeader className="p-6 pb-4">
+        <CardTitle className="text-lg font-medium flex items-center gap-2">
+          <ShipWheel className="h-5 w-5" aria-hidden="true" />
+          <span>Kubernetes Planner</span>
+        </CardTitle>
+        <CardDescription id="kubernetes-planner-description">
+          Size the node subnets, pod CIDR and service CIDR of a cluster and carve them from {parentSubnet.network}{parentSubnet.cidr}.
+          Ranges the platform keeps out of the VPC or VNet are placed in private space outside it and are not added to the plan.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-6 space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="kubernetes-network-model" id="kubernetes-network-model-label">Networking</Label>
+          <Select
+            value={networkModel}
+            onValueChange={(value) => handleModelChange(value as KubernetesNetworkModel)}
+            disabled={disabled}
+            aria-labelledby="kubernetes-network-model-label"
+          >
+            <SelectTrigger id="kubernetes-network-model" aria-describedby="kubernetes-network-model-description">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(KUBERNETES_NETWORK_MODELS) as KubernetesNetworkModel[]).map(value => (
+                <SelectItem key={value} value={value}>
+                  {KUBERNETES_NETWORK_MODELS[value].name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p id="kubernetes-network-model-description" className="text-sm text-muted-foreground">
+            {model.description}.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+          {numberField('kubernetes-max-nodes', 'Max Nodes', maxNodes, setMaxNodes, '100')}
+          {numberField('kubernetes-max-pods', 'Max Pods per Node', maxPods, setMaxPods)}
+          {numberField('kubernetes-max-services', 'Max Services', maxServices, setMaxServices)}
+          {!model.regionalSubnets && numberField('kubernetes-zones', 'Zones', zones, setZones)}
+          {numberField('kubernetes-surge-nodes', 'Surge Nodes', surgeNodes, setSurgeNodes)}
+          {networkModel === 'overlay' && numberField('kubernetes-node-cidr-mask', 'Node CIDR Mask', nodeCidrMaskSize, setNodeCidrMaskSize, 'Auto')}
+          {usesEnis && numberField('kubernetes-eni-count', 'ENIs per Node', eniCount, setEniCount)}
+          {usesEnis && numberField('kubernetes-ips-per-eni', 'IPs per ENI', ipsPerEni, setIpsPerEni)}
+        </div>
+
+        {preview.error && (
+          <ErrorDisplay validation={{ isValid: false, errors: [preview.error], warnings: [] }} />
+        )}
+
+        {plan && (
+          <div className="space-y-3" aria-live="polite">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Range</TableHead>
+                  <TableHead>Addresses</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {plan.subnets.map(subnet => (
+                  <TableRow key={subnet.id}>
+                    <TableCell>{subnet.label}</TableCell>
+                    <TableCell className="font-mono">{subnet.network}/{subnet.cidr}</TableCell>
+                    <TableCell>{subnet.totalHosts.toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+                {plan.externalSubnets.map(subnet => (
+                  <TableRow key={subnet.id}>
+                    <TableCell>{subnet.label} (outside {parentSubnet.network}{parentSubnet.cidr})</TableCell>
+                    <TableCell className="font-mono">{subnet.network}/{subnet.cidr}</TableCell>
+                    <TableCell>{subnet.totalHosts.toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {plan.warnings.length > 0 && (
+              <ErrorDisplay validation={{ isValid: true, errors: [], warnings: plan.warnings }} />
+            )}
+
+            <p className="text-sm text-muted-foreground">
+              Room for {plan.capacity.nodes.toLocaleString()} nodes and {plan.capacity.pods.toLocaleString()} pods
+              ({plan.capacity.podsPerNode} per node
+              {plan.capacity.nodeCidrMaskSize !== null
+                ? `, a /${plan.capacity.nodeCidrMaskSize} pod range each`
+                : `, ${plan.capacity.addressesPerNode.toLocaleString()} subnet addresses each`})
+              and {plan.capacity.services.toLocaleString()} services.
+            </p>
+
+            <ul className="space-y-2 text-sm">
+              {plan.notes.map(note => (
+                <li key={note} className="font-mono break-all">{note}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={handleApply}
+          disabled={disabled}
+        >
+          <ShipWheel className="h-4 w-4 mr-2" aria-hidden="true" />
+          Apply Cluster Plan
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { History, Undo2, Redo2, Scissors, Merge, RotateCcw, Upload, CircleMinus, SquarePlus, Pencil, Circle } from 'lucide-react';
+import { SubnetOperationType } from '@/lib/types';
+import { OperationHistory, canUndo, canRedo } from '@/lib/operation-history';
+import {
+  useSubnetKeyboardShortcuts,
+  useGlobalKeyboardShortcuts,
+  formatKeyboardShortcut
+} from '@/lib/keyboard-navigation';
+
+interface OperationHistoryPanelProps {
+  history: OperationHistory;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJumpTo: (position: number) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+function getOperationIcon(type: SubnetOperationType) {
+  switch (type) {
+    case 'split':
+      return <Scissors className="h-4 w-4" aria-hidden="true" />;
+    case 'join':
+      return <Merge className="h-4 w-4" aria-hidden="true" />;
+    case 'reset':
+      return <RotateCcw className="h-4 w-4" aria-hidden="true" />;
+    case 'import':
+      return <Upload className="h-4 w-4" aria-hidden="true" />;
+    case 'exclude':
+      return <CircleMinus className="h-4 w-4" aria-hidden="true" />;
+    case 'allocate':
+      return <SquarePlus className="h-4 w-4" aria-hidden="true" />;
+    case 'edit':
+      return <Pencil className="h-4 w-4" aria-hidden="true" />;
+    default:
+      return <Circle className="h-4 w-4" aria-hidden="true" />;
+  }
+}
+
+export function OperationHistoryPanel({
+  history,
+  onUndo,
+  onRedo,
+  onJumpTo,
+  disabled = false,
+  className = ''
+}: OperationHistoryPanelProps) {
+  // Undo/redo bindings come from the shared subnet shortcut definitions and apply page-wide
+  const historyShortcuts = useSubnetKeyboardShortcuts().filter(shortcut => shortcut.category === 'History');
+  useGlobalKeyboardShortcuts(historyShortcuts, !disabled);
+
+  const [undoShortcut, redoShortcut] = historyShortcuts;
+  const undoAvailable = canUndo(history) && !disabled;
+  const redoAvailable = canRedo(history) && !disabled;
+
+  return (
+    <Card className={`${className} w-full rounded-lg shadow-md`}>
+      <CardHeader className="p-6 pb-4">
+        <CardTitle className="text-lg font-medium flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <History className="h-5 w-5" aria-hidden="true" />
+            <span id="operation-history-title">Operation History</span>
+          </span>
+          <span className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onUndo}
+              disabled={!undoAvailable}
+              data-action="undo-operation"
+              aria-keyshortcuts="Control+Z"
+              title={undoShortcut ? `Undo (${formatKeyboardShortcut(undoShortcut)})` : 'Undo'}
+            >
+              <Undo2 className="h-4 w-4 mr-1" aria-hidden="true" />
+              Undo
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onRedo}
+              disabled={!redoAvailable}
+              data-action="redo-operation"
+              aria-keyshortcuts="Control+Y"
+              title={redoShortcut ? `Redo (${formatKeyboardShortcut(redoShortcut)})` : 'Redo'}
+            >
+              <Redo2 className="h-4 w-4 mr-1" aria-hidden="true" />
+              Redo
+            </Button>
+          </span>
+        </CardTitle>
+        <CardDescription>
+          Select any step to restore the subnet plan as it was at that point. Undone steps are discarded when a new operation is performed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-6 pt-0">
+        <ol className="space-y-1 max-h-64 overflow-y-auto" aria-labelledby="operation-history-title">
+          {[null, ...history.entries].map((entry, index) => {
+            const isCurrent = index === history.position;
+            const isUndone = index > history.position;
+            const subnetCount = entry ? entry.subnets.length : history.baseline.length;
+
+            return (
+              <li key={entry ? entry.operation.id : 'baseline'}>
+                <button
+                  type="button"
+                  onClick={() => onJumpTo(index)}
+                  disabled={disabled || isCurrent}
+                  aria-current={isCurrent ? 'step' : undefined}
+                  className={`w-full flex items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm transition-colors hover:bg-muted focus-visible:outline-none focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:cursor-default ${
+                    isCurrent ? 'bg-muted font-medium' : ''
+                  } ${isUndone ? 'text-muted-foreground line-through' : ''}`}
+                >
+                  {entry ? getOperationIcon(entry.operation.type) : <Circle className="h-4 w-4" aria-hidden="true" />}
+                  <span className="flex-1 truncate">
+                    {entry ? entry.operation.description : 'Initial state'}
+                  </span>
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">
+                    {subnetCount} subnet{subnetCount === 1 ? '' : 's'}
+                    {entry && ` · ${new Date(entry.operation.timestamp).toLocaleTimeString()}`}
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+}
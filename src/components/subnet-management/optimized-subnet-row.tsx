@@ -14,9 +14,12 @@ import {
 import {
   Copy,
   Info,
-  Loader2
+  Loader2,
+  Pencil
 } from 'lucide-react';
 import { SplitSubnet } from '@/lib/types';
+import { formatSubnetMetadataSummary } from '@/lib/subnet-metadata';
+import { SubnetStatusBadge } from './subnet-status-controls';
 
 interface OptimizedSubnetRowProps {
   subnet: SplitSubnet;
@@ -24,6 +27,7 @@ interface OptimizedSubnetRowProps {
   onSelectionChange: (subnetId: string, checked: boolean) => void;
   onCopySubnet?: (subnet: SplitSubnet) => void;
   onSubnetDetails?: (subnet: SplitSubnet) => void;
+  onEditSubnet?: (subnet: SplitSubnet) => void;
   showSelection?: boolean;
   showActions?: boolean;
   showExtendedColumns?: boolean;
@@ -36,6 +40,7 @@ const OptimizedSubnetRow = memo<OptimizedSubnetRowProps>(({
   onSelectionChange,
   onCopySubnet,
   onSubnetDetails,
+  onEditSubnet,
   showSelection = true,
   showActions = true,
   showExtendedColumns = true
@@ -80,12 +85,21 @@ const OptimizedSubnetRow = memo<OptimizedSubnetRowProps>(({
           />
         </TableCell>
       )}
-      <TableCell className="font-mono">
+      <TableCell className="font-mono" title={formatSubnetMetadataSummary(subnet.metadata) || undefined}>
         {subnet.network}
+        {subnet.pairedIPv6 && (
+          <span className="block text-xs text-muted-foreground" title="Paired IPv6 subnet">{subnet.pairedIPv6}</span>
+        )}
+        {subnet.label && (
+          <span className="block font-sans text-xs text-muted-foreground truncate">{subnet.label}</span>
+        )}
       </TableCell>
       <TableCell className="font-mono">
         /{subnet.cidr}
       </TableCell>
+      <TableCell>
+        <SubnetStatusBadge subnet={subnet} />
+      </TableCell>
       <TableCell>
         {subnet.usableHosts.toLocaleString()}
       </TableCell>
@@ -125,6 +139,16 @@ const OptimizedSubnetRow = memo<OptimizedSubnetRowProps>(({
                 <Info className="h-4 w-4" />
               </Button>
             )}
+            {onEditSubnet && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onEditSubnet(subnet)}
+                title="Edit name, metadata and status"
+              >
+                <Pencil className="h-4 w-4" />
+              </Button>
+            )}
           </div>
         </TableCell>
       )}
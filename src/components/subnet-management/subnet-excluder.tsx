@@ -0,0 +1,161 @@
+"use client";
+
+import { useState, useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { CircleMinus } from 'lucide-react';
+import { ErrorDisplay } from './error-display';
+import {
+  SplitSubnet,
+  SubnetInfo,
+  SubnetOperation,
+  SubnetError,
+  CloudMode,
+  IPVersion
+} from '@/lib/types';
+import { excludeFromPlan, PlanExclusionResult } from '@/lib/subnet-exclusion';
+import { formatCIDRBlock } from '@/lib/cidr-ranges';
+import { createSubnetError } from '@/lib/subnet-splitting';
+import { generateOperationId } from '@/lib/utils';
+
+interface SubnetExcluderProps {
+  parentSubnet: SubnetInfo;
+  subnets: SplitSubnet[];
+  ipVersion: IPVersion;
+  cloudMode: CloudMode;
+  onExclude: (subnets: SplitSubnet[], operation: SubnetOperation) => void;
+  onError?: (error: SubnetError) => void;
+  disabled?: boolean;
+  maxSubnets?: number;
+  className?: string;
+}
+
+const formatCount = (count: number) => count === 0 ? 'no subnets' : `${count} subnet${count === 1 ? '' : 's'}`;
+
+// What an exclusion leaves, e.g. "3 subnets in place of 2 subnets"
+function describeChange(result: PlanExclusionResult): string {
+  const removed = result.removedSubnets.length;
+  return `${formatCount(result.totalSubnets)}${removed > 0 ? ` in place of ${formatCount(removed)}` : ''}`;
+}
+
+export function SubnetExcluder({
+  parentSubnet,
+  subnets,
+  ipVersion,
+  cloudMode,
+  onExclude,
+  onError,
+  disabled = false,
+  maxSubnets = 1000,
+  className = ''
+}: SubnetExcluderProps) {
+  const [input, setInput] = useState('');
+  const excludedPrefixes = useMemo(() => input.split(/[\s,;]+/).filter(Boolean), [input]);
+
+  // Preview the exclusion of the current plan as the prefixes are typed
+  const preview = useMemo((): { result: PlanExclusionResult | null; error: string | null } => {
+    if (excludedPrefixes.length === 0) {
+      return { result: null, error: null };
+    }
+
+    try {
+      return {
+        result: excludeFromPlan(parentSubnet, subnets, { excludedPrefixes, maxResults: maxSubnets }, cloudMode),
+        error: null
+      };
+    } catch (error) {
+      return { result: null, error: error instanceof Error ? error.message : 'Invalid exclusion' };
+    }
+  }, [parentSubnet, subnets, excludedPrefixes, maxSubnets, cloudMode]);
+
+  const handleExclude = () => {
+    if (!preview.result) {
+      onError?.(createSubnetError('validation', preview.error || 'Enter at least one prefix to exclude'));
+      return;
+    }
+
+    const { subnets: created, excludedBlocks, plan, removedSubnets } = preview.result;
+    const operation: SubnetOperation = {
+      id: generateOperationId('exclude'),
+      type: 'exclude',
+      timestamp: Date.now(),
+      sourceSubnets: removedSubnets.length > 0 ? removedSubnets.map(subnet => subnet.id) : [parentSubnet.id || parentSubnet.network],
+      resultSubnets: created,
+      description: `Excluded ${excludedBlocks.map(formatCIDRBlock).join(', ')} from ${parentSubnet.network}${parentSubnet.cidr}, leaving ${describeChange(preview.result)}`,
+      ipVersion,
+      cloudMode
+    };
+
+    onExclude(plan, operation);
+    setInput('');
+  };
+
+  return (
+    <Card className={`${className} w-full rounded-lg shadow-md`}>
+      <CardHeader className="p-6 pb-4">
+        <CardTitle className="text-lg font-medium flex items-center gap-2">
+          <CircleMinus className="h-5 w-5" aria-hidden="true" />
+          <span>Exclude Prefixes</span>
+        </CardTitle>
+        <CardDescription id="subnet-exclude-description">
+          Carve prefixes out of {parentSubnet.network}{parentSubnet.cidr}, for example to reserve a range for on-premises interconnects.
+          Subnets inside an excluded prefix are removed and subnets overlapping one keep their remaining space as the minimal set of CIDR blocks.
+          Without subnets, the remaining space of the network becomes the plan.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-6 space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="exclude-prefixes">Prefixes to Exclude</Label>
+          <Textarea
+            id="exclude-prefixes"
+            placeholder={ipVersion === 'ipv4' ? '10.0.128.0/20' : '2001:db8:0:ff00::/56'}
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            className="font-mono"
+            spellCheck={false}
+            disabled={disabled}
+            aria-describedby="subnet-exclude-description"
+          />
+        </div>
+
+        {preview.error && (
+          <ErrorDisplay
+            validation={{ isValid: false, errors: [preview.error], warnings: [] }}
+          />
+        )}
+
+        {preview.result && (
+          <div className="space-y-2" aria-live="polite">
+            <p className="text-sm text-muted-foreground">
+              Excluding {preview.result.excludedBlocks.map(formatCIDRBlock).join(', ')} leaves {describeChange(preview.result)}{preview.result.totalSubnets > 0 ? ':' : ''}
+            </p>
+            {preview.result.totalSubnets > 0 && (
+              <ul className="max-h-40 overflow-y-auto rounded-md border p-3 font-mono text-sm space-y-1">
+                {preview.result.subnets.map(subnet => (
+                  <li key={subnet.id}>{subnet.network}/{subnet.cidr}</li>
+                ))}
+              </ul>
+            )}
+            {preview.result.warnings.length > 0 && (
+              <ErrorDisplay
+                validation={{ isValid: true, errors: [], warnings: preview.result.warnings }}
+              />
+            )}
+          </div>
+        )}
+
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={handleExclude}
+          disabled={disabled}
+        >
+          <CircleMinus className="h-4 w-4 mr-2" aria-hidden="true" />
+          Exclude Prefixes
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useCallback, useMemo } from 'react';
+import React, { useState, useCallback, useMemo, useEffect } from 'react';
 import {
   Card,
   CardContent,
@@ -24,6 +24,8 @@ import {
   Alert,
   AlertDescription
 } from '@/components/ui/alert';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import {
   Download,
   Copy,
@@ -32,9 +34,21 @@ import {
   Code,
   Loader2,
   CheckCircle,
-  AlertCircle
+  AlertCircle,
+  FileCode,
+  Boxes,
+  Cloud
 } from 'lucide-react';
-import { SplitSubnet, ExportOptions, ExportResult, SubnetError } from '@/lib/types';
+import { SplitSubnet, SubnetMetadata, SubnetStatus, SubnetStatusChange, ExportOptions, ExportResult, SubnetError, CloudMode } from '@/lib/types';
+import { formatSubnetsAsYAML } from '@/lib/yaml-export';
+import { getSubnetStatus, SUBNET_STATUS_LABELS } from '@/lib/subnet-status';
+import { formatSubnetsAsTerraform } from '@/lib/terraform-export';
+import { getCloudProvider } from '@/lib/cloud-providers';
+import {
+  formatSubnetsAsCloudFormation,
+  formatSubnetsAsBicep,
+  formatSubnetsAsDeploymentManager
+} from '@/lib/cloud-template-export';
 
 interface SubnetExportProps {
   subnets: SplitSubnet[];
@@ -42,27 +56,57 @@ interface SubnetExportProps {
   onExport?: (result: ExportResult) => void;
   onError?: (error: SubnetError) => void;
   availableFormats?: ExportOptions['format'][];
+  cloudMode?: CloudMode; // Selects the resource types for infrastructure-as-code formats
   className?: string;
 }
 
+// Display names for formats whose identifiers do not read well when capitalized
+const FORMAT_LABELS: Partial<Record<ExportOptions['format'], string>> = {
+  'cloudformation-yaml': 'CloudFormation YAML',
+  'cloudformation-json': 'CloudFormation JSON',
+  'deployment-manager': 'Deployment Manager'
+};
+
+// Quotes a CSV cell, doubling embedded quotes
+const csvCell = (value: string): string => `"${value.replace(/"/g, '""')}"`;
+
+// Formats that generate infrastructure-as-code and accept a name prefix and network reference
+const INFRASTRUCTURE_FORMATS: ExportOptions['format'][] = [
+  'terraform',
+  'cloudformation-yaml',
+  'cloudformation-json',
+  'bicep',
+  'deployment-manager'
+];
+
 export function SubnetExport({
   subnets,
   selectedSubnets,
   onExport,
   onError,
-  availableFormats = ['text', 'csv', 'json'],
+  availableFormats = ['text', 'csv', 'json', 'yaml'],
+  cloudMode = 'normal',
   className = ''
 }: SubnetExportProps) {
   const [exportFormat, setExportFormat] = useState<ExportOptions['format']>('text');
   const [includeHeaders, setIncludeHeaders] = useState(true);
   const [includeMetadata, setIncludeMetadata] = useState(true);
   const [selectedOnly, setSelectedOnly] = useState(false);
+  const [namePrefix, setNamePrefix] = useState('subnet');
+  const [networkReference, setNetworkReference] = useState('');
   const [isExporting, setIsExporting] = useState(false);
   const [exportFeedback, setExportFeedback] = useState<{
     type: 'success' | 'error';
     message: string;
   } | null>(null);
 
+  // Fall back to the first format when the selected one is no longer offered
+  useEffect(() => {
+    if (!availableFormats.includes(exportFormat)) {
+      setExportFormat(availableFormats[0] ?? 'text');
+    }
+  }, [availableFormats, exportFormat]);
+
   // Get subnets to export based on selection
   const subnetsToExport = useMemo(() => {
     if (selectedOnly && selectedSubnets.size > 0) {
@@ -87,10 +131,22 @@ export function SubnetExport({
         return formatAsCSV(subnets, options);
       case 'json':
         return formatAsJSON(subnets, options);
+      case 'yaml':
+        return formatSubnetsAsYAML(subnets, options);
+      case 'terraform':
+        return formatSubnetsAsTerraform(subnets, cloudMode, options);
+      case 'cloudformation-yaml':
+        return formatSubnetsAsCloudFormation(subnets, options, 'yaml');
+      case 'cloudformation-json':
+        return formatSubnetsAsCloudFormation(subnets, options, 'json');
+      case 'bicep':
+        return formatSubnetsAsBicep(subnets, options);
+      case 'deployment-manager':
+        return formatSubnetsAsDeploymentManager(subnets, options);
       default:
         throw new Error(`Unsupported export format: ${options.format}`);
     }
-  }, []);
+  }, [cloudMode]);
 
   // Format as structured text
   const formatAsText = (subnets: SplitSubnet[], options: ExportOptions): string => {
@@ -113,6 +169,17 @@ export function SubnetExport({
     subnets.forEach((subnet, index) => {
       lines.push(`Subnet ${index + 1}:`);
       lines.push(`  Network Address:    ${subnet.network}/${subnet.cidr}`);
+      if (subnet.pairedIPv6) lines.push(`  Paired IPv6:        ${subnet.pairedIPv6}`);
+
+      // Add the subnet name and metadata
+      if (subnet.label) lines.push(`  Name:               ${subnet.label}`);
+      if (subnet.metadata?.description) lines.push(`  Description:        ${subnet.metadata.description}`);
+      if (subnet.metadata?.tags) lines.push(`  Tags:               ${subnet.metadata.tags.join(', ')}`);
+      if (subnet.metadata?.vlanId !== undefined) lines.push(`  VLAN ID:            ${subnet.metadata.vlanId}`);
+      if (subnet.metadata?.owner) lines.push(`  Owner:              ${subnet.metadata.owner}`);
+      if (subnet.metadata?.environment) lines.push(`  Environment:        ${subnet.metadata.environment}`);
+      lines.push(`  Status:             ${SUBNET_STATUS_LABELS[getSubnetStatus(subnet)]}`);
+
       lines.push(`  Broadcast Address:  ${subnet.broadcast}`);
       lines.push(`  First Host IP:      ${subnet.firstHost}`);
       lines.push(`  Last Host IP:       ${subnet.lastHost}`);
@@ -163,6 +230,7 @@ export function SubnetExport({
         headers.push('Level', 'Parent ID', 'Has Cloud Reserved');
       }
 
+      headers.push('Name', 'Description', 'Tags', 'VLAN ID', 'Owner', 'Environment', 'Status', 'Paired IPv6');
       lines.push(headers.join(','));
     }
 
@@ -181,11 +249,22 @@ export function SubnetExport({
       if (options.includeMetadata) {
         row.push(
           subnet.level.toString(),
-          `"${subnet.parentId || ''}"`,
+          csvCell(subnet.parentId || ''),
           (subnet.cloudReserved ? subnet.cloudReserved.length > 0 : false).toString()
         );
       }
 
+      row.push(
+        csvCell(subnet.label || ''),
+        csvCell(subnet.metadata?.description || ''),
+        csvCell((subnet.metadata?.tags || []).join(', ')),
+        subnet.metadata?.vlanId?.toString() || '',
+        csvCell(subnet.metadata?.owner || ''),
+        csvCell(subnet.metadata?.environment || ''),
+        getSubnetStatus(subnet),
+        subnet.pairedIPv6 || ''
+      );
+
       lines.push(row.join(','));
     });
 
@@ -205,6 +284,11 @@ export function SubnetExport({
         totalHosts: number;
         usableHosts: number;
         ipVersion: string;
+        pairedIPv6?: string;
+        label?: string;
+        metadata?: SubnetMetadata;
+        status: SubnetStatus;
+        statusHistory?: SubnetStatusChange[];
         level?: number;
         parentId?: string;
         isSelected?: boolean;
@@ -238,7 +322,12 @@ export function SubnetExport({
         totalHosts: subnet.totalHosts,
         usableHosts: subnet.usableHosts,
         ipVersion: subnet.ipVersion,
+        pairedIPv6: subnet.pairedIPv6,
+        label: subnet.label,
+        metadata: subnet.metadata,
+        status: getSubnetStatus(subnet),
         ...(options.includeMetadata && {
+          statusHistory: subnet.statusHistory,
           level: subnet.level,
           parentId: subnet.parentId,
           isSelected: subnet.isSelected,
@@ -272,7 +361,12 @@ export function SubnetExport({
       text: 'txt',
       csv: 'csv',
       json: 'json',
-      yaml: 'yml'
+      yaml: 'yml',
+      terraform: 'tf',
+      'cloudformation-yaml': 'cfn.yml',
+      'cloudformation-json': 'cfn.json',
+      bicep: 'bicep',
+      'deployment-manager': 'dm.yml'
     };
 
     return `${prefix}-${timestamp}.${extensions[format]}`;
@@ -284,7 +378,12 @@ export function SubnetExport({
       text: 'text/plain',
       csv: 'text/csv',
       json: 'application/json',
-      yaml: 'text/yaml'
+      yaml: 'text/yaml',
+      terraform: 'text/plain',
+      'cloudformation-yaml': 'text/yaml',
+      'cloudformation-json': 'application/json',
+      bicep: 'text/plain',
+      'deployment-manager': 'text/yaml'
     };
     return mimeTypes[format];
   };
@@ -307,7 +406,9 @@ export function SubnetExport({
         format: exportFormat,
         includeHeaders,
         includeMetadata,
-        selectedOnly
+        selectedOnly,
+        namePrefix,
+        networkReference
       };
 
       const formattedData = formatSubnetData(subnetsToExport, options);
@@ -354,7 +455,7 @@ export function SubnetExport({
       setIsExporting(false);
       setTimeout(() => setExportFeedback(null), 5000);
     }
-  }, [subnetsToExport, exportFormat, includeHeaders, includeMetadata, selectedOnly, formatSubnetData, onExport, onError, generateFilename]);
+  }, [subnetsToExport, exportFormat, includeHeaders, includeMetadata, selectedOnly, namePrefix, networkReference, formatSubnetData, onExport, onError, generateFilename]);
 
   // Handle download file
   const handleDownload = useCallback(async () => {
@@ -374,7 +475,9 @@ export function SubnetExport({
         format: exportFormat,
         includeHeaders,
         includeMetadata,
-        selectedOnly
+        selectedOnly,
+        namePrefix,
+        networkReference
       };
 
       const formattedData = formatSubnetData(subnetsToExport, options);
@@ -428,7 +531,7 @@ export function SubnetExport({
       setIsExporting(false);
       setTimeout(() => setExportFeedback(null), 5000);
     }
-  }, [subnetsToExport, exportFormat, includeHeaders, includeMetadata, selectedOnly, formatSubnetData, onExport, onError, generateFilename]);
+  }, [subnetsToExport, exportFormat, includeHeaders, includeMetadata, selectedOnly, namePrefix, networkReference, formatSubnetData, onExport, onError, generateFilename]);
 
   // Get format icon
   const getFormatIcon = (format: ExportOptions['format']) => {
@@ -439,6 +542,15 @@ export function SubnetExport({
         return <Database className="h-4 w-4" />;
       case 'json':
         return <Code className="h-4 w-4" />;
+      case 'yaml':
+        return <FileCode className="h-4 w-4" />;
+      case 'terraform':
+        return <Boxes className="h-4 w-4" />;
+      case 'cloudformation-yaml':
+      case 'cloudformation-json':
+      case 'bicep':
+      case 'deployment-manager':
+        return <Cloud className="h-4 w-4" />;
       default:
         return <FileText className="h-4 w-4" />;
     }
@@ -473,7 +585,7 @@ export function SubnetExport({
           <span id="subnet-export-title">Export Subnets</span>
         </CardTitle>
         <div id="subnet-export-description" className="sr-only">
-          Export subnet information in various formats including text, CSV, and JSON. 
+          Export subnet information in various formats including text, CSV, JSON, YAML, and infrastructure-as-code templates. 
           Choose export options and scope before downloading or copying to clipboard.
           {subnets.length > 0 && ` ${subnets.length} subnet${subnets.length !== 1 ? 's' : ''} available for export.`}
           {selectedSubnets.size > 0 && ` ${selectedSubnets.size} subnet${selectedSubnets.size !== 1 ? 's' : ''} currently selected.`}
@@ -522,15 +634,23 @@ export function SubnetExport({
                 >
                   <div className="flex items-center gap-2">
                     {getFormatIcon(format)}
-                    <span className="capitalize">{format}</span>
+                    <span className="capitalize">{FORMAT_LABELS[format] ?? format}</span>
                     {format === 'text' && <span className="text-xs text-muted-foreground">(Human readable)</span>}
                     {format === 'csv' && <span className="text-xs text-muted-foreground">(Spreadsheet)</span>}
                     {format === 'json' && <span className="text-xs text-muted-foreground">(Structured data)</span>}
+                    {format === 'yaml' && <span className="text-xs text-muted-foreground">(Configuration)</span>}
+                    {INFRASTRUCTURE_FORMATS.includes(format) && <span className="text-xs text-muted-foreground">(Infrastructure as code)</span>}
                   </div>
                   <span id={`format-${format}-description`} className="sr-only">
                     {format === 'text' && 'Plain text format suitable for human reading and documentation'}
                     {format === 'csv' && 'Comma-separated values format suitable for spreadsheet applications'}
                     {format === 'json' && 'JavaScript Object Notation format suitable for programmatic processing'}
+                    {format === 'yaml' && 'YAML format suitable for storing network plans in configuration repositories'}
+                    {format === 'terraform' && 'Terraform HCL with one subnet resource per leaf subnet for the selected cloud provider'}
+                    {format === 'cloudformation-yaml' && 'AWS CloudFormation template in YAML with one AWS::EC2::Subnet per leaf subnet'}
+                    {format === 'cloudformation-json' && 'AWS CloudFormation template in JSON with one AWS::EC2::Subnet per leaf subnet'}
+                    {format === 'bicep' && 'Azure Bicep module that adds each leaf subnet to an existing virtual network'}
+                    {format === 'deployment-manager' && 'Google Cloud Deployment Manager configuration with one subnetwork per leaf subnet'}
                   </span>
                 </SelectItem>
               ))}
@@ -541,6 +661,38 @@ export function SubnetExport({
           </div>
         </div>
 
+        {/* Infrastructure-as-code parameters */}
+        {INFRASTRUCTURE_FORMATS.includes(exportFormat) && (
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="export-name-prefix">Name Prefix</Label>
+              <Input
+                id="export-name-prefix"
+                value={namePrefix}
+                onChange={(e) => setNamePrefix(e.target.value)}
+                placeholder="subnet"
+                aria-describedby="export-name-prefix-description"
+              />
+              <div id="export-name-prefix-description" className="sr-only">
+                Prefix applied to the names of generated subnet resources.
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="export-network-reference">Network Reference</Label>
+              <Input
+                id="export-network-reference"
+                value={networkReference}
+                onChange={(e) => setNetworkReference(e.target.value)}
+                placeholder={getCloudProvider(cloudMode)?.networkReferenceExample}
+                aria-describedby="export-network-reference-description"
+              />
+              <div id="export-network-reference-description" className="text-xs text-muted-foreground">
+                Optional. Used as the default VPC or virtual network; leave empty to supply it at deployment time.
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Export Scope */}
         <div className="space-y-2">
           <label className="text-sm font-medium" id="export-scope-label">Export Scope</label>
@@ -672,7 +824,7 @@ export function SubnetExport({
               <div>• Subnets: {subnetsToExport.length}</div>
               <div>• Headers: {includeHeaders ? 'Yes' : 'No'}</div>
               <div>• Metadata: {includeMetadata ? 'Yes' : 'No'}</div>
-              <div>• Estimated size: ~{Math.round(subnetsToExport.length * (exportFormat === 'json' ? 200 : exportFormat === 'csv' ? 100 : 150) / 1024)} KB</div>
+              <div>• Estimated size: ~{Math.round(subnetsToExport.length * (exportFormat === 'json' || exportFormat === 'yaml' ? 200 : exportFormat === 'csv' ? 100 : 150) / 1024)} KB</div>
             </div>
           </div>
         )}
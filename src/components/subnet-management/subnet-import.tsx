@@ -0,0 +1,172 @@
+"use client";
+
+import React, { useState, useCallback, useRef } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Upload, Loader2, CheckCircle } from 'lucide-react';
+import { ErrorDisplay } from './error-display';
+import {
+  SplitSubnet,
+  SubnetInfo,
+  SubnetOperation,
+  SubnetError,
+  CloudMode,
+  IPVersion,
+  ImportResult
+} from '@/lib/types';
+import { importSubnets } from '@/lib/subnet-import';
+import { createSubnetError } from '@/lib/subnet-splitting';
+import { generateOperationId } from '@/lib/utils';
+
+interface SubnetImportProps {
+  parentSubnet: SubnetInfo;
+  ipVersion: IPVersion;
+  cloudMode: CloudMode;
+  onImport: (subnets: SplitSubnet[], operation: SubnetOperation) => void;
+  onError?: (error: SubnetError) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Number of row errors listed before the remainder is summarized
+const MAX_DISPLAYED_ROW_ERRORS = 10;
+
+export function SubnetImport({
+  parentSubnet,
+  ipVersion,
+  cloudMode,
+  onImport,
+  onError,
+  disabled = false,
+  className = ''
+}: SubnetImportProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [lastResult, setLastResult] = useState<(ImportResult & { filename: string }) | null>(null);
+
+  const handleFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset the input so the same file can be selected again
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    setIsImporting(true);
+
+    try {
+      const text = await file.text();
+      const format = file.name.toLowerCase().endsWith('.csv')
+        ? 'csv'
+        : file.name.toLowerCase().endsWith('.json') ? 'json' : 'auto';
+
+      const result = importSubnets(text, { format, cloudMode, parentSubnet });
+      setLastResult({ ...result, filename: file.name });
+
+      if (result.subnets.length === 0) {
+        onError?.(result.errors.find(error => !error.recoverable) || createSubnetError(
+          'import',
+          `No subnets could be imported from ${file.name}`,
+          { filename: file.name, totalRows: result.totalRows }
+        ));
+        return;
+      }
+
+      const operation: SubnetOperation = {
+        id: generateOperationId('import'),
+        type: 'import',
+        timestamp: Date.now(),
+        sourceSubnets: [parentSubnet.id || parentSubnet.network],
+        resultSubnets: result.subnets,
+        description: `Imported ${result.importedRows} of ${result.totalRows} subnets from ${file.name}`,
+        ipVersion,
+        cloudMode
+      };
+
+      onImport(result.subnets, operation);
+    } catch (error) {
+      console.error('Import operation failed:', error);
+      onError?.(createSubnetError(
+        'import',
+        error instanceof Error ? error.message : 'Failed to read import file',
+        { filename: file.name }
+      ));
+    } finally {
+      setIsImporting(false);
+    }
+  }, [parentSubnet, ipVersion, cloudMode, onImport, onError]);
+
+  const rowErrors = lastResult?.errors.map(error => error.message) || [];
+  const hiddenErrorCount = Math.max(0, rowErrors.length - MAX_DISPLAYED_ROW_ERRORS);
+
+  return (
+    <Card className={`${className} w-full rounded-lg shadow-md`}>
+      <CardHeader className="p-6 pb-4">
+        <CardTitle className="text-lg font-medium flex items-center gap-2">
+          <Upload className="h-5 w-5" aria-hidden="true" />
+          <span id="subnet-import-title">Import Plan</span>
+        </CardTitle>
+        <CardDescription id="subnet-import-description">
+          Load a CSV or JSON plan previously exported from this tool. Subnets must lie within {parentSubnet.network}{parentSubnet.cidr};
+          derived values and hierarchy are recalculated on import and replace the current subnets.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-6 space-y-4">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          className="sr-only focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+          onChange={handleFileChange}
+          disabled={disabled || isImporting}
+          aria-labelledby="subnet-import-title"
+          data-testid="subnet-import-input"
+          tabIndex={-1}
+        />
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled || isImporting}
+          aria-describedby="subnet-import-description"
+        >
+          {isImporting ? (
+            <Loader2 className="h-4 w-4 animate-spin mr-2" aria-hidden="true" />
+          ) : (
+            <Upload className="h-4 w-4 mr-2" aria-hidden="true" />
+          )}
+          <span>Import from File</span>
+        </Button>
+
+        <div aria-live="polite" aria-atomic="true">
+          {lastResult && lastResult.importedRows > 0 && (
+            <div className="flex items-center gap-2 text-sm text-green-700 dark:text-green-300">
+              <CheckCircle className="h-4 w-4" aria-hidden="true" />
+              <span>
+                Imported {lastResult.importedRows} of {lastResult.totalRows} subnet{lastResult.totalRows === 1 ? '' : 's'} from {lastResult.filename}
+              </span>
+            </div>
+          )}
+        </div>
+
+        {lastResult && (rowErrors.length > 0 || lastResult.warnings.length > 0) && (
+          <ErrorDisplay
+            validation={{
+              isValid: rowErrors.length === 0,
+              errors: [
+                ...rowErrors.slice(0, MAX_DISPLAYED_ROW_ERRORS),
+                ...(hiddenErrorCount > 0 ? [`${hiddenErrorCount} more row${hiddenErrorCount === 1 ? '' : 's'} could not be imported`] : [])
+              ],
+              warnings: lastResult.warnings,
+              suggestions: rowErrors.length > 0
+                ? ['Rows with errors were skipped. Fix them in the source file and import again.']
+                : []
+            }}
+            dismissible={true}
+            onDismiss={() => setLastResult(null)}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
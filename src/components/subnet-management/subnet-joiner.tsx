@@ -6,7 +6,7 @@ import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { AlertCircle, Link2, CheckSquare, Square, Keyboard } from "lucide-react";
+import { AlertCircle, Link2, CheckSquare, Square, Keyboard, Tags, Combine } from "lucide-react";
 import { ErrorDisplay } from "./error-display";
 import { LoadingSpinner, AnimatedTransition } from "./loading-states";
 import { 
@@ -17,10 +17,17 @@ import {
 } from "@/lib/types";
 import { 
   validateSubnetAdjacency,
+  validateIPv6SubnetAdjacency,
   groupAdjacentSubnets,
+  findOptimalJoinGroups,
+  batchJoinSubnets,
   calculateJoinedSubnet,
-  createSubnetError
+  calculateJoinedIPv6Subnet,
+  validateCloudIPv6Join,
+  createSubnetError,
+  getLeafSubnets
 } from "@/lib/subnet-splitting";
+import { formatSubnetMetadataSummary } from "@/lib/subnet-metadata";
 import { generateOperationId } from "@/lib/utils";
 import { useKeyboardNavigation, formatKeyboardShortcut } from "@/lib/keyboard-navigation";
 
@@ -28,14 +35,17 @@ export function SubnetJoiner({
   availableSubnets,
   selectedSubnets,
   ipVersion,
+  cloudMode,
   onSelectionChange,
   onJoin,
+  onJoinAll,
   onError,
   disabled = false
 }: SubnetJoinerProps) {
   const [isValidating, setIsValidating] = useState(false);
   const [showConfirmation, setShowConfirmation] = useState(false);
   const [joinPreview, setJoinPreview] = useState<SplitSubnet | null>(null);
+  const [preserveMetadata, setPreserveMetadata] = useState(true);
 
   // Keyboard navigation setup
   const containerRef = useRef<HTMLDivElement>(null);
@@ -72,20 +82,26 @@ export function SubnetJoiner({
     autoFocus: true
   });
 
-  // Filter IPv4 subnets only for joining
-  const ipv4Subnets = useMemo(() => {
-    return availableSubnets.filter(subnet => subnet.ipVersion === 'ipv4');
-  }, [availableSubnets]);
+  // Only subnets of the plan's IP version can be joined
+  const joinableSubnets = useMemo(() => {
+    return availableSubnets.filter(subnet => subnet.ipVersion === ipVersion);
+  }, [availableSubnets, ipVersion]);
 
   // Get selected subnet objects
   const selectedSubnetObjects = useMemo(() => {
-    return ipv4Subnets.filter(subnet => selectedSubnets.has(subnet.id));
-  }, [ipv4Subnets, selectedSubnets]);
+    return joinableSubnets.filter(subnet => selectedSubnets.has(subnet.id));
+  }, [joinableSubnets, selectedSubnets]);
 
   // Group adjacent subnets for visual feedback
   const adjacentGroups = useMemo(() => {
-    return groupAdjacentSubnets(ipv4Subnets);
-  }, [ipv4Subnets]);
+    return groupAdjacentSubnets(joinableSubnets);
+  }, [joinableSubnets]);
+
+  // Aligned groups that "Join All Possible" joins in a single operation
+  // Only leaf subnets are grouped; a parent would overlap its own children once joined.
+  const optimalJoinGroups = useMemo(() => {
+    return findOptimalJoinGroups(getLeafSubnets(joinableSubnets)).groups;
+  }, [joinableSubnets]);
 
   // Real-time validation of selected subnets
   const validation = useMemo((): ValidationResult => {
@@ -108,8 +124,17 @@ export function SubnetJoiner({
     }
 
     // Validate adjacency and joinability
-    return validateSubnetAdjacency(selectedSubnetObjects);
-  }, [selectedSubnetObjects]);
+    if (ipVersion === 'ipv4') {
+      return validateSubnetAdjacency(selectedSubnetObjects);
+    }
+
+    // In a cloud mode the joined IPv6 subnet must still be one the provider assigns
+    const adjacency = validateIPv6SubnetAdjacency(selectedSubnetObjects);
+    const cloudError = adjacency.isValid ? validateCloudIPv6Join(selectedSubnetObjects, cloudMode) : null;
+    return cloudError
+      ? { ...adjacency, isValid: false, errors: [...adjacency.errors, cloudError] }
+      : adjacency;
+  }, [selectedSubnetObjects, ipVersion, cloudMode]);
 
   // Calculate join preview
   const previewJoinedSubnet = useMemo(() => {
@@ -117,8 +142,15 @@ export function SubnetJoiner({
       return null;
     }
 
-    return calculateJoinedSubnet(selectedSubnetObjects);
-  }, [validation.isValid, selectedSubnetObjects]);
+    return ipVersion === 'ipv6'
+      ? calculateJoinedIPv6Subnet(selectedSubnetObjects, { preserveMetadata }, cloudMode)
+      : calculateJoinedSubnet(selectedSubnetObjects, { preserveMetadata }, cloudMode);
+  }, [validation.isValid, selectedSubnetObjects, preserveMetadata, ipVersion, cloudMode]);
+
+  // The metadata toggle is only offered when there is something to keep
+  const selectionHasMetadata = useMemo(() => {
+    return selectedSubnetObjects.some(subnet => subnet.label || subnet.metadata);
+  }, [selectedSubnetObjects]);
 
   // Handle individual subnet selection
   const handleSubnetToggle = useCallback((subnetId: string) => {
@@ -133,15 +165,15 @@ export function SubnetJoiner({
 
   // Handle select all functionality
   const handleSelectAll = useCallback(() => {
-    if (selectedSubnets.size === ipv4Subnets.length) {
+    if (selectedSubnets.size === joinableSubnets.length) {
       // Deselect all
       onSelectionChange(new Set());
     } else {
       // Select all
-      const allIds = new Set(ipv4Subnets.map(subnet => subnet.id));
+      const allIds = new Set(joinableSubnets.map(subnet => subnet.id));
       onSelectionChange(allIds);
     }
-  }, [selectedSubnets.size, ipv4Subnets, onSelectionChange]);
+  }, [selectedSubnets.size, joinableSubnets, onSelectionChange]);
 
   // Handle selecting an entire adjacent group
   const handleSelectGroup = useCallback((group: typeof adjacentGroups[0]) => {
@@ -191,7 +223,7 @@ export function SubnetJoiner({
             resultSubnets: [previewJoinedSubnet],
             description: `Join ${selectedSubnetObjects.length} subnets into ${previewJoinedSubnet.network}/${previewJoinedSubnet.cidr}`,
             ipVersion,
-            cloudMode: 'normal' // Will be updated by parent component
+            cloudMode
           };
 
           onJoin(previewJoinedSubnet, operation);
@@ -213,7 +245,7 @@ export function SubnetJoiner({
       
       executeDirectJoin();
     }
-  }, [validation.isValid, disabled, previewJoinedSubnet, needsConfirmation, selectedSubnetObjects, ipVersion, onJoin, onSelectionChange, onError]);
+  }, [validation.isValid, disabled, previewJoinedSubnet, needsConfirmation, selectedSubnetObjects, ipVersion, cloudMode, onJoin, onSelectionChange, onError]);
 
   // Execute the join operation
   const executeJoin = useCallback(async () => {
@@ -234,7 +266,7 @@ export function SubnetJoiner({
         resultSubnets: [previewJoinedSubnet],
         description: `Join ${selectedSubnetObjects.length} subnets into ${previewJoinedSubnet.network}/${previewJoinedSubnet.cidr}`,
         ipVersion,
-        cloudMode: 'normal' // Will be updated by parent component
+        cloudMode
       };
 
       onJoin(previewJoinedSubnet, operation);
@@ -252,7 +284,38 @@ export function SubnetJoiner({
     } finally {
       setIsValidating(false);
     }
-  }, [validation.isValid, previewJoinedSubnet, selectedSubnetObjects, ipVersion, onJoin, onSelectionChange, onError]);
+  }, [validation.isValid, previewJoinedSubnet, selectedSubnetObjects, ipVersion, cloudMode, onJoin, onSelectionChange, onError]);
+
+  // Join every aligned group of adjacent subnets as one operation
+  const handleJoinAll = useCallback(() => {
+    if (!onJoinAll || disabled || optimalJoinGroups.length === 0) {
+      return;
+    }
+
+    const { results, errors } = batchJoinSubnets(optimalJoinGroups, cloudMode, { preserveMetadata });
+    if (errors.length > 0) {
+      onError(createSubnetError(
+        'calculation',
+        errors[0],
+        { groups: optimalJoinGroups.map(group => group.map(s => `${s.network}/${s.cidr}`)) }
+      ));
+      return;
+    }
+
+    const joinedSubnets = results.flatMap(result => result.subnets);
+    const sourceSubnets = optimalJoinGroups.flat();
+    onJoinAll(joinedSubnets, {
+      id: generateOperationId('join'),
+      type: 'join',
+      timestamp: Date.now(),
+      sourceSubnets: sourceSubnets.map(s => s.id),
+      resultSubnets: joinedSubnets,
+      description: `Join ${sourceSubnets.length} subnets into ${joinedSubnets.length} larger subnet${joinedSubnets.length !== 1 ? 's' : ''}`,
+      ipVersion,
+      cloudMode
+    });
+    onSelectionChange(new Set());
+  }, [onJoinAll, disabled, optimalJoinGroups, preserveMetadata, ipVersion, cloudMode, onSelectionChange, onError]);
 
   // Check if a subnet is part of an adjacent group
   const getSubnetGroupInfo = useCallback((subnetId: string) => {
@@ -275,9 +338,9 @@ export function SubnetJoiner({
   // Determine select all button state
   const selectAllState = useMemo(() => {
     if (selectedSubnets.size === 0) return 'none';
-    if (selectedSubnets.size === ipv4Subnets.length) return 'all';
+    if (selectedSubnets.size === joinableSubnets.length) return 'all';
     return 'partial';
-  }, [selectedSubnets.size, ipv4Subnets.length]);
+  }, [selectedSubnets.size, joinableSubnets.length]);
 
   // Register keyboard shortcuts
   useEffect(() => {
@@ -431,7 +494,7 @@ export function SubnetJoiner({
       >
         {validation.errors.length > 0 && `Join validation failed: ${validation.errors[0]}`}
         {validation.isValid && selectedSubnetObjects.length >= 2 && `${selectedSubnetObjects.length} adjacent subnets ready to join`}
-        {selectedSubnets.size > 0 && `${selectedSubnets.size} of ${ipv4Subnets.length} subnets selected for joining`}
+        {selectedSubnets.size > 0 && `${selectedSubnets.size} of ${joinableSubnets.length} subnets selected for joining`}
       </div>
 
       <Card className="w-full rounded-lg shadow-md">
@@ -455,23 +518,12 @@ export function SubnetJoiner({
           </CardTitle>
           <CardDescription id="subnet-joiner-description">
             Select adjacent subnets to combine them into larger networks.
-            {ipVersion === 'ipv6' && ' IPv6 joining is not yet supported - switch to IPv4 mode.'}
-            {ipv4Subnets.length > 0 && ` ${ipv4Subnets.length} subnet${ipv4Subnets.length !== 1 ? 's' : ''} available for joining.`}
+            {joinableSubnets.length > 0 && ` ${joinableSubnets.length} subnet${joinableSubnets.length !== 1 ? 's' : ''} available for joining.`}
           </CardDescription>
         </CardHeader>
         <CardContent className="p-6 space-y-4">
-        {/* IPv6 Notice */}
-        {ipVersion === 'ipv6' && (
-          <Alert>
-            <AlertCircle className="h-4 w-4" />
-            <AlertDescription>
-              IPv6 subnet joining is not yet implemented. Switch to IPv4 mode to use this feature.
-            </AlertDescription>
-          </Alert>
-        )}
-
         {/* No subnets available */}
-        {ipv4Subnets.length === 0 && (
+        {joinableSubnets.length === 0 && (
           <Alert>
             <AlertCircle className="h-4 w-4" />
             <AlertDescription>
@@ -481,7 +533,7 @@ export function SubnetJoiner({
         )}
 
         {/* Subnet selection interface */}
-        {ipv4Subnets.length > 0 && (
+        {joinableSubnets.length > 0 && (
           <>
             {/* Selection controls */}
             <div className="flex items-center justify-between">
@@ -504,7 +556,7 @@ export function SubnetJoiner({
                 </Button>
                 
                 <span className="text-sm text-muted-foreground">
-                  {selectedSubnets.size} of {ipv4Subnets.length} subnets selected
+                  {selectedSubnets.size} of {joinableSubnets.length} subnets selected
                 </span>
               </div>
 
@@ -554,12 +606,12 @@ export function SubnetJoiner({
                         onCheckedChange={handleSelectAll}
                         disabled={disabled}
                         className={selectAllState === 'partial' ? 'opacity-50' : ''}
-                        aria-label={`Select all ${ipv4Subnets.length} subnets for joining. Currently ${selectedSubnets.size} of ${ipv4Subnets.length} subnets selected.`}
+                        aria-label={`Select all ${joinableSubnets.length} subnets for joining. Currently ${selectedSubnets.size} of ${joinableSubnets.length} subnets selected.`}
                         aria-describedby="select-all-join-description"
                       />
                       <span id="select-all-join-description" className="sr-only">
                         {selectAllState === 'all' ? 'All subnets are selected for joining' : 
-                         selectAllState === 'partial' ? `${selectedSubnets.size} of ${ipv4Subnets.length} subnets are selected for joining` :
+                         selectAllState === 'partial' ? `${selectedSubnets.size} of ${joinableSubnets.length} subnets are selected for joining` :
                          'No subnets are selected for joining'}
                       </span>
                     </TableHead>
@@ -596,7 +648,7 @@ export function SubnetJoiner({
                   </TableRow>
                 </TableHeader>
                 <TableBody role="rowgroup">
-                  {ipv4Subnets.map((subnet, index) => {
+                  {joinableSubnets.map((subnet, index) => {
                     const isSelected = selectedSubnets.has(subnet.id);
                     const groupInfo = getSubnetGroupInfo(subnet.id);
                     
@@ -620,7 +672,7 @@ export function SubnetJoiner({
                           />
                           <span id={`join-subnet-${subnet.id}-selection-description`} className="sr-only">
                             {isSelected ? 'Selected for joining' : 'Not selected for joining'}. 
-                            Subnet {index + 1} of {ipv4Subnets.length}.
+                            Subnet {index + 1} of {joinableSubnets.length}.
                             {groupInfo && groupInfo.canJoin ? ` Can be joined with other subnets in group ${groupInfo.groupIndex + 1}.` : ' Cannot be joined - not adjacent to other subnets.'}
                           </span>
                         </TableCell>
@@ -697,7 +749,28 @@ export function SubnetJoiner({
                     <span className="text-muted-foreground">IP Range:</span>
                     <span className="ml-2 font-mono text-xs">{previewJoinedSubnet.firstHost} - {previewJoinedSubnet.lastHost}</span>
                   </div>
+                  {(previewJoinedSubnet.label || previewJoinedSubnet.metadata) && (
+                    <div className="col-span-2">
+                      <span className="text-muted-foreground">Kept Details:</span>
+                      <span className="ml-2">
+                        {[previewJoinedSubnet.label, formatSubnetMetadataSummary(previewJoinedSubnet.metadata)].filter(Boolean).join('; ')}
+                      </span>
+                    </div>
+                  )}
                 </div>
+                {selectionHasMetadata && (
+                  <Button
+                    variant={preserveMetadata ? 'secondary' : 'outline'}
+                    size="sm"
+                    className="mt-3"
+                    onClick={() => setPreserveMetadata(previous => !previous)}
+                    disabled={disabled}
+                    aria-pressed={preserveMetadata}
+                  >
+                    <Tags className="h-4 w-4 mr-2" aria-hidden="true" />
+                    {preserveMetadata ? 'Keeping names and metadata' : 'Dropping names and metadata'}
+                  </Button>
+                )}
                 <div className="mt-2 text-xs text-muted-foreground">
                   Joining {selectedSubnetObjects.length} subnets into 1 larger subnet
                 </div>
@@ -714,7 +787,7 @@ export function SubnetJoiner({
                   subnet: selectedSubnetObjects.length > 0 ? 
                     `${selectedSubnetObjects.length} selected subnets` : 
                     'No subnets selected',
-                  cloudMode: 'normal',
+                  cloudMode,
                   ipVersion
                 }}
                 expandSuggestions={validation.suggestions && validation.suggestions.length > 0}
@@ -739,6 +812,23 @@ export function SubnetJoiner({
                 </>
               )}
             </Button>
+
+            {/* Join every aligned adjacent group at once */}
+            {onJoinAll && optimalJoinGroups.length > 0 && (
+              <Button
+                variant="outline"
+                onClick={handleJoinAll}
+                disabled={disabled || isValidating}
+                className="w-full"
+                aria-describedby="join-all-description"
+              >
+                <Combine className="h-4 w-4 mr-2" aria-hidden="true" />
+                Join All Possible ({optimalJoinGroups.length} group{optimalJoinGroups.length !== 1 ? 's' : ''})
+                <span id="join-all-description" className="sr-only">
+                  Joins {optimalJoinGroups.reduce((sum, group) => sum + group.length, 0)} subnets in {optimalJoinGroups.length} aligned adjacent groups into larger subnets
+                </span>
+              </Button>
+            )}
           </>
         )}
 
@@ -32,13 +32,18 @@ import {
   Loader2,
   Search,
   X,
-  Keyboard
+  Keyboard,
+  Pencil
 } from 'lucide-react';
 import { SplitSubnet } from '@/lib/types';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { VirtualSubnetList } from './virtual-subnet-list';
 import { debounce } from '@/lib/performance';
 import { useKeyboardNavigation, formatKeyboardShortcut } from '@/lib/keyboard-navigation';
+import { matchesSubnetSearch } from '@/lib/subnet-metadata';
+import { SUBNET_STATUSES, getSubnetStatus, summarizeSubnetStatus, formatStatusShare } from '@/lib/subnet-status';
+import { SubnetMetadataBadges, SubnetMetadataEditor } from './subnet-metadata-editor';
+import { SubnetStatusBadge, SubnetStatusFilter, SubnetStatusFilterValue, matchesStatusFilter } from './subnet-status-controls';
 
 interface SubnetListProps {
   subnets: SplitSubnet[];
@@ -48,6 +53,7 @@ interface SubnetListProps {
   onFilter?: (filterText: string) => void;
   onCopySubnet?: (subnet: SplitSubnet) => void;
   onSubnetDetails?: (subnet: SplitSubnet) => void;
+  onUpdateSubnet?: (subnet: SplitSubnet) => void;
   sortBy?: string;
   sortOrder?: 'asc' | 'desc';
   filterText?: string;
@@ -57,7 +63,7 @@ interface SubnetListProps {
   className?: string;
 }
 
-type SortField = 'network' | 'cidr' | 'totalHosts' | 'usableHosts' | 'firstHost' | 'lastHost';
+type SortField = 'network' | 'cidr' | 'totalHosts' | 'usableHosts' | 'firstHost' | 'lastHost' | 'status';
 
 // Memoized SubnetList component for optimal performance
 export const SubnetList = memo<SubnetListProps>(({
@@ -68,6 +74,7 @@ export const SubnetList = memo<SubnetListProps>(({
   onFilter,
   onCopySubnet,
   onSubnetDetails,
+  onUpdateSubnet,
   sortBy = 'network',
   sortOrder = 'asc',
   filterText = '',
@@ -80,7 +87,9 @@ export const SubnetList = memo<SubnetListProps>(({
   const [internalSortBy, setInternalSortBy] = useState<SortField | null>(null);
   const [internalSortOrder, setInternalSortOrder] = useState<'asc' | 'desc'>('asc');
   const [internalFilterText, setInternalFilterText] = useState<string>(filterText);
+  const [statusFilter, setStatusFilter] = useState<SubnetStatusFilterValue>('all');
   const [copyingSubnet, setCopyingSubnet] = useState<string | null>(null);
+  const [editingSubnetId, setEditingSubnetId] = useState<string | null>(null);
   const [copyFeedback, setCopyFeedback] = useState<{
     type: 'success' | 'error' | null;
     message: string;
@@ -163,6 +172,10 @@ export const SubnetList = memo<SubnetListProps>(({
           `Usable Hosts:       ${subnet.usableHosts.toLocaleString()}`,
         ];
 
+        if (subnet.pairedIPv6) {
+          lines.push(`Paired IPv6:        ${subnet.pairedIPv6}`);
+        }
+
         // Add IPv6 specific information if available
         if (subnet.ipVersion === 'ipv6' && subnet.ipv6Info) {
           lines.push(
@@ -298,6 +311,10 @@ export const SubnetList = memo<SubnetListProps>(({
             aValue = a.lastHost.split('.').map(n => parseInt(n).toString().padStart(3, '0')).join('.');
             bValue = b.lastHost.split('.').map(n => parseInt(n).toString().padStart(3, '0')).join('.');
             break;
+          case 'status':
+            aValue = SUBNET_STATUSES.indexOf(getSubnetStatus(a));
+            bValue = SUBNET_STATUSES.indexOf(getSubnetStatus(b));
+            break;
           default:
             aValue = a.network;
             bValue = b.network;
@@ -315,22 +332,19 @@ export const SubnetList = memo<SubnetListProps>(({
       });
     }
 
-    // Then filter the sorted subnets
-    if (!internalFilterText.trim()) {
-      return sorted;
-    }
+    // Then filter the sorted subnets, including their names and metadata
+    return sorted.filter(subnet => matchesSubnetSearch(subnet, internalFilterText) && matchesStatusFilter(subnet, statusFilter));
+  }, [subnets, internalSortBy, internalSortOrder, internalFilterText, statusFilter]);
 
-    const searchTerm = internalFilterText.toLowerCase().trim();
-    return sorted.filter(subnet => 
-      subnet.network.toLowerCase().includes(searchTerm) ||
-      subnet.cidr.toString().includes(searchTerm) ||
-      subnet.firstHost.toLowerCase().includes(searchTerm) ||
-      subnet.lastHost.toLowerCase().includes(searchTerm) ||
-      subnet.broadcast.toLowerCase().includes(searchTerm) ||
-      subnet.usableHosts.toString().includes(searchTerm) ||
-      subnet.totalHosts.toString().includes(searchTerm)
-    );
-  }, [subnets, internalSortBy, internalSortOrder, internalFilterText]);
+  const statusSummary = useMemo(() => summarizeSubnetStatus(subnets), [subnets]);
+  const isFiltered = Boolean(internalFilterText) || statusFilter !== 'all';
+
+  const handleSaveDetails = useCallback((updated: SplitSubnet) => {
+    onUpdateSubnet?.(updated);
+    setEditingSubnetId(null);
+  }, [onUpdateSubnet]);
+
+  const columnCount = 6 + (showSelection ? 1 : 0) + (showActions ? 1 : 0);
 
   // Handle select all/none
   const handleSelectAll = useCallback((checked: boolean) => {
@@ -534,6 +548,7 @@ export const SubnetList = memo<SubnetListProps>(({
         onFilter={onFilter}
         onCopySubnet={onCopySubnet}
         onSubnetDetails={onSubnetDetails}
+        onUpdateSubnet={onUpdateSubnet}
         sortBy={sortBy}
         sortOrder={sortOrder}
         filterText={filterText}
@@ -579,7 +594,7 @@ export const SubnetList = memo<SubnetListProps>(({
       >
         {copyFeedback && copyFeedback.type === 'success' && 'Subnet information copied successfully'}
         {copyFeedback && copyFeedback.type === 'error' && 'Failed to copy subnet information'}
-        {internalFilterText && sortedAndFilteredSubnets.length !== subnets.length && `Filter applied: ${sortedAndFilteredSubnets.length} results found`}
+        {isFiltered && sortedAndFilteredSubnets.length !== subnets.length && `Filter applied: ${sortedAndFilteredSubnets.length} results found`}
         {selectedSubnets.size > 0 && `Selection updated: ${selectedSubnets.size} subnets selected`}
       </div>
 
@@ -590,6 +605,9 @@ export const SubnetList = memo<SubnetListProps>(({
               Subnet List ({subnets.length} subnet{subnets.length !== 1 ? 's' : ''})
             </span>
             <div className="flex items-center gap-2">
+              <span className="text-sm font-normal text-muted-foreground" title="Share of the address space in leaf subnets">
+                {formatStatusShare(statusSummary)}
+              </span>
               {showSelection && selectedSubnets.size > 0 && (
                 <span 
                   className="text-sm font-normal text-muted-foreground"
@@ -614,28 +632,31 @@ export const SubnetList = memo<SubnetListProps>(({
         </CardHeader>
         <CardContent className="p-6">
         {/* Search/Filter Input */}
-        <div className="mb-4 relative">
-          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-          <Input
-            placeholder="Search subnets by network, CIDR, or host range..."
-            value={internalFilterText}
-            onChange={(e) => handleFilterChange(e.target.value)}
-            className="pl-10 pr-10"
-          />
-          {internalFilterText && (
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={clearFilter}
-              className="absolute right-1 top-1/2 transform -translate-y-1/2 h-8 w-8 p-0"
-            >
-              <X className="h-4 w-4" />
-            </Button>
-          )}
+        <div className="mb-4 flex flex-col sm:flex-row gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search subnets by network, CIDR, or host range..."
+              value={internalFilterText}
+              onChange={(e) => handleFilterChange(e.target.value)}
+              className="pl-10 pr-10"
+            />
+            {internalFilterText && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={clearFilter}
+                className="absolute right-1 top-1/2 transform -translate-y-1/2 h-8 w-8 p-0"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+          <SubnetStatusFilter id="subnet-list-status-filter" value={statusFilter} onChange={setStatusFilter} />
         </div>
 
         {/* Results count when filtering */}
-        {internalFilterText && (
+        {isFiltered && (
           <div className="mb-4 text-sm text-muted-foreground">
             Showing {sortedAndFilteredSubnets.length} of {subnets.length} subnets
           </div>
@@ -703,6 +724,18 @@ export const SubnetList = memo<SubnetListProps>(({
                     CIDR prefix length indicating subnet size. Lower numbers mean larger subnets.
                   </span>
                 </TableHead>
+                <TableHead role="columnheader">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-auto p-0 hover:bg-transparent"
+                    onClick={() => handleSort('status')}
+                    aria-label={`Sort by allocation status. Currently sorted ${internalSortBy === 'status' ? `${internalSortOrder}ending` : 'unsorted'}`}
+                  >
+                    Status
+                    {renderSortIcon('status')}
+                  </Button>
+                </TableHead>
                 <TableHead role="columnheader">
                   <Button
                     variant="ghost"
@@ -763,8 +796,8 @@ export const SubnetList = memo<SubnetListProps>(({
             </TableHeader>
             <TableBody role="rowgroup">
               {sortedAndFilteredSubnets.map((subnet, index) => (
-                <TableRow 
-                  key={subnet.id}
+                <React.Fragment key={subnet.id}>
+                <TableRow
                   role="row"
                   className={selectedSubnets.has(subnet.id) ? 'bg-muted/50' : ''}
                   aria-selected={selectedSubnets.has(subnet.id)}
@@ -791,12 +824,24 @@ export const SubnetList = memo<SubnetListProps>(({
                     <span aria-label={`Network address ${subnet.network}`}>
                       {subnet.network}
                     </span>
+                    {subnet.pairedIPv6 && (
+                      <span className="block text-xs text-muted-foreground" aria-label={`Paired IPv6 subnet ${subnet.pairedIPv6}`}>
+                        {subnet.pairedIPv6}
+                      </span>
+                    )}
+                    {subnet.label && (
+                      <span className="block font-sans text-xs text-muted-foreground">{subnet.label}</span>
+                    )}
+                    <SubnetMetadataBadges metadata={subnet.metadata} className="mt-1" />
                   </TableCell>
                   <TableCell className="font-mono" role="gridcell">
                     <span aria-label={`CIDR prefix length ${subnet.cidr}`}>
                       /{subnet.cidr}
                     </span>
                   </TableCell>
+                  <TableCell role="gridcell">
+                    <SubnetStatusBadge subnet={subnet} />
+                  </TableCell>
                   <TableCell role="gridcell">
                     <span aria-label={`${subnet.usableHosts.toLocaleString()} usable host addresses`}>
                       {subnet.usableHosts.toLocaleString()}
@@ -850,10 +895,34 @@ export const SubnetList = memo<SubnetListProps>(({
                         <span id={`details-${subnet.id}-description`} className="sr-only">
                           Opens detailed view with comprehensive subnet information and configuration options.
                         </span>
+                        {onUpdateSubnet && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setEditingSubnetId(editingSubnetId === subnet.id ? null : subnet.id)}
+                            aria-label={`Edit name, metadata and status for subnet ${subnet.network}/${subnet.cidr}`}
+                            aria-expanded={editingSubnetId === subnet.id}
+                          >
+                            <Pencil className="h-4 w-4" aria-hidden="true" />
+                            <span className="sr-only">Edit subnet details</span>
+                          </Button>
+                        )}
                       </div>
                     </TableCell>
                   )}
                 </TableRow>
+                {onUpdateSubnet && editingSubnetId === subnet.id && (
+                  <TableRow role="row">
+                    <TableCell colSpan={columnCount} role="gridcell" className="bg-muted/30">
+                      <SubnetMetadataEditor
+                        subnet={subnet}
+                        onSave={handleSaveDetails}
+                        onCancel={() => setEditingSubnetId(null)}
+                      />
+                    </TableCell>
+                  </TableRow>
+                )}
+                </React.Fragment>
               ))}
             </TableBody>
           </Table>
@@ -873,7 +942,7 @@ export const SubnetList = memo<SubnetListProps>(({
         </div>
 
         {/* No results message */}
-        {sortedAndFilteredSubnets.length === 0 && internalFilterText && (
+        {sortedAndFilteredSubnets.length === 0 && isFiltered && (
           <div className="text-center py-8 text-muted-foreground">
             <Search className="h-12 w-12 mx-auto mb-4 opacity-50" />
             <p>No subnets match your search criteria</p>
@@ -901,12 +970,20 @@ export const SubnetList = memo<SubnetListProps>(({
                       />
                     )}
                     <div>
-                      <div className="font-mono text-sm font-semibold">
+                      <div className="font-mono text-sm font-semibold flex items-center gap-2">
                         {subnet.network}/{subnet.cidr}
+                        <SubnetStatusBadge subnet={subnet} />
                       </div>
+                      {subnet.pairedIPv6 && (
+                        <div className="font-mono text-xs text-muted-foreground">{subnet.pairedIPv6}</div>
+                      )}
+                      {subnet.label && (
+                        <div className="text-xs font-medium">{subnet.label}</div>
+                      )}
                       <div className="text-xs text-muted-foreground">
                         {subnet.usableHosts.toLocaleString()} usable hosts
                       </div>
+                      <SubnetMetadataBadges metadata={subnet.metadata} className="mt-1" />
                     </div>
                   </div>
                   {showActions && (
@@ -934,9 +1011,29 @@ export const SubnetList = memo<SubnetListProps>(({
                           <Info className="h-4 w-4" />
                         </Button>
                       )}
+                      {onUpdateSubnet && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setEditingSubnetId(editingSubnetId === subnet.id ? null : subnet.id)}
+                          title="Edit name, metadata and status"
+                          aria-expanded={editingSubnetId === subnet.id}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      )}
                     </div>
                   )}
                 </div>
+                {onUpdateSubnet && editingSubnetId === subnet.id && (
+                  <SubnetMetadataEditor
+                    subnet={subnet}
+                    onSave={handleSaveDetails}
+                    onCancel={() => setEditingSubnetId(null)}
+                    idPrefix={`subnet-details-mobile-${subnet.id}`}
+                    className="mb-3"
+                  />
+                )}
                 <div className="grid grid-cols-1 gap-2 text-xs">
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">First Host:</span>
@@ -0,0 +1,171 @@
+"use client";
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Check, X } from 'lucide-react';
+import { ErrorDisplay } from './error-display';
+import { SplitSubnet, SubnetMetadata, SubnetStatus } from '@/lib/types';
+import {
+  SubnetDetailsInput,
+  applySubnetDetails,
+  getSubnetDetailsInput,
+  parseSubnetDetailsInput,
+  MAX_VLAN_ID
+} from '@/lib/subnet-metadata';
+import {
+  SUBNET_STATUS_LABELS,
+  SUBNET_STATUS_TRANSITIONS,
+  getSubnetStatus,
+  transitionSubnetStatus
+} from '@/lib/subnet-status';
+
+interface SubnetMetadataBadgesProps {
+  metadata?: SubnetMetadata;
+  className?: string;
+}
+
+interface SubnetMetadataEditorProps {
+  subnet: SplitSubnet;
+  onSave: (updated: SplitSubnet) => void;
+  onCancel: () => void;
+  idPrefix?: string; // Distinguishes the input ids when the same subnet is editable in two layouts
+  className?: string;
+}
+
+const FIELDS: { key: keyof SubnetDetailsInput; label: string; placeholder: string }[] = [
+  { key: 'label', label: 'Name', placeholder: 'web-tier' },
+  { key: 'description', label: 'Description', placeholder: 'Public load balancers' },
+  { key: 'tags', label: 'Tags', placeholder: 'pci, team=netops' },
+  { key: 'vlanId', label: 'VLAN ID', placeholder: `1-${MAX_VLAN_ID}` },
+  { key: 'owner', label: 'Owner', placeholder: 'netops' },
+  { key: 'environment', label: 'Environment', placeholder: 'production' }
+];
+
+// Compact display of subnet metadata for list rows, cards and tree nodes
+export function SubnetMetadataBadges({ metadata, className = '' }: SubnetMetadataBadgesProps) {
+  if (!metadata) {
+    return null;
+  }
+
+  const badges = [
+    metadata.environment,
+    metadata.owner && `owner: ${metadata.owner}`,
+    metadata.vlanId !== undefined && `VLAN ${metadata.vlanId}`,
+    ...(metadata.tags || [])
+  ].filter((badge): badge is string => Boolean(badge));
+
+  return (
+    <div className={`${className} font-sans space-y-1`}>
+      {metadata.description && (
+        <div className="text-xs text-muted-foreground">{metadata.description}</div>
+      )}
+      {badges.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {badges.map((badge, index) => (
+            <Badge key={`${index}-${badge}`} variant="secondary" className="text-[10px] px-1.5 py-0 font-normal">
+              {badge}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Inline form for the name, metadata and status of a single subnet, shared by the list and tree views
+export function SubnetMetadataEditor({
+  subnet,
+  onSave,
+  onCancel,
+  idPrefix = `subnet-details-${subnet.id}`,
+  className = ''
+}: SubnetMetadataEditorProps) {
+  const [input, setInput] = useState<SubnetDetailsInput>(() => getSubnetDetailsInput(subnet));
+  const [status, setStatus] = useState<SubnetStatus>(() => getSubnetStatus(subnet));
+  const [error, setError] = useState<string | null>(null);
+  const statusOptions = [getSubnetStatus(subnet), ...SUBNET_STATUS_TRANSITIONS[getSubnetStatus(subnet)]];
+
+  const handleSave = () => {
+    try {
+      onSave(transitionSubnetStatus(applySubnetDetails(subnet, parseSubnetDetailsInput(input)), status));
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Invalid subnet details');
+    }
+  };
+
+  return (
+    <form
+      className={`${className} space-y-3`}
+      aria-label={`Edit details for subnet ${subnet.network}/${subnet.cidr}`}
+      onSubmit={(e) => {
+        e.preventDefault();
+        handleSave();
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') {
+          e.stopPropagation();
+          onCancel();
+        }
+      }}
+    >
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+        {FIELDS.map(field => (
+          <div key={field.key} className="space-y-1">
+            <Label htmlFor={`${idPrefix}-${field.key}`} className="text-xs">{field.label}</Label>
+            <Input
+              id={`${idPrefix}-${field.key}`}
+              value={input[field.key]}
+              placeholder={field.placeholder}
+              inputMode={field.key === 'vlanId' ? 'numeric' : undefined}
+              onChange={(e) => {
+                setInput(previous => ({ ...previous, [field.key]: e.target.value }));
+                setError(null);
+              }}
+              className="h-8"
+            />
+          </div>
+        ))}
+        <div className="space-y-1">
+          <Label htmlFor={`${idPrefix}-status`} className="text-xs">Status</Label>
+          <Select
+            value={status}
+            onValueChange={(value) => {
+              setStatus(value as SubnetStatus);
+              setError(null);
+            }}
+          >
+            <SelectTrigger id={`${idPrefix}-status`} className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {statusOptions.map(option => (
+                <SelectItem key={option} value={option}>
+                  {SUBNET_STATUS_LABELS[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {error && (
+        <ErrorDisplay validation={{ isValid: false, errors: [error], warnings: [] }} />
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+          <X className="h-4 w-4 mr-1" aria-hidden="true" />
+          Cancel
+        </Button>
+        <Button type="submit" size="sm">
+          <Check className="h-4 w-4 mr-1" aria-hidden="true" />
+          Save
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -20,6 +20,7 @@ import {
   calculateSplitPreview,
   createSubnetError 
 } from "@/lib/subnet-splitting";
+import { getCloudProvider, describeReservedPositions } from "@/lib/cloud-providers";
 import { generateOperationId } from "@/lib/utils";
 import { debounce, performanceMonitor, shouldShowPerformanceWarning } from "@/lib/performance";
 import { useKeyboardNavigation, useSubnetKeyboardShortcuts, formatKeyboardShortcut } from "@/lib/keyboard-navigation";
@@ -109,6 +110,8 @@ export function SubnetSplitter({
     debouncedCustomCidrUpdate(customCidr);
   }, [customCidr, debouncedCustomCidrUpdate]);
 
+  const cloudProvider = getCloudProvider(cloudMode);
+
   // Calculate split preview using debounced values for better performance
   const splitPreview = useMemo(() => {
     const options: SplitOptions = {
@@ -179,103 +182,53 @@ export function SubnetSplitter({
     }
 
     // Cloud provider specific validation with enhanced error messages
-    if (cloudMode !== 'normal') {
-      const cloudProviders = {
-        aws: { 
-          name: 'AWS', 
-          minCidr: 16, 
-          maxCidr: 28, 
-          reservedIPs: 5,
-          minRecommendedHosts: 16,
-          service: 'VPC',
-          documentation: 'https://docs.aws.amazon.com/vpc/latest/userguide/VPC_Subnets.html'
-        },
-        azure: { 
-          name: 'Azure', 
-          minCidr: 8, 
-          maxCidr: 29, 
-          reservedIPs: 5,
-          minRecommendedHosts: 8,
-          service: 'Virtual Network',
-          documentation: 'https://docs.microsoft.com/en-us/azure/virtual-network/virtual-networks-faq'
-        },
-        gcp: { 
-          name: 'Google Cloud', 
-          minCidr: 8, 
-          maxCidr: 29, 
-          reservedIPs: 4,
-          minRecommendedHosts: 8,
-          service: 'VPC Network',
-          documentation: 'https://cloud.google.com/vpc/docs/subnets'
-        }
-      };
-
-      const provider = cloudProviders[cloudMode as keyof typeof cloudProviders];
-      if (provider) {
-        // CIDR size validation with specific error messages
-        if (splitPreview.targetCidr > provider.maxCidr) {
-          errors.push(`${provider.name} ${provider.service} does not support subnets smaller than /${provider.maxCidr}`);
-          errors.push(`Target CIDR /${splitPreview.targetCidr} exceeds ${provider.name} maximum subnet size`);
-          suggestions.push(`Use a target CIDR between /${provider.minCidr} and /${provider.maxCidr} for ${provider.name} compatibility`);
-          suggestions.push(`For smaller subnets, consider using multiple ${provider.name} availability zones`);
-        }
+    const provider = getCloudProvider(cloudMode);
+    if (provider) {
+      const service = `${provider.name} ${provider.networkService}`;
+
+      // CIDR size validation with specific error messages
+      if (splitPreview.targetCidr > provider.maxCidr) {
+        errors.push(`${service} does not support subnets smaller than /${provider.maxCidr}`);
+        errors.push(`Target CIDR /${splitPreview.targetCidr} exceeds ${provider.name} maximum subnet size`);
+        suggestions.push(`Use a target CIDR between /${provider.minCidr} and /${provider.maxCidr} for ${provider.name} compatibility`);
+        suggestions.push(`For smaller subnets, consider using multiple ${provider.name} availability zones`);
+      }
 
-        if (splitPreview.targetCidr < provider.minCidr) {
-          errors.push(`${provider.name} ${provider.service} requires subnets to be at least /${provider.minCidr}`);
-          errors.push(`Target CIDR /${splitPreview.targetCidr} is too large for ${provider.name} subnets`);
-          suggestions.push(`${provider.name} limits subnet sizes to prevent IP address exhaustion`);
-        }
+      if (splitPreview.targetCidr < provider.minCidr) {
+        errors.push(`${service} requires subnets to be at least /${provider.minCidr}`);
+        errors.push(`Target CIDR /${splitPreview.targetCidr} is too large for ${provider.name} subnets`);
+        suggestions.push(`${provider.name} limits subnet sizes to prevent IP address exhaustion`);
+      }
 
-        // IP address availability validation
-        if (splitPreview.subnetSize < provider.reservedIPs) {
-          errors.push(`${provider.name} ${provider.service} requires at least ${provider.reservedIPs} IP addresses per subnet`);
-          errors.push(`Resulting /${splitPreview.targetCidr} subnets will only have ${splitPreview.subnetSize} IP addresses`);
-          errors.push(`${provider.name} reserves ${provider.reservedIPs} IPs for system use (network, gateway, DNS, broadcast)`);
-          suggestions.push(`Use a larger target CIDR (smaller number) to ensure sufficient IP addresses`);
-          suggestions.push(`Minimum viable ${provider.name} subnet is /${provider.maxCidr} with ${Math.pow(2, 32 - provider.maxCidr)} total IPs`);
-        } else if (splitPreview.subnetSize - provider.reservedIPs < provider.minRecommendedHosts) {
-          warnings.push(`${provider.name} subnets will have very few usable IP addresses (${splitPreview.subnetSize - provider.reservedIPs})`);
-          warnings.push(`${provider.name} recommends at least ${provider.minRecommendedHosts} usable IPs per subnet for practical use`);
-          suggestions.push('Consider using a larger subnet size for more usable addresses');
-          suggestions.push(`Each ${provider.name} subnet should accommodate expected resource growth`);
-        }
+      // IP address availability validation
+      if (splitPreview.subnetSize < provider.reservedCount) {
+        errors.push(`${service} requires at least ${provider.reservedCount} IP addresses per subnet`);
+        errors.push(`Resulting /${splitPreview.targetCidr} subnets will only have ${splitPreview.subnetSize} IP addresses`);
+        errors.push(`${provider.name} reserves ${provider.reservedCount} IPs for system use (network, gateway, DNS, broadcast)`);
+        suggestions.push(`Use a larger target CIDR (smaller number) to ensure sufficient IP addresses`);
+        suggestions.push(`Minimum viable ${provider.name} subnet is /${provider.maxCidr} with ${Math.pow(2, 32 - provider.maxCidr)} total IPs`);
+      } else if (splitPreview.subnetSize - provider.reservedCount < provider.minRecommendedHosts) {
+        warnings.push(`${provider.name} subnets will have very few usable IP addresses (${splitPreview.subnetSize - provider.reservedCount})`);
+        warnings.push(`${provider.name} recommends at least ${provider.minRecommendedHosts} usable IPs per subnet for practical use`);
+        suggestions.push('Consider using a larger subnet size for more usable addresses');
+        suggestions.push(`Each ${provider.name} subnet should accommodate expected resource growth`);
+      }
 
-        // Cloud-specific best practice warnings
-        if (cloudMode === 'aws') {
-          if (splitPreview.subnetCount > 200) {
-            warnings.push('AWS VPCs have a default limit of 200 subnets per VPC');
-            suggestions.push('Consider using multiple VPCs or request a service limit increase');
-          }
-          if (splitPreview.targetCidr === 28) {
-            warnings.push('AWS /28 subnets have only 11 usable IPs after reserved addresses');
-            suggestions.push('Consider /27 or larger for better resource allocation flexibility');
-          }
-        } else if (cloudMode === 'azure') {
-          if (splitPreview.subnetCount > 3000) {
-            warnings.push('Azure Virtual Networks have a default limit of 3000 subnets');
-            suggestions.push('Consider using multiple Virtual Networks if needed');
-          }
-          if (splitPreview.targetCidr === 29) {
-            warnings.push('Azure /29 subnets have only 3 usable IPs after reserved addresses');
-            suggestions.push('Very small subnets may limit Azure service deployment options');
-          }
-        } else if (cloudMode === 'gcp') {
-          if (splitPreview.subnetCount > 100) {
-            warnings.push('Google Cloud VPC networks have a default limit of 100 subnets per network');
-            suggestions.push('Consider using multiple VPC networks or regional subnets');
-          }
-          if (splitPreview.targetCidr === 29) {
-            warnings.push('GCP /29 subnets have only 4 usable IPs after reserved addresses');
-            suggestions.push('Consider larger subnets for better resource allocation');
-          }
-        }
+      // Cloud-specific best practice warnings
+      if (splitPreview.subnetCount > provider.subnetLimit) {
+        warnings.push(`${service}s have a default limit of ${provider.subnetLimit} subnets`);
+        suggestions.push(`Consider using multiple ${provider.networkService}s or request a service limit increase`);
+      }
+      if (splitPreview.targetCidr === provider.maxCidr) {
+        warnings.push(`${provider.name} /${provider.maxCidr} subnets have only ${Math.pow(2, 32 - provider.maxCidr) - provider.reservedCount} usable IPs after reserved addresses`);
+        suggestions.push(`Consider /${provider.maxCidr - 1} or larger for better resource allocation flexibility`);
+      }
 
-        // Multi-AZ/Region considerations
-        if (splitPreview.subnetCount >= 3 && splitPreview.subnetCount % 3 === 0) {
-          suggestions.push(`${splitPreview.subnetCount} subnets can be evenly distributed across 3 availability zones`);
-        } else if (splitPreview.subnetCount >= 2 && splitPreview.subnetCount % 2 === 0) {
-          suggestions.push(`${splitPreview.subnetCount} subnets can be evenly distributed across 2 availability zones`);
-        }
+      // Multi-AZ/Region considerations
+      if (splitPreview.subnetCount >= 3 && splitPreview.subnetCount % 3 === 0) {
+        suggestions.push(`${splitPreview.subnetCount} subnets can be evenly distributed across 3 availability zones`);
+      } else if (splitPreview.subnetCount >= 2 && splitPreview.subnetCount % 2 === 0) {
+        suggestions.push(`${splitPreview.subnetCount} subnets can be evenly distributed across 2 availability zones`);
       }
     }
 
@@ -714,7 +667,7 @@ export function SubnetSplitter({
           </CardTitle>
           <CardDescription id="subnet-splitter-description">
             Divide {parentSubnet.network}{parentSubnet.cidr} into smaller subnets.
-            {cloudMode !== 'normal' && ` Operating in ${cloudMode.toUpperCase()} mode with cloud provider constraints.`}
+            {cloudProvider && ` Operating in ${cloudProvider.name} mode with cloud provider constraints.`}
             {ipVersion === 'ipv6' ? ' IPv6 subnetting with 128-bit address space.' : ' IPv4 subnetting with 32-bit address space.'}
           </CardDescription>
         </CardHeader>
@@ -832,9 +785,9 @@ export function SubnetSplitter({
             <div className="flex items-center gap-2 mb-2">
               <Info className="h-4 w-4 text-blue-500" />
               <span className="font-medium">Split Preview</span>
-              {cloudMode !== 'normal' && (
+              {cloudProvider && (
                 <span className="text-xs bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 px-2 py-1 rounded">
-                  {cloudMode.toUpperCase()}
+                  {cloudProvider.name}
                 </span>
               )}
             </div>
@@ -853,47 +806,24 @@ export function SubnetSplitter({
               </div>
               <div>
                 <span className="text-muted-foreground">
-                  {cloudMode === 'normal' ? 'Usable IPs per Subnet:' : `Usable IPs (${cloudMode.toUpperCase()}):`}
+                  {cloudProvider ? `Usable IPs (${cloudProvider.name}):` : 'Usable IPs per Subnet:'}
                 </span>
                 <span className="ml-2 font-medium">
-                  {Math.max(0, splitPreview.subnetSize - (cloudMode === 'normal' ? 2 : 
-                    cloudMode === 'aws' || cloudMode === 'azure' ? 5 : 4)).toLocaleString()}
+                  {Math.max(0, splitPreview.subnetSize - (cloudProvider ? cloudProvider.reservedCount : 2)).toLocaleString()}
                 </span>
               </div>
             </div>
             
             {/* Cloud Provider Specific Information */}
-            {cloudMode !== 'normal' && (
+            {cloudProvider && (
               <div className="mt-4 pt-4 border-t">
                 <div className="text-xs text-muted-foreground mb-2">
-                  <strong>{cloudMode.toUpperCase()} Reserved IPs per Subnet:</strong>
+                  <strong>{cloudProvider.name} Reserved IPs per Subnet:</strong>
                 </div>
                 <div className="grid grid-cols-1 gap-1 text-xs">
-                  {cloudMode === 'aws' && (
-                    <>
-                      <div>• Network Address (1st IP)</div>
-                      <div>• VPC Router (2nd IP)</div>
-                      <div>• DNS Server (3rd IP)</div>
-                      <div>• Future Use (4th IP)</div>
-                      <div>• Broadcast Address (last IP)</div>
-                    </>
-                  )}
-                  {cloudMode === 'azure' && (
-                    <>
-                      <div>• Network Address (1st IP)</div>
-                      <div>• Default Gateway (2nd IP)</div>
-                      <div>• Azure DNS (3rd & 4th IPs)</div>
-                      <div>• Broadcast Address (last IP)</div>
-                    </>
-                  )}
-                  {cloudMode === 'gcp' && (
-                    <>
-                      <div>• Network Address (1st IP)</div>
-                      <div>• Default Gateway (2nd IP)</div>
-                      <div>• Second-to-last IP (reserved)</div>
-                      <div>• Broadcast Address (last IP)</div>
-                    </>
-                  )}
+                  {describeReservedPositions(cloudProvider).map((reservation, index) => (
+                    <div key={index}>• {reservation}</div>
+                  ))}
                 </div>
               </div>
             )}
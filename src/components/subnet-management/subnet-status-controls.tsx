@@ -0,0 +1,67 @@
+"use client";
+
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SplitSubnet, SubnetStatus } from '@/lib/types';
+import { SUBNET_STATUSES, SUBNET_STATUS_LABELS, getSubnetStatus, getStatusChangedAt } from '@/lib/subnet-status';
+
+// Status filter value; 'all' shows every subnet
+export type SubnetStatusFilterValue = SubnetStatus | 'all';
+
+interface SubnetStatusBadgeProps {
+  subnet: Pick<SplitSubnet, 'status' | 'statusHistory'>;
+  className?: string;
+}
+
+interface SubnetStatusFilterProps {
+  value: SubnetStatusFilterValue;
+  onChange: (value: SubnetStatusFilterValue) => void;
+  id: string;
+  className?: string;
+}
+
+const STATUS_VARIANTS: Record<SubnetStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  free: 'outline',
+  reserved: 'secondary',
+  allocated: 'default',
+  deprecated: 'destructive'
+};
+
+export function matchesStatusFilter(subnet: Pick<SplitSubnet, 'status'>, filter: SubnetStatusFilterValue): boolean {
+  return filter === 'all' || getSubnetStatus(subnet) === filter;
+}
+
+// Status badge for list rows, cards and tree nodes; the title shows when the status last changed
+export function SubnetStatusBadge({ subnet, className = '' }: SubnetStatusBadgeProps) {
+  const status = getSubnetStatus(subnet);
+  const changedAt = getStatusChangedAt(subnet);
+
+  return (
+    <Badge
+      variant={STATUS_VARIANTS[status]}
+      className={`${className} text-[10px] px-1.5 py-0 font-normal font-sans`}
+      title={changedAt ? `${SUBNET_STATUS_LABELS[status]} since ${new Date(changedAt).toLocaleString()}` : undefined}
+    >
+      {SUBNET_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
+
+// Status filter shared by the list and tree views
+export function SubnetStatusFilter({ value, onChange, id, className = '' }: SubnetStatusFilterProps) {
+  return (
+    <Select value={value} onValueChange={(next) => onChange(next as SubnetStatusFilterValue)}>
+      <SelectTrigger id={id} className={`${className} w-full sm:w-40`} aria-label="Filter subnets by status">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="all">All statuses</SelectItem>
+        {SUBNET_STATUSES.map(status => (
+          <SelectItem key={status} value={status}>
+            {SUBNET_STATUS_LABELS[status]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
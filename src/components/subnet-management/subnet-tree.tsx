@@ -25,10 +25,15 @@ import {
   X,
   Network,
   Loader2,
-  Keyboard
+  Keyboard,
+  Pencil
 } from 'lucide-react';
 import { SplitSubnet, SubnetHierarchy } from '@/lib/types';
 import { useKeyboardNavigation, formatKeyboardShortcut } from '@/lib/keyboard-navigation';
+import { matchesSubnetSearch } from '@/lib/subnet-metadata';
+import { SubnetStatusSummary, calculateStatusRollups, summarizeSubnetStatus, formatStatusShare } from '@/lib/subnet-status';
+import { SubnetMetadataBadges, SubnetMetadataEditor } from './subnet-metadata-editor';
+import { SubnetStatusBadge, SubnetStatusFilter, SubnetStatusFilterValue, matchesStatusFilter } from './subnet-status-controls';
 
 interface SubnetTreeProps {
   subnets: SplitSubnet[];
@@ -36,6 +41,7 @@ interface SubnetTreeProps {
   onSelectionChange: (selected: Set<string>) => void;
   onCopySubnet?: (subnet: SplitSubnet) => void;
   onSubnetDetails?: (subnet: SplitSubnet) => void;
+  onUpdateSubnet?: (subnet: SplitSubnet) => void;
   expandedNodes?: Set<string>;
   onExpandChange?: (expandedNodes: Set<string>) => void;
   showRelationships?: boolean;
@@ -44,6 +50,8 @@ interface SubnetTreeProps {
   loading?: boolean;
   showSelection?: boolean;
   showActions?: boolean;
+  title?: string;
+  nodeSummaries?: Map<string, string>; // Shown in place of the status rollup, such as address plan rollups
   className?: string;
 }
 
@@ -55,6 +63,11 @@ interface TreeNodeProps {
   onExpandToggle: (subnetId: string) => void;
   onCopySubnet?: (subnet: SplitSubnet) => void;
   onSubnetDetails?: (subnet: SplitSubnet) => void;
+  editingSubnetId: string | null;
+  onEditToggle?: (subnetId: string | null) => void; // Only set when subnets can be edited
+  onSaveDetails: (updated: SplitSubnet) => void;
+  statusRollups: Map<string, SubnetStatusSummary>;
+  nodeSummaries?: Map<string, string>;
   showRelationships: boolean;
   showSelection: boolean;
   showActions: boolean;
@@ -70,15 +83,23 @@ function TreeNode({
   onExpandToggle,
   onCopySubnet,
   onSubnetDetails,
+  editingSubnetId,
+  onEditToggle,
+  onSaveDetails,
+  statusRollups,
+  nodeSummaries,
   showRelationships,
   showSelection,
   showActions,
   isFiltered
 }: TreeNodeProps) {
   const { subnet, children, depth } = node;
+  const rollup = statusRollups.get(subnet.id);
+  const summary = nodeSummaries?.get(subnet.id);
   const hasChildren = children.length > 0;
   const isExpanded = expandedNodes.has(subnet.id);
   const isSelected = selectedSubnets.has(subnet.id);
+  const isEditing = editingSubnetId === subnet.id;
 
   // Calculate indentation based on depth
   const indentationLevel = Math.max(0, depth);
@@ -94,7 +115,8 @@ Broadcast: ${subnet.broadcast}
 First Host: ${subnet.firstHost}
 Last Host: ${subnet.lastHost}
 Total Hosts: ${subnet.totalHosts.toLocaleString()}
-Usable Hosts: ${subnet.usableHosts.toLocaleString()}`;
+Usable Hosts: ${subnet.usableHosts.toLocaleString()}${subnet.pairedIPv6 ? `
+Paired IPv6: ${subnet.pairedIPv6}` : ''}`;
 
       await navigator.clipboard.writeText(subnetInfo);
       onCopySubnet?.(subnet);
@@ -188,9 +210,26 @@ Usable Hosts: ${subnet.usableHosts.toLocaleString()}`;
             <div className="font-mono text-sm font-medium" aria-label={`Network address ${subnet.network} with CIDR prefix ${subnet.cidr}`}>
               {subnet.network}/{subnet.cidr}
             </div>
+            {subnet.pairedIPv6 && (
+              <div className="font-mono text-xs text-muted-foreground" aria-label={`Paired IPv6 subnet ${subnet.pairedIPv6}`}>
+                {subnet.pairedIPv6}
+              </div>
+            )}
+            {subnet.label && (
+              <div className="text-xs font-medium truncate">{subnet.label}</div>
+            )}
             <div className="text-xs text-muted-foreground" aria-label={`${subnet.usableHosts.toLocaleString()} usable host addresses`}>
               {subnet.usableHosts.toLocaleString()} hosts
             </div>
+            {summary ? (
+              <div className="text-xs text-muted-foreground">{summary}</div>
+            ) : rollup ? (
+              <div className="text-xs text-muted-foreground" title="Share of this network in allocated subnets">
+                {formatStatusShare(rollup)}
+              </div>
+            ) : (
+              <SubnetStatusBadge subnet={subnet} />
+            )}
             {showRelationships && subnet.parentId && (
               <div 
                 className="text-xs text-muted-foreground bg-muted px-2 py-1 rounded"
@@ -203,6 +242,7 @@ Usable Hosts: ${subnet.usableHosts.toLocaleString()}`;
           <div className="text-xs text-muted-foreground mt-1" aria-label={`IP address range from ${subnet.firstHost} to ${subnet.lastHost}`}>
             {subnet.firstHost} - {subnet.lastHost}
           </div>
+          <SubnetMetadataBadges metadata={subnet.metadata} className="mt-1" />
         </div>
 
         {/* Actions */}
@@ -236,6 +276,18 @@ Usable Hosts: ${subnet.usableHosts.toLocaleString()}`;
             <span id={`tree-details-${subnet.id}-description`} className="sr-only">
               Opens detailed view with comprehensive subnet information and configuration options.
             </span>
+            {onEditToggle && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0"
+                onClick={() => onEditToggle(isEditing ? null : subnet.id)}
+                aria-label={`Edit name, metadata and status for subnet ${subnet.network}/${subnet.cidr}`}
+                aria-expanded={isEditing}
+              >
+                <Pencil className="h-3 w-3" aria-hidden="true" />
+              </Button>
+            )}
           </div>
         )}
 
@@ -250,6 +302,16 @@ Usable Hosts: ${subnet.usableHosts.toLocaleString()}`;
         </span>
       </div>
 
+      {onEditToggle && isEditing && (
+        <div className="rounded-md border bg-muted/30 p-3 my-1" style={{ marginLeft: `${indentationLevel * 24 + 32}px` }}>
+          <SubnetMetadataEditor
+            subnet={subnet}
+            onSave={onSaveDetails}
+            onCancel={() => onEditToggle(null)}
+          />
+        </div>
+      )}
+
       {/* Child nodes */}
       {hasChildren && isExpanded && (
         <div className="ml-2">
@@ -263,6 +325,11 @@ Usable Hosts: ${subnet.usableHosts.toLocaleString()}`;
               onExpandToggle={onExpandToggle}
               onCopySubnet={onCopySubnet}
               onSubnetDetails={onSubnetDetails}
+              editingSubnetId={editingSubnetId}
+              onEditToggle={onEditToggle}
+              onSaveDetails={onSaveDetails}
+              statusRollups={statusRollups}
+              nodeSummaries={nodeSummaries}
               showRelationships={showRelationships}
               showSelection={showSelection}
               showActions={showActions}
@@ -294,6 +361,7 @@ const SubnetTree = memo<SubnetTreeProps>(({
   onSelectionChange,
   onCopySubnet,
   onSubnetDetails,
+  onUpdateSubnet,
   expandedNodes = new Set(),
   onExpandChange,
   showRelationships = true,
@@ -302,10 +370,15 @@ const SubnetTree = memo<SubnetTreeProps>(({
   loading = false,
   showSelection = true,
   showActions = true,
+  title = 'Subnet Hierarchy',
+  nodeSummaries,
   className = ''
 }) => {
   const [internalExpandedNodes, setInternalExpandedNodes] = useState<Set<string>>(expandedNodes);
   const [internalFilterText, setInternalFilterText] = useState<string>(filterText);
+  const [editingSubnetId, setEditingSubnetId] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<SubnetStatusFilterValue>('all');
+  const isFiltered = Boolean(internalFilterText) || statusFilter !== 'all';
 
   // Keyboard navigation setup
   const containerRef = useRef<HTMLDivElement>(null);
@@ -388,24 +461,14 @@ const SubnetTree = memo<SubnetTreeProps>(({
     return rootNodes;
   }, [subnets, internalExpandedNodes]);
 
-  // Filter hierarchy based on search text
+  // Filter hierarchy based on search text and status
   const filteredHierarchy = useMemo(() => {
-    if (!internalFilterText.trim()) {
+    if (!internalFilterText.trim() && statusFilter === 'all') {
       return subnetHierarchy;
     }
 
-    const searchTerm = internalFilterText.toLowerCase().trim();
-    
     const filterNode = (node: SubnetHierarchy): SubnetHierarchy | null => {
-      const subnet = node.subnet;
-      const matches = 
-        subnet.network.toLowerCase().includes(searchTerm) ||
-        subnet.cidr.toString().includes(searchTerm) ||
-        subnet.firstHost.toLowerCase().includes(searchTerm) ||
-        subnet.lastHost.toLowerCase().includes(searchTerm) ||
-        subnet.broadcast.toLowerCase().includes(searchTerm) ||
-        subnet.usableHosts.toString().includes(searchTerm) ||
-        subnet.totalHosts.toString().includes(searchTerm);
+      const matches = matchesSubnetSearch(node.subnet, internalFilterText) && matchesStatusFilter(node.subnet, statusFilter);
 
       // Filter children
       const filteredChildren = node.children
@@ -426,7 +489,16 @@ const SubnetTree = memo<SubnetTreeProps>(({
     return subnetHierarchy
       .map(node => filterNode(node))
       .filter((node): node is SubnetHierarchy => node !== null);
-  }, [subnetHierarchy, internalFilterText]);
+  }, [subnetHierarchy, internalFilterText, statusFilter]);
+
+  // Parents show how much of their space is allocated; leaves show their own status
+  const statusRollups = useMemo(() => calculateStatusRollups(subnets), [subnets]);
+  const statusSummary = useMemo(() => summarizeSubnetStatus(subnets), [subnets]);
+
+  const handleSaveDetails = useCallback((updated: SplitSubnet) => {
+    onUpdateSubnet?.(updated);
+    setEditingSubnetId(null);
+  }, [onUpdateSubnet]);
 
   // Handle expand/collapse
   const handleExpandToggle = useCallback((subnetId: string) => {
@@ -682,7 +754,7 @@ const SubnetTree = memo<SubnetTreeProps>(({
         className="sr-only"
         id="subnet-tree-live-region"
       >
-        {internalFilterText && `Showing ${filteredHierarchy.reduce((count, node) => {
+        {isFiltered && `Showing ${filteredHierarchy.reduce((count, node) => {
           const countNodes = (n: SubnetHierarchy): number => {
             return 1 + n.children.reduce((sum, child) => sum + countNodes(child), 0);
           };
@@ -696,9 +768,12 @@ const SubnetTree = memo<SubnetTreeProps>(({
         <CardHeader className="p-6 pb-4">
           <CardTitle className="text-lg font-medium flex items-center justify-between">
             <span id="subnet-tree-title">
-              Subnet Hierarchy ({subnets.length} subnet{subnets.length !== 1 ? 's' : ''})
+              {title} ({subnets.length} subnet{subnets.length !== 1 ? 's' : ''})
             </span>
             <div className="flex items-center gap-2">
+              <span className="text-sm font-normal text-muted-foreground" title="Share of the address space in leaf subnets">
+                {formatStatusShare(statusSummary)}
+              </span>
               {showSelection && selectedSubnets.size > 0 && (
                 <span 
                   className="text-sm font-normal text-muted-foreground"
@@ -725,24 +800,27 @@ const SubnetTree = memo<SubnetTreeProps>(({
         {/* Controls */}
         <div className="mb-4 space-y-3">
           {/* Search/Filter Input */}
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-            <Input
-              placeholder="Search subnets in hierarchy..."
-              value={internalFilterText}
-              onChange={(e) => handleFilterChange(e.target.value)}
-              className="pl-10 pr-10"
-            />
-            {internalFilterText && (
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={clearFilter}
-                className="absolute right-1 top-1/2 transform -translate-y-1/2 h-8 w-8 p-0"
-              >
-                <X className="h-4 w-4" />
-              </Button>
-            )}
+          <div className="flex flex-col sm:flex-row gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search subnets in hierarchy..."
+                value={internalFilterText}
+                onChange={(e) => handleFilterChange(e.target.value)}
+                className="pl-10 pr-10"
+              />
+              {internalFilterText && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={clearFilter}
+                  className="absolute right-1 top-1/2 transform -translate-y-1/2 h-8 w-8 p-0"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+            <SubnetStatusFilter id="subnet-tree-status-filter" value={statusFilter} onChange={setStatusFilter} />
           </div>
 
           {/* Action buttons */}
@@ -784,7 +862,7 @@ const SubnetTree = memo<SubnetTreeProps>(({
         </div>
 
         {/* Results count when filtering */}
-        {internalFilterText && (
+        {isFiltered && (
           <div className="mb-4 text-sm text-muted-foreground">
             Showing {filteredHierarchy.reduce((count, node) => {
               const countNodes = (n: SubnetHierarchy): number => {
@@ -820,15 +898,20 @@ const SubnetTree = memo<SubnetTreeProps>(({
                 onExpandToggle={handleExpandToggle}
                 onCopySubnet={onCopySubnet}
                 onSubnetDetails={onSubnetDetails}
+                editingSubnetId={editingSubnetId}
+                onEditToggle={onUpdateSubnet ? setEditingSubnetId : undefined}
+                onSaveDetails={handleSaveDetails}
+                statusRollups={statusRollups}
+                nodeSummaries={nodeSummaries}
                 showRelationships={showRelationships}
                 showSelection={showSelection}
                 showActions={showActions}
-                isFiltered={!!internalFilterText}
+                isFiltered={isFiltered}
               />
             ))
           ) : (
             <div className="text-center py-8 text-muted-foreground" role="status" aria-live="polite">
-              {internalFilterText ? (
+              {isFiltered ? (
                 <>
                   <Search className="h-12 w-12 mx-auto mb-4 opacity-50" aria-hidden="true" />
                   <p>No subnets match your search criteria</p>
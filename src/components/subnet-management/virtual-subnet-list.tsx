@@ -40,6 +40,10 @@ import {
 } from 'lucide-react';
 import { SplitSubnet } from '@/lib/types';
 import { OptimizedSubnetRow } from './optimized-subnet-row';
+import { SubnetMetadataEditor } from './subnet-metadata-editor';
+import { SubnetStatusFilter, SubnetStatusFilterValue, matchesStatusFilter } from './subnet-status-controls';
+import { matchesSubnetSearch } from '@/lib/subnet-metadata';
+import { SUBNET_STATUSES, getSubnetStatus, summarizeSubnetStatus, formatStatusShare } from '@/lib/subnet-status';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 
 interface VirtualSubnetListProps {
@@ -50,6 +54,7 @@ interface VirtualSubnetListProps {
   onFilter?: (filterText: string) => void;
   onCopySubnet?: (subnet: SplitSubnet) => void;
   onSubnetDetails?: (subnet: SplitSubnet) => void;
+  onUpdateSubnet?: (subnet: SplitSubnet) => void;
   sortBy?: string;
   sortOrder?: 'asc' | 'desc';
   filterText?: string;
@@ -65,7 +70,7 @@ interface VirtualSubnetListProps {
   virtualizationThreshold?: number;
 }
 
-type SortField = 'network' | 'cidr' | 'totalHosts' | 'usableHosts' | 'firstHost' | 'lastHost';
+type SortField = 'network' | 'cidr' | 'totalHosts' | 'usableHosts' | 'firstHost' | 'lastHost' | 'status';
 
 // Virtual scrolling hook for performance optimization
 function useVirtualScrolling(
@@ -111,6 +116,7 @@ const VirtualSubnetList = memo<VirtualSubnetListProps>(({
   onFilter,
   onCopySubnet,
   onSubnetDetails,
+  onUpdateSubnet,
   sortBy = 'network',
   sortOrder = 'asc',
   filterText = '',
@@ -127,6 +133,8 @@ const VirtualSubnetList = memo<VirtualSubnetListProps>(({
   const [internalSortBy, setInternalSortBy] = useState<SortField | null>(null);
   const [internalSortOrder, setInternalSortOrder] = useState<'asc' | 'desc'>('asc');
   const [internalFilterText, setInternalFilterText] = useState<string>(filterText);
+  const [statusFilter, setStatusFilter] = useState<SubnetStatusFilterValue>('all');
+  const [editingSubnetId, setEditingSubnetId] = useState<string | null>(null);
   const [copyFeedback, setCopyFeedback] = useState<{
     type: 'success' | 'error' | null;
     message: string;
@@ -196,6 +204,10 @@ const VirtualSubnetList = memo<VirtualSubnetListProps>(({
             aValue = a.lastHost.split('.').map(n => parseInt(n).toString().padStart(3, '0')).join('.');
             bValue = b.lastHost.split('.').map(n => parseInt(n).toString().padStart(3, '0')).join('.');
             break;
+          case 'status':
+            aValue = SUBNET_STATUSES.indexOf(getSubnetStatus(a));
+            bValue = SUBNET_STATUSES.indexOf(getSubnetStatus(b));
+            break;
           default:
             aValue = a.network;
             bValue = b.network;
@@ -213,21 +225,26 @@ const VirtualSubnetList = memo<VirtualSubnetListProps>(({
       });
     }
 
-    if (!internalFilterText.trim()) {
-      return sorted;
-    }
+    return sorted.filter(subnet => matchesSubnetSearch(subnet, internalFilterText) && matchesStatusFilter(subnet, statusFilter));
+  }, [subnets, internalSortBy, internalSortOrder, internalFilterText, statusFilter]);
 
-    const searchTerm = internalFilterText.toLowerCase().trim();
-    return sorted.filter(subnet => 
-      subnet.network.toLowerCase().includes(searchTerm) ||
-      subnet.cidr.toString().includes(searchTerm) ||
-      subnet.firstHost.toLowerCase().includes(searchTerm) ||
-      subnet.lastHost.toLowerCase().includes(searchTerm) ||
-      subnet.broadcast.toLowerCase().includes(searchTerm) ||
-      subnet.usableHosts.toString().includes(searchTerm) ||
-      subnet.totalHosts.toString().includes(searchTerm)
-    );
-  }, [subnets, internalSortBy, internalSortOrder, internalFilterText]);
+  const statusSummary = useMemo(() => summarizeSubnetStatus(subnets), [subnets]);
+  const isFiltered = Boolean(internalFilterText) || statusFilter !== 'all';
+
+  // Rows have a fixed height for virtual scrolling, so the editor opens above the table
+  const editingSubnet = useMemo(
+    () => subnets.find(subnet => subnet.id === editingSubnetId) || null,
+    [subnets, editingSubnetId]
+  );
+
+  const handleEditSubnet = useCallback((subnet: SplitSubnet) => {
+    setEditingSubnetId(subnet.id);
+  }, []);
+
+  const handleSaveDetails = useCallback((updated: SplitSubnet) => {
+    onUpdateSubnet?.(updated);
+    setEditingSubnetId(null);
+  }, [onUpdateSubnet]);
 
   // Virtual scrolling setup
   const virtualScrolling = useVirtualScrolling(
@@ -280,6 +297,10 @@ const VirtualSubnetList = memo<VirtualSubnetListProps>(({
           `Usable Hosts:       ${subnet.usableHosts.toLocaleString()}`,
         ];
 
+        if (subnet.pairedIPv6) {
+          lines.push(`Paired IPv6:        ${subnet.pairedIPv6}`);
+        }
+
         if (subnet.ipVersion === 'ipv6' && subnet.ipv6Info) {
           lines.push(
             `Address Type:       ${subnet.ipv6Info.addressType}`,
@@ -409,37 +430,41 @@ const VirtualSubnetList = memo<VirtualSubnetListProps>(({
               </span>
             )}
           </span>
-          {showSelection && selectedSubnets.size > 0 && (
-            <span className="text-sm font-normal text-muted-foreground">
-              {selectedSubnets.size} selected
-            </span>
-          )}
+          <div className="flex items-center gap-2 text-sm font-normal text-muted-foreground">
+            <span title="Share of the address space in leaf subnets">{formatStatusShare(statusSummary)}</span>
+            {showSelection && selectedSubnets.size > 0 && (
+              <span>{selectedSubnets.size} selected</span>
+            )}
+          </div>
         </CardTitle>
       </CardHeader>
       <CardContent className="p-6">
         {/* Search/Filter Input */}
-        <div className="mb-4 relative">
-          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-          <Input
-            placeholder="Search subnets by network, CIDR, or host range..."
-            value={internalFilterText}
-            onChange={(e) => handleFilterChange(e.target.value)}
-            className="pl-10 pr-10"
-          />
-          {internalFilterText && (
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={clearFilter}
-              className="absolute right-1 top-1/2 transform -translate-y-1/2 h-8 w-8 p-0"
-            >
-              <X className="h-4 w-4" />
-            </Button>
-          )}
+        <div className="mb-4 flex flex-col sm:flex-row gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search subnets by network, CIDR, or host range..."
+              value={internalFilterText}
+              onChange={(e) => handleFilterChange(e.target.value)}
+              className="pl-10 pr-10"
+            />
+            {internalFilterText && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={clearFilter}
+                className="absolute right-1 top-1/2 transform -translate-y-1/2 h-8 w-8 p-0"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+          <SubnetStatusFilter id="virtual-subnet-list-status-filter" value={statusFilter} onChange={setStatusFilter} />
         </div>
 
         {/* Results count when filtering */}
-        {internalFilterText && (
+        {isFiltered && (
           <div className="mb-4 text-sm text-muted-foreground">
             Showing {sortedAndFilteredSubnets.length} of {subnets.length} subnets
           </div>
@@ -454,6 +479,18 @@ const VirtualSubnetList = memo<VirtualSubnetListProps>(({
           </Alert>
         )}
 
+        {editingSubnet && onUpdateSubnet && (
+          <div className="mb-4 rounded-md border bg-muted/30 p-4 space-y-2">
+            <div className="text-sm font-medium font-mono">{editingSubnet.network}/{editingSubnet.cidr}</div>
+            <SubnetMetadataEditor
+              key={editingSubnet.id}
+              subnet={editingSubnet}
+              onSave={handleSaveDetails}
+              onCancel={() => setEditingSubnetId(null)}
+            />
+          </div>
+        )}
+
         {/* Table with Virtual Scrolling */}
         <div className="rounded-md border overflow-hidden">
           <Table>
@@ -491,6 +528,17 @@ const VirtualSubnetList = memo<VirtualSubnetListProps>(({
                     {renderSortIcon('cidr')}
                   </Button>
                 </TableHead>
+                <TableHead>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-auto p-0 hover:bg-transparent"
+                    onClick={() => handleSort('status')}
+                  >
+                    Status
+                    {renderSortIcon('status')}
+                  </Button>
+                </TableHead>
                 <TableHead>
                   <Button
                     variant="ghost"
@@ -566,6 +614,7 @@ const VirtualSubnetList = memo<VirtualSubnetListProps>(({
                         onSelectionChange={handleSubnetSelection}
                         onCopySubnet={handleCopySubnet}
                         onSubnetDetails={onSubnetDetails}
+                        onEditSubnet={onUpdateSubnet ? handleEditSubnet : undefined}
                         showSelection={showSelection}
                         showActions={showActions}
                         showExtendedColumns={true}
@@ -579,7 +628,7 @@ const VirtualSubnetList = memo<VirtualSubnetListProps>(({
         </div>
 
         {/* No results message */}
-        {sortedAndFilteredSubnets.length === 0 && internalFilterText && (
+        {sortedAndFilteredSubnets.length === 0 && isFiltered && (
           <div className="text-center py-8 text-muted-foreground">
             <Search className="h-12 w-12 mx-auto mb-4 opacity-50" />
             <p>No subnets match your search criteria</p>
@@ -0,0 +1,170 @@
+"use client";
+
+import { useState, useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { LayoutList } from 'lucide-react';
+import { ErrorDisplay } from './error-display';
+import {
+  SplitSubnet,
+  SubnetInfo,
+  SubnetOperation,
+  SubnetError,
+  CloudMode,
+  IPVersion
+} from '@/lib/types';
+import { parseVlsmRequirements, planVlsm, VlsmPlanResult } from '@/lib/vlsm-planner';
+import { createSubnetError, ipv4ToInt } from '@/lib/subnet-splitting';
+import { generateOperationId } from '@/lib/utils';
+
+interface VlsmPlannerProps {
+  parentSubnet: SubnetInfo;
+  ipVersion: IPVersion;
+  cloudMode: CloudMode;
+  onPlan: (subnets: SplitSubnet[], operation: SubnetOperation) => void;
+  onError?: (error: SubnetError) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function VlsmPlanner({
+  parentSubnet,
+  ipVersion,
+  cloudMode,
+  onPlan,
+  onError,
+  disabled = false,
+  className = ''
+}: VlsmPlannerProps) {
+  const [input, setInput] = useState('');
+
+  // Plan as the requirements are typed so allocations and leftover space are visible before applying
+  const preview = useMemo((): { plan: VlsmPlanResult | null; errors: string[] } => {
+    const { requirements, errors } = parseVlsmRequirements(input);
+    if (requirements.length === 0 || errors.length > 0) {
+      return { plan: null, errors };
+    }
+
+    try {
+      return { plan: planVlsm(parentSubnet, requirements, cloudMode), errors };
+    } catch (error) {
+      return { plan: null, errors: [error instanceof Error ? error.message : 'VLSM planning failed'] };
+    }
+  }, [input, parentSubnet, cloudMode]);
+
+  const handleApply = () => {
+    const { plan } = preview;
+    if (!plan || plan.unallocated.length > 0) {
+      onError?.(createSubnetError(
+        'validation',
+        plan ? 'Every requirement must be allocated before the plan can be applied' : preview.errors[0] || 'Enter at least one requirement, such as web: 500'
+      ));
+      return;
+    }
+
+    // Free space is kept in the plan as unlabelled subnets so it can be split or joined later
+    const subnets = [...plan.subnets, ...plan.freeSubnets]
+      .sort((a, b) => ipv4ToInt(a.network) - ipv4ToInt(b.network));
+    const operation: SubnetOperation = {
+      id: generateOperationId('split'),
+      type: 'split',
+      timestamp: Date.now(),
+      sourceSubnets: [parentSubnet.id || parentSubnet.network],
+      resultSubnets: subnets,
+      description: `VLSM plan for ${plan.subnets.length} requirement${plan.subnets.length === 1 ? '' : 's'} in ${parentSubnet.network}${parentSubnet.cidr}`,
+      ipVersion,
+      cloudMode
+    };
+
+    onPlan(subnets, operation);
+  };
+
+  const plan = preview.plan;
+
+  return (
+    <Card className={`${className} w-full rounded-lg shadow-md`}>
+      <CardHeader className="p-6 pb-4">
+        <CardTitle className="text-lg font-medium flex items-center gap-2">
+          <LayoutList className="h-5 w-5" aria-hidden="true" />
+          <span>VLSM Planner</span>
+        </CardTitle>
+        <CardDescription id="vlsm-planner-description">
+          Enter named host requirements to allocate right-sized subnets from {parentSubnet.network}{parentSubnet.cidr}, largest first.
+          {cloudMode !== 'normal' && ' Sizes include the cloud provider reservations and subnet size limits.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-6 space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="vlsm-requirements">Requirements</Label>
+          <Textarea
+            id="vlsm-requirements"
+            placeholder={'web: 500\ndb: 60\nmgmt: 12'}
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            className="min-h-24 font-mono"
+            spellCheck={false}
+            disabled={disabled}
+            aria-describedby="vlsm-planner-description"
+          />
+        </div>
+
+        {preview.errors.length > 0 && (
+          <ErrorDisplay validation={{ isValid: false, errors: preview.errors, warnings: [] }} />
+        )}
+
+        {plan && (
+          <div className="space-y-3" aria-live="polite">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Subnet</TableHead>
+                  <TableHead>Usable Hosts</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {plan.subnets.map(subnet => (
+                  <TableRow key={subnet.id}>
+                    <TableCell>{subnet.label}</TableCell>
+                    <TableCell className="font-mono">{subnet.network}/{subnet.cidr}</TableCell>
+                    <TableCell>{subnet.usableHosts.toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {plan.unallocated.length > 0 && (
+              <ErrorDisplay
+                validation={{
+                  isValid: false,
+                  errors: plan.unallocated.map(({ requirement, reason }) => `${requirement.name} (${requirement.hosts.toLocaleString()} hosts): ${reason}`),
+                  warnings: []
+                }}
+              />
+            )}
+
+            <p className="text-sm text-muted-foreground">
+              {plan.allocatedAddresses.toLocaleString()} of {plan.totalAddresses.toLocaleString()} addresses allocated.
+              {plan.freeSubnets.length > 0
+                ? ` Free space: ${plan.freeSubnets.map(subnet => `${subnet.network}/${subnet.cidr}`).join(', ')}`
+                : ' No free space remains.'}
+            </p>
+          </div>
+        )}
+
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={handleApply}
+          disabled={disabled}
+        >
+          <LayoutList className="h-4 w-4 mr-2" aria-hidden="true" />
+          Apply VLSM Plan
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,205 @@
+/**
+ * Unit tests for organization-wide address plans
+ */
+
+import {
+  ADDRESS_PLAN_STORAGE_KEY,
+  createAddressPlan,
+  parseAddressPlanBlock,
+  addAddressPlanNodes,
+  removeAddressPlanNodes,
+  findAddressPlanConflicts,
+  calculateAddressPlanRollups,
+  formatAddressPlanRollup,
+  addressPlanToSubnets,
+  getAddressPlanPath,
+  normalizeAddressPlan,
+  upsertAddressPlan,
+  loadAddressPlans,
+  saveAddressPlans
+} from '../address-plan';
+import { AddressPlan } from '../types';
+import { createMemoryStorage } from './helpers/memory-storage';
+
+const describeNodes = (plan: AddressPlan) =>
+  plan.nodes.map(node => `${node.level} ${getAddressPlanPath(plan, node.id)} ${node.network}/${node.cidr}`);
+
+const findNode = (plan: AddressPlan, path: string) =>
+  plan.nodes.find(node => getAddressPlanPath(plan, node.id) === path)!;
+
+// 10.0.0.0/8 with two regions, prod and dev in us-east, and a payments VPC with two subnets in prod
+function createSamplePlan(): AddressPlan {
+  let plan = createAddressPlan('10.0.0.0', 8);
+  plan = addAddressPlanNodes(plan, plan.nodes[0].id, ['us-east', 'eu-west'], { cidr: 12 });
+  plan = addAddressPlanNodes(plan, findNode(plan, 'us-east').id, ['prod', 'dev'], { cidr: 14 });
+  plan = addAddressPlanNodes(plan, findNode(plan, 'us-east/prod').id, ['payments'], { cidr: 16 });
+  return addAddressPlanNodes(plan, findNode(plan, 'us-east/prod/payments').id, ['app', 'db'], { cidr: 20 });
+}
+
+describe('Address Plans', () => {
+  describe('addAddressPlanNodes', () => {
+    it('should carve regions, environments, VPCs and subnets from the lowest free aligned blocks', () => {
+      expect(describeNodes(createSamplePlan())).toEqual([
+        'organization Organization 10.0.0.0/8',
+        'region us-east 10.0.0.0/12',
+        'region eu-west 10.16.0.0/12',
+        'environment us-east/prod 10.0.0.0/14',
+        'environment us-east/dev 10.4.0.0/14',
+        'vpc us-east/prod/payments 10.0.0.0/16',
+        'subnet us-east/prod/payments/app 10.0.0.0/20',
+        'subnet us-east/prod/payments/db 10.0.16.0/20'
+      ]);
+    });
+
+    it('should place a block at a given network and skip past it when allocating', () => {
+      let plan = createAddressPlan('10.0.0.0', 8);
+      plan = addAddressPlanNodes(plan, plan.nodes[0].id, ['ap-south'], parseAddressPlanBlock('10.0.0.0/13'));
+      plan = addAddressPlanNodes(plan, plan.nodes[0].id, ['us-east'], parseAddressPlanBlock('/12'));
+
+      expect(describeNodes(plan).slice(1)).toEqual(['region ap-south 10.0.0.0/13', 'region us-east 10.16.0.0/12']);
+    });
+
+    it('should refuse blocks that overlap another region or stick out of their parent', () => {
+      const plan = createSamplePlan();
+      const usEast = findNode(plan, 'us-east').id;
+      const prod = findNode(plan, 'us-east/prod').id;
+
+      expect(() => addAddressPlanNodes(plan, plan.nodes[0].id, ['ap-south'], { network: '10.16.0.0', cidr: 16 }))
+        .toThrow('10.16.0.0/16 overlaps region eu-west (10.16.0.0/12)');
+      expect(() => addAddressPlanNodes(plan, usEast, ['stage'], { network: '10.16.0.0', cidr: 14 }))
+        .toThrow('10.16.0.0/14 is outside region us-east (10.0.0.0/12); it would overlap region eu-west (10.16.0.0/12)');
+      expect(() => addAddressPlanNodes(plan, prod, ['orders'], { network: '10.0.128.0', cidr: 16 }))
+        .toThrow('10.0.128.0/16 is not aligned on a /16 boundary; use 10.0.0.0/16');
+      expect(() => addAddressPlanNodes(plan, usEast, ['Prod'], { cidr: 14 }))
+        .toThrow('An environment named "Prod" already exists in us-east');
+      expect(() => addAddressPlanNodes(plan, findNode(plan, 'us-east/prod/payments/app').id, ['x'], { cidr: 24 }))
+        .toThrow('us-east/prod/payments/app is a subnet and cannot be divided further');
+      expect(() => addAddressPlanNodes(plan, prod, ['big'], { cidr: 13 }))
+        .toThrow('A VPC in environment us-east/prod (10.0.0.0/14) must be between /15 and /32');
+    });
+
+    it('should report the largest free block when a size no longer fits', () => {
+      const plan = createSamplePlan();
+      const prod = findNode(plan, 'us-east/prod').id;
+
+      expect(() => addAddressPlanNodes(plan, prod, ['a', 'b', 'c', 'd'], { cidr: 16 }))
+        .toThrow('No free /16 is left in environment us-east/prod (10.0.0.0/14); it is fully carved');
+      expect(() => addAddressPlanNodes(addAddressPlanNodes(plan, prod, ['a', 'b'], { cidr: 16 }), prod, ['orders'], { cidr: 15 }))
+        .toThrow('No free /15 is left in environment us-east/prod (10.0.0.0/14); the largest free block is a /16');
+    });
+  });
+
+  describe('parseAddressPlanBlock', () => {
+    it('should read sizes and networks', () => {
+      expect(parseAddressPlanBlock(' /16 ')).toEqual({ cidr: 16 });
+      expect(parseAddressPlanBlock('20')).toEqual({ cidr: 20 });
+      expect(parseAddressPlanBlock('10.1.0.0/16')).toEqual({ network: '10.1.0.0', cidr: 16 });
+      expect(() => parseAddressPlanBlock('')).toThrow('Enter a size such as /16');
+      expect(() => parseAddressPlanBlock('2001:db8::/32')).toThrow('not "2001:db8::/32"');
+    });
+  });
+
+  describe('removeAddressPlanNodes', () => {
+    it('should remove nodes with everything carved from them but keep the supernet', () => {
+      const plan = createSamplePlan();
+      const remaining = removeAddressPlanNodes(plan, [findNode(plan, 'us-east/prod').id, plan.nodes[0].id]);
+
+      expect(describeNodes(remaining)).toEqual([
+        'organization Organization 10.0.0.0/8',
+        'region us-east 10.0.0.0/12',
+        'region eu-west 10.16.0.0/12',
+        'environment us-east/dev 10.4.0.0/14'
+      ]);
+    });
+  });
+
+  describe('rollups', () => {
+    it('should roll carved space, counts and the largest free block up every level', () => {
+      const plan = createSamplePlan();
+      const rollups = calculateAddressPlanRollups(plan);
+      const root = plan.nodes[0];
+      const usEast = findNode(plan, 'us-east');
+      const payments = findNode(plan, 'us-east/prod/payments');
+
+      expect(rollups.get(root.id)).toEqual({
+        totalAddresses: 16777216,
+        carvedAddresses: 2097152,
+        childCount: 2,
+        subnetCount: 2,
+        largestFreePrefix: 9
+      });
+      expect(formatAddressPlanRollup(root, rollups.get(root.id)!)).toBe('2 regions · 2 subnets · 13% carved · largest free /9');
+      expect(formatAddressPlanRollup(usEast, rollups.get(usEast.id)!)).toBe('2 environments · 2 subnets · 50% carved · largest free /13');
+      expect(formatAddressPlanRollup(payments, rollups.get(payments.id)!)).toBe('2 subnets · 13% carved · largest free /17');
+    });
+  });
+
+  describe('findAddressPlanConflicts', () => {
+    it('should report overlapping regions and blocks outside their parent', () => {
+      const plan = createSamplePlan();
+      const broken: AddressPlan = {
+        nodes: plan.nodes.map(node => getAddressPlanPath(plan, node.id) === 'eu-west' ? { ...node, network: '10.0.0.0' } : node)
+      };
+
+      expect(findAddressPlanConflicts(plan)).toEqual([]);
+      expect(findAddressPlanConflicts(broken)[0])
+        .toBe('Regions us-east and eu-west overlap: region us-east (10.0.0.0/12) and region eu-west (10.0.0.0/12)');
+      expect(findAddressPlanConflicts({ nodes: [plan.nodes[0], { ...plan.nodes[1], network: '11.0.0.0' }] }))
+        .toEqual(['region us-east (11.0.0.0/12) is outside organization Organization (10.0.0.0/8)']);
+    });
+  });
+
+  describe('addressPlanToSubnets', () => {
+    it('should keep the hierarchy and tag nodes with their region, environment and VPC', () => {
+      const plan = createSamplePlan();
+      const subnets = addressPlanToSubnets(plan, 'aws');
+      const app = subnets.find(subnet => subnet.label === 'app')!;
+
+      expect(subnets).toHaveLength(8);
+      expect(app).toMatchObject({
+        network: '10.0.0.0',
+        cidr: 20,
+        level: 4,
+        parentId: findNode(plan, 'us-east/prod/payments').id,
+        metadata: { tags: ['region=us-east', 'vpc=payments'], environment: 'prod' }
+      });
+      expect(app.cloudReserved).toHaveLength(5);
+      expect(addressPlanToSubnets(plan, 'normal', 'subnet').map(subnet => subnet.label)).toEqual(['app', 'db']);
+    });
+  });
+
+  describe('plan storage', () => {
+    it('should save and load plans, one per supernet, skipping damaged ones', () => {
+      const plan = createSamplePlan();
+      const other = createAddressPlan('172.16.0.0', 12);
+      const storage = createMemoryStorage();
+      const overlapping = { nodes: [plan.nodes[0], plan.nodes[1], { ...plan.nodes[2], network: '10.0.0.0' }] };
+      const damaged = createMemoryStorage({
+        [ADDRESS_PLAN_STORAGE_KEY]: JSON.stringify({ version: 1, plans: [other, overlapping] })
+      });
+      const newer = createMemoryStorage({
+        [ADDRESS_PLAN_STORAGE_KEY]: JSON.stringify({ version: 2, plans: [plan] })
+      });
+
+      const plans = upsertAddressPlan(upsertAddressPlan([plan], other), removeAddressPlanNodes(plan, [plan.nodes[1].id]));
+      expect(plans).toHaveLength(2);
+      expect(plans[0].nodes).toHaveLength(2);
+
+      expect(saveAddressPlans([plan, other], storage)).toBe(true);
+      expect(loadAddressPlans(storage)).toEqual({ plans: [plan, other], writable: true, warnings: [] });
+      expect(loadAddressPlans(damaged).plans).toEqual([other]);
+      expect(loadAddressPlans(damaged).warnings[0]).toContain('Address plan 2 skipped: Regions us-east and eu-west overlap');
+      expect(loadAddressPlans(newer)).toMatchObject({ plans: [], writable: false });
+      expect(loadAddressPlans(null)).toEqual({ plans: [], writable: false, warnings: [] });
+    });
+
+    it('should reject nodes listed before their parent or at the wrong level', () => {
+      const plan = createSamplePlan();
+
+      expect(normalizeAddressPlan(plan)).toEqual(plan);
+      expect(() => normalizeAddressPlan({ nodes: [plan.nodes[0], plan.nodes[3]] })).toThrow('Block 2 is not listed after its parent');
+      expect(() => normalizeAddressPlan({ nodes: [plan.nodes[0], { ...plan.nodes[1], level: 'vpc' }] }))
+        .toThrow('Block 2 is not at the level below its parent');
+    });
+  });
+});
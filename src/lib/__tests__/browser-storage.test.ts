@@ -0,0 +1,63 @@
+/**
+ * Unit tests for the shared browser storage helpers
+ */
+
+import { isRecord, loadStoredList, saveStoredDocument } from '../browser-storage';
+import { createMemoryStorage } from './helpers/memory-storage';
+
+const options = {
+  version: 1,
+  listKey: 'items',
+  label: 'items',
+  readEntries: (entries: unknown[]) => ({
+    entries: entries.filter((entry): entry is string => typeof entry === 'string'),
+    warnings: entries.some(entry => typeof entry !== 'string') ? ['Some items were skipped'] : []
+  })
+};
+
+describe('Browser Storage', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should tell records apart from arrays and primitives', () => {
+    expect(isRecord({ a: 1 })).toBe(true);
+    expect(isRecord([])).toBe(false);
+    expect(isRecord(null)).toBe(false);
+    expect(isRecord('text')).toBe(false);
+  });
+
+  it('should save a document and load its entries back', () => {
+    const storage = createMemoryStorage();
+
+    expect(saveStoredDocument(storage, 'key', { version: 1, items: ['a', 2, 'b'] }, 'items')).toBe(true);
+    expect(loadStoredList(storage, 'key', options)).toEqual({ entries: ['a', 'b'], writable: true, warnings: ['Some items were skipped'] });
+    expect(loadStoredList(createMemoryStorage(), 'key', options)).toEqual({ entries: [], writable: true, warnings: [] });
+  });
+
+  it('should reset unreadable documents and open newer ones read-only', () => {
+    const unreadable = createMemoryStorage({ key: '{not json' });
+    const wrongShape = createMemoryStorage({ key: JSON.stringify({ version: 1, items: 'a' }) });
+    const newer = createMemoryStorage({ key: JSON.stringify({ version: 2, items: ['a'] }) });
+
+    expect(loadStoredList(unreadable, 'key', options).warnings).toEqual(['Saved items were unreadable and have been reset']);
+    expect(loadStoredList(wrongShape, 'key', options).warnings).toEqual(['Saved items were unreadable and have been reset']);
+    expect(loadStoredList(newer, 'key', options)).toEqual({
+      entries: [],
+      writable: false,
+      warnings: ['Saved items were created by a newer version of the calculator and cannot be opened']
+    });
+  });
+
+  it('should report when storage is unavailable or full', () => {
+    const full = { ...createMemoryStorage(), setItem: () => { throw new Error('QuotaExceededError'); } } as Storage;
+
+    expect(loadStoredList(null, 'key', options)).toEqual({ entries: [], writable: false, warnings: [] });
+    expect(saveStoredDocument(null, 'key', {}, 'items')).toBe(false);
+    expect(saveStoredDocument(full, 'key', {}, 'items')).toBe(false);
+  });
+});
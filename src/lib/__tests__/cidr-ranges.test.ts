@@ -0,0 +1,144 @@
+/**
+ * Unit tests for address range to CIDR conversion and prefix summarization
+ */
+
+import {
+  rangeToCIDRs,
+  formatCIDRBlock,
+  parseAddressRange,
+  detectIPVersion,
+  isValidIPv4,
+  parseCIDR,
+  parseCIDRList,
+  aggregateCIDRs,
+  summarizeCIDRs
+} from '../cidr-ranges';
+
+describe('CIDR Ranges', () => {
+  describe('rangeToCIDRs', () => {
+    it('should convert an unaligned IPv4 range into the minimal block list', () => {
+      const blocks = rangeToCIDRs('10.0.0.5', '10.0.3.200');
+
+      expect(blocks.map(formatCIDRBlock)).toEqual([
+        '10.0.0.5/32',
+        '10.0.0.6/31',
+        '10.0.0.8/29',
+        '10.0.0.16/28',
+        '10.0.0.32/27',
+        '10.0.0.64/26',
+        '10.0.0.128/25',
+        '10.0.1.0/24',
+        '10.0.2.0/24',
+        '10.0.3.0/25',
+        '10.0.3.128/26',
+        '10.0.3.192/29',
+        '10.0.3.200/32'
+      ]);
+      expect(blocks[0].lastAddress).toBe('10.0.0.5');
+      expect(blocks[7].addressCount).toBe(BigInt(256));
+    });
+
+    it('should return a single block for aligned ranges and the whole address space', () => {
+      expect(rangeToCIDRs('192.168.0.0', '192.168.255.255').map(formatCIDRBlock)).toEqual(['192.168.0.0/16']);
+      expect(rangeToCIDRs('0.0.0.0', '255.255.255.255').map(formatCIDRBlock)).toEqual(['0.0.0.0/0']);
+      expect(rangeToCIDRs('10.1.1.1', '10.1.1.1').map(formatCIDRBlock)).toEqual(['10.1.1.1/32']);
+      expect(rangeToCIDRs('::', 'ffff:ffff:ffff:ffff:ffff:ffff:ffff:ffff').map(formatCIDRBlock)).toEqual(['::/0']);
+    });
+
+    it('should convert IPv6 ranges', () => {
+      const blocks = rangeToCIDRs('2001:db8::', '2001:db8:0:2::ffff');
+
+      expect(blocks.map(formatCIDRBlock)).toEqual(['2001:db8::/63', '2001:db8:0:2::/112']);
+      expect(blocks[0].ipVersion).toBe('ipv6');
+      expect(blocks[1].lastAddress).toBe('2001:db8:0:2::ffff');
+    });
+
+    it('should reject invalid, mixed and reversed ranges', () => {
+      expect(() => rangeToCIDRs('10.0.0.256', '10.0.1.0')).toThrow('Invalid start address');
+      expect(() => rangeToCIDRs('10.0.0.1', 'nonsense')).toThrow('Invalid end address');
+      expect(() => rangeToCIDRs('10.0.0.1', '2001:db8::1')).toThrow('same IP version');
+      expect(() => rangeToCIDRs('10.0.1.0', '10.0.0.0')).toThrow('must not be greater');
+    });
+  });
+
+  describe('input helpers', () => {
+    it('should split ranges written with different separators', () => {
+      expect(parseAddressRange('10.0.0.5 - 10.0.3.200')).toEqual({ start: '10.0.0.5', end: '10.0.3.200' });
+      expect(parseAddressRange('10.0.0.5–10.0.3.200')).toEqual({ start: '10.0.0.5', end: '10.0.3.200' });
+      expect(parseAddressRange('2001:db8::1 to 2001:db8::ff')).toEqual({ start: '2001:db8::1', end: '2001:db8::ff' });
+      expect(parseAddressRange('10.0.0.5')).toBeNull();
+    });
+
+    it('should detect the IP version of an address', () => {
+      expect(detectIPVersion(' 172.16.0.1 ')).toBe('ipv4');
+      expect(detectIPVersion('fe80::1')).toBe('ipv6');
+      expect(detectIPVersion('::ffff:192.0.2.1')).toBeNull();
+      expect(detectIPVersion('300.1.1.1')).toBeNull();
+    });
+
+    it('should accept only dotted-decimal IPv4 addresses', () => {
+      expect(isValidIPv4('192.168.0.255')).toBe(true);
+      expect(isValidIPv4('256.0.0.1')).toBe(false);
+      expect(isValidIPv4('10.0.0')).toBe(false);
+      expect(isValidIPv4('10.0.0.-1')).toBe(false);
+      expect(isValidIPv4(' 10.0.0.1')).toBe(false);
+    });
+  });
+
+  describe('aggregateCIDRs', () => {
+    it('should merge duplicate, overlapping and adjacent prefixes into the minimal exact set', () => {
+      const { blocks } = parseCIDRList('10.0.1.0/24, 10.0.0.0/24\n10.0.2.0/23 10.0.0.128/25 10.0.0.0/24 192.168.1.0/24');
+
+      expect(aggregateCIDRs(blocks).map(formatCIDRBlock)).toEqual(['10.0.0.0/22', '192.168.1.0/24']);
+    });
+
+    it('should keep non-mergeable neighbours separate and list IPv4 before IPv6', () => {
+      const { blocks } = parseCIDRList('2001:db8:1::/48 10.0.1.0/24 10.0.2.0/24 2001:db8::/48');
+
+      expect(aggregateCIDRs(blocks).map(formatCIDRBlock)).toEqual([
+        '10.0.1.0/24',
+        '10.0.2.0/24',
+        '2001:db8::/47'
+      ]);
+    });
+  });
+
+  describe('summarizeCIDRs', () => {
+    it('should report no over-coverage for an exact summary', () => {
+      const summary = summarizeCIDRs(parseCIDRList('172.16.0.0/24 172.16.1.0/24').blocks);
+
+      expect(formatCIDRBlock(summary.supernet)).toBe('172.16.0.0/23');
+      expect(summary.extraAddresses).toBe(BigInt(0));
+      expect(summary.overCoveragePercent).toBe(0);
+    });
+
+    it('should report the over-coverage of a supernet that includes unlisted space', () => {
+      const summary = summarizeCIDRs(parseCIDRList('10.0.1.0/24 10.0.2.0/24').blocks);
+
+      expect(formatCIDRBlock(summary.supernet)).toBe('10.0.0.0/22');
+      expect(summary.coveredAddresses).toBe(BigInt(512));
+      expect(summary.extraAddresses).toBe(BigInt(512));
+      expect(summary.overCoveragePercent).toBe(50);
+
+      const ipv6 = summarizeCIDRs(parseCIDRList('2001:db8::/64 2001:db8:0:3::/64').blocks);
+      expect(formatCIDRBlock(ipv6.supernet)).toBe('2001:db8::/62');
+      expect(ipv6.overCoveragePercent).toBe(50);
+    });
+
+    it('should reject empty and mixed-version input', () => {
+      expect(() => summarizeCIDRs([])).toThrow('At least one prefix');
+      expect(() => summarizeCIDRs(parseCIDRList('10.0.0.0/8 2001:db8::/32').blocks)).toThrow('same IP version');
+    });
+  });
+
+  describe('parseCIDRList', () => {
+    it('should clear host bits, accept bare addresses and report invalid entries', () => {
+      const result = parseCIDRList('10.0.0.5/24 10.9.9.9 2001:DB8::/32 2001:db8::/129 bogus');
+
+      expect(result.blocks.map(formatCIDRBlock)).toEqual(['10.0.0.0/24', '10.9.9.9/32', '2001:db8::/32']);
+      expect(result.warnings).toEqual(['10.0.0.5/24 has host bits set and was treated as 10.0.0.0/24']);
+      expect(result.errors).toHaveLength(2);
+      expect(() => parseCIDR('10.0.0.0/')).toThrow('Invalid prefix length');
+    });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Unit tests for the cloud provider registry
+ */
+
+import {
+  CLOUD_PROVIDERS,
+  CLOUD_PROVIDER_IDS,
+  getCloudProvider,
+  isCloudProviderId,
+  describeReservedPositions
+} from '../cloud-providers';
+import { intToIPv4, bigIntToIPv6, ipv6ToBigInt } from '../subnet-splitting';
+
+describe('Cloud Provider Registry', () => {
+  describe.each(CLOUD_PROVIDER_IDS)('%s', (id) => {
+    const provider = CLOUD_PROVIDERS[id];
+
+    it('should reserve as many IPv4 addresses as it declares', () => {
+      const reservations = provider.getReservations(0, 255, intToIPv4);
+
+      expect(reservations).toHaveLength(provider.reservedCount);
+      expect(reservations[0].ip).toBe('0.0.0.0');
+      expect(provider.minCidr).toBeLessThan(provider.maxCidr);
+      expect(Math.pow(2, 32 - provider.maxCidr)).toBeGreaterThan(provider.reservedCount);
+    });
+
+    it('should reserve as many IPv6 addresses as it declares', () => {
+      const network = ipv6ToBigInt('2001:db8::');
+      const reservations = provider.ipv6.getReservations(network, network + BigInt(2) ** BigInt(64) - BigInt(1), bigIntToIPv6);
+
+      expect(reservations).toHaveLength(provider.ipv6.reservedCount);
+      expect(provider.ipv6.subnetPrefix).toBe(64);
+    });
+
+    it('should place its first and last usable IPv4 addresses just inside its reservations', () => {
+      const reserved = new Set(provider.getReservations(0, 255, String).map(reservation => Number(reservation.ip)));
+      const first = provider.firstUsableOffset;
+      const last = 255 - provider.lastUsableOffset;
+
+      expect(reserved.has(first) || reserved.has(last)).toBe(false);
+      for (let offset = 0; offset < 256; offset++) {
+        expect(reserved.has(offset)).toBe(offset < first || offset > last);
+      }
+    });
+  });
+
+  describe.each(CLOUD_PROVIDER_IDS.filter(id => CLOUD_PROVIDERS[id].ipv6.exampleBlock))('%s IPv6', (id) => {
+    it('should accept its own example IPv6 block', () => {
+      const provider = CLOUD_PROVIDERS[id];
+      const [network, prefix] = provider.ipv6.exampleBlock.split('/');
+
+      expect(provider.ipv6.validateNetwork(ipv6ToBigInt(network), Number(prefix))).toBeNull();
+    });
+  });
+
+  it('should reject IPv6 for providers whose networks are IPv4 only', () => {
+    ['digitalocean', 'ibm'].forEach(id => {
+      const provider = getCloudProvider(id)!;
+
+      expect(provider.ipv6.exampleBlock).toBe('');
+      expect(provider.ipv6.validateNetwork(ipv6ToBigInt('2001:db8::'), 56)).toContain('do not support IPv6');
+    });
+  });
+
+  it('should look up providers by mode', () => {
+    expect(getCloudProvider('aws')).toBe(CLOUD_PROVIDERS.aws);
+    expect(getCloudProvider('normal')).toBeNull();
+    expect(getCloudProvider('toString')).toBeNull();
+    expect(isCloudProviderId('gcp')).toBe(true);
+    expect(isCloudProviderId('normal')).toBe(false);
+  });
+
+  it('should describe the position of each reserved address', () => {
+    expect(describeReservedPositions(CLOUD_PROVIDERS.aws)).toEqual([
+      'Network Address (1st IP)',
+      'VPC Router (2nd IP)',
+      'DNS Server (3rd IP)',
+      'Future Use (4th IP)',
+      'Broadcast Address (last IP)'
+    ]);
+    expect(describeReservedPositions(CLOUD_PROVIDERS.gcp)).toContain('Second-to-last IP (reserved)');
+    expect(describeReservedPositions(CLOUD_PROVIDERS.oci)).toEqual([
+      'Network Address (1st IP)',
+      'Default Gateway (2nd IP)',
+      'Broadcast Address (last IP)'
+    ]);
+    expect(describeReservedPositions(CLOUD_PROVIDERS.alibaba)).toEqual([
+      'Network Address (1st IP)',
+      'System Reserved (6th IP)',
+      'System Reserved (second-to-last IP)',
+      'Broadcast Address (last IP)'
+    ]);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Unit tests for CloudFormation, Bicep and Deployment Manager export functionality
+ */
+
+import {
+  formatSubnetsAsCloudFormation,
+  formatSubnetsAsBicep,
+  formatSubnetsAsDeploymentManager,
+  getInfrastructureExportFormats
+} from '../cloud-template-export';
+import { SplitSubnet } from '../types';
+
+const options = { includeHeaders: true, includeMetadata: false };
+
+function createSubnet(network: string, cidr: number, overrides: Partial<SplitSubnet> = {}): SplitSubnet {
+  return {
+    id: `${network}/${cidr}`,
+    network,
+    broadcast: '',
+    firstHost: '',
+    lastHost: '',
+    cidr,
+    totalHosts: Math.pow(2, 32 - cidr),
+    usableHosts: Math.pow(2, 32 - cidr) - 5,
+    parentId: 'root',
+    level: 1,
+    isSelected: false,
+    ipVersion: 'ipv4',
+    ...overrides
+  };
+}
+
+const subnets = [createSubnet('10.0.0.0', 25), createSubnet('10.0.0.128', 25)];
+const ipv6Subnet = createSubnet('2001:db8:0:1::', 64, { ipVersion: 'ipv6' });
+
+describe('Cloud Template Export', () => {
+  describe('getInfrastructureExportFormats', () => {
+    it('should offer the native template format for each provider', () => {
+      expect(getInfrastructureExportFormats('aws')).toEqual(['terraform', 'cloudformation-yaml', 'cloudformation-json']);
+      expect(getInfrastructureExportFormats('azure')).toEqual(['terraform', 'bicep']);
+      expect(getInfrastructureExportFormats('gcp')).toEqual(['terraform', 'deployment-manager']);
+      expect(getInfrastructureExportFormats('normal')).toEqual([]);
+    });
+  });
+
+  describe('formatSubnetsAsCloudFormation', () => {
+    it('should generate an AWS::EC2::Subnet resource per subnet in YAML', () => {
+      const yaml = formatSubnetsAsCloudFormation([...subnets, ipv6Subnet], options, 'yaml');
+
+      expect(yaml.startsWith('# AWS CloudFormation subnet plan\n')).toBe(true);
+      expect(yaml).toContain('AWSTemplateFormatVersion: "2010-09-09"');
+      expect(yaml).toContain('  VpcId:\n    Type: "AWS::EC2::VPC::Id"');
+      expect(yaml).toContain('  Subnet10x0x0x128x25:\n    Type: "AWS::EC2::Subnet"');
+      expect(yaml).toContain('      VpcId:\n        Ref: VpcId');
+      expect(yaml).toContain('      CidrBlock: "10.0.0.128/25"');
+      expect(yaml).toContain('"Fn::Sub": "${NamePrefix}-10-0-0-128-25"');
+      expect(yaml).toContain('      Ipv6CidrBlock: "2001:db8:0:1::/64"');
+      expect(yaml).toContain('      Ipv6Native: true');
+    });
+
+    it('should generate an equivalent JSON template with parameter defaults', () => {
+      const template = JSON.parse(formatSubnetsAsCloudFormation(subnets, {
+        ...options,
+        namePrefix: 'prod',
+        networkReference: 'vpc-0abc'
+      }, 'json'));
+
+      expect(template.Parameters.VpcId.Default).toBe('vpc-0abc');
+      expect(template.Parameters.NamePrefix.Default).toBe('prod');
+      expect(Object.keys(template.Resources)).toEqual(['Subnet10x0x0x0x25', 'Subnet10x0x0x128x25']);
+      expect(template.Resources.Subnet10x0x0x0x25.Properties).toEqual({
+        VpcId: { Ref: 'VpcId' },
+        CidrBlock: '10.0.0.0/25',
+        Tags: [{ Key: 'Name', Value: { 'Fn::Sub': '${NamePrefix}-10-0-0-0-25' } }]
+      });
+    });
+
+    it('should declare paired IPv6 subnets of dual-stack plans', () => {
+      const subnet = { ...createSubnet('10.0.1.0', 24), pairedIPv6: '2600:1f18::/64' };
+      const template = JSON.parse(formatSubnetsAsCloudFormation([subnet], options, 'json'));
+
+      expect(template.Resources.Subnet10x0x1x0x24.Properties).toMatchObject({
+        CidrBlock: '10.0.1.0/24',
+        Ipv6CidrBlock: '2600:1f18::/64',
+        AssignIpv6AddressOnCreation: true
+      });
+      expect(formatSubnetsAsCloudFormation([subnet], options, 'yaml'))
+        .toContain('      CidrBlock: "10.0.1.0/24"\n      Ipv6CidrBlock: "2600:1f18::/64"\n      AssignIpv6AddressOnCreation: true');
+    });
+  });
+
+  describe('formatSubnetsAsBicep', () => {
+    it('should add subnets to an existing virtual network sequentially', () => {
+      const bicep = formatSubnetsAsBicep(subnets, { ...options, networkReference: 'hub-vnet' });
+
+      expect(bicep).toContain("param virtualNetworkName string = 'hub-vnet'");
+      expect(bicep).toContain("param namePrefix string = 'subnet'");
+      expect(bicep).toContain("resource virtualNetwork 'Microsoft.Network/virtualNetworks@2023-09-01' existing = {");
+      expect(bicep).toContain("resource subnet_10_0_0_128_25 'Microsoft.Network/virtualNetworks/subnets@2023-09-01' = {");
+      expect(bicep).toContain("  name: '${namePrefix}-10-0-0-128-25'");
+      expect(bicep).toContain("    addressPrefix: '10.0.0.128/25'");
+      expect(bicep).toContain('  dependsOn: [\n    subnet_10_0_0_0_25\n  ]');
+    });
+
+    it('should leave the virtual network parameter without a default when no reference is given', () => {
+      const bicep = formatSubnetsAsBicep(subnets, { includeHeaders: false, includeMetadata: false });
+
+      expect(bicep.startsWith("@description('Name of the virtual network")).toBe(true);
+      expect(bicep).toContain('param virtualNetworkName string\n');
+    });
+
+    it('should list paired IPv6 subnets of dual-stack plans as a second address prefix', () => {
+      const bicep = formatSubnetsAsBicep([{ ...createSubnet('10.0.1.0', 24), pairedIPv6: '2001:db8:0:1::/64' }], options);
+
+      expect(bicep).toContain("    addressPrefixes: [\n      '10.0.1.0/24'\n      '2001:db8:0:1::/64'\n    ]");
+      expect(bicep).not.toContain('addressPrefix:');
+    });
+
+    it('should skip IPv6-only subnets, which Azure cannot create', () => {
+      const bicep = formatSubnetsAsBicep([...subnets, ipv6Subnet], options);
+
+      expect(bicep).toContain('// 1 IPv6-only subnet(s) skipped');
+      expect(bicep).toContain("    addressPrefix: '10.0.0.128/25'");
+      expect(bicep).not.toContain('2001:db8');
+    });
+  });
+
+  describe('formatSubnetsAsDeploymentManager', () => {
+    it('should generate compute.v1.subnetwork resources and skip IPv6 subnets', () => {
+      const yaml = formatSubnetsAsDeploymentManager([...subnets, ipv6Subnet], {
+        ...options,
+        namePrefix: 'Prod_App',
+        networkReference: 'global/networks/shared'
+      });
+
+      expect(yaml).toContain('# 1 IPv6 subnet(s) skipped');
+      expect(yaml).toContain('  - name: prod-app-10-0-0-0-25\n    type: compute.v1.subnetwork');
+      expect(yaml).toContain('      network: global/networks/shared');
+      expect(yaml).toContain('      ipCidrRange: "10.0.0.0/25"');
+      expect(yaml).toContain('      region: REGION');
+      expect(yaml).not.toContain('2001:db8');
+    });
+
+    it('should use a placeholder network when no reference is given', () => {
+      const yaml = formatSubnetsAsDeploymentManager(subnets, options);
+
+      expect(yaml).toContain('# Replace projects/PROJECT_ID/global/networks/NETWORK_NAME with the network self link');
+      expect(yaml).toContain('      network: projects/PROJECT_ID/global/networks/NETWORK_NAME');
+    });
+
+    it('should build names that start with a letter and fit in 63 characters', () => {
+      const longLabel = createSubnet('10.0.0.128', 25, { label: 'x'.repeat(70) });
+      const yaml = formatSubnetsAsDeploymentManager([subnets[0], longLabel], { ...options, namePrefix: '1st-' + 'tier'.repeat(20) });
+      const names = Array.from(yaml.matchAll(/- name: (\S+)/g), match => match[1]);
+
+      expect(names).toHaveLength(2);
+      names.forEach(name => {
+        expect(name).toMatch(/^[a-z]([-a-z0-9]*[a-z0-9])?$/);
+        expect(name.length).toBeLessThanOrEqual(63);
+      });
+      expect(names[0].startsWith('subnet-1st-tier')).toBe(true);
+      expect(names[0].endsWith('-10-0-0-0-25')).toBe(true);
+      expect(names[1].endsWith('-10-0-0-128-25')).toBe(true);
+    });
+  });
+
+  describe('subnet names and metadata', () => {
+    const named = [
+      createSubnet('10.0.0.0', 25, { label: 'web', metadata: { environment: 'prod', tags: ['pci'] } }),
+      createSubnet('10.0.0.128', 25)
+    ];
+
+    it('should become CloudFormation tags', () => {
+      const template = JSON.parse(formatSubnetsAsCloudFormation(named, options, 'json'));
+
+      expect(template.Resources.Subnet10x0x0x0x25.Properties.Tags).toEqual([
+        { Key: 'Name', Value: { 'Fn::Sub': '${NamePrefix}-web' } },
+        { Key: 'Environment', Value: 'prod' },
+        { Key: 'pci', Value: '' }
+      ]);
+    });
+
+    it('should become Bicep comments and Deployment Manager descriptions', () => {
+      const bicep = formatSubnetsAsBicep(named, options);
+      const yaml = formatSubnetsAsDeploymentManager(named, options);
+
+      expect(bicep).toContain("// environment: prod; tags: pci\nresource subnet_10_0_0_0_25 ");
+      expect(bicep).toContain("  name: '${namePrefix}-web'");
+      expect(yaml).toContain('  - name: subnet-web\n');
+      expect(yaml).toContain('      description: "environment: prod; tags: pci"');
+    });
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Unit tests for user-defined custom profiles
+ */
+
+import {
+  CUSTOM_PROFILE_STORAGE_KEY,
+  CUSTOM_PROFILE_TEMPLATES,
+  normalizeCustomProfile,
+  createCustomProvider,
+  registerCustomProfiles,
+  getCustomProfileMode,
+  findCustomProfile,
+  upsertCustomProfile,
+  deleteCustomProfile,
+  loadCustomProfiles,
+  saveCustomProfiles,
+  exportCustomProfiles,
+  parseCustomProfilesJSON
+} from '../custom-profiles';
+import { getCloudProvider, isCustomCloudMode, describeReservedPositions } from '../cloud-providers';
+import { calculateSubnetDetailsFromNetwork, intToIPv4 } from '../subnet-splitting';
+import { getRequiredPrefix } from '../vlsm-planner';
+import { CustomCloudProfile } from '../types';
+import { createMemoryStorage } from './helpers/memory-storage';
+
+const nsx: CustomCloudProfile = { ...CUSTOM_PROFILE_TEMPLATES[1], id: 'nsx' };
+
+describe('Custom Profiles', () => {
+  describe('normalizeCustomProfile', () => {
+    it('should accept every template', () => {
+      CUSTOM_PROFILE_TEMPLATES.forEach(template => {
+        expect(normalizeCustomProfile(template)).toMatchObject(template);
+      });
+    });
+
+    it('should trim text, order reservations by address and keep a valid ID', () => {
+      const profile = normalizeCustomProfile({
+        id: 'dc-1',
+        name: '  On-prem   DC ',
+        minCidr: 20,
+        maxCidr: 26,
+        reservations: [
+          { from: 'end', offset: 0, purpose: 'Broadcast' },
+          { from: 'start', offset: 1, purpose: ' Gateway ', description: 'HSRP' },
+          { from: 'start', offset: 0, purpose: 'Network' }
+        ]
+      });
+
+      expect(profile.id).toBe('dc-1');
+      expect(profile.name).toBe('On-prem DC');
+      expect(profile.reservations.map(r => r.purpose)).toEqual(['Network', 'Gateway', 'Broadcast']);
+      expect(profile.reservations[0].description).toBe('');
+      expect(normalizeCustomProfile({ ...profile, id: 'not valid!' }).id).toMatch(/^profile_/);
+    });
+
+    it('should reject invalid names and prefix limits', () => {
+      expect(() => normalizeCustomProfile({ ...nsx, name: ' ' })).toThrow('Profile name is required');
+      expect(() => normalizeCustomProfile({ ...nsx, minCidr: 33 })).toThrow('between /0 and /32');
+      expect(() => normalizeCustomProfile({ ...nsx, minCidr: 30, maxCidr: 24 })).toThrow('cannot be smaller');
+    });
+
+    it('should reject reservations that do not fit the smallest subnet', () => {
+      const reservation = { from: 'start', offset: 0, purpose: 'Network' };
+
+      expect(() => normalizeCustomProfile({ ...nsx, reservations: [] })).toThrow('at least one address');
+      expect(() => normalizeCustomProfile({ ...nsx, reservations: [{ ...reservation, offset: -1 }] })).toThrow('non-negative offset');
+      expect(() => normalizeCustomProfile({ ...nsx, reservations: [{ ...reservation, purpose: '' }] })).toThrow('Purpose of reserved address 1 is required');
+      expect(() => normalizeCustomProfile({ ...nsx, reservations: [{ ...reservation, offset: 8 }] })).toThrow('outside a /29 subnet');
+      expect(() => normalizeCustomProfile({
+        ...nsx,
+        reservations: [reservation, { from: 'end', offset: 7, purpose: 'Other' }]
+      })).toThrow('are the same address in a /29 subnet');
+      expect(() => normalizeCustomProfile({
+        ...nsx,
+        maxCidr: 31,
+        reservations: [reservation, { from: 'end', offset: 0, purpose: 'Broadcast' }]
+      })).toThrow('no usable addresses');
+    });
+  });
+
+  describe('createCustomProvider', () => {
+    it('should reserve the offsets from the start and the end of each subnet', () => {
+      const provider = createCustomProvider(CUSTOM_PROFILE_TEMPLATES[2] as CustomCloudProfile);
+      const reservations = provider.getReservations(0, 255, intToIPv4);
+
+      expect(reservations.map(r => r.ip)).toEqual(['0.0.0.0', '0.0.0.252', '0.0.0.253', '0.0.0.254', '0.0.0.255']);
+      expect(provider.reservedCount).toBe(5);
+      expect(provider.firstUsableOffset).toBe(1);
+      expect(describeReservedPositions(provider)).toContain('Gateway (second-to-last IP)');
+    });
+
+    it('should fall back to a generic description', () => {
+      const provider = createCustomProvider({ ...nsx, reservations: [{ from: 'start', offset: 1, purpose: 'Gateway', description: '' }] });
+
+      expect(provider.getReservations(0, 7, intToIPv4)[0].description).toBe('Reserved by VMware NSX Segment');
+      expect(provider.firstUsableOffset).toBe(0);
+    });
+  });
+
+  describe('registerCustomProfiles', () => {
+    afterEach(() => registerCustomProfiles([]));
+
+    it('should apply a registered profile like a built-in provider', () => {
+      registerCustomProfiles([nsx]);
+      const mode = getCustomProfileMode(nsx);
+      const subnet = calculateSubnetDetailsFromNetwork('10.1.0.0', 24, 'ipv4', mode);
+
+      expect(isCustomCloudMode(mode)).toBe(true);
+      expect(getCloudProvider(mode)?.name).toBe('VMware NSX Segment');
+      expect(subnet.firstHost).toBe('10.1.0.4');
+      expect(subnet.usableHosts).toBe(251);
+      expect(subnet.cloudReserved?.map(r => r.purpose)).toEqual(['Network Address', 'Gateway', 'VRRP', 'VRRP', 'Broadcast Address']);
+      expect(getRequiredPrefix(2, mode)).toBe(29);
+    });
+
+    it('should keep the first and last hosts clear of reservations from either end', () => {
+      const onPremises = { ...CUSTOM_PROFILE_TEMPLATES[2], id: 'onprem' } as CustomCloudProfile;
+      const gaps: CustomCloudProfile = {
+        id: 'gaps',
+        name: 'Gaps',
+        minCidr: 16,
+        maxCidr: 30,
+        reservations: [
+          { from: 'start', offset: 0, purpose: 'Network Address', description: '' },
+          { from: 'start', offset: 2, purpose: 'Gateway', description: '' },
+          { from: 'end', offset: 0, purpose: 'Broadcast Address', description: '' }
+        ]
+      };
+      registerCustomProfiles([nsx, onPremises, gaps]);
+
+      expect(calculateSubnetDetailsFromNetwork('10.1.0.0', 24, 'ipv4', getCustomProfileMode(onPremises)))
+        .toMatchObject({ firstHost: '10.1.0.1', lastHost: '10.1.0.251' });
+      expect(calculateSubnetDetailsFromNetwork('10.1.0.0', 24, 'ipv4', getCustomProfileMode(nsx)))
+        .toMatchObject({ firstHost: '10.1.0.4', lastHost: '10.1.0.254' });
+      expect(calculateSubnetDetailsFromNetwork('10.1.0.0', 24, 'ipv4', getCustomProfileMode(gaps)))
+        .toMatchObject({ firstHost: '10.1.0.1', lastHost: '10.1.0.254' });
+      expect(calculateSubnetDetailsFromNetwork('10.1.0.0', 30, 'ipv4', getCustomProfileMode(gaps)))
+        .toMatchObject({ firstHost: '10.1.0.1', lastHost: '10.1.0.1', usableHosts: 1 });
+      expect(calculateSubnetDetailsFromNetwork('2001:db8::', 64, 'ipv6', getCustomProfileMode(onPremises)))
+        .toMatchObject({ firstHost: '2001:db8::1', lastHost: '2001:db8::ffff:ffff:ffff:fffb' });
+    });
+
+    it('should forget profiles that are no longer registered', () => {
+      registerCustomProfiles([nsx]);
+      registerCustomProfiles([]);
+
+      expect(getCloudProvider('custom:nsx')).toBeNull();
+      expect(calculateSubnetDetailsFromNetwork('10.1.0.0', 24, 'ipv4', 'custom:nsx').cloudReserved).toBeUndefined();
+    });
+  });
+
+  describe('profile list operations', () => {
+    it('should add, replace, find and delete profiles', () => {
+      const renamed = { ...nsx, name: 'NSX' };
+      let profiles = upsertCustomProfile([], nsx);
+      profiles = upsertCustomProfile(profiles, renamed);
+
+      expect(profiles).toEqual([renamed]);
+      expect(findCustomProfile(profiles, 'custom:nsx')).toBe(renamed);
+      expect(findCustomProfile(profiles, 'aws')).toBeNull();
+      expect(deleteCustomProfile(profiles, 'nsx')).toEqual([]);
+    });
+  });
+
+  describe('storage', () => {
+    it('should save and load profiles', () => {
+      const storage = createMemoryStorage();
+
+      expect(saveCustomProfiles([nsx], storage)).toBe(true);
+      expect(loadCustomProfiles(storage)).toEqual({ profiles: [nsx], writable: true, warnings: [] });
+    });
+
+    it('should drop damaged profiles and keep documents from newer versions untouched', () => {
+      const damaged = createMemoryStorage({
+        [CUSTOM_PROFILE_STORAGE_KEY]: JSON.stringify({ version: 1, profiles: [nsx, { ...nsx, id: 'bad', minCidr: 40 }] })
+      });
+      const newer = createMemoryStorage({
+        [CUSTOM_PROFILE_STORAGE_KEY]: JSON.stringify({ version: 2, profiles: [nsx] })
+      });
+
+      expect(loadCustomProfiles(damaged).profiles).toEqual([nsx]);
+      expect(loadCustomProfiles(damaged).warnings[0]).toContain('Profile 2 "VMware NSX Segment" skipped');
+      expect(loadCustomProfiles(newer)).toMatchObject({ profiles: [], writable: false });
+      expect(loadCustomProfiles(null)).toEqual({ profiles: [], writable: false, warnings: [] });
+    });
+  });
+
+  describe('JSON import and export', () => {
+    it('should round-trip exported profiles', () => {
+      expect(parseCustomProfilesJSON(exportCustomProfiles([nsx]))).toEqual({ profiles: [nsx], warnings: [] });
+    });
+
+    it('should read a list of profiles or a single profile', () => {
+      expect(parseCustomProfilesJSON(JSON.stringify([nsx])).profiles).toEqual([nsx]);
+      expect(parseCustomProfilesJSON(JSON.stringify(nsx)).profiles).toEqual([nsx]);
+    });
+
+    it('should skip duplicate IDs and reject files without valid profiles', () => {
+      const result = parseCustomProfilesJSON(JSON.stringify([nsx, nsx]));
+
+      expect(result.profiles).toHaveLength(1);
+      expect(result.warnings[0]).toContain('used by an earlier profile');
+      expect(() => parseCustomProfilesJSON('{')).toThrow('not valid JSON');
+      expect(() => parseCustomProfilesJSON('[]')).toThrow('contains no profiles');
+      expect(() => parseCustomProfilesJSON(JSON.stringify([{ name: 'x' }]))).toThrow('Profile 1 "x" skipped');
+      expect(() => parseCustomProfilesJSON(JSON.stringify({ version: 9, profiles: [nsx] }))).toThrow('newer version');
+    });
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Unit tests for multi-zone distribution templates and the saved pattern library
+ */
+
+import {
+  BUILT_IN_DISTRIBUTION_PATTERNS,
+  DISTRIBUTION_PATTERN_STORAGE_KEY,
+  planDistribution,
+  normalizeDistributionPattern,
+  parseDistributionNames,
+  parseDistributionTiers,
+  formatDistributionTiers,
+  upsertDistributionPattern,
+  deleteDistributionPattern,
+  loadDistributionPatterns,
+  saveDistributionPatterns
+} from '../distribution-templates';
+import { DistributionPattern } from '../types';
+import { createMemoryStorage } from './helpers/memory-storage';
+import { createParent, describeSubnets } from './helpers/subnets';
+
+const findPattern = (id: string) => BUILT_IN_DISTRIBUTION_PATTERNS.find(pattern => pattern.id === id)!;
+
+describe('Distribution Templates', () => {
+  describe('planDistribution', () => {
+    it('should lay out 3 AZs × public, private, data tiers with weighted, aligned subnets', () => {
+      const layout = planDistribution(createParent('10.0.0.0', 16), findPattern('builtin-3az-three-tier'), 'aws');
+
+      expect(describeSubnets(layout.subnets, 'spare')).toEqual([
+        'private-a 10.0.0.0/19',
+        'public-a 10.0.32.0/20',
+        'data-a 10.0.48.0/20',
+        'private-b 10.0.64.0/19',
+        'public-b 10.0.96.0/20',
+        'data-b 10.0.112.0/20',
+        'private-c 10.0.128.0/19',
+        'public-c 10.0.160.0/20',
+        'data-c 10.0.176.0/20'
+      ]);
+      expect(describeSubnets(layout.spareSubnets, 'spare')).toEqual(['spare 10.0.192.0/18']);
+      expect(describeSubnets(layout.blocks, 'spare')).toEqual(['a 10.0.0.0/18', 'b 10.0.64.0/18', 'c 10.0.128.0/18']);
+      expect(layout.subnets[0].metadata?.tags).toEqual(['zone=a', 'tier=private']);
+      expect(layout.subnets[0].cloudReserved).toHaveLength(5);
+      expect(layout.subnets[0].parentId).toBe(layout.blocks[0].id);
+      expect(layout.subnets[0].level).toBe(2);
+    });
+
+    it('should split between regions first and keep unused space as spare subnets', () => {
+      const layout = planDistribution(createParent('10.0.0.0', 16), findPattern('builtin-2region-3az'));
+
+      expect(describeSubnets(layout.subnets, 'spare').slice(0, 2)).toEqual(['primary-private-a 10.0.0.0/20', 'primary-public-a 10.0.16.0/21']);
+      expect(layout.subnets).toHaveLength(12);
+      expect(layout.subnets[0].metadata?.tags).toEqual(['region=primary', 'zone=a', 'tier=private']);
+      expect(describeSubnets(layout.blocks, 'spare').slice(0, 2)).toEqual(['primary 10.0.0.0/17', 'primary-a 10.0.0.0/19']);
+      expect(describeSubnets(layout.spareSubnets, 'spare')).toContain('spare 10.0.24.0/21');
+      expect(describeSubnets(layout.spareSubnets, 'spare')).toContain('spare 10.0.96.0/19');
+      expect(layout.spareSubnets).toHaveLength(8);
+    });
+
+    it('should lay out IPv6 networks and require /64 tiers in cloud modes', () => {
+      const pattern = findPattern('builtin-2az-public-private');
+      const layout = planDistribution(createParent('2001:db8::', 62), pattern, 'aws');
+
+      expect(describeSubnets(layout.subnets, 'spare')).toEqual([
+        'public-a 2001:db8::/64',
+        'private-a 2001:db8:0:1::/64',
+        'public-b 2001:db8:0:2::/64',
+        'private-b 2001:db8:0:3::/64'
+      ]);
+      expect(() => planDistribution(createParent('2001:db8::', 56), pattern, 'aws'))
+        .toThrow('The public tier would use /58 subnets, but AWS IPv6 subnets must be /64');
+    });
+
+    it('should reject networks too small for the pattern or the cloud subnet sizes', () => {
+      expect(() => planDistribution(createParent('10.0.0.0', 28), findPattern('builtin-3az-four-tier')))
+        .toThrow('10.0.0.0/28 is too small for this pattern; its smallest tier would need a /33');
+      expect(() => planDistribution(createParent('10.0.0.0', 24), findPattern('builtin-3az-four-tier'), 'aws'))
+        .toThrow('The data tier would use /29 subnets, but AWS subnets must be between /16 and /28');
+      expect(planDistribution(createParent('10.0.0.0', 24), findPattern('builtin-3az-three-tier'), 'aws').subnets).toHaveLength(9);
+    });
+  });
+
+  describe('normalizeDistributionPattern', () => {
+    it('should accept every built-in pattern', () => {
+      BUILT_IN_DISTRIBUTION_PATTERNS.forEach(pattern => {
+        expect(normalizeDistributionPattern(pattern)).toEqual(pattern);
+      });
+    });
+
+    it('should trim names, default weights and replace invalid IDs', () => {
+      const pattern = normalizeDistributionPattern({
+        id: 'not valid!',
+        name: '  Edge   VPC ',
+        zones: [' a ', 'b'],
+        tiers: [{ name: 'dmz' }]
+      });
+
+      expect(pattern).toMatchObject({ name: 'Edge VPC', regions: [], zones: ['a', 'b'], tiers: [{ name: 'dmz', weight: 1 }] });
+      expect(pattern.id).toMatch(/^pattern_/);
+    });
+
+    it('should reject invalid names, duplicates and weights that break alignment', () => {
+      const base = { name: 'Test', zones: ['a'], tiers: [{ name: 'app', weight: 1 }] };
+
+      expect(() => normalizeDistributionPattern({ ...base, name: ' ' })).toThrow('Pattern name is required');
+      expect(() => normalizeDistributionPattern({ ...base, zones: [] })).toThrow('At least one zone is required');
+      expect(() => normalizeDistributionPattern({ ...base, zones: ['a', 'A'] })).toThrow('Zone name "A" is used twice');
+      expect(() => normalizeDistributionPattern({ ...base, tiers: [{ name: 'web tier' }] })).toThrow('Tier name "web tier" must be 1 to 32 letters');
+      expect(() => normalizeDistributionPattern({ ...base, tiers: [{ name: 'app', weight: 3 }] })).toThrow('Weight of tier "app" must be 1, 2, 4');
+    });
+  });
+
+  describe('pattern text', () => {
+    it('should read and format names and weighted tiers', () => {
+      const tiers = parseDistributionTiers('public, private: 2, data=1');
+
+      expect(parseDistributionNames('a, b,,c ')).toEqual(['a', 'b', 'c']);
+      expect(tiers).toEqual([{ name: 'public', weight: 1 }, { name: 'private', weight: 2 }, { name: 'data', weight: 1 }]);
+      expect(formatDistributionTiers(tiers)).toBe('public, private: 2, data');
+      expect(parseDistributionTiers('box2')).toEqual([{ name: 'box2', weight: 1 }]);
+    });
+  });
+
+  describe('pattern library', () => {
+    const saved: DistributionPattern = { ...BUILT_IN_DISTRIBUTION_PATTERNS[0], id: 'edge', name: 'Edge' };
+
+    it('should add, replace and delete patterns', () => {
+      const renamed = { ...saved, name: 'Edge VPC' };
+      const patterns = upsertDistributionPattern(upsertDistributionPattern([], saved), renamed);
+
+      expect(patterns).toEqual([renamed]);
+      expect(deleteDistributionPattern(patterns, 'edge')).toEqual([]);
+    });
+
+    it('should save and load patterns, skipping damaged ones', () => {
+      const storage = createMemoryStorage();
+      const damaged = createMemoryStorage({
+        [DISTRIBUTION_PATTERN_STORAGE_KEY]: JSON.stringify({ version: 1, patterns: [saved, { ...saved, id: 'bad', zones: [] }] })
+      });
+      const newer = createMemoryStorage({
+        [DISTRIBUTION_PATTERN_STORAGE_KEY]: JSON.stringify({ version: 2, patterns: [saved] })
+      });
+
+      expect(saveDistributionPatterns([saved], storage)).toBe(true);
+      expect(loadDistributionPatterns(storage)).toEqual({ patterns: [saved], writable: true, warnings: [] });
+      expect(loadDistributionPatterns(damaged).patterns).toEqual([saved]);
+      expect(loadDistributionPatterns(damaged).warnings[0]).toContain('Pattern 2 skipped');
+      expect(loadDistributionPatterns(newer)).toMatchObject({ patterns: [], writable: false });
+      expect(loadDistributionPatterns(null)).toEqual({ patterns: [], writable: false, warnings: [] });
+    });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Unit tests for dual-stack IPv6 pairing
+ */
+
+import {
+  parseDualStackBlock,
+  assignDualStackPairs,
+  clearDualStackPairs,
+  getDualStackPair,
+  getDualStackPairIndex,
+  getMatchingPairIndex
+} from '../dual-stack';
+import { calculateSubnetDetailsFromNetwork } from '../subnet-splitting';
+import { SplitSubnet } from '../types';
+
+function createSubnet(id: string, network: string, cidr: number, parentId: string = '10.0.0.0/16'): SplitSubnet {
+  return {
+    ...calculateSubnetDetailsFromNetwork(network, cidr, 'ipv4', 'aws'),
+    id,
+    parentId,
+    level: 1,
+    isSelected: false,
+    ipVersion: 'ipv4'
+  };
+}
+
+const block = parseDualStackBlock('2600:1f18:abcd:ef00::/56', 'aws');
+
+describe('Dual-Stack', () => {
+  describe('parseDualStackBlock', () => {
+    it('should clear host bits', () => {
+      expect(parseDualStackBlock('2600:1f18:abcd:ef12::1/56')).toMatchObject({ network: '2600:1f18:abcd:ef00::', prefix: 56 });
+    });
+
+    it('should reject blocks that cannot hold a /64 or are not IPv6', () => {
+      expect(() => parseDualStackBlock('10.0.0.0/16')).toThrow('must be an IPv6 prefix');
+      expect(() => parseDualStackBlock('2001:db8::/80')).toThrow('/64 or larger');
+      expect(() => parseDualStackBlock('2001:db8::/33')).not.toThrow();
+    });
+
+    it('should apply the cloud provider block rules', () => {
+      expect(() => parseDualStackBlock('2600:1f18::/48', 'aws')).toThrow('/56 IPv6 block');
+      expect(() => parseDualStackBlock('fd00::/48', 'gcp')).toThrow('fd20::/20');
+    });
+  });
+
+  describe('pair indices', () => {
+    it('should convert between indices and /64 subnets of the block', () => {
+      expect(getDualStackPair(block, BigInt(0))).toBe('2600:1f18:abcd:ef00::/64');
+      expect(getDualStackPair(block, BigInt(255))).toBe('2600:1f18:abcd:efff::/64');
+      expect(getDualStackPairIndex(block, '2600:1f18:abcd:ef2a::/64')).toBe(BigInt(42));
+      expect(getDualStackPairIndex(block, '2600:1f18:abcd:ee00::/64')).toBeNull();
+      expect(getDualStackPairIndex(block, '2600:1f18:abcd:ef00::/56')).toBeNull();
+    });
+
+    it('should match the index of an IPv4 subnet among subnets of its size', () => {
+      expect(getMatchingPairIndex({ network: '10.0.3.0', cidr: 24 }, '10.0.0.0')).toBe(BigInt(3));
+      expect(getMatchingPairIndex({ network: '10.0.128.0', cidr: 17 }, '10.0.0.0')).toBe(BigInt(1));
+    });
+  });
+
+  describe('assignDualStackPairs', () => {
+    it('should pair leaves with the /64 of the matching index', () => {
+      const subnets = [createSubnet('a', '10.0.0.0', 24), createSubnet('b', '10.0.2.0', 24)];
+      const result = assignDualStackPairs(subnets, '10.0.0.0', block);
+
+      expect(result.subnets.map(s => s.pairedIPv6)).toEqual(['2600:1f18:abcd:ef00::/64', '2600:1f18:abcd:ef02::/64']);
+      expect(result).toMatchObject({ paired: 2, unpaired: 0 });
+    });
+
+    it('should fall back to the lowest free /64 when the matching index is taken or outside the block', () => {
+      const subnets = [
+        { ...createSubnet('a', '10.0.0.0', 24), pairedIPv6: '2600:1f18:abcd:ef05::/64' },
+        createSubnet('b', '10.0.5.0', 24),
+        createSubnet('c', '10.0.255.0', 28)
+      ];
+      const result = assignDualStackPairs(subnets, '10.0.0.0', block);
+
+      expect(result.subnets.map(s => s.pairedIPv6)).toEqual([
+        '2600:1f18:abcd:ef05::/64', '2600:1f18:abcd:ef00::/64', '2600:1f18:abcd:ef01::/64'
+      ]);
+      expect(result.subnets[0]).toBe(subnets[0]);
+    });
+
+    it('should move pairs from split subnets to their children', () => {
+      const subnets = [
+        { ...createSubnet('a', '10.0.0.0', 17), pairedIPv6: '2600:1f18:abcd:ef00::/64' },
+        createSubnet('a1', '10.0.0.0', 18, 'a'),
+        createSubnet('a2', '10.0.64.0', 18, 'a')
+      ];
+      const result = assignDualStackPairs(subnets, '10.0.0.0', block);
+
+      expect(result.subnets[0]).not.toHaveProperty('pairedIPv6');
+      expect(result.subnets[1].pairedIPv6).toBe('2600:1f18:abcd:ef00::/64');
+      expect(result.subnets[2].pairedIPv6).toBe('2600:1f18:abcd:ef01::/64');
+    });
+
+    it('should leave subnets unpaired when the block is full', () => {
+      const small = parseDualStackBlock('2001:db8::/63');
+      const subnets = [0, 1, 2].map(i => createSubnet(String(i), `10.0.${i}.0`, 24));
+      const result = assignDualStackPairs(subnets, '10.0.0.0', small);
+
+      expect(result).toMatchObject({ paired: 2, unpaired: 1 });
+      expect(result.subnets[2]).not.toHaveProperty('pairedIPv6');
+    });
+
+    it('should remove every pair when the plan stops being dual-stack', () => {
+      const paired = assignDualStackPairs([createSubnet('a', '10.0.0.0', 24)], '10.0.0.0', block).subnets;
+
+      expect(clearDualStackPairs(paired)[0]).not.toHaveProperty('pairedIPv6');
+    });
+  });
+});
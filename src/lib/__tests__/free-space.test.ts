@@ -0,0 +1,137 @@
+/**
+ * Unit tests for finding and allocating free blocks in a subnet plan
+ */
+
+import { findFreeBlocks, allocateFreeBlock, isFreeSubnet } from '../free-space';
+import { SplitSubnet } from '../types';
+import { createParent } from './helpers/subnets';
+
+function createSubnet(network: string, cidr: number, label?: string): SplitSubnet {
+  return {
+    id: `${network}/${cidr}`,
+    network,
+    broadcast: '',
+    firstHost: '',
+    lastHost: '',
+    cidr,
+    totalHosts: 0,
+    usableHosts: 0,
+    parentId: '10.0.0.0/22',
+    level: 1,
+    isSelected: false,
+    ...(label ? { label } : {}),
+    ipVersion: 'ipv4'
+  };
+}
+
+const describeBlocks = (blocks: { network: string; prefix?: number; cidr?: number; label?: string }[]) =>
+  blocks.map(block => `${block.label ? `${block.label} ` : ''}${block.network}/${block.prefix ?? block.cidr}`);
+
+describe('Free Space', () => {
+  const parent = createParent('10.0.0.0', 22);
+  const plan = [
+    createSubnet('10.0.0.0', 24, 'web'),
+    createSubnet('10.0.1.0', 24),
+    createSubnet('10.0.2.0', 25, 'db'),
+    createSubnet('10.0.2.128', 25),
+    createSubnet('10.0.3.0', 24, 'mgmt')
+  ];
+
+  describe('isFreeSubnet', () => {
+    it('should treat unnamed subnets without smaller subnets inside them as free', () => {
+      expect(isFreeSubnet(plan[1], plan)).toBe(true);
+      expect(isFreeSubnet(plan[0], plan)).toBe(false);
+      expect(isFreeSubnet(createSubnet('10.0.2.0', 24), [...plan, createSubnet('10.0.2.0', 24)])).toBe(false);
+    });
+
+    it('should not treat reserved or deprecated subnets as free', () => {
+      expect(isFreeSubnet({ ...plan[1], status: 'reserved' }, plan)).toBe(false);
+      expect(isFreeSubnet({ ...plan[1], status: 'deprecated' }, plan)).toBe(false);
+      expect(isFreeSubnet({ ...plan[1], status: 'free' }, plan)).toBe(true);
+    });
+  });
+
+  describe('findFreeBlocks', () => {
+    it('should find the first, best-fit and all aligned free blocks', () => {
+      expect(describeBlocks(findFreeBlocks(parent, plan, { prefix: 26 }).blocks)).toEqual(['10.0.1.0/26']);
+      expect(describeBlocks(findFreeBlocks(parent, plan, { prefix: 26, strategy: 'best-fit' }).blocks)).toEqual(['10.0.2.128/26']);
+
+      const all = findFreeBlocks(parent, plan, { prefix: 26, strategy: 'all' });
+      expect(describeBlocks(all.blocks)).toEqual([
+        '10.0.1.0/26',
+        '10.0.1.64/26',
+        '10.0.1.128/26',
+        '10.0.1.192/26',
+        '10.0.2.128/26',
+        '10.0.2.192/26'
+      ]);
+      expect(all.truncated).toBe(false);
+      expect(findFreeBlocks(parent, plan, { prefix: 26, strategy: 'all', maxResults: 2 }).truncated).toBe(true);
+    });
+
+    it('should treat the whole parent as free when there are no subnets', () => {
+      const result = findFreeBlocks(parent, [], { prefix: 24, strategy: 'best-fit' });
+
+      expect(describeBlocks(result.blocks)).toEqual(['10.0.0.0/24']);
+      expect(result.blocks[0].containerId).toBe('10.0.0.0/22');
+    });
+
+    it('should return no blocks when nothing large enough is free', () => {
+      expect(findFreeBlocks(parent, plan, { prefix: 23 }).blocks).toEqual([]);
+    });
+
+    it('should reject prefix lengths outside the parent and cloud provider limits', () => {
+      expect(() => findFreeBlocks(parent, plan, { prefix: 21 })).toThrow('between /22 and /32');
+      expect(() => findFreeBlocks(parent, plan, { prefix: 29 }, 'aws')).toThrow('AWS subnets cannot be smaller than /28');
+      expect(() => findFreeBlocks(createParent('2001:db8::', 56), [], { prefix: 60 }, 'azure')).toThrow('Azure IPv6 subnets must be /64');
+      expect(findFreeBlocks(createParent('2001:db8::', 56), [], { prefix: 64 }, 'azure').blocks).toHaveLength(1);
+    });
+  });
+
+  describe('allocateFreeBlock', () => {
+    it('should split the free subnet around the allocated block', () => {
+      const [block] = findFreeBlocks(parent, plan, { prefix: 26, strategy: 'all' }).blocks.slice(1);
+      const result = allocateFreeBlock(parent, plan, block, ' app ');
+
+      expect(describeBlocks(result.created)).toEqual(['10.0.1.0/26', 'app 10.0.1.64/26', '10.0.1.128/25']);
+      expect(describeBlocks(result.subnets)).toEqual([
+        'web 10.0.0.0/24',
+        '10.0.1.0/26',
+        'app 10.0.1.64/26',
+        '10.0.1.128/25',
+        'db 10.0.2.0/25',
+        '10.0.2.128/25',
+        'mgmt 10.0.3.0/24'
+      ]);
+      expect(result.allocated.parentId).toBe('10.0.0.0/22');
+      expect(result.allocated.level).toBe(1);
+      expect(result.allocated.status).toBe('allocated');
+      expect(result.allocated.statusHistory).toEqual([{ from: 'free', to: 'allocated', timestamp: expect.any(Number) }]);
+      expect(result.created[0]).not.toHaveProperty('status');
+    });
+
+    it('should keep the free subnet metadata on every piece', () => {
+      const tagged = plan.map(subnet => subnet.network === '10.0.1.0' ? { ...subnet, metadata: { environment: 'prod' } } : subnet);
+      const [block] = findFreeBlocks(parent, tagged, { prefix: 25 }).blocks;
+      const result = allocateFreeBlock(parent, tagged, block, 'app');
+
+      expect(result.created.map(subnet => subnet.metadata)).toEqual([{ environment: 'prod' }, { environment: 'prod' }]);
+    });
+
+    it('should allocate from an empty plan with cloud reservations', () => {
+      const [block] = findFreeBlocks(parent, [], { prefix: 24 }).blocks;
+      const result = allocateFreeBlock(parent, [], block, 'web', 'aws');
+
+      expect(describeBlocks(result.subnets)).toEqual(['web 10.0.0.0/24', '10.0.1.0/24', '10.0.2.0/23']);
+      expect(result.allocated.usableHosts).toBe(251);
+    });
+
+    it('should reject blocks that are no longer free and empty names', () => {
+      const [block] = findFreeBlocks(parent, plan, { prefix: 26 }).blocks;
+      const { subnets } = allocateFreeBlock(parent, plan, block, 'app');
+
+      expect(() => allocateFreeBlock(parent, subnets, block, 'again')).toThrow('10.0.1.0/26 is no longer free');
+      expect(() => allocateFreeBlock(parent, plan, block, '  ')).toThrow('A name is required');
+    });
+  });
+});
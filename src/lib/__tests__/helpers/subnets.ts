@@ -0,0 +1,30 @@
+/**
+ * Subnet builders and formatters shared by the planner tests
+ */
+
+import { SubnetInfo } from '../../types';
+
+/**
+ * Builds the parent subnet a planner works in; only the network, prefix and ID matter to the planners
+ */
+export function createParent(network: string, cidr: number): SubnetInfo {
+  return {
+    id: `${network}/${cidr}`,
+    network,
+    broadcast: '',
+    firstHost: '',
+    lastHost: '',
+    subnetMask: '',
+    wildcardMask: '',
+    totalHosts: 0,
+    usableHosts: 0,
+    cidr: `/${cidr}`,
+    level: 0
+  };
+}
+
+/**
+ * Lists subnets as "label network/prefix", naming unlabelled ones after the given placeholder
+ */
+export const describeSubnets = (subnets: { network: string; cidr: number; label?: string }[], unlabelled = 'free') =>
+  subnets.map(subnet => `${subnet.label ?? unlabelled} ${subnet.network}/${subnet.cidr}`);
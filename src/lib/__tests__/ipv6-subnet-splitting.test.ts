@@ -11,7 +11,12 @@ import {
   validateIPv6SubnetAdjacency,
   areIPv6SubnetsAdjacent,
   calculateJoinedIPv6Subnet,
-  joinIPv6Subnets
+  joinIPv6Subnets,
+  findOptimalJoinGroups,
+  batchJoinSubnets,
+  validateCloudIPv6Network,
+  validateCloudIPv6Join,
+  calculateSubnetDetailsFromNetwork
 } from '../subnet-splitting';
 import { SubnetInfo, SplitOptions, SplitSubnet } from '../types';
 
@@ -391,6 +396,82 @@ describe('IPv6 Subnet Splitting', () => {
     });
   });
 
+  describe('IPv6 cloud provider modes', () => {
+    const createParent = (network: string, prefix: number): SubnetInfo => ({
+      id: 'parent-1',
+      network,
+      broadcast: '',
+      firstHost: '',
+      lastHost: '',
+      subnetMask: '',
+      wildcardMask: '',
+      totalHosts: Number.MAX_SAFE_INTEGER,
+      usableHosts: Number.MAX_SAFE_INTEGER,
+      cidr: `/${prefix}`,
+      level: 0
+    });
+
+    test('should split an AWS /56 VPC block into /64 subnets with reservations', () => {
+      const result = splitIPv6Subnet(createParent('2600:1f18:abcd:ef00::', 56), { splitType: 'custom', customCidr: 64 }, 'aws');
+
+      expect(result.subnets).toHaveLength(256);
+      const [first] = result.subnets;
+      expect(first.firstHost).toBe('2600:1f18:abcd:ef00::4');
+      expect(first.lastHost).toBe('2600:1f18:abcd:ef00:ffff:ffff:ffff:fffe');
+      expect(first.ipv6Info?.usableAddressesFormatted).toBe('2^64 - 5');
+      expect(first.cloudReserved?.map(reservation => reservation.ip)).toEqual([
+        '2600:1f18:abcd:ef00::',
+        '2600:1f18:abcd:ef00::1',
+        '2600:1f18:abcd:ef00::2',
+        '2600:1f18:abcd:ef00::3',
+        '2600:1f18:abcd:ef00:ffff:ffff:ffff:ffff'
+      ]);
+    });
+
+    test('should reject AWS blocks larger than /56 and subnets other than /64', () => {
+      expect(validateIPv6Split(createParent('2600:1f18::', 48), { splitType: 'custom', customCidr: 56 }, 'aws').errors)
+        .toContain('AWS assigns a /56 IPv6 block to each VPC; /48 is too large');
+      expect(validateIPv6Split(createParent('2600:1f18:abcd:ef00::', 56), { splitType: 'custom', customCidr: 72 }, 'aws').errors)
+        .toContain('AWS IPv6 subnets must be /64');
+      expect(splitIPv6Subnet(createParent('2600:1f18:abcd:ef00::', 56), { splitType: 'custom', customCidr: 72 }, 'aws').subnets).toHaveLength(0);
+
+      const grouping = validateIPv6Split(createParent('2600:1f18:abcd:ef00::', 56), { splitType: 'equal', splitCount: 4 }, 'aws');
+      expect(grouping.isValid).toBe(true);
+      expect(grouping.warnings[0]).toContain('split them into /64 subnets');
+    });
+
+    test('should require /64 subnets for Azure without limiting the VNet block', () => {
+      expect(validateIPv6Split(createParent('2001:db8::', 48), { splitType: 'custom', customCidr: 52 }, 'azure').isValid).toBe(true);
+      expect(validateIPv6Split(createParent('2001:db8::', 48), { splitType: 'custom', customCidr: 80 }, 'azure').errors)
+        .toContain('Azure IPv6 subnets must be /64');
+
+      const details = calculateSubnetDetailsFromNetwork('2001:db8::', 64, 'ipv6', 'azure');
+      expect(details.cloudReserved).toHaveLength(5);
+      expect(details.cloudReserved?.[4].purpose).toBe('Last Address');
+    });
+
+    test('should apply Google Cloud internal and external range rules', () => {
+      expect(validateCloudIPv6Network('fd20:a:b::', 48, 'gcp')).toBeNull();
+      expect(validateCloudIPv6Network('fd20:a::', 32, 'gcp')).toContain('/48 internal IPv6 range');
+      expect(validateCloudIPv6Network('fd00:1::', 48, 'gcp')).toBe('Google Cloud internal IPv6 ranges are allocated from fd20::/20');
+      expect(validateCloudIPv6Network('2600:1900::', 32, 'gcp')).toBeNull();
+      expect(validateCloudIPv6Network('2600:1900::', 96, 'gcp')).toBe('Google Cloud IPv6 subnets must be /64');
+
+      const details = calculateSubnetDetailsFromNetwork('fd20:a:b:1::', 64, 'ipv6', 'gcp');
+      expect(details.firstHost).toBe('fd20:a:b:1::1');
+      expect(details.lastHost).toBe('fd20:a:b:1:ffff:ffff:ffff:ffff');
+      expect(details.cloudReserved?.map(reservation => reservation.purpose)).toEqual(['Subnet-Router Anycast']);
+    });
+
+    test('should leave normal mode unchanged', () => {
+      const details = calculateSubnetDetailsFromNetwork('2001:db8::', 64, 'ipv6');
+
+      expect(details.firstHost).toBe('2001:db8::');
+      expect(details.cloudReserved).toBeUndefined();
+      expect(validateCloudIPv6Network('2001:db8::', 96, 'normal')).toBeNull();
+    });
+  });
+
   describe('IPv6 Subnet Adjacency and Joining', () => {
     const createIPv6Subnet = (network: string, cidr: number, id: string): SplitSubnet => ({
       id,
@@ -586,6 +667,58 @@ describe('IPv6 Subnet Splitting', () => {
         expect(result.subnets).toHaveLength(0);
         expect(result.totalSubnets).toBe(0);
       });
+
+      test('should only join /64 subnets in cloud provider modes', () => {
+        const subnets = [
+          createIPv6Subnet('2001:db8::', 65, 'subnet1'),
+          createIPv6Subnet('2001:db8:0:0:8000::', 65, 'subnet2')
+        ];
+
+        const tooLarge = [
+          createIPv6Subnet('2001:db8::', 64, 'subnet3'),
+          createIPv6Subnet('2001:db8:0:1::', 64, 'subnet4')
+        ];
+
+        expect(joinIPv6Subnets(subnets, 'aws').subnets[0].cloudReserved).toHaveLength(5);
+        expect(joinIPv6Subnets(tooLarge, 'aws').subnets).toHaveLength(0);
+        expect(validateCloudIPv6Join(subnets, 'aws')).toBeNull();
+        expect(validateCloudIPv6Join(tooLarge, 'gcp')).toBe('Google Cloud IPv6 subnets must be /64');
+        expect(validateCloudIPv6Join(tooLarge, 'normal')).toBeNull();
+      });
+    });
+
+    describe('findOptimalJoinGroups and batchJoinSubnets', () => {
+      const createRun = (count: number, start: number = 0) =>
+        Array.from({ length: count }, (_, i) => createIPv6Subnet(`2001:db8:0:${(start + i).toString(16)}::`, 64, `s${start + i}`));
+
+      test('should find aligned join groups of IPv6 subnets', () => {
+        const result = findOptimalJoinGroups([...createRun(4), ...createRun(2, 0x10)]);
+
+        expect(result.groups.map(group => group.map(s => s.id))).toEqual([
+          ['s0', 's1', 's2', 's3'],
+          ['s16', 's17']
+        ]);
+      });
+
+      test('should split unaligned runs into joinable blocks', () => {
+        // 2001:db8:0:1::/64 to 2001:db8:0:4::/64; :1 cannot start a /63
+        const result = findOptimalJoinGroups(createRun(4, 1));
+
+        expect(result.groups.map(group => group.map(s => s.id))).toEqual([['s2', 's3']]);
+        expect(result.recommendations.some(rec => rec.includes('aligned power-of-2 blocks'))).toBe(true);
+      });
+
+      test('should batch join IPv6 groups', () => {
+        const { groups } = findOptimalJoinGroups([...createRun(4), ...createRun(2, 0x10)]);
+        const result = batchJoinSubnets(groups, 'normal');
+
+        expect(result.summary.successfulJoins).toBe(2);
+        expect(result.summary.totalSubnetsJoined).toBe(6);
+        expect(result.results.map(r => `${r.subnets[0].network}/${r.subnets[0].cidr}`)).toEqual([
+          '2001:db8::/62',
+          '2001:db8:0:10::/63'
+        ]);
+      });
     });
   });
 
@@ -0,0 +1,185 @@
+/**
+ * Unit tests for Kubernetes node, pod and service CIDR planning
+ */
+
+import {
+  planKubernetesNetwork,
+  getAwsMaxPods,
+  getNodeCidrMaskSize,
+  getAddressesPerNode
+} from '../kubernetes-planner';
+import { createParent, describeSubnets } from './helpers/subnets';
+
+describe('Kubernetes Planner', () => {
+  describe('capacity math', () => {
+    it('should follow the EKS max pods formula', () => {
+      expect(getAwsMaxPods(3, 10)).toBe(29);
+      expect(getAwsMaxPods(3, 10, true)).toBe(434);
+      expect(getAwsMaxPods(8, 30)).toBe(234);
+    });
+
+    it('should give each node a pod range of twice its max pods', () => {
+      expect(getNodeCidrMaskSize(110)).toBe(24);
+      expect(getNodeCidrMaskSize(64)).toBe(25);
+      expect(getNodeCidrMaskSize(256)).toBe(23);
+      expect(getNodeCidrMaskSize(8)).toBe(28);
+    });
+
+    it('should count the node subnet addresses each node consumes', () => {
+      const base = { maxNodes: 10, maxServices: 100 };
+
+      expect(getAddressesPerNode({ ...base, networkModel: 'aws-vpc-cni', maxPodsPerNode: 29 })).toBe(30);
+      expect(getAddressesPerNode({ ...base, networkModel: 'aws-vpc-cni', maxPodsPerNode: 10 })).toBe(20);
+      expect(getAddressesPerNode({ ...base, networkModel: 'aws-vpc-cni-prefix', maxPodsPerNode: 110 })).toBe(129);
+      expect(getAddressesPerNode({ ...base, networkModel: 'azure-cni', maxPodsPerNode: 30 })).toBe(31);
+      expect(getAddressesPerNode({ ...base, networkModel: 'azure-kubenet', maxPodsPerNode: 110 })).toBe(1);
+    });
+  });
+
+  describe('planKubernetesNetwork', () => {
+    it('should size EKS node subnets per availability zone for VPC CNI pod addresses', () => {
+      const plan = planKubernetesNetwork(createParent('10.0.0.0', 16), {
+        networkModel: 'aws-vpc-cni',
+        maxNodes: 100,
+        maxPodsPerNode: 29,
+        maxServices: 4000,
+        zones: 3
+      }, 'aws');
+
+      expect(describeSubnets(plan.subnets)).toEqual([
+        'nodes-a 10.0.0.0/21',
+        'nodes-b 10.0.8.0/21',
+        'nodes-c 10.0.16.0/21'
+      ]);
+      expect(describeSubnets(plan.externalSubnets)).toEqual(['services 10.1.0.0/20']);
+      expect(plan.externalSubnets[0].cloudReserved).toBeUndefined();
+      expect(plan.subnets[0].cloudReserved).toHaveLength(5);
+      expect(plan.capacity).toMatchObject({ podsPerNode: 29, addressesPerNode: 30, nodeCidrMaskSize: null, services: 4094 });
+      expect(plan.capacity.nodes).toBeGreaterThanOrEqual(100);
+      expect(plan.warnings).toEqual([]);
+      expect(describeSubnets(plan.freeSubnets)).toEqual(['free 10.0.24.0/21', 'free 10.0.32.0/19', 'free 10.0.64.0/18', 'free 10.0.128.0/17']);
+    });
+
+    it('should keep the EKS service CIDR outside the VPC and no smaller than a /24', () => {
+      const options = { networkModel: 'aws-vpc-cni' as const, maxNodes: 50, maxPodsPerNode: 29, maxServices: 100 };
+      const plan = planKubernetesNetwork(createParent('10.0.0.0', 16), options, 'aws');
+      const wholePrivateRange = planKubernetesNetwork(createParent('10.0.0.0', 8), options, 'aws');
+
+      expect(describeSubnets(plan.externalSubnets)).toEqual(['services 10.1.0.0/24']);
+      expect(plan.subnets.map(subnet => subnet.label)).toEqual(['nodes']);
+      expect(plan.capacity.services).toBe(254);
+      expect(plan.notes[1]).toBe('Set the cluster service IPv4 CIDR to 10.1.0.0/24; it must not overlap the VPC CIDR');
+      expect(describeSubnets(wholePrivateRange.externalSubnets)).toEqual(['services 172.16.0.0/24']);
+    });
+
+    it('should cap pods per node at the ENI limit and raise it with prefix delegation', () => {
+      const options = { maxNodes: 20, maxPodsPerNode: 110, maxServices: 1000, zones: 2 };
+      const secondary = planKubernetesNetwork(createParent('10.0.0.0', 16), { ...options, networkModel: 'aws-vpc-cni' }, 'aws');
+      const prefix = planKubernetesNetwork(createParent('10.0.0.0', 16), { ...options, networkModel: 'aws-vpc-cni-prefix' }, 'aws');
+
+      expect(secondary.capacity.podsPerNode).toBe(29);
+      expect(secondary.warnings[0]).toContain('support at most 29 pods per node');
+      expect(prefix.capacity.podsPerNode).toBe(110);
+      expect(prefix.capacity.addressesPerNode).toBe(129);
+      expect(prefix.notes.join('\n')).toContain('ENABLE_PREFIX_DELEGATION=true');
+    });
+
+    it('should allocate a pod CIDR from --node-cidr-mask-size for overlay clusters', () => {
+      const plan = planKubernetesNetwork(createParent('10.0.0.0', 14), {
+        networkModel: 'overlay',
+        maxNodes: 250,
+        maxPodsPerNode: 110,
+        maxServices: 4000
+      });
+
+      expect(describeSubnets(plan.subnets)).toEqual([
+        'pods 10.0.0.0/16',
+        'services 10.1.0.0/20',
+        'nodes 10.1.16.0/24'
+      ]);
+      expect(plan.capacity).toMatchObject({ nodes: 254, podsPerNode: 110, pods: 27940, nodeCidrMaskSize: 24 });
+      expect(plan.subnets[0].metadata?.description).toBe('Kubernetes pod CIDR, /24 per node');
+      expect(plan.notes).toContain('kube-controller-manager: --allocate-node-cidrs=true --cluster-cidr=10.0.0.0/16 --node-cidr-mask-size=24');
+      expect(plan.notes).toContain('kube-apiserver: --service-cluster-ip-range=10.1.0.0/20');
+    });
+
+    it('should honour an explicit node CIDR mask size and reject one too small for max pods', () => {
+      const options = { networkModel: 'overlay' as const, maxNodes: 100, maxPodsPerNode: 100, maxServices: 250 };
+      const plan = planKubernetesNetwork(createParent('10.0.0.0', 14), { ...options, nodeCidrMaskSize: 25 });
+
+      expect(plan.subnets.find(subnet => subnet.label === 'pods')?.cidr).toBe(18);
+      expect(() => planKubernetesNetwork(createParent('10.0.0.0', 14), { ...options, nodeCidrMaskSize: 26 }))
+        .toThrow('A /26 per node leaves 62 pod addresses, fewer than 100 pods per node');
+    });
+
+    it('should plan GKE primary and secondary ranges in one regional subnet', () => {
+      const plan = planKubernetesNetwork(createParent('10.0.0.0', 12), {
+        networkModel: 'gke',
+        maxNodes: 500,
+        maxPodsPerNode: 64,
+        maxServices: 4000,
+        zones: 3
+      }, 'gcp');
+
+      expect(describeSubnets(plan.subnets)).toEqual([
+        'pods 10.0.0.0/16',
+        'services 10.1.0.0/20',
+        'nodes 10.1.16.0/23'
+      ]);
+      expect(plan.capacity.nodeCidrMaskSize).toBe(25);
+      expect(plan.notes[0]).toBe('Create the subnet with primary range 10.1.16.0/23 and secondary ranges pods (10.0.0.0/16) and services (10.1.0.0/20)');
+    });
+
+    it('should reserve max pods plus one address per node for Azure CNI, surge nodes included', () => {
+      const plan = planKubernetesNetwork(createParent('10.0.0.0', 16), {
+        networkModel: 'azure-cni',
+        maxNodes: 50,
+        maxPodsPerNode: 30,
+        maxServices: 250,
+        surgeNodes: 1
+      }, 'azure');
+
+      expect(plan.subnets.find(subnet => subnet.label === 'nodes')?.cidr).toBe(21);
+      expect(plan.capacity.addressesPerNode).toBe(31);
+      expect(plan.notes[1]).toContain('--network-plugin azure');
+      expect(describeSubnets(plan.externalSubnets)).toEqual(['services 10.1.0.0/24']);
+      expect(plan.notes[1]).toContain('--service-cidr 10.1.0.0/24 --dns-service-ip 10.1.0.10');
+    });
+
+    it('should give AKS kubenet nodes a /24 each and enforce its node limit', () => {
+      const parent = createParent('10.0.0.0', 8);
+      const plan = planKubernetesNetwork(parent, { networkModel: 'azure-kubenet', maxNodes: 100, maxPodsPerNode: 110, maxServices: 250 }, 'azure');
+      const vnet = planKubernetesNetwork(createParent('10.0.0.0', 16), { networkModel: 'azure-kubenet', maxNodes: 50, maxPodsPerNode: 110, maxServices: 250 }, 'azure');
+
+      expect(describeSubnets(plan.subnets)).toEqual(['nodes 10.0.0.0/25']);
+      expect(describeSubnets(plan.externalSubnets)).toEqual(['pods 172.16.0.0/17', 'services 172.16.128.0/24']);
+      expect(plan.notes[1]).toContain('--network-plugin kubenet');
+      expect(describeSubnets(vnet.externalSubnets)).toEqual(['pods 10.1.0.0/18', 'services 10.1.64.0/24']);
+      expect(() => planKubernetesNetwork(createParent('0.0.0.0', 0), { networkModel: 'azure-kubenet', maxNodes: 50, maxPodsPerNode: 110, maxServices: 250 }, 'azure'))
+        .toThrow('No private address space outside 0.0.0.0/0 is left for a /18 pod CIDR');
+      expect(() => planKubernetesNetwork(parent, { networkModel: 'azure-kubenet', maxNodes: 401, maxPodsPerNode: 110, maxServices: 250 }, 'azure'))
+        .toThrow('Max nodes for AKS kubenet must be a whole number between 1 and 400');
+    });
+
+    it('should warn when node subnets are sized outside the matching cloud mode', () => {
+      const plan = planKubernetesNetwork(createParent('10.0.0.0', 16), { networkModel: 'gke', maxNodes: 10, maxPodsPerNode: 32, maxServices: 100 });
+
+      expect(plan.warnings).toContain('Node subnets are sized without Google Cloud reservations; switch to Google Cloud mode for exact sizes');
+    });
+
+    it('should reject plans that do not fit and invalid parents', () => {
+      expect(() => planKubernetesNetwork(createParent('10.0.0.0', 20), {
+        networkModel: 'overlay',
+        maxNodes: 100,
+        maxPodsPerNode: 110,
+        maxServices: 1000
+      })).toThrow('The cluster needs 33,920 addresses (a /25 node subnet, a /17 pod CIDR, a /22 service CIDR) but 10.0.0.0/20 has 4,096');
+      expect(() => planKubernetesNetwork(createParent('2001:db8::', 48), {
+        networkModel: 'overlay',
+        maxNodes: 1,
+        maxPodsPerNode: 10,
+        maxServices: 10
+      })).toThrow('requires an IPv4 parent network');
+    });
+  });
+});
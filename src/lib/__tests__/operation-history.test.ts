@@ -0,0 +1,131 @@
+/**
+ * Unit tests for the subnet operation undo/redo history
+ */
+
+import {
+  createOperationHistory,
+  recordOperation,
+  getCurrentSubnets,
+  canUndo,
+  canRedo,
+  undoOperation,
+  redoOperation,
+  jumpToPosition,
+  getBaseNetworkAtPosition
+} from '../operation-history';
+import { SplitSubnet, SubnetOperation, SubnetOperationType } from '../types';
+
+function createSubnet(id: string): SplitSubnet {
+  return {
+    id,
+    network: '10.0.0.0',
+    broadcast: '10.0.0.255',
+    firstHost: '10.0.0.1',
+    lastHost: '10.0.0.254',
+    cidr: 24,
+    totalHosts: 256,
+    usableHosts: 254,
+    level: 1,
+    isSelected: false,
+    ipVersion: 'ipv4'
+  };
+}
+
+function createOperation(id: string, type: SubnetOperationType = 'split'): SubnetOperation {
+  return {
+    id,
+    type,
+    timestamp: Date.now(),
+    sourceSubnets: [],
+    resultSubnets: [],
+    description: id,
+    ipVersion: 'ipv4',
+    cloudMode: 'normal'
+  };
+}
+
+describe('Operation History', () => {
+  it('should start at the baseline with nothing to undo or redo', () => {
+    const history = createOperationHistory([createSubnet('a')]);
+
+    expect(getCurrentSubnets(history).map(s => s.id)).toEqual(['a']);
+    expect(canUndo(history)).toBe(false);
+    expect(canRedo(history)).toBe(false);
+  });
+
+  it('should undo and redo recorded operations', () => {
+    let history = createOperationHistory();
+    history = recordOperation(history, createOperation('split'), [createSubnet('a'), createSubnet('b')]);
+    history = recordOperation(history, createOperation('reset', 'reset'), []);
+
+    expect(getCurrentSubnets(history)).toEqual([]);
+
+    history = undoOperation(history);
+    expect(getCurrentSubnets(history).map(s => s.id)).toEqual(['a', 'b']);
+    expect(canRedo(history)).toBe(true);
+
+    history = undoOperation(history);
+    expect(getCurrentSubnets(history)).toEqual([]);
+    expect(canUndo(history)).toBe(false);
+
+    history = redoOperation(redoOperation(history));
+    expect(history.position).toBe(2);
+    expect(canRedo(history)).toBe(false);
+  });
+
+  it('should jump to any point and clamp out-of-range positions', () => {
+    let history = createOperationHistory();
+    ['one', 'two', 'three'].forEach(id => {
+      history = recordOperation(history, createOperation(id), [createSubnet(id)]);
+    });
+
+    expect(getCurrentSubnets(jumpToPosition(history, 1)).map(s => s.id)).toEqual(['one']);
+    expect(jumpToPosition(history, -5).position).toBe(0);
+    expect(jumpToPosition(history, 99).position).toBe(3);
+    expect(jumpToPosition(history, 3)).toBe(history);
+  });
+
+  it('should discard undone operations when a new operation is recorded', () => {
+    let history = createOperationHistory();
+    history = recordOperation(history, createOperation('one'), [createSubnet('one')]);
+    history = recordOperation(history, createOperation('two'), [createSubnet('two')]);
+    history = undoOperation(history);
+    history = recordOperation(history, createOperation('three'), [createSubnet('three')]);
+
+    expect(history.entries.map(entry => entry.operation.id)).toEqual(['one', 'three']);
+    expect(canRedo(history)).toBe(false);
+  });
+
+  it('should fold the oldest operations into the baseline beyond the limit', () => {
+    let history = createOperationHistory();
+    ['one', 'two', 'three'].forEach(id => {
+      history = recordOperation(history, createOperation(id), [createSubnet(id)], 2);
+    });
+
+    expect(history.entries.map(entry => entry.operation.id)).toEqual(['two', 'three']);
+    expect(history.baseline.map(s => s.id)).toEqual(['one']);
+    expect(history.position).toBe(2);
+    expect(getCurrentSubnets(jumpToPosition(history, 0)).map(s => s.id)).toEqual(['one']);
+  });
+
+  it('should restore the base network when undoing or redoing a reset caused by editing it', () => {
+    const networkReset = (from: string, to: string): SubnetOperation => ({
+      ...createOperation(`reset-${to}`, 'reset'),
+      baseNetworkChange: { from: { ipAddress: from, cidr: '16', ipVersion: 'ipv4' }, to: { ipAddress: to, cidr: '16', ipVersion: 'ipv4' } }
+    });
+    let history = createOperationHistory();
+    history = recordOperation(history, createOperation('split'), [createSubnet('a')]);
+    history = recordOperation(history, networkReset('10.0.0.0', '10.1.0.0'), []);
+    history = recordOperation(history, createOperation('split-2'), [createSubnet('b')]);
+    history = recordOperation(history, networkReset('10.1.0.0', '10.2.0.0'), []);
+
+    expect(getBaseNetworkAtPosition(history, 3)).toEqual({ ipAddress: '10.1.0.0', cidr: '16', ipVersion: 'ipv4' });
+    expect(getBaseNetworkAtPosition(history, 1)).toEqual({ ipAddress: '10.0.0.0', cidr: '16', ipVersion: 'ipv4' });
+    expect(getBaseNetworkAtPosition(history, 4)).toBeNull();
+
+    history = jumpToPosition(history, 0);
+    expect(getBaseNetworkAtPosition(history, 1)).toBeNull();
+    expect(getBaseNetworkAtPosition(history, 3)).toEqual({ ipAddress: '10.1.0.0', cidr: '16', ipVersion: 'ipv4' });
+    expect(getBaseNetworkAtPosition(history, 4)).toEqual({ ipAddress: '10.2.0.0', cidr: '16', ipVersion: 'ipv4' });
+  });
+});
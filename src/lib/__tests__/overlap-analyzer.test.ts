@@ -0,0 +1,112 @@
+/**
+ * Unit tests for overlap and conflict analysis across networks
+ */
+
+import { analyzeOverlaps, parseNetworkDefinitions } from '../overlap-analyzer';
+import { OverlapConflict } from '../types';
+
+const describeConflict = (conflict: OverlapConflict) =>
+  `${conflict.type} ${conflict.first.networkName} ${conflict.first.prefix} / ${conflict.second.networkName} ${conflict.second.prefix}: ${conflict.overlapCIDRs.join(' ')}`;
+
+describe('Overlap Analyzer', () => {
+  describe('analyzeOverlaps', () => {
+    it('should report containment and duplicates between networks and subnets', () => {
+      const result = analyzeOverlaps([
+        { name: 'prod', cidr: '10.0.0.0/16', subnets: ['10.0.1.0/24', '10.0.2.0/24'] },
+        { name: 'on-prem', cidr: '10.0.2.0/24' },
+        { name: 'dev', cidr: '10.1.0.0/16' }
+      ]);
+
+      expect(result.conflicts.map(describeConflict)).toEqual([
+        'containment prod 10.0.0.0/16 / on-prem 10.0.2.0/24: 10.0.2.0/24',
+        'duplicate prod 10.0.2.0/24 / on-prem 10.0.2.0/24: 10.0.2.0/24'
+      ]);
+      expect(result.conflicts[1].first.isSubnet).toBe(true);
+      expect(result.conflicts[1].addressCount).toBe(BigInt(256));
+      expect(result.errors).toEqual([]);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('should report partial overlaps of address ranges with the exact overlapping range', () => {
+      const result = analyzeOverlaps([
+        { name: 'vpc', cidr: '10.0.0.0/22' },
+        { name: 'dc', cidr: '10.0.3.128 - 10.0.4.255' }
+      ]);
+
+      expect(result.conflicts).toHaveLength(1);
+      expect(result.conflicts[0]).toMatchObject({
+        type: 'overlap',
+        overlapStart: '10.0.3.128',
+        overlapEnd: '10.0.3.255',
+        overlapCIDRs: ['10.0.3.128/25']
+      });
+      expect(result.conflicts[0].second.prefix).toBe('10.0.3.128-10.0.4.255');
+    });
+
+    it('should detect overlapping subnets within one network but not subnets inside their own network', () => {
+      const result = analyzeOverlaps([
+        { name: 'vnet', cidr: '10.2.0.0/16', subnets: ['10.2.0.0/24', '10.2.0.128/25', '10.3.0.0/24'] }
+      ]);
+
+      expect(result.conflicts.map(describeConflict)).toEqual([
+        'containment vnet 10.2.0.0/24 / vnet 10.2.0.128/25: 10.2.0.128/25'
+      ]);
+      expect(result.warnings).toEqual(['vnet: subnet 10.3.0.0/24 is not inside 10.2.0.0/16']);
+    });
+
+    it('should analyze IPv6 networks separately from IPv4', () => {
+      const result = analyzeOverlaps([
+        { name: 'a', cidr: '2001:db8::/48', subnets: ['2001:db8:0:1::/64'] },
+        { name: 'b', cidr: '2001:db8:0:1::/64' },
+        { name: 'c', cidr: '10.0.0.0/8' }
+      ]);
+
+      expect(result.conflicts.map(describeConflict)).toEqual([
+        'containment a 2001:db8::/48 / b 2001:db8:0:1::/64: 2001:db8:0:1::/64',
+        'duplicate a 2001:db8:0:1::/64 / b 2001:db8:0:1::/64: 2001:db8:0:1::/64'
+      ]);
+      expect(result.conflicts.every(conflict => conflict.ipVersion === 'ipv6')).toBe(true);
+    });
+
+    it('should report invalid entries and stop at the conflict limit', () => {
+      const result = analyzeOverlaps([
+        { name: 'a', cidr: '10.0.0.0/33', subnets: ['10.0.0.9 - 10.0.0.1'] },
+        { name: 'b', cidr: '192.168.0.0/24' },
+        { name: 'c', cidr: '192.168.0.0/24' },
+        { name: 'd', cidr: '192.168.0.0/24' }
+      ], 2);
+
+      expect(result.errors).toEqual([
+        'a: Invalid prefix length in 10.0.0.0/33: must be between 0 and 32',
+        'a: Range start must not be greater than its end: 10.0.0.9 - 10.0.0.1'
+      ]);
+      expect(result.conflicts).toHaveLength(2);
+      expect(result.truncated).toBe(true);
+    });
+  });
+
+  describe('parseNetworkDefinitions', () => {
+    it('should read named networks with subnets on the same or following lines', () => {
+      const result = parseNetworkDefinitions([
+        'prod vpc: 10.0.0.0/16, 10.0.1.0/24',
+        '  10.0.2.0/24 10.0.3.0/24',
+        'hub: 2001:db8::/32 2001:db8:1::/48',
+        'dc: 172.16.0.10 - 172.16.0.99'
+      ].join('\n'));
+
+      expect(result.errors).toEqual([]);
+      expect(result.networks).toEqual([
+        { name: 'prod vpc', cidr: '10.0.0.0/16', subnets: ['10.0.1.0/24', '10.0.2.0/24', '10.0.3.0/24'] },
+        { name: 'hub', cidr: '2001:db8::/32', subnets: ['2001:db8:1::/48'] },
+        { name: 'dc', cidr: '172.16.0.10 - 172.16.0.99', subnets: [] }
+      ]);
+    });
+
+    it('should report subnets listed before any network', () => {
+      const result = parseNetworkDefinitions('10.0.0.0/24\nvpc: 10.0.0.0/16');
+
+      expect(result.networks).toHaveLength(1);
+      expect(result.errors[0]).toContain('"10.0.0.0/24" has no network');
+    });
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Unit tests for saved project storage and schema migrations
+ */
+
+import {
+  PROJECT_STORAGE_KEY,
+  PROJECT_SCHEMA_VERSION,
+  MAX_PROJECT_NAME_LENGTH,
+  createEmptyProjectStore,
+  normalizeProjectName,
+  migrateProjectStore,
+  loadProjectStore,
+  saveProjectStore,
+  getActiveProject,
+  createProject,
+  renameProject,
+  duplicateProject,
+  deleteProject,
+  setActiveProject,
+  updateProjectState
+} from '../project-storage';
+import { ShareableCalculatorState, SplitSubnet } from '../types';
+import { calculateSubnetDetailsFromNetwork } from '../subnet-splitting';
+import { createMemoryStorage } from './helpers/memory-storage';
+
+function createState(cidr: string = '24'): ShareableCalculatorState {
+  return {
+    ipAddress: '10.0.0.0',
+    cidr,
+    mode: 'aws',
+    ipVersion: 'ipv4',
+    splitSubnets: [],
+    expandedNodes: []
+  };
+}
+
+describe('Project Storage', () => {
+  describe('project operations', () => {
+    it('should create a project and make it active', () => {
+      const store = createProject(createEmptyProjectStore(), '  Production   VPC ', createState());
+      const active = getActiveProject(store);
+
+      expect(store.projects).toHaveLength(1);
+      expect(active?.name).toBe('Production VPC');
+      expect(active?.state.cidr).toBe('24');
+    });
+
+    it('should rename, duplicate and delete projects', () => {
+      let store = createProject(createEmptyProjectStore(), 'Plan', createState());
+      const originalId = store.activeProjectId as string;
+
+      store = renameProject(store, originalId, 'Core');
+      expect(getActiveProject(store)?.name).toBe('Core');
+
+      store = duplicateProject(store, originalId);
+      store = duplicateProject(store, originalId);
+      expect(store.projects.map(project => project.name)).toEqual(['Core', 'Core (copy)', 'Core (copy 2)']);
+      expect(store.activeProjectId).not.toBe(originalId);
+
+      const copyId = store.activeProjectId as string;
+      store = deleteProject(store, copyId);
+      expect(store.activeProjectId).toBeNull();
+      expect(store.projects).toHaveLength(2);
+
+      store = setActiveProject(store, originalId);
+      expect(getActiveProject(store)?.id).toBe(originalId);
+      expect(() => setActiveProject(store, 'missing')).toThrow('Project not found');
+    });
+
+    it('should reject empty and overly long names', () => {
+      expect(() => normalizeProjectName('   ')).toThrow('Project name is required');
+      expect(() => normalizeProjectName('a'.repeat(MAX_PROJECT_NAME_LENGTH + 1))).toThrow(
+        `Project name must be ${MAX_PROJECT_NAME_LENGTH} characters or fewer`
+      );
+    });
+
+    it('should only update a project when its state changes', () => {
+      const store = createProject(createEmptyProjectStore(), 'Plan', createState());
+      const projectId = store.activeProjectId as string;
+
+      expect(updateProjectState(store, projectId, createState())).toBe(store);
+
+      const updated = updateProjectState(store, projectId, createState('16'));
+      expect(updated).not.toBe(store);
+      expect(getActiveProject(updated)?.state.cidr).toBe('16');
+    });
+  });
+
+  describe('migrateProjectStore', () => {
+    it('should upgrade older documents through the migration chain', () => {
+      const legacy = {
+        version: 1,
+        activeProjectId: 'p1',
+        projects: [{ id: 'p1', title: 'Legacy', createdAt: 1, updatedAt: 1, state: createState() }]
+      };
+      const migrations = {
+        1: (document: Record<string, unknown>) => ({
+          ...document,
+          projects: (document.projects as Record<string, unknown>[]).map(({ title, ...project }) => ({ ...project, name: title }))
+        })
+      };
+
+      const result = migrateProjectStore(legacy, migrations, 2);
+
+      expect(result.writable).toBe(true);
+      expect(result.warnings).toEqual([]);
+      expect(result.store.version).toBe(2);
+      expect(result.store.autoSave).toBe(true);
+      expect(getActiveProject(result.store)?.name).toBe('Legacy');
+    });
+
+    it('should refuse to overwrite documents it cannot upgrade', () => {
+      const newer = migrateProjectStore({ version: PROJECT_SCHEMA_VERSION + 1, projects: [] });
+      expect(newer.writable).toBe(false);
+      expect(newer.warnings[0]).toContain('newer version');
+
+      const unmigratable = migrateProjectStore({ version: 1, projects: [] }, {}, 3);
+      expect(unmigratable.writable).toBe(false);
+      expect(unmigratable.store.projects).toEqual([]);
+    });
+
+    it('should drop damaged projects and reset unreadable documents', () => {
+      const result = migrateProjectStore({
+        version: PROJECT_SCHEMA_VERSION,
+        activeProjectId: 'broken',
+        autoSave: false,
+        projects: [
+          { id: 'ok', name: 'OK', createdAt: 1, updatedAt: 1, state: createState() },
+          { id: 'broken', name: 'Broken', state: { ipVersion: 'ipv5' } }
+        ]
+      });
+
+      expect(result.store.projects.map(project => project.id)).toEqual(['ok']);
+      expect(result.store.activeProjectId).toBeNull();
+      expect(result.store.autoSave).toBe(false);
+      expect(result.warnings).toHaveLength(1);
+
+      expect(migrateProjectStore('not a store').warnings).toEqual(['Saved projects were unreadable and have been reset']);
+    });
+
+    it('should validate saved subnets with the share link rules and recalculate derived values', () => {
+      const subnet = (network: string, cidr: number, extra: Partial<SplitSubnet> = {}): SplitSubnet => ({
+        ...calculateSubnetDetailsFromNetwork(network, cidr, 'ipv4', 'aws'),
+        id: `subnet-${network}-${cidr}`,
+        parentId: '10.0.0.0/24',
+        level: 1,
+        isSelected: false,
+        ipVersion: 'ipv4',
+        ...extra
+      });
+      const project = (id: string, splitSubnets: SplitSubnet[]) => ({
+        id, name: id, createdAt: 1, updatedAt: 1, state: { ...createState(), splitSubnets, expandedNodes: ['10.0.0.0/24'] }
+      });
+      const history = [{ from: 'free' as const, to: 'reserved' as const, timestamp: 5 }];
+
+      const result = migrateProjectStore({
+        version: PROJECT_SCHEMA_VERSION,
+        projects: [
+          project('ok', [subnet('10.0.0.0', 25, { usableHosts: 999, label: 'web', status: 'reserved', statusHistory: history })]),
+          project('outside', [subnet('10.0.1.0', 25)]),
+          project('unaligned', [subnet('10.0.0.64', 25)]),
+          project('orphan', [subnet('10.0.0.0', 25, { parentId: 'missing' })]),
+          project('metadata', [subnet('10.0.0.0', 25, { metadata: { vlanId: 5000 } })])
+        ]
+      });
+
+      expect(result.store.projects.map(saved => saved.id)).toEqual(['ok']);
+      expect(result.warnings).toEqual(['4 saved project(s) were damaged and could not be loaded']);
+      expect(result.store.projects[0].state.splitSubnets[0]).toMatchObject({
+        id: 'subnet-10.0.0.0-25',
+        usableHosts: 123,
+        label: 'web',
+        status: 'reserved',
+        statusHistory: history
+      });
+    });
+  });
+
+  describe('loadProjectStore and saveProjectStore', () => {
+    it('should round-trip projects through storage', () => {
+      const storage = createMemoryStorage();
+      const store = createProject(createEmptyProjectStore(), 'Plan', createState());
+
+      expect(saveProjectStore(store, storage)).toBe(true);
+
+      const loaded = loadProjectStore(storage);
+      expect(loaded.writable).toBe(true);
+      expect(loaded.store).toEqual(store);
+    });
+
+    it('should recover from corrupt data and unavailable storage', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const corrupt = loadProjectStore(createMemoryStorage({ [PROJECT_STORAGE_KEY]: '{not json' }));
+      expect(corrupt.store.projects).toEqual([]);
+      expect(corrupt.warnings).toHaveLength(1);
+
+      expect(loadProjectStore(null).writable).toBe(false);
+      expect(saveProjectStore(createEmptyProjectStore(), null)).toBe(false);
+
+      const fullStorage = createMemoryStorage();
+      fullStorage.setItem = () => {
+        throw new Error('QuotaExceededError');
+      };
+      expect(saveProjectStore(createEmptyProjectStore(), fullStorage)).toBe(false);
+
+      warn.mockRestore();
+    });
+  });
+});
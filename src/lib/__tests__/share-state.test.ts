@@ -0,0 +1,215 @@
+/**
+ * Unit tests for shareable URL state encoding
+ */
+
+import {
+  encodeShareState,
+  decodeShareState,
+  getShareTokenFromHash,
+  getBaseNetworkId,
+  buildShareURL,
+  SHARE_STATE_PARAM
+} from '../share-state';
+import { ShareableCalculatorState, SplitSubnet } from '../types';
+import { calculateSubnetDetailsFromNetwork } from '../subnet-splitting';
+import { CUSTOM_PROFILE_TEMPLATES, registerCustomProfiles } from '../custom-profiles';
+
+function createSubnet(id: string, network: string, cidr: number, parentId: string, level: number, ipVersion: 'ipv4' | 'ipv6' = 'ipv4'): SplitSubnet {
+  return {
+    ...calculateSubnetDetailsFromNetwork(network, cidr, ipVersion, 'normal'),
+    id,
+    parentId,
+    level,
+    isSelected: false,
+    ipVersion
+  };
+}
+
+const ipv4State: ShareableCalculatorState = {
+  ipAddress: '10.0.0.0',
+  cidr: '16',
+  mode: 'aws',
+  ipVersion: 'ipv4',
+  splitSubnets: [
+    createSubnet('a', '10.0.0.0', 17, '10.0.0.0/16', 1),
+    createSubnet('b', '10.0.128.0', 17, '10.0.0.0/16', 1),
+    createSubnet('c', '10.0.128.0', 18, 'b', 2),
+    createSubnet('d', '10.0.192.0', 18, 'b', 2)
+  ],
+  expandedNodes: ['10.0.0.0/16', 'b']
+};
+
+describe('Share State', () => {
+  describe('encodeShareState / decodeShareState', () => {
+    it('should round-trip the calculator inputs and split hierarchy', () => {
+      const decoded = decodeShareState(encodeShareState(ipv4State));
+
+      expect(decoded).not.toBeNull();
+      expect(decoded!.ipAddress).toBe('10.0.0.0');
+      expect(decoded!.cidr).toBe('16');
+      expect(decoded!.mode).toBe('aws');
+      expect(decoded!.ipVersion).toBe('ipv4');
+      expect(decoded!.splitSubnets.map(s => `${s.network}/${s.cidr}`)).toEqual([
+        '10.0.0.0/17', '10.0.128.0/17', '10.0.128.0/18', '10.0.192.0/18'
+      ]);
+
+      const [a, b, c, d] = decoded!.splitSubnets;
+      expect(a.parentId).toBe('10.0.0.0/16');
+      expect(a.level).toBe(1);
+      expect(c.parentId).toBe(b.id);
+      expect(d.parentId).toBe(b.id);
+      expect(c.level).toBe(2);
+      expect(decoded!.expandedNodes).toEqual(['10.0.0.0/16', b.id]);
+    });
+
+    it('should recalculate derived values for the cloud mode', () => {
+      const decoded = decodeShareState(encodeShareState(ipv4State));
+      const subnet = decoded!.splitSubnets[2];
+
+      expect(subnet.broadcast).toBe('10.0.191.255');
+      expect(subnet.firstHost).toBe('10.0.128.4');
+      expect(subnet.usableHosts).toBe(16379);
+      expect(subnet.cloudReserved).toHaveLength(5);
+    });
+
+    it('should round-trip IPv6 plans', () => {
+      const state: ShareableCalculatorState = {
+        ipAddress: '2001:db8::1',
+        cidr: '48',
+        mode: 'normal',
+        ipVersion: 'ipv6',
+        splitSubnets: [
+          createSubnet('x', '2001:db8:0:ff00::', 56, '2001:db8::/48', 1, 'ipv6'),
+          createSubnet('y', '2001:db8:0:ff01::', 64, 'x', 2, 'ipv6')
+        ],
+        expandedNodes: []
+      };
+
+      const decoded = decodeShareState(encodeShareState(state));
+
+      expect(getBaseNetworkId('2001:db8::1', 48, 'ipv6')).toBe('2001:db8::/48');
+      expect(decoded!.splitSubnets.map(s => `${s.network}/${s.cidr}`)).toEqual(['2001:db8:0:ff00::/56', '2001:db8:0:ff01::/64']);
+      expect(decoded!.splitSubnets[1].parentId).toBe(decoded!.splitSubnets[0].id);
+      expect(decoded!.splitSubnets[1].ipv6Info?.hostBits).toBe(64);
+    });
+
+    it('should round-trip subnet names and metadata', () => {
+      const state: ShareableCalculatorState = {
+        ...ipv4State,
+        splitSubnets: [
+          { ...ipv4State.splitSubnets[0], label: 'café', metadata: { tags: ['pci'], vlanId: 110, owner: 'netops' } },
+          ...ipv4State.splitSubnets.slice(1)
+        ]
+      };
+      const token = encodeShareState(state);
+      const [a, b] = decodeShareState(token)!.splitSubnets;
+
+      expect(token).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(a.label).toBe('café');
+      expect(a.metadata).toEqual({ tags: ['pci'], vlanId: 110, owner: 'netops' });
+      expect(b).not.toHaveProperty('label');
+      expect(b).not.toHaveProperty('metadata');
+    });
+
+    it('should round-trip subnet status without its history', () => {
+      const state: ShareableCalculatorState = {
+        ...ipv4State,
+        splitSubnets: [
+          { ...ipv4State.splitSubnets[0], status: 'allocated', statusHistory: [{ from: 'free', to: 'allocated', timestamp: 1000 }] },
+          { ...ipv4State.splitSubnets[1], status: 'free' }
+        ]
+      };
+      const [a, b] = decodeShareState(encodeShareState(state))!.splitSubnets;
+
+      expect(a.status).toBe('allocated');
+      expect(a).not.toHaveProperty('statusHistory');
+      expect(b).not.toHaveProperty('status');
+    });
+
+    it('should round-trip the dual-stack block and paired IPv6 subnets', () => {
+      const state: ShareableCalculatorState = {
+        ...ipv4State,
+        dualStackIPv6: '2600:1f18:abcd:ef00::/56',
+        splitSubnets: [
+          { ...ipv4State.splitSubnets[0], pairedIPv6: '2600:1f18:abcd:ef00::/64' },
+          ...ipv4State.splitSubnets.slice(1, 3),
+          { ...ipv4State.splitSubnets[3], pairedIPv6: '2600:1f18:abcd:ef03::/64' }
+        ]
+      };
+      const decoded = decodeShareState(encodeShareState(state))!;
+
+      expect(decoded.dualStackIPv6).toBe('2600:1f18:abcd:ef00::/56');
+      expect(decoded.splitSubnets.map(s => s.pairedIPv6)).toEqual([
+        '2600:1f18:abcd:ef00::/64', undefined, undefined, '2600:1f18:abcd:ef03::/64'
+      ]);
+      expect(decodeShareState(encodeShareState({ ...state, dualStackIPv6: '10.0.0.0/8' }))!.dualStackIPv6).toBeUndefined();
+    });
+
+    it('should carry the definition of a custom profile mode', () => {
+      const profile = { ...CUSTOM_PROFILE_TEMPLATES[1], id: 'nsx' };
+      const state: ShareableCalculatorState = { ...ipv4State, mode: 'custom:nsx', customProfile: profile };
+
+      registerCustomProfiles([profile]);
+      try {
+        const decoded = decodeShareState(encodeShareState(state))!;
+
+        expect(decoded.mode).toBe('custom:nsx');
+        expect(decoded.customProfile).toEqual(profile);
+        expect(decoded.splitSubnets[0].cloudReserved?.map(r => r.ip)).toEqual(['10.0.0.0', '10.0.0.1', '10.0.0.2', '10.0.0.3', '10.0.127.255']);
+      } finally {
+        registerCustomProfiles([]);
+      }
+
+      expect(() => encodeShareState({ ...state, customProfile: undefined })).toThrow('profile definition');
+    });
+
+    it('should produce URL-safe tokens', () => {
+      expect(encodeShareState(ipv4State)).toMatch(/^[A-Za-z0-9_-]+$/);
+    });
+
+    it('should reject invalid configurations when encoding', () => {
+      expect(() => encodeShareState({ ...ipv4State, ipAddress: '10.0.0.300' })).toThrow();
+      expect(() => encodeShareState({ ...ipv4State, cidr: '33' })).toThrow();
+    });
+
+    it('should reject malformed or tampered tokens', () => {
+      const encode = (payload: unknown) => btoa(JSON.stringify(payload)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+      const valid = { v: 1, i: '10.0.0.0', c: 16, m: 'normal', p: 4, s: [[-1, 17, '1']], e: [] };
+
+      expect(decodeShareState(encode(valid))).not.toBeNull();
+      expect(decodeShareState('not-a-token')).toBeNull();
+      expect(decodeShareState('<script>')).toBeNull();
+      expect(decodeShareState(encode({ ...valid, v: 2 }))).toBeNull();
+      expect(decodeShareState(encode({ ...valid, i: '<img>' }))).toBeNull();
+      expect(decodeShareState(encode({ ...valid, m: 'oracle' }))).toBeNull();
+      expect(decodeShareState(encode({ ...valid, m: 'custom:nsx' }))).toBeNull(); // Custom mode without its profile
+      expect(decodeShareState(encode({ ...valid, m: 'custom:nsx', x: { ...CUSTOM_PROFILE_TEMPLATES[1], id: 'other' } }))).toBeNull();
+      expect(decodeShareState(encode({ ...valid, s: [[-1, 17, '2']] }))).toBeNull(); // Offset outside base network
+      expect(decodeShareState(encode({ ...valid, s: [[0, 17, '1']] }))).toBeNull(); // Self-referencing parent
+      expect(decodeShareState(encode({ ...valid, s: [[-1, 18, '0'], [0, 18, '1']] }))).toBeNull(); // Parent does not contain child
+      expect(decodeShareState(encode({ ...valid, s: [[-1, 17, '1', { v: 5000 }]] }))).toBeNull(); // VLAN ID out of range
+      expect(decodeShareState(encode({ ...valid, s: [[-1, 17, '1', { a: 'retired' }]] }))).toBeNull(); // Unknown status
+      expect(decodeShareState(encode({ ...valid, s: [[-1, 17, '1', 'web']] }))).toBeNull(); // Details must be an object
+      expect(decodeShareState(encode({ ...valid, s: [[-1, 17, '1', { q: '1' }]] }))).toBeNull(); // Pair without a dual-stack block
+      expect(decodeShareState(encode({ ...valid, d: '2001:db8::/63', s: [[-1, 17, '1', { q: '2' }]] }))).toBeNull(); // Pair outside the block
+    });
+  });
+
+  describe('getShareTokenFromHash', () => {
+    it('should extract and sanitize the state parameter', () => {
+      expect(getShareTokenFromHash(`#${SHARE_STATE_PARAM}=abc_123`)).toBe('abc_123');
+      expect(getShareTokenFromHash('#other=1')).toBeNull();
+      expect(getShareTokenFromHash(`#${SHARE_STATE_PARAM}=javascript:alert(1)`)).toBeNull();
+    });
+  });
+
+  describe('buildShareURL', () => {
+    it('should build a link on the validated internal path', () => {
+      const url = buildShareURL(ipv4State, { origin: 'https://example.com', pathname: '/' });
+      expect(url).toMatch(new RegExp(`^https://example\\.com/#${SHARE_STATE_PARAM}=[A-Za-z0-9_-]+$`));
+
+      const unsafe = buildShareURL(ipv4State, { origin: 'https://example.com', pathname: '//evil.example' });
+      expect(unsafe.startsWith('https://example.com/#')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Unit tests for special-purpose address registry classification
+ */
+
+import {
+  IPV4_SPECIAL_PURPOSE_REGISTRY,
+  IPV6_SPECIAL_PURPOSE_REGISTRY,
+  classifyAddressSpace,
+  formatAddressSpace,
+  formatAddressSpaceFlags,
+  getAddressSpaceWarnings
+} from '../special-purpose';
+import { parseCIDR } from '../cidr-ranges';
+
+describe('Special-Purpose Addresses', () => {
+  describe('registries', () => {
+    it('should list every entry as an aligned prefix of its own family', () => {
+      [...IPV4_SPECIAL_PURPOSE_REGISTRY, ...IPV6_SPECIAL_PURPOSE_REGISTRY].forEach(block => {
+        const parsed = parseCIDR(block.prefix);
+        expect(`${parsed.network}/${parsed.prefix}`).toBe(block.prefix);
+      });
+      expect(IPV4_SPECIAL_PURPOSE_REGISTRY.every(block => parseCIDR(block.prefix).ipVersion === 'ipv4')).toBe(true);
+      expect(IPV6_SPECIAL_PURPOSE_REGISTRY.every(block => parseCIDR(block.prefix).ipVersion === 'ipv6')).toBe(true);
+    });
+  });
+
+  describe('classifyAddressSpace', () => {
+    it('should classify IPv4 networks by their most specific registry entry', () => {
+      const cases: Array<[string, number, string]> = [
+        ['10.20.0.0', 16, 'Private-Use'],
+        ['172.31.255.0', 24, 'Private-Use'],
+        ['100.64.0.0', 10, 'Shared (CGNAT)'],
+        ['127.0.0.1', 32, 'Loopback'],
+        ['169.254.10.0', 24, 'Link-Local'],
+        ['224.0.0.0', 24, 'Multicast'],
+        ['198.51.100.0', 25, 'Documentation'],
+        ['198.19.0.0', 16, 'Benchmarking'],
+        ['192.0.0.9', 32, 'Anycast'],
+        ['192.0.0.0', 29, 'Translation'],
+        ['192.88.99.2', 32, '6a44'],
+        ['192.88.99.0', 24, 'Deprecated'],
+        ['8.8.8.0', 24, 'Public']
+      ];
+
+      cases.forEach(([network, prefix, type]) => {
+        expect(classifyAddressSpace(network, prefix).type).toBe(type);
+      });
+    });
+
+    it('should classify IPv6 networks, including 6to4, Teredo, NAT64 and ORCHID', () => {
+      const cases: Array<[string, number, string]> = [
+        ['2002:c000:204::', 48, '6to4'],
+        ['2001::', 32, 'Teredo'],
+        ['64:ff9b::', 96, 'NAT64'],
+        ['2001:20::', 28, 'ORCHID'],
+        ['2001:db8:1::', 48, 'Documentation'],
+        ['fd12:3456:789a::', 48, 'Unique Local'],
+        ['fe80::', 64, 'Link-Local'],
+        ['ff02::', 16, 'Multicast'],
+        ['::1', 128, 'Loopback'],
+        ['2600:1f18::', 36, 'Global Unicast'],
+        ['4000::', 3, 'Reserved by IETF']
+      ];
+
+      cases.forEach(([network, prefix, type]) => {
+        expect(classifyAddressSpace(network, prefix).type).toBe(type);
+      });
+    });
+
+    it('should carry the registry flags and list entries inside a larger network', () => {
+      const privateUse = classifyAddressSpace('10.0.0.5', 8);
+      const protocol = classifyAddressSpace('192.0.0.0', 24);
+      const teredo = classifyAddressSpace('2001::', 32);
+
+      expect(privateUse).toMatchObject({ ipVersion: 'ipv4', isPrivate: true, forwardable: true, globallyReachable: false, contained: [] });
+      expect(formatAddressSpace(privateUse)).toBe('Private-Use (10.0.0.0/8, RFC 1918)');
+      expect(formatAddressSpaceFlags(privateUse)).toBe('Forwardable · Not globally reachable');
+      expect(formatAddressSpaceFlags(classifyAddressSpace('127.0.0.0', 8)))
+        .toBe('Not forwardable · Not globally reachable · Not valid as a source · Not valid as a destination · Reserved by protocol');
+      expect(formatAddressSpaceFlags(teredo)).toBe('Forwardable · Global reachability N/A');
+      expect(protocol.contained.map(block => block.prefix))
+        .toEqual(['192.0.0.0/29', '192.0.0.8/32', '192.0.0.9/32', '192.0.0.10/32', '192.0.0.170/32', '192.0.0.171/32']);
+      expect(formatAddressSpace(classifyAddressSpace('8.8.8.0', 24))).toBe('Public');
+    });
+  });
+
+  describe('getAddressSpaceWarnings', () => {
+    it('should not warn about private-use, unique local or global IPv6 space', () => {
+      expect(getAddressSpaceWarnings('192.168.1.0', 24)).toEqual([]);
+      expect(getAddressSpaceWarnings('10.0.0.0', 8)).toEqual([]);
+      expect(getAddressSpaceWarnings('fd00::', 8)).toEqual([]);
+      expect(getAddressSpaceWarnings('2600:1f18::', 36)).toEqual([]);
+    });
+
+    it('should warn about public IPv4, reserved space and special blocks inside a network', () => {
+      expect(getAddressSpaceWarnings('8.8.8.0', 24))
+        .toEqual(['8.8.8.0/24 is public address space; plan with it only if it is assigned to your organization']);
+      expect(getAddressSpaceWarnings('100.64.0.0', 16))
+        .toEqual(['100.64.0.0/16 is Shared Address Space space (100.64.0.0/10, RFC 6598)']);
+      expect(getAddressSpaceWarnings('192.0.2.0', 24))
+        .toEqual(['192.0.2.0/24 is Documentation (TEST-NET-1) space (192.0.2.0/24, RFC 5737) and is not forwarded by routers and is not valid as a source or destination']);
+      expect(getAddressSpaceWarnings('4000::', 3)).toEqual([
+        '4000::/3 is outside 2000::/3 and is reserved by the IETF',
+        '4000::/3 includes special-purpose space: 5f00::/16 Segment Routing (SRv6) SIDs'
+      ]);
+
+      const wide = getAddressSpaceWarnings('0.0.0.0', 0);
+      expect(wide[0]).toBe('0.0.0.0/0 is public address space; plan with it only if it is assigned to your organization');
+      expect(wide[1]).toMatch(/^0\.0\.0\.0\/0 includes special-purpose space: 0\.0\.0\.0\/8 "This network", .* and \d+ more$/);
+    });
+  });
+});
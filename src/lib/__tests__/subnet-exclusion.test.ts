@@ -0,0 +1,114 @@
+/**
+ * Unit tests for carving prefixes out of a parent subnet
+ */
+
+import { excludeFromPlan, excludeFromSubnet } from '../subnet-exclusion';
+import { calculateSubnetDetailsFromNetwork } from '../subnet-splitting';
+import { SplitSubnet } from '../types';
+import { createParent } from './helpers/subnets';
+
+describe('Subnet Exclusion', () => {
+  it('should return the minimal remaining blocks as children of the parent', () => {
+    const result = excludeFromSubnet(createParent('10.0.0.0', 16), { excludedPrefixes: ['10.0.128.0/20'] });
+
+    expect(result.subnets.map(subnet => `${subnet.network}/${subnet.cidr}`)).toEqual([
+      '10.0.0.0/17',
+      '10.0.144.0/20',
+      '10.0.160.0/19',
+      '10.0.192.0/18'
+    ]);
+    expect(result.subnets.every(subnet => subnet.parentId === '10.0.0.0/16' && subnet.level === 1)).toBe(true);
+    expect(result.totalAddresses).toBe(65536 - 4096);
+  });
+
+  it('should merge overlapping exclusions and apply cloud reservations', () => {
+    const result = excludeFromSubnet(
+      createParent('10.0.0.0', 24),
+      { excludedPrefixes: ['10.0.0.0/26', '10.0.0.32/27', '10.0.0.192/26'] },
+      'aws'
+    );
+
+    expect(result.excludedBlocks.map(block => `${block.network}/${block.prefix}`)).toEqual(['10.0.0.0/26', '10.0.0.192/26']);
+    expect(result.subnets.map(subnet => `${subnet.network}/${subnet.cidr}`)).toEqual(['10.0.0.64/26', '10.0.0.128/26']);
+    expect(result.subnets[0].usableHosts).toBe(59);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should warn when remaining subnets are below the cloud provider minimum', () => {
+    const result = excludeFromSubnet(createParent('10.0.0.0', 24), { excludedPrefixes: ['10.0.0.4/30'] }, 'aws');
+
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings[0]).toContain('AWS minimum of /28');
+  });
+
+  it('should exclude prefixes from IPv6 networks', () => {
+    const result = excludeFromSubnet(createParent('2001:db8::', 48), { excludedPrefixes: ['2001:db8:0:ff00::/56'] });
+
+    expect(result.subnets).toHaveLength(8);
+    expect(result.subnets[0].network).toBe('2001:db8::');
+    expect(result.subnets[0].cidr).toBe(49);
+    expect(result.subnets.every(subnet => subnet.ipVersion === 'ipv6')).toBe(true);
+  });
+
+  it('should reject exclusions outside the parent, of another version or covering everything', () => {
+    const parent = createParent('10.0.0.0', 16);
+
+    expect(() => excludeFromSubnet(parent, { excludedPrefixes: [] })).toThrow('At least one prefix');
+    expect(() => excludeFromSubnet(parent, { excludedPrefixes: ['10.1.0.0/24'] })).toThrow('is not inside 10.0.0.0/16');
+    expect(() => excludeFromSubnet(parent, { excludedPrefixes: ['2001:db8::/64'] })).toThrow('is not an IPv4 prefix');
+    expect(() => excludeFromSubnet(parent, { excludedPrefixes: ['10.0.0.0/17', '10.0.128.0/17'] })).toThrow('would leave no address space');
+    expect(() => excludeFromSubnet(parent, { excludedPrefixes: ['10.0.0.1/32'], maxResults: 4 })).toThrow('exceeds the limit of 4');
+  });
+
+  describe('excludeFromPlan', () => {
+    const parent = createParent('10.0.0.0', 16);
+    const createSubnet = (id: string, network: string, cidr: number, parentId: string, level: number, label?: string): SplitSubnet => ({
+      id,
+      ...calculateSubnetDetailsFromNetwork(network, cidr, 'ipv4'),
+      parentId,
+      level,
+      isSelected: false,
+      ipVersion: 'ipv4',
+      ...(label ? { label } : {})
+    });
+    const apps = createSubnet('apps', '10.0.0.0', 17, parent.id!, 1, 'apps');
+    const web = createSubnet('web', '10.0.0.0', 18, 'apps', 2);
+    const api = createSubnet('api', '10.0.64.0', 18, 'apps', 2);
+    const data = createSubnet('data', '10.0.128.0', 17, parent.id!, 1, 'data');
+    const describePlan = (subnets: SplitSubnet[]) =>
+      subnets.map(subnet => `${subnet.label ?? '-'} ${subnet.network}/${subnet.cidr} in ${subnet.parentId}`);
+
+    it('should drop covered subnets and replace overlapping leaves with their remaining space', () => {
+      const result = excludeFromPlan(parent, [apps, web, api, data], { excludedPrefixes: ['10.0.64.0/18', '10.0.128.0/20'] });
+
+      expect(describePlan(result.plan)).toEqual([
+        'apps 10.0.0.0/17 in 10.0.0.0/16',
+        '- 10.0.0.0/18 in apps',
+        'data 10.0.144.0/20 in 10.0.0.0/16',
+        'data 10.0.160.0/19 in 10.0.0.0/16',
+        'data 10.0.192.0/18 in 10.0.0.0/16'
+      ]);
+      expect(result.subnets).toEqual(result.plan.slice(2));
+      expect(result.removedSubnets.map(subnet => subnet.id)).toEqual(['api', 'data']);
+    });
+
+    it('should carve a parent once every child has been excluded', () => {
+      const result = excludeFromPlan(parent, [apps, api], { excludedPrefixes: ['10.0.64.0/18'] });
+
+      expect(describePlan(result.plan)).toEqual(['apps 10.0.0.0/18 in 10.0.0.0/16']);
+      expect(result.removedSubnets.map(subnet => subnet.id)).toEqual(['apps', 'api']);
+    });
+
+    it('should carve the parent network when there are no subnets', () => {
+      const result = excludeFromPlan(parent, [], { excludedPrefixes: ['10.0.128.0/17'] });
+
+      expect(describePlan(result.plan)).toEqual(['- 10.0.0.0/17 in 10.0.0.0/16']);
+      expect(result.removedSubnets).toEqual([]);
+    });
+
+    it('should reject exclusions that change nothing or remove the whole plan', () => {
+      expect(() => excludeFromPlan(parent, [web], { excludedPrefixes: ['10.0.128.0/20'] })).toThrow('10.0.128.0/20 does not overlap any current subnet');
+      expect(() => excludeFromPlan(parent, [web], { excludedPrefixes: ['10.0.0.0/18'] })).toThrow('would remove every subnet in the plan');
+    });
+  });
+});
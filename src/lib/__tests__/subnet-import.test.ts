@@ -0,0 +1,246 @@
+/**
+ * Unit tests for subnet plan import functionality
+ */
+
+import { importSubnets, parseCSV, detectImportFormat } from '../subnet-import';
+import { ImportOptions, SubnetInfo } from '../types';
+
+const parentSubnet: SubnetInfo = {
+  id: '10.0.0.0/24',
+  network: '10.0.0.0',
+  broadcast: '10.0.0.255',
+  firstHost: '10.0.0.1',
+  lastHost: '10.0.0.254',
+  subnetMask: '255.255.255.0',
+  wildcardMask: '0.0.0.255',
+  totalHosts: 256,
+  usableHosts: 254,
+  cidr: '/24',
+  level: 0
+};
+
+const defaultOptions: ImportOptions = {
+  format: 'auto',
+  cloudMode: 'normal'
+};
+
+const EXPORTED_CSV = [
+  'Network,CIDR,Broadcast,First Host,Last Host,Total Hosts,Usable Hosts,IP Version,Level,Parent ID,Has Cloud Reserved',
+  '"10.0.0.0",25,"10.0.0.127","10.0.0.1","10.0.0.126",128,126,"ipv4",1,"10.0.0.0/24",false',
+  '"10.0.0.128",25,"10.0.0.255","10.0.0.129","10.0.0.254",128,126,"ipv4",1,"10.0.0.0/24",false'
+].join('\n');
+
+describe('Subnet Import', () => {
+  describe('parseCSV', () => {
+    it('should handle quoted fields, escaped quotes and CRLF line endings', () => {
+      const rows = parseCSV('a,"b,c","d ""e"""\r\n1,2,3\r\n\r\n');
+      expect(rows).toEqual([
+        ['a', 'b,c', 'd "e"'],
+        ['1', '2', '3']
+      ]);
+    });
+  });
+
+  describe('detectImportFormat', () => {
+    it('should detect JSON documents and fall back to CSV', () => {
+      expect(detectImportFormat('  {"subnets": []}')).toBe('json');
+      expect(detectImportFormat('[]')).toBe('json');
+      expect(detectImportFormat('Network,CIDR')).toBe('csv');
+    });
+  });
+
+  describe('importSubnets', () => {
+    it('should import CSV produced by the export feature', () => {
+      const result = importSubnets(EXPORTED_CSV, defaultOptions);
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.totalRows).toBe(2);
+      expect(result.importedRows).toBe(2);
+      expect(result.subnets[0]).toMatchObject({
+        network: '10.0.0.0',
+        cidr: 25,
+        broadcast: '10.0.0.127',
+        firstHost: '10.0.0.1',
+        lastHost: '10.0.0.126',
+        totalHosts: 128,
+        usableHosts: 126,
+        ipVersion: 'ipv4',
+        level: 1,
+        parentId: '10.0.0.0/24',
+        isSelected: false
+      });
+    });
+
+    it('should import CSV without headers using export column order', () => {
+      const result = importSubnets('"10.0.0.0",26\n"10.0.0.64",26', defaultOptions);
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.subnets.map(s => `${s.network}/${s.cidr}`)).toEqual(['10.0.0.0/26', '10.0.0.64/26']);
+    });
+
+    it('should import names and metadata from CSV and JSON', () => {
+      const csv = [
+        'Network,CIDR,Name,Description,Tags,VLAN ID,Owner,Environment',
+        '10.0.0.0,25,web,"Web tier, public","pci, dmz",110,netops,prod'
+      ].join('\n');
+      const positional = '"10.0.0.0",25,"","","","","","ipv4","db","","","","",""';
+      const json = JSON.stringify({
+        subnets: [{ network: '10.0.0.0', cidr: 25, label: 'web', metadata: { tags: ['pci'], vlanId: 110 } }]
+      });
+
+      expect(importSubnets(csv, defaultOptions).subnets[0]).toMatchObject({
+        label: 'web',
+        metadata: { description: 'Web tier, public', tags: ['pci', 'dmz'], vlanId: 110, owner: 'netops', environment: 'prod' }
+      });
+      expect(importSubnets(positional, defaultOptions).subnets[0].label).toBe('db');
+      expect(importSubnets(json, defaultOptions).subnets[0]).toMatchObject({ label: 'web', metadata: { tags: ['pci'], vlanId: 110 } });
+    });
+
+    it('should import subnet status from CSV and JSON', () => {
+      const positional = '"10.0.0.0",25,"","","","","","ipv4","db","","","","","","Reserved"';
+      const json = JSON.stringify({ subnets: [{ network: '10.0.0.0', cidr: 25, status: 'allocated' }, { network: '10.0.0.128', cidr: 25, status: 'free' }] });
+      const invalid = importSubnets('Network,CIDR,Status\n10.0.0.0,25,retired', defaultOptions);
+
+      expect(importSubnets(positional, defaultOptions).subnets[0]).toMatchObject({ label: 'db', status: 'reserved' });
+      expect(importSubnets(json, defaultOptions).subnets[0].status).toBe('allocated');
+      expect(importSubnets(json, defaultOptions).subnets[1]).not.toHaveProperty('status');
+      expect(invalid.errors[0].code).toBe('INVALID_STATUS');
+    });
+
+    it('should import paired IPv6 subnets from CSV and JSON', () => {
+      const csv = 'Network,CIDR,Paired IPv6\n10.0.0.0,25,2600:1f18:0:1::1/64\n10.0.0.128,25,2001:db8::/56';
+      const json = JSON.stringify({ subnets: [{ network: '10.0.0.0', cidr: 25, pairedIPv6: '2600:1f18::/64' }] });
+      const result = importSubnets(csv, defaultOptions);
+
+      expect(result.subnets).toHaveLength(1);
+      expect(result.subnets[0].pairedIPv6).toBe('2600:1f18:0:1::/64');
+      expect(result.errors[0].code).toBe('INVALID_PAIRED_IPV6');
+      expect(importSubnets(json, defaultOptions).subnets[0].pairedIPv6).toBe('2600:1f18::/64');
+    });
+
+        it('should reject rows with invalid metadata', () => {
+      const result = importSubnets('Network,CIDR,VLAN ID\n10.0.0.0,25,5000', defaultOptions);
+
+      expect(result.subnets).toHaveLength(0);
+      expect(result.errors[0].code).toBe('INVALID_METADATA');
+      expect(result.errors[0].message).toContain('VLAN ID must be a whole number');
+    });
+
+    it('should import JSON exports and preserve subnet IDs', () => {
+      const json = JSON.stringify({
+        subnets: [
+          { id: 'subnet_a_1', network: '10.0.0.0', cidr: 25, ipVersion: 'ipv4', level: 1, parentId: 'root' },
+          { id: 'subnet_b_2', network: '10.0.0.128', cidr: 25, ipVersion: 'ipv4', level: 1, parentId: 'root' }
+        ],
+        metadata: { totalSubnets: 2 }
+      });
+
+      const result = importSubnets(json, defaultOptions);
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.subnets.map(s => s.id)).toEqual(['subnet_a_1', 'subnet_b_2']);
+      expect(result.subnets.every(s => s.parentId === 'root')).toBe(true);
+    });
+
+    it('should rebuild hierarchy from address containment', () => {
+      const csv = [
+        'Network,CIDR',
+        '10.0.0.0,25',
+        '10.0.0.0,26',
+        '10.0.0.64,27'
+      ].join('\n');
+
+      const result = importSubnets(csv, { ...defaultOptions, parentSubnet });
+      const [parent, child, grandchild] = result.subnets;
+
+      expect(parent.parentId).toBe('10.0.0.0/24');
+      expect(parent.level).toBe(1);
+      expect(child.parentId).toBe(parent.id);
+      expect(child.level).toBe(2);
+      expect(grandchild.parentId).toBe(parent.id);
+      expect(grandchild.level).toBe(2);
+    });
+
+    it('should recompute derived fields for the cloud mode', () => {
+      const result = importSubnets('Network,CIDR\n10.0.0.0,26', { ...defaultOptions, cloudMode: 'aws' });
+
+      expect(result.subnets[0].usableHosts).toBe(59);
+      expect(result.subnets[0].firstHost).toBe('10.0.0.4');
+      expect(result.subnets[0].cloudReserved).toHaveLength(5);
+    });
+
+    it('should import IPv6 subnets', () => {
+      const json = JSON.stringify([{ network: '2001:DB8:0:1::', cidr: 64 }]);
+      const result = importSubnets(json, defaultOptions);
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.subnets[0]).toMatchObject({
+        network: '2001:db8:0:1::',
+        cidr: 64,
+        ipVersion: 'ipv6'
+      });
+      expect(result.subnets[0].ipv6Info?.hostBits).toBe(64);
+    });
+
+    it('should report row-level errors and skip invalid rows', () => {
+      const csv = [
+        'Network,CIDR',
+        '10.0.0.0,25',
+        '10.0.0.300,25',
+        '10.0.0.5,25',
+        '10.0.0.128,40',
+        ',25',
+        '10.0.0.0,25'
+      ].join('\n');
+
+      const result = importSubnets(csv, defaultOptions);
+
+      expect(result.importedRows).toBe(1);
+      expect(result.errors.map(e => e.code)).toEqual([
+        'INVALID_ADDRESS',
+        'MISALIGNED_NETWORK',
+        'INVALID_CIDR',
+        'MISSING_NETWORK',
+        'DUPLICATE_SUBNET'
+      ]);
+      expect(result.errors[0]).toMatchObject({
+        type: 'import',
+        recoverable: true,
+        details: expect.objectContaining({ row: 3 })
+      });
+      expect(result.errors[0].message).toMatch(/^Row 3:/);
+    });
+
+    it('should reject rows outside the parent network', () => {
+      const result = importSubnets('Network,CIDR\n10.0.1.0,25\n2001:db8::,64', { ...defaultOptions, parentSubnet });
+
+      expect(result.subnets).toHaveLength(0);
+      expect(result.errors.map(e => e.code)).toEqual(['OUTSIDE_PARENT', 'IP_VERSION_MISMATCH']);
+    });
+
+    it('should replace duplicate IDs with generated IDs', () => {
+      const json = JSON.stringify([
+        { id: 'dup', network: '10.0.0.0', cidr: 25 },
+        { id: 'dup', network: '10.0.0.128', cidr: 25 }
+      ]);
+
+      const result = importSubnets(json, defaultOptions);
+
+      expect(result.subnets[0].id).toBe('dup');
+      expect(result.subnets[1].id).not.toBe('dup');
+      expect(result.warnings).toHaveLength(1);
+    });
+
+    it('should return a file-level error for malformed input', () => {
+      const empty = importSubnets('   ', defaultOptions);
+      expect(empty.errors[0].code).toBe('EMPTY_FILE');
+
+      const malformed = importSubnets('{"subnets": [', defaultOptions);
+      expect(malformed.errors[0].code).toBe('PARSE_ERROR');
+      expect(malformed.errors[0].recoverable).toBe(false);
+
+      const wrongShape = importSubnets('{"items": []}', defaultOptions);
+      expect(wrongShape.errors[0].code).toBe('PARSE_ERROR');
+    });
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Unit tests for subnet name and metadata handling
+ */
+
+import {
+  parseTags,
+  parseVlanId,
+  normalizeSubnetMetadata,
+  parseSubnetDetailsInput,
+  getSubnetDetailsInput,
+  applySubnetDetails,
+  mergeSubnetDetails,
+  formatSubnetMetadataSummary,
+  getSubnetTagPairs,
+  matchesSubnetSearch
+} from '../subnet-metadata';
+import { calculateJoinedSubnet } from '../subnet-splitting';
+import { SplitSubnet } from '../types';
+
+function createSubnet(network: string, cidr: number, overrides: Partial<SplitSubnet> = {}): SplitSubnet {
+  return {
+    id: `${network}/${cidr}`,
+    network,
+    broadcast: '',
+    firstHost: '',
+    lastHost: '',
+    cidr,
+    totalHosts: Math.pow(2, 32 - cidr),
+    usableHosts: Math.pow(2, 32 - cidr) - 2,
+    parentId: 'root',
+    level: 1,
+    isSelected: false,
+    ipVersion: 'ipv4',
+    ...overrides
+  };
+}
+
+describe('Subnet Metadata', () => {
+  describe('parseTags / parseVlanId', () => {
+    it('should split tags and drop empty and duplicate entries', () => {
+      expect(parseTags(' pci, dmz ,, PCI, team=netops ')).toEqual(['pci', 'dmz', 'team=netops']);
+    });
+
+    it('should accept VLAN IDs between 1 and 4094', () => {
+      expect(parseVlanId(' 110 ')).toBe(110);
+      expect(parseVlanId('')).toBeUndefined();
+      expect(() => parseVlanId('0')).toThrow('between 1 and 4094');
+      expect(() => parseVlanId('4095')).toThrow('between 1 and 4094');
+      expect(() => parseVlanId('12a')).toThrow('between 1 and 4094');
+    });
+  });
+
+  describe('normalizeSubnetMetadata / parseSubnetDetailsInput', () => {
+    it('should trim values, collapse whitespace and leave out empty fields', () => {
+      expect(normalizeSubnetMetadata({ description: '  Public\n load balancers ', owner: ' ', tags: [] })).toEqual({
+        description: 'Public load balancers'
+      });
+      expect(normalizeSubnetMetadata({ owner: '' })).toBeUndefined();
+    });
+
+    it('should round-trip form input', () => {
+      const details = parseSubnetDetailsInput({
+        label: ' web ',
+        description: 'Web tier',
+        tags: 'pci, dmz',
+        vlanId: '110',
+        owner: 'netops',
+        environment: ''
+      });
+
+      expect(details).toEqual({
+        label: 'web',
+        metadata: { description: 'Web tier', tags: ['pci', 'dmz'], vlanId: 110, owner: 'netops' }
+      });
+      expect(getSubnetDetailsInput(details).tags).toBe('pci, dmz');
+    });
+
+    it('should reject values that are too long', () => {
+      expect(() => parseSubnetDetailsInput({
+        label: 'x'.repeat(65), description: '', tags: '', vlanId: '', owner: '', environment: ''
+      })).toThrow('Name must be at most 64 characters');
+    });
+  });
+
+  describe('applySubnetDetails', () => {
+    it('should replace and remove the name and metadata', () => {
+      const subnet = createSubnet('10.0.0.0', 24, { label: 'old', metadata: { owner: 'netops' } });
+
+      expect(applySubnetDetails(subnet, { label: 'web', metadata: { vlanId: 10 } })).toMatchObject({
+        label: 'web',
+        metadata: { vlanId: 10 }
+      });
+
+      const cleared = applySubnetDetails(subnet, {});
+      expect(cleared).not.toHaveProperty('label');
+      expect(cleared).not.toHaveProperty('metadata');
+      expect(cleared.network).toBe('10.0.0.0');
+    });
+  });
+
+  describe('mergeSubnetDetails', () => {
+    it('should keep agreed values, merge tags and drop conflicts', () => {
+      const merged = mergeSubnetDetails([
+        { label: 'web', metadata: { owner: 'netops', vlanId: 10, tags: ['pci'] } },
+        { label: 'app', metadata: { owner: 'netops', vlanId: 20, tags: ['dmz', 'pci'] } },
+        {}
+      ]);
+
+      expect(merged).toEqual({ metadata: { owner: 'netops', tags: ['pci', 'dmz'] } });
+    });
+
+    it('should be applied by joins only when metadata is preserved', () => {
+      const subnets = [
+        createSubnet('10.0.0.0', 25, { label: 'web', metadata: { environment: 'prod' } }),
+        createSubnet('10.0.0.128', 25, { label: 'web', metadata: { environment: 'prod' } })
+      ];
+
+      expect(calculateJoinedSubnet(subnets, { preserveMetadata: true })).toMatchObject({
+        label: 'web',
+        metadata: { environment: 'prod' }
+      });
+      expect(calculateJoinedSubnet(subnets)).not.toHaveProperty('metadata');
+    });
+  });
+
+  describe('formatSubnetMetadataSummary / getSubnetTagPairs', () => {
+    const metadata = { description: 'Web tier', owner: 'netops', vlanId: 110, tags: ['pci', 'team=web', 'owner=other'] };
+
+    it('should summarize metadata on one line', () => {
+      expect(formatSubnetMetadataSummary(metadata)).toBe('Web tier; owner: netops; VLAN 110; tags: pci, team=web, owner=other');
+      expect(formatSubnetMetadataSummary(undefined)).toBe('');
+    });
+
+    it('should list key/value tags without repeating keys', () => {
+      expect(getSubnetTagPairs(metadata)).toEqual([
+        ['Description', 'Web tier'],
+        ['Owner', 'netops'],
+        ['VlanId', '110'],
+        ['pci', ''],
+        ['team', 'web']
+      ]);
+    });
+  });
+
+  describe('matchesSubnetSearch', () => {
+    const subnet = createSubnet('10.0.1.0', 24, {
+      label: 'web-tier',
+      metadata: { owner: 'NetOps', vlanId: 110, tags: ['pci'] }
+    });
+
+    it('should match addresses, names and every metadata field', () => {
+      expect(matchesSubnetSearch(subnet, '10.0.1.0/24')).toBe(true);
+      expect(matchesSubnetSearch(subnet, 'WEB')).toBe(true);
+      expect(matchesSubnetSearch(subnet, 'netops')).toBe(true);
+      expect(matchesSubnetSearch(subnet, 'vlan 110')).toBe(true);
+      expect(matchesSubnetSearch(subnet, 'pci')).toBe(true);
+      expect(matchesSubnetSearch(subnet, 'prod')).toBe(false);
+      expect(matchesSubnetSearch(subnet, '  ')).toBe(true);
+    });
+  });
+});
@@ -16,7 +16,9 @@ import {
   validateIPv4Join,
   calculateJoinPreview,
   findOptimalJoinGroups,
-  batchJoinSubnets
+  batchJoinSubnets,
+  calculateSubnetDetailsFromNetwork,
+  getLeafSubnets
 } from '../subnet-splitting';
 import { SplitSubnet, CloudReservation } from '../types';
 import {
@@ -305,6 +307,23 @@ describe('IPv4 Subnet Splitting', () => {
       });
     });
 
+    test.each([
+      ['oci', 3, '10.0.0.130', '10.0.0.129'],
+      ['alibaba', 4, '10.0.0.129', '10.0.0.253'],
+      ['digitalocean', 3, '10.0.0.130', '10.0.0.129'],
+      ['ibm', 5, '10.0.0.132', '10.0.0.131']
+    ] as const)('should apply %s cloud provider constraints', (cloudMode, reservedCount, firstHost, secondReserved) => {
+      const parentSubnet = createTestSubnet('10.0.0.0', '/24');
+      const result = splitIPv4Subnet(parentSubnet, { splitType: 'equal', splitCount: 2 }, cloudMode);
+
+      expect(result.subnets).toHaveLength(2);
+      const subnet = result.subnets[1];
+      expect(subnet.usableHosts).toBe(128 - reservedCount);
+      expect(subnet.firstHost).toBe(firstHost);
+      expect(subnet.cloudReserved!.map(reservation => reservation.ip)).toContain(secondReserved);
+      expect(subnet.cloudReserved!.map(reservation => reservation.ip)).toContain('10.0.0.255');
+    });
+
     test('should respect maxResults limit', () => {
       const parentSubnet = createTestSubnet('10.0.0.0', '/20');
       const splitOptions: SplitOptions = {
@@ -425,6 +444,17 @@ describe('IPv4 Subnet Splitting', () => {
       expect(validation.errors.some(error => error.includes('AWS does not support subnets smaller than /28'))).toBe(true);
     });
 
+    test('should apply the subnet size limits of each provider', () => {
+      const parentSubnet = createTestSubnet('10.0.0.0', '/24');
+      const splitOptions: SplitOptions = { splitType: 'custom', customCidr: 30 };
+
+      expect(validateIPv4Split(parentSubnet, splitOptions, 'oci').isValid).toBe(true);
+      expect(validateIPv4Split(parentSubnet, splitOptions, 'alibaba').errors).toContain('Alibaba Cloud does not support subnets smaller than /29');
+      expect(validateIPv4Split(createTestSubnet('10.0.0.0', '/8'), { splitType: 'custom', customCidr: 9 }, 'ibm').isValid).toBe(true);
+      expect(validateIPv4Split(createTestSubnet('10.0.0.0', '/8'), { splitType: 'custom', customCidr: 9 }, 'digitalocean').errors)
+        .toContain('DigitalOcean requires subnets to be at least /16');
+    });
+
     test('should warn about performance impact', () => {
       const parentSubnet = createTestSubnet('10.0.0.0', '/16');
       const splitOptions: SplitOptions = {
@@ -1646,6 +1676,23 @@ describe('IPv4 Subnet Adjacency Validation', () => {
     });
   });
 
+  describe('getLeafSubnets', () => {
+    test('should drop subnets that have children in the list', () => {
+      const createSubnet = (network: string, cidr: number, id: string, parentId?: string): SplitSubnet => ({
+        ...calculateSubnetDetailsFromNetwork(network, cidr, 'ipv4'),
+        id,
+        parentId,
+        level: parentId ? 2 : 1,
+        isSelected: false,
+        ipVersion: 'ipv4'
+      });
+      const parent = createSubnet('10.0.0.0', 24, 'parent');
+      const children = [createSubnet('10.0.0.0', 25, 'child-1', 'parent'), createSubnet('10.0.0.128', 25, 'child-2', 'parent')];
+
+      expect(getLeafSubnets([parent, ...children])).toEqual(children);
+    });
+  });
+
   describe('calculateJoinedSubnet', () => {
     test('should calculate joined subnet correctly', () => {
       const subnet1 = createTestSubnet('192.168.1.0', '/25');
@@ -1960,6 +2007,24 @@ describe('IPv4 Subnet Adjacency Validation', () => {
       expect(joinedSubnet.firstHost).toBe('10.0.0.4'); // AWS offset
     });
 
+    test('should apply Alibaba Cloud reservations to joined subnets', () => {
+      const subnets: SplitSubnet[] = ['10.0.0.0', '10.0.0.128'].map((network, index) => ({
+        ...calculateSubnetDetailsFromNetwork(network, 25, 'ipv4', 'alibaba'),
+        id: `subnet${index + 1}`,
+        parentId: 'parent1',
+        level: 2,
+        isSelected: false,
+        ipVersion: 'ipv4'
+      }));
+
+      const joinedSubnet = joinAdjacentSubnets(subnets, 'alibaba').subnets[0];
+
+      expect(joinedSubnet.cloudReserved!.map(reservation => reservation.ip)).toEqual(['10.0.0.0', '10.0.0.253', '10.0.0.254', '10.0.0.255']);
+      expect(joinedSubnet.usableHosts).toBe(252);
+      expect(joinedSubnet.firstHost).toBe('10.0.0.1');
+      expect(joinedSubnet.lastHost).toBe('10.0.0.252');
+    });
+
     test('should handle invalid inputs gracefully', () => {
       const result = joinAdjacentSubnets([], 'normal');
 
@@ -2342,7 +2407,7 @@ describe('IPv4 Subnet Adjacency Validation', () => {
       expect(result.recommendations.some(rec => rec.includes('No adjacent subnet groups found'))).toBe(true);
     });
 
-    test('should exclude IPv6 subnets', () => {
+    test('should group IPv4 and IPv6 subnets separately', () => {
       const subnet1 = createTestSubnet('192.168.1.0', '/25');
       const subnet2 = createTestSubnet('192.168.1.128', '/25');
       
@@ -2378,8 +2443,8 @@ describe('IPv4 Subnet Adjacency Validation', () => {
 
       const result = findOptimalJoinGroups([splitSubnet1, splitSubnet2]);
 
-      expect(result.groups).toHaveLength(0); // No groups since only 1 IPv4 subnet
-      expect(result.recommendations.some(rec => rec.includes('Only IPv4 subnets can be joined'))).toBe(true);
+      expect(result.groups).toHaveLength(0); // No groups since there is only 1 subnet of each IP version
+      expect(result.recommendations.some(rec => rec.includes('IPv4 and IPv6 subnets are grouped separately'))).toBe(true);
     });
   });
 
@@ -0,0 +1,115 @@
+/**
+ * Unit tests for subnet allocation status and utilization rollups
+ */
+
+import {
+  getSubnetStatus,
+  getStatusChangedAt,
+  canTransitionStatus,
+  transitionSubnetStatus,
+  compareSubnetStatus,
+  summarizeSubnetStatus,
+  calculateStatusRollups,
+  formatStatusShare
+} from '../subnet-status';
+import { SplitSubnet } from '../types';
+
+function createSubnet(network: string, cidr: number, overrides: Partial<SplitSubnet> = {}): SplitSubnet {
+  return {
+    id: `${network}/${cidr}`,
+    network,
+    broadcast: '',
+    firstHost: '',
+    lastHost: '',
+    cidr,
+    totalHosts: Math.pow(2, 32 - cidr),
+    usableHosts: Math.pow(2, 32 - cidr) - 2,
+    parentId: 'root',
+    level: 1,
+    isSelected: false,
+    ipVersion: 'ipv4',
+    ...overrides
+  };
+}
+
+describe('Subnet Status', () => {
+  describe('transitionSubnetStatus', () => {
+    it('should treat subnets without a status as free', () => {
+      expect(getSubnetStatus(createSubnet('10.0.0.0', 24))).toBe('free');
+      expect(getStatusChangedAt(createSubnet('10.0.0.0', 24))).toBeUndefined();
+    });
+
+    it('should record each transition with its timestamp', () => {
+      const reserved = transitionSubnetStatus(createSubnet('10.0.0.0', 24), 'reserved', 1000);
+      const allocated = transitionSubnetStatus(reserved, 'allocated', 2000);
+
+      expect(allocated.status).toBe('allocated');
+      expect(allocated.statusHistory).toEqual([
+        { from: 'free', to: 'reserved', timestamp: 1000 },
+        { from: 'reserved', to: 'allocated', timestamp: 2000 }
+      ]);
+      expect(getStatusChangedAt(allocated)).toBe(2000);
+      expect(transitionSubnetStatus(allocated, 'allocated', 3000)).toBe(allocated);
+    });
+
+    it('should reject transitions outside the lifecycle', () => {
+      expect(canTransitionStatus('allocated', 'free')).toBe(false);
+      expect(canTransitionStatus('deprecated', 'free')).toBe(true);
+      expect(() => transitionSubnetStatus(createSubnet('10.0.0.0', 24, { status: 'allocated' }), 'reserved'))
+        .toThrow('Cannot change subnet status from allocated to reserved');
+      expect(() => transitionSubnetStatus(createSubnet('10.0.0.0', 24), 'deprecated'))
+        .toThrow('Cannot change subnet status from free to deprecated');
+    });
+
+    it('should sort subnets in lifecycle order', () => {
+      const subnets = [
+        createSubnet('10.0.0.0', 24, { status: 'deprecated' }),
+        createSubnet('10.0.1.0', 24, { status: 'allocated' }),
+        createSubnet('10.0.2.0', 24)
+      ];
+      expect([...subnets].sort(compareSubnetStatus).map(subnet => subnet.network)).toEqual(['10.0.2.0', '10.0.1.0', '10.0.0.0']);
+    });
+  });
+
+  describe('summarizeSubnetStatus / calculateStatusRollups', () => {
+    const plan = [
+      createSubnet('10.0.0.0', 23, { id: 'a' }),
+      createSubnet('10.0.0.0', 24, { id: 'b', parentId: 'a', level: 2, status: 'allocated' }),
+      createSubnet('10.0.1.0', 25, { id: 'c', parentId: 'a', level: 2, status: 'reserved' }),
+      createSubnet('10.0.2.0', 24, { id: 'd', status: 'allocated' })
+    ];
+
+    it('should count only leaf subnets', () => {
+      const summary = summarizeSubnetStatus(plan);
+
+      expect(summary.totalAddresses).toBe(BigInt(640));
+      expect(summary.addresses.allocated).toBe(BigInt(512));
+      expect(summary.addresses.reserved).toBe(BigInt(128));
+      expect(summary.subnetCounts).toEqual({ free: 0, reserved: 1, allocated: 2, deprecated: 0 });
+      expect(formatStatusShare(summary)).toBe('80% allocated');
+    });
+
+    it('should roll leaves up to their parents and count uncovered space as free', () => {
+      const rollups = calculateStatusRollups(plan);
+      const rollup = rollups.get('a')!;
+
+      expect([...rollups.keys()]).toEqual(['a']);
+      expect(rollup.totalAddresses).toBe(BigInt(512));
+      expect(rollup.addresses).toEqual({ free: BigInt(128), reserved: BigInt(128), allocated: BigInt(256), deprecated: BigInt(0) });
+      expect(formatStatusShare(rollup)).toBe('50% allocated');
+      expect(formatStatusShare(rollup, 'free')).toBe('25% free');
+    });
+
+    it('should not round small shares to 0 or 100 percent', () => {
+      const summary = summarizeSubnetStatus([
+        createSubnet('10.0.0.0', 17, { status: 'allocated' }),
+        createSubnet('10.0.128.0', 17, { status: 'allocated' }),
+        createSubnet('10.1.0.0', 32, { status: 'reserved' })
+      ]);
+
+      expect(formatStatusShare(summary)).toBe('>99% allocated');
+      expect(formatStatusShare(summary, 'reserved')).toBe('<1% reserved');
+      expect(formatStatusShare(summarizeSubnetStatus([]))).toBe('0% allocated');
+    });
+  });
+});
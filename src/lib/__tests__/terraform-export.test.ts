@@ -0,0 +1,152 @@
+/**
+ * Unit tests for Terraform export functionality
+ */
+
+import {
+  formatSubnetsAsTerraform,
+  generateTerraformResourceName
+} from '../terraform-export';
+import { SplitSubnet } from '../types';
+
+const options = { includeHeaders: true, includeMetadata: false };
+
+function createSubnet(network: string, cidr: number, overrides: Partial<SplitSubnet> = {}): SplitSubnet {
+  return {
+    id: `${network}/${cidr}`,
+    network,
+    broadcast: '',
+    firstHost: '',
+    lastHost: '',
+    cidr,
+    totalHosts: Math.pow(2, 32 - cidr),
+    usableHosts: Math.pow(2, 32 - cidr) - 5,
+    parentId: 'root',
+    level: 1,
+    isSelected: false,
+    ipVersion: 'ipv4',
+    ...overrides
+  };
+}
+
+const ipv6Subnet = createSubnet('2001:db8:0:1::', 64, {
+  ipVersion: 'ipv6',
+  ipv6Info: {
+    addressType: 'Global Unicast',
+    hostBits: 64,
+    totalAddressesFormatted: '2^64',
+    usableAddressesFormatted: '2^64'
+  }
+});
+
+describe('Terraform Export', () => {
+  describe('generateTerraformResourceName', () => {
+    it('should build deterministic names from the network and prefix length', () => {
+      expect(generateTerraformResourceName({ network: '10.0.1.0', cidr: 24 })).toBe('subnet_10_0_1_0_24');
+      expect(generateTerraformResourceName({ network: '2001:db8::', cidr: 64 }, 'app-tier')).toBe('app_tier_2001_db8_0_0_0_0_0_0_64');
+    });
+
+    it('should keep IPv6 networks that compress alike distinct', () => {
+      expect(generateTerraformResourceName({ network: '2001:db8::1:64', cidr: 128 })).toBe('subnet_2001_db8_0_0_0_0_1_64_128');
+      expect(generateTerraformResourceName({ network: '2001:db8:1::64', cidr: 128 })).toBe('subnet_2001_db8_1_0_0_0_0_64_128');
+    });
+
+    it('should start names with a letter or underscore', () => {
+      expect(generateTerraformResourceName({ network: '10.0.1.0', cidr: 24 }, '1st-tier')).toBe('_1st_tier_10_0_1_0_24');
+    });
+  });
+
+  describe('formatSubnetsAsTerraform', () => {
+    it('should generate aws_subnet resources with VPC variables', () => {
+      const hcl = formatSubnetsAsTerraform([createSubnet('10.0.1.0', 24), ipv6Subnet], 'aws', options);
+
+      expect(hcl).toContain('variable "vpc_id" {');
+      expect(hcl).toContain('  default     = "subnet"');
+      expect(hcl).toContain('resource "aws_subnet" "subnet_10_0_1_0_24" {');
+      expect(hcl).toContain('  vpc_id     = var.vpc_id\n  cidr_block = "10.0.1.0/24"');
+      expect(hcl).toContain('    Name = "${var.name_prefix}-10-0-1-0-24"');
+      expect(hcl).toContain('  ipv6_cidr_block = "2001:db8:0:1::/64"');
+      expect(hcl).toContain('  ipv6_native     = true');
+    });
+
+    it('should generate azurerm_subnet resources', () => {
+      const hcl = formatSubnetsAsTerraform([createSubnet('10.0.1.0', 24)], 'azure', options);
+
+      expect(hcl).toContain('variable "resource_group_name" {');
+      expect(hcl).toContain('variable "virtual_network_name" {');
+      expect(hcl).toContain('resource "azurerm_subnet" "subnet_10_0_1_0_24" {');
+      expect(hcl).toContain('  address_prefixes     = ["10.0.1.0/24"]');
+    });
+
+    it('should declare paired IPv6 subnets of dual-stack plans', () => {
+      const subnet = { ...createSubnet('10.0.1.0', 24), pairedIPv6: '2600:1f18::/64' };
+
+      expect(formatSubnetsAsTerraform([subnet], 'aws', options)).toContain(
+        '  cidr_block                      = "10.0.1.0/24"\n  ipv6_cidr_block                 = "2600:1f18::/64"\n  assign_ipv6_address_on_creation = true'
+      );
+      expect(formatSubnetsAsTerraform([subnet], 'azure', options)).toContain('address_prefixes     = ["10.0.1.0/24", "2600:1f18::/64"]');
+    });
+
+    it('should generate google_compute_subnetwork resources and skip IPv6 ranges', () => {
+      const hcl = formatSubnetsAsTerraform([createSubnet('10.0.1.0', 24), ipv6Subnet], 'gcp', options);
+
+      expect(hcl).toContain('resource "google_compute_subnetwork" "subnet_10_0_1_0_24" {');
+      expect(hcl).toContain('  ip_cidr_range = "10.0.1.0/24"');
+      expect(hcl).toContain('  region        = var.region');
+      expect(hcl).toContain('# 2001:db8:0:1::/64 skipped');
+      expect(hcl).not.toContain('"subnet_2001_db8_0_1_0_0_0_0_64"');
+    });
+
+    it('should only emit leaf subnets and note omitted parents', () => {
+      const parent = createSubnet('10.0.0.0', 24);
+      const child = createSubnet('10.0.0.0', 25, { parentId: parent.id, level: 2 });
+      const hcl = formatSubnetsAsTerraform([parent, child], 'aws', options);
+
+      expect(hcl).toContain('# 1 parent subnet(s) omitted');
+      expect(hcl).toContain('"subnet_10_0_0_0_25"');
+      expect(hcl).not.toContain('"subnet_10_0_0_0_24"');
+    });
+
+    it('should include per-subnet metadata comments when requested', () => {
+      const hcl = formatSubnetsAsTerraform([createSubnet('10.0.1.0', 24)], 'aws', { includeHeaders: false, includeMetadata: true });
+
+      expect(hcl.startsWith('variable "vpc_id" {')).toBe(true);
+      expect(hcl).toContain('# 10.0.1.0/24: 251 usable of 256 addresses (AWS reserves 5)');
+      expect(hcl.endsWith('}\n')).toBe(true);
+    });
+
+    it('should use the name prefix and network reference as variable defaults', () => {
+      const hcl = formatSubnetsAsTerraform([createSubnet('10.0.1.0', 24)], 'aws', {
+        ...options,
+        namePrefix: 'prod app',
+        networkReference: 'vpc-0abc'
+      });
+
+      expect(hcl).toContain('  default     = "vpc-0abc"');
+      expect(hcl).toContain('  default     = "prod-app"');
+      expect(hcl).toContain('resource "aws_subnet" "prod_app_10_0_1_0_24" {');
+    });
+
+    it('should carry subnet names and metadata into names, tags and descriptions', () => {
+      const subnets = [
+        createSubnet('10.0.1.0', 24, { label: 'Web Tier', metadata: { owner: 'netops', tags: ['team=web', '${evil}'] } }),
+        createSubnet('10.0.2.0', 24, { label: 'db' }),
+        createSubnet('10.0.3.0', 24, { label: 'db' })
+      ];
+
+      const aws = formatSubnetsAsTerraform(subnets, 'aws', options);
+      expect(aws).toContain('    Name = "${var.name_prefix}-web-tier"');
+      expect(aws).toContain('    Owner = "netops"');
+      expect(aws).toContain('    team = "web"');
+      expect(aws).toContain('    "$${evil}" = ""');
+      expect(aws).toContain('    Name = "${var.name_prefix}-10-0-2-0-24"'); // Duplicate names fall back to the address
+
+      expect(formatSubnetsAsTerraform(subnets, 'azure', options)).toContain('  # owner: netops; tags: team=web, ${evil}');
+      expect(formatSubnetsAsTerraform(subnets, 'gcp', options)).toContain('  description   = "owner: netops; tags: team=web, $${evil}"');
+    });
+
+    it('should throw for normal mode', () => {
+      expect(() => formatSubnetsAsTerraform([createSubnet('10.0.1.0', 24)], 'normal', options))
+        .toThrow(/cloud provider mode/);
+    });
+  });
+});
@@ -6,6 +6,7 @@
 import {
   validateInternalURL,
   sanitizePath,
+  sanitizeStateToken,
   navigateSecurely,
   reloadSecurely,
   getSecurityLogger,
@@ -299,6 +300,39 @@ describe('URL Security Utilities', () => {
     });
   });
 
+  describe('sanitizeStateToken', () => {
+    it('should accept base64url tokens', () => {
+      expect(sanitizeStateToken('eyJ2IjoxfQ')).toBe('eyJ2IjoxfQ');
+      expect(sanitizeStateToken('abc-DEF_123')).toBe('abc-DEF_123');
+    });
+
+    it('should reject tokens with characters outside the base64url alphabet', () => {
+      expect(sanitizeStateToken('abc<script>')).toBeNull();
+      expect(sanitizeStateToken('javascript:alert(1)')).toBeNull();
+      expect(sanitizeStateToken('abc def')).toBeNull();
+      expect(sanitizeStateToken('abc+/=')).toBeNull();
+    });
+
+    it('should reject oversized, empty and non-string tokens', () => {
+      expect(sanitizeStateToken('a'.repeat(SUBNET_CALCULATOR_SECURITY_CONFIG.maxStateTokenLength + 1))).toBeNull();
+      expect(sanitizeStateToken('')).toBeNull();
+      expect(sanitizeStateToken(null)).toBeNull();
+      expect(sanitizeStateToken(42)).toBeNull();
+    });
+
+    it('should log rejected tokens as validation failures', () => {
+      const logger = getSecurityLogger();
+      logger.clearEvents();
+
+      sanitizeStateToken('<img src=x>');
+
+      const events = logger.getEvents();
+      expect(events).toHaveLength(1);
+      expect(events[0].type).toBe('validation_failure');
+      expect(events[0].reason).toBe('State token contains invalid characters');
+    });
+  });
+
   describe('navigateSecurely', () => {
     it('should handle server-side rendering (no window)', () => {
       // Remove window object
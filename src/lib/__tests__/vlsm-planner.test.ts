@@ -0,0 +1,112 @@
+/**
+ * Unit tests for VLSM planning from host-count requirements
+ */
+
+import {
+  planVlsm,
+  parseVlsmRequirements,
+  getRequiredPrefix,
+  getUsableHostCount
+} from '../vlsm-planner';
+import { createParent, describeSubnets } from './helpers/subnets';
+
+describe('VLSM Planner', () => {
+  describe('sizing', () => {
+    it('should size subnets from usable hosts in normal and cloud modes', () => {
+      expect(getRequiredPrefix(500)).toBe(23);
+      expect(getRequiredPrefix(254)).toBe(24);
+      expect(getRequiredPrefix(255)).toBe(23);
+      expect(getRequiredPrefix(2)).toBe(31);
+      expect(getRequiredPrefix(1)).toBe(32);
+
+      // AWS reserves 5 addresses per subnet and allows /16 to /28
+      expect(getRequiredPrefix(251, 'aws')).toBe(24);
+      expect(getRequiredPrefix(252, 'aws')).toBe(23);
+      expect(getRequiredPrefix(3, 'aws')).toBe(28);
+      expect(() => getRequiredPrefix(70000, 'aws')).toThrow('largest AWS subnet');
+      expect(getUsableHostCount(28, 'aws')).toBe(11);
+    });
+  });
+
+  describe('planVlsm', () => {
+    it('should allocate largest first with aligned subnets and report free space', () => {
+      const plan = planVlsm(createParent('10.0.0.0', 22), [
+        { name: 'mgmt', hosts: 12 },
+        { name: 'web', hosts: 500 },
+        { name: 'db', hosts: 60 }
+      ]);
+
+      expect(describeSubnets(plan.subnets)).toEqual([
+        'web 10.0.0.0/23',
+        'db 10.0.2.0/26',
+        'mgmt 10.0.2.64/28'
+      ]);
+      expect(describeSubnets(plan.freeSubnets)).toEqual([
+        'free 10.0.2.80/28',
+        'free 10.0.2.96/27',
+        'free 10.0.2.128/25',
+        'free 10.0.3.0/24'
+      ]);
+      expect(plan.subnets.every(subnet => subnet.parentId === '10.0.0.0/22' && subnet.level === 1)).toBe(true);
+      expect(plan.allocatedAddresses).toBe(512 + 64 + 16);
+      expect(plan.unallocated).toEqual([]);
+    });
+
+    it('should apply cloud reservations and minimum subnet sizes', () => {
+      const plan = planVlsm(createParent('10.0.0.0', 24), [
+        { name: 'app', hosts: 60 },
+        { name: 'tiny', hosts: 2 }
+      ], 'aws');
+
+      // 60 hosts plus 5 AWS reservations needs a /25; 2 hosts is raised to the /28 minimum
+      expect(describeSubnets(plan.subnets)).toEqual(['app 10.0.0.0/25', 'tiny 10.0.0.128/28']);
+      expect(plan.subnets[0].usableHosts).toBe(123);
+      expect(plan.subnets[0].cloudReserved).toHaveLength(5);
+    });
+
+    it('should report requirements that do not fit without failing the plan', () => {
+      const plan = planVlsm(createParent('192.168.1.0', 24), [
+        { name: 'a', hosts: 120 },
+        { name: 'b', hosts: 120 },
+        { name: 'c', hosts: 100 },
+        { name: 'huge', hosts: 1000 }
+      ]);
+
+      expect(describeSubnets(plan.subnets)).toEqual(['a 192.168.1.0/25', 'b 192.168.1.128/25']);
+      expect(plan.unallocated.map(failure => failure.requirement.name)).toEqual(['c', 'huge']);
+      expect(plan.unallocated[0].reason).toBe('Not enough free space for a /25');
+      expect(plan.unallocated[1].reason).toContain('larger than the /24 parent network');
+      expect(plan.freeSubnets).toEqual([]);
+    });
+
+    it('should reject IPv6 parents and empty requirement lists', () => {
+      expect(() => planVlsm(createParent('2001:db8::', 48), [{ name: 'a', hosts: 10 }])).toThrow('IPv4 parent');
+      expect(() => planVlsm(createParent('10.0.0.0', 16), [])).toThrow('At least one requirement');
+    });
+  });
+
+  describe('parseVlsmRequirements', () => {
+    it('should read named host counts in several formats', () => {
+      const result = parseVlsmRequirements('web: 500, db 60\napp server = 30 hosts; mgmt:12');
+
+      expect(result.errors).toEqual([]);
+      expect(result.requirements).toEqual([
+        { name: 'web', hosts: 500 },
+        { name: 'db', hosts: 60 },
+        { name: 'app server', hosts: 30 },
+        { name: 'mgmt', hosts: 12 }
+      ]);
+    });
+
+    it('should report unreadable, duplicate and zero-host entries', () => {
+      const result = parseVlsmRequirements('web: 500\nWEB: 10\nnohosts\nempty: 0');
+
+      expect(result.requirements).toEqual([{ name: 'web', hosts: 500 }]);
+      expect(result.errors).toEqual([
+        'Duplicate requirement name: WEB',
+        'Could not read "nohosts"; use the form name: hosts',
+        'empty must require at least 1 host'
+      ]);
+    });
+  });
+});
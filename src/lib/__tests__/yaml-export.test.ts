@@ -0,0 +1,163 @@
+/**
+ * Unit tests for YAML export functionality
+ */
+
+import { toYAML, formatSubnetsAsYAML } from '../yaml-export';
+import { SplitSubnet, ExportOptions } from '../types';
+
+const baseOptions: ExportOptions = {
+  format: 'yaml',
+  includeHeaders: true,
+  includeMetadata: true,
+  selectedOnly: false
+};
+
+function createIPv4Subnet(overrides: Partial<SplitSubnet> = {}): SplitSubnet {
+  return {
+    id: 'subnet-1',
+    network: '10.0.0.0',
+    broadcast: '10.0.0.255',
+    firstHost: '10.0.0.4',
+    lastHost: '10.0.0.254',
+    cidr: 24,
+    totalHosts: 256,
+    usableHosts: 251,
+    parentId: 'parent-1',
+    level: 1,
+    isSelected: false,
+    ipVersion: 'ipv4',
+    cloudReserved: [
+      { ip: '10.0.0.0', purpose: 'Network Address', description: 'Network identifier (not assignable)' },
+      { ip: '10.0.0.1', purpose: 'VPC Router', description: 'Reserved for the VPC router' }
+    ],
+    ...overrides
+  };
+}
+
+function createIPv6Subnet(): SplitSubnet {
+  return {
+    id: 'subnet-v6',
+    network: '2001:db8::',
+    broadcast: '2001:db8::ffff:ffff:ffff:ffff',
+    firstHost: '2001:db8::',
+    lastHost: '2001:db8::ffff:ffff:ffff:ffff',
+    cidr: 64,
+    totalHosts: Number.MAX_SAFE_INTEGER,
+    usableHosts: Number.MAX_SAFE_INTEGER,
+    level: 1,
+    isSelected: true,
+    ipVersion: 'ipv6',
+    ipv6Info: {
+      addressType: 'Global Unicast',
+      hostBits: 64,
+      totalAddressesFormatted: '2^64',
+      usableAddressesFormatted: '2^64'
+    }
+  };
+}
+
+describe('YAML Export', () => {
+  describe('toYAML', () => {
+    it('should serialize nested mappings and sequences', () => {
+      const yaml = toYAML({
+        name: 'plan',
+        items: [{ a: 1, b: [true, null] }, 'x'],
+        empty: [],
+        nothing: {}
+      });
+
+      expect(yaml).toBe([
+        'name: plan',
+        'items:',
+        '  - a: 1',
+        '    b:',
+        '      - true',
+        '      - null',
+        '  - x',
+        'empty: []',
+        'nothing: {}'
+      ].join('\n'));
+    });
+
+    it('should quote strings that would be misinterpreted', () => {
+      const yaml = toYAML({
+        ip: '10.0.0.0',
+        ipv6: '2001:db8::',
+        word: 'yes',
+        comment: 'a # b',
+        number: '42'
+      });
+
+      expect(yaml).toContain('ip: "10.0.0.0"');
+      expect(yaml).toContain('ipv6: "2001:db8::"');
+      expect(yaml).toContain('word: "yes"');
+      expect(yaml).toContain('comment: "a # b"');
+      expect(yaml).toContain('number: "42"');
+    });
+
+    it('should omit undefined values', () => {
+      expect(toYAML({ a: 1, b: undefined })).toBe('a: 1');
+      expect(toYAML([1, undefined, 2])).toBe('- 1\n- 2');
+    });
+
+    it('should serialize top-level scalars', () => {
+      expect(toYAML('plain')).toBe('plain');
+      expect(toYAML(3)).toBe('3');
+      expect(toYAML(undefined)).toBe('');
+    });
+  });
+
+  describe('formatSubnetsAsYAML', () => {
+    it('should include headers, metadata and subnet details', () => {
+      const yaml = formatSubnetsAsYAML([createIPv4Subnet()], baseOptions);
+
+      expect(yaml.startsWith('# Subnet Export Report\n')).toBe(true);
+      expect(yaml).toContain('---\nmetadata:');
+      expect(yaml).toContain('  totalSubnets: 1');
+      expect(yaml).toContain('  exportFormat: yaml');
+      expect(yaml).toContain('  - id: subnet-1');
+      expect(yaml).toContain('    network: "10.0.0.0"');
+      expect(yaml).toContain('    cidr: 24');
+      expect(yaml.endsWith('\n')).toBe(true);
+    });
+
+    it('should include hierarchy and cloud reservations with metadata', () => {
+      const yaml = formatSubnetsAsYAML([createIPv4Subnet()], baseOptions);
+
+      expect(yaml).toContain('    level: 1');
+      expect(yaml).toContain('    parentId: parent-1');
+      expect(yaml).toContain('    cloudReserved:');
+      expect(yaml).toContain('      - ip: "10.0.0.1"');
+      expect(yaml).toContain('        purpose: VPC Router');
+      expect(yaml).toContain('        description: Reserved for the VPC router');
+    });
+
+    it('should include IPv6 information', () => {
+      const yaml = formatSubnetsAsYAML([createIPv6Subnet()], baseOptions);
+
+      expect(yaml).toContain('    network: "2001:db8::"');
+      expect(yaml).toContain('    ipVersion: ipv6');
+      expect(yaml).toContain('    ipv6Info:');
+      expect(yaml).toContain('      addressType: Global Unicast');
+      expect(yaml).toContain('      totalAddressesFormatted: "2^64"');
+    });
+
+    it('should omit headers and metadata when disabled', () => {
+      const yaml = formatSubnetsAsYAML([createIPv4Subnet()], {
+        ...baseOptions,
+        includeHeaders: false,
+        includeMetadata: false
+      });
+
+      expect(yaml.startsWith('subnets:\n')).toBe(true);
+      expect(yaml).not.toContain('metadata:');
+      expect(yaml).not.toContain('parentId');
+      expect(yaml).not.toContain('cloudReserved');
+    });
+
+    it('should produce an empty subnet list for no subnets', () => {
+      const yaml = formatSubnetsAsYAML([], { ...baseOptions, includeHeaders: false, includeMetadata: false });
+      expect(yaml).toBe('subnets: []\n');
+    });
+  });
+});
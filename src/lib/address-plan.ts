@@ -0,0 +1,604 @@
+/**
+ * Address Plan Functions
+ *
+ * This module manages organization-wide IPv4 address plans: one supernet such as 10.0.0.0/8
+ * carved into regions, each region into environments, each environment into VPCs and each
+ * VPC into subnets. Nodes are kept in a flat list linked by parent ID, with every parent
+ * listed before its children. A new node takes the lowest free aligned block of its size in
+ * its parent, or is placed at a given network that must lie inside the parent and clear of
+ * every other block, so regions never share address space. Rollups report how much of each
+ * node is carved into children and the largest block still free. Plans are kept in browser
+ * localStorage, one per supernet.
+ */
+
+import {
+  AddressPlan,
+  AddressPlanLevel,
+  AddressPlanNode,
+  AddressPlanStore,
+  CloudMode,
+  SplitSubnet
+} from './types';
+import { calculateSubnetDetailsFromNetwork, ipv4ToInt, intToIPv4 } from './subnet-splitting';
+import { bigIntRangeToCIDRs, detectIPVersion } from './cidr-ranges';
+import { generateSubnetId } from './utils';
+import { getBrowserStorage, isRecord, loadStoredList, saveStoredDocument } from './browser-storage';
+
+export const ADDRESS_PLAN_STORAGE_KEY = 'subnet_calculator_address_plans';
+export const ADDRESS_PLAN_SCHEMA_VERSION = 1;
+export const MAX_PLAN_NODE_NAME_LENGTH = 48;
+export const MAX_ADDRESS_PLAN_NODES = 4096;
+
+const NODE_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+// Levels from the supernet down; each level is carved from the one above it
+export const ADDRESS_PLAN_LEVELS: AddressPlanLevel[] = ['organization', 'region', 'environment', 'vpc', 'subnet'];
+
+export const ADDRESS_PLAN_LEVEL_NAMES: Record<AddressPlanLevel, string> = {
+  organization: 'Organization',
+  region: 'Region',
+  environment: 'Environment',
+  vpc: 'VPC',
+  subnet: 'Subnet'
+};
+
+export interface AddressPlanBlock {
+  cidr: number;
+  network?: string; // The lowest free aligned block of the size is used when omitted
+}
+
+export interface AddressPlanRollup {
+  totalAddresses: number;
+  carvedAddresses: number; // Covered by child nodes
+  childCount: number;
+  subnetCount: number; // Subnet-level nodes at any depth below
+  largestFreePrefix: number | null; // Largest aligned block outside every child; null when fully carved
+}
+
+export interface AddressPlanLoadResult {
+  plans: AddressPlan[];
+  writable: boolean; // False when the stored document must not be overwritten
+  warnings: string[];
+}
+
+interface AddressRange {
+  start: number;
+  end: number; // Inclusive
+}
+
+function getBlockSize(cidr: number): number {
+  return Math.pow(2, 32 - cidr);
+}
+
+function getRange(node: Pick<AddressPlanNode, 'network' | 'cidr'>): AddressRange {
+  const start = ipv4ToInt(node.network);
+  return { start, end: start + getBlockSize(node.cidr) - 1 };
+}
+
+function describeLevel(level: AddressPlanLevel, count = 1): string {
+  const name = level === 'vpc' ? 'VPC' : ADDRESS_PLAN_LEVEL_NAMES[level].toLowerCase();
+  return count === 1 ? name : `${name}s`;
+}
+
+function withArticle(text: string): string {
+  return `${/^[aeiou]/i.test(text) ? 'An' : 'A'} ${text}`;
+}
+
+function formatBlock(node: Pick<AddressPlanNode, 'network' | 'cidr'>): string {
+  return `${node.network}/${node.cidr}`;
+}
+
+function indexNodes(nodes: AddressPlanNode[]): Map<string, AddressPlanNode> {
+  return new Map(nodes.map(node => [node.id, node]));
+}
+
+function getAncestors(byId: Map<string, AddressPlanNode>, node: AddressPlanNode): AddressPlanNode[] {
+  const ancestors: AddressPlanNode[] = [];
+  for (let parent = node.parentId ? byId.get(node.parentId) : undefined; parent; parent = parent.parentId ? byId.get(parent.parentId) : undefined) {
+    ancestors.unshift(parent);
+  }
+  return ancestors;
+}
+
+function getNodePath(byId: Map<string, AddressPlanNode>, node: AddressPlanNode): string {
+  if (!node.parentId) {
+    return node.name;
+  }
+  return [...getAncestors(byId, node).filter(ancestor => ancestor.parentId), node].map(entry => entry.name).join('/');
+}
+
+function describeNode(byId: Map<string, AddressPlanNode>, node: AddressPlanNode): string {
+  return `${describeLevel(node.level)} ${getNodePath(byId, node)} (${formatBlock(node)})`;
+}
+
+function normalizeNodeName(value: unknown): string {
+  const name = typeof value === 'string' ? value.trim().replace(/\s+/g, ' ') : '';
+  if (!name) {
+    throw new Error('Block name is required');
+  }
+  if (name.length > MAX_PLAN_NODE_NAME_LENGTH) {
+    throw new Error(`Block name "${name.slice(0, 16)}…" must be ${MAX_PLAN_NODE_NAME_LENGTH} characters or fewer`);
+  }
+  if (/[,/=]/.test(name)) {
+    throw new Error(`Block name "${name}" must not contain commas, slashes or equals signs`);
+  }
+  return name;
+}
+
+/**
+ * Returns the level carved from a node, or null for subnets, which are not divided further
+ */
+export function getChildLevel(level: AddressPlanLevel): AddressPlanLevel | null {
+  return ADDRESS_PLAN_LEVELS[ADDRESS_PLAN_LEVELS.indexOf(level) + 1] ?? null;
+}
+
+export function getAddressPlanRoot(plan: AddressPlan): AddressPlanNode {
+  const root = plan.nodes.find(node => !node.parentId);
+  if (!root) {
+    throw new Error('The address plan has no supernet');
+  }
+  return root;
+}
+
+/**
+ * Returns the names from the region down to a node, such as "us-east/prod/payments"
+ * The supernet is named by itself.
+ */
+export function getAddressPlanPath(plan: AddressPlan, nodeId: string): string {
+  const node = plan.nodes.find(candidate => candidate.id === nodeId);
+  return node ? getNodePath(indexNodes(plan.nodes), node) : '';
+}
+
+/**
+ * Starts a plan holding only the supernet; host bits of the network are cleared
+ */
+export function createAddressPlan(network: string, cidr: number, name = 'Organization'): AddressPlan {
+  if (detectIPVersion(network) !== 'ipv4') {
+    throw new Error('Address plans need an IPv4 supernet');
+  }
+  if (!Number.isInteger(cidr) || cidr < 0 || cidr > 32) {
+    throw new Error('Supernet prefix length must be between /0 and /32');
+  }
+
+  const start = ipv4ToInt(network.trim());
+  return {
+    nodes: [{
+      id: generateSubnetId(),
+      name: normalizeNodeName(name),
+      level: 'organization',
+      network: intToIPv4(start - (start % getBlockSize(cidr))),
+      cidr
+    }]
+  };
+}
+
+/**
+ * Reads the block of a new node: a size such as "/16", or a network such as "10.1.0.0/16"
+ */
+export function parseAddressPlanBlock(input: string): AddressPlanBlock {
+  const trimmed = input.trim();
+  const message = 'Enter a size such as /16 or an IPv4 block such as 10.1.0.0/16';
+  if (!trimmed) {
+    throw new Error(message);
+  }
+
+  const size = trimmed.match(/^\/?(\d{1,2})$/);
+  if (size) {
+    return { cidr: Number(size[1]) };
+  }
+
+  const [address, prefixText, ...rest] = trimmed.split('/');
+  if (detectIPVersion(address) !== 'ipv4' || rest.length > 0 || !/^\d{1,2}$/.test(prefixText ?? '')) {
+    throw new Error(`${message}, not "${trimmed}"`);
+  }
+  return { network: address.trim(), cidr: Number(prefixText) };
+}
+
+/**
+ * Finds the largest node overlapping a range, leaving out the given nodes
+ */
+function findOverlappingNode(nodes: AddressPlanNode[], range: AddressRange, excluded: Set<string>): AddressPlanNode | undefined {
+  return nodes
+    .filter(node => {
+      if (excluded.has(node.id)) {
+        return false;
+      }
+      const other = getRange(node);
+      return other.start <= range.end && range.start <= other.end;
+    })
+    .sort((a, b) => a.cidr - b.cidr)[0];
+}
+
+/**
+ * Returns the largest aligned block prefix in a node that no child covers, or null when it is fully carved
+ */
+function findLargestFreePrefix(range: AddressRange, children: AddressRange[]): number | null {
+  let largest: number | null = null;
+  let cursor = range.start;
+
+  const noteGap = (start: number, end: number) => {
+    if (start > end) {
+      return;
+    }
+    bigIntRangeToCIDRs(BigInt(start), BigInt(end), 'ipv4').forEach(block => {
+      largest = largest === null ? block.prefix : Math.min(largest, block.prefix);
+    });
+  };
+
+  [...children].sort((a, b) => a.start - b.start).forEach(child => {
+    noteGap(cursor, child.start - 1);
+    cursor = Math.max(cursor, child.end + 1);
+  });
+  noteGap(cursor, range.end);
+  return largest;
+}
+
+/**
+ * Finds the lowest aligned block of the given size that no child of the parent covers
+ */
+function findFreeStart(nodes: AddressPlanNode[], parent: AddressPlanNode, cidr: number): number {
+  const parentRange = getRange(parent);
+  const size = getBlockSize(cidr);
+  const children = nodes.filter(node => node.parentId === parent.id).map(getRange);
+
+  let candidate = parentRange.start;
+  for (const child of [...children].sort((a, b) => a.start - b.start)) {
+    if (candidate + size - 1 < child.start) {
+      break;
+    }
+    if (child.end >= candidate) {
+      candidate = Math.ceil((child.end + 1) / size) * size;
+    }
+  }
+
+  if (candidate + size - 1 > parentRange.end) {
+    const largest = findLargestFreePrefix(parentRange, children);
+    throw new Error(`No free /${cidr} is left in ${describeNode(indexNodes(nodes), parent)}; ${largest === null ? 'it is fully carved' : `the largest free block is a /${largest}`}`);
+  }
+  return candidate;
+}
+
+/**
+ * Checks that a block placed at a given network lies inside its parent and clear of every other block
+ */
+function checkPlacement(nodes: AddressPlanNode[], parent: AddressPlanNode, network: string, cidr: number): number {
+  const start = ipv4ToInt(network);
+  const size = getBlockSize(cidr);
+  if (start % size !== 0) {
+    throw new Error(`${network}/${cidr} is not aligned on a /${cidr} boundary; use ${intToIPv4(start - (start % size))}/${cidr}`);
+  }
+
+  const range = { start, end: start + size - 1 };
+  const parentRange = getRange(parent);
+  const byId = indexNodes(nodes);
+  const ancestors = new Set([parent, ...getAncestors(byId, parent)].map(node => node.id));
+  const conflict = findOverlappingNode(nodes, range, ancestors);
+
+  if (range.start < parentRange.start || range.end > parentRange.end) {
+    throw new Error(`${network}/${cidr} is outside ${describeNode(byId, parent)}${conflict ? `; it would overlap ${describeNode(byId, conflict)}` : ''}`);
+  }
+  if (conflict) {
+    throw new Error(`${network}/${cidr} overlaps ${describeNode(byId, conflict)}`);
+  }
+  return start;
+}
+
+/**
+ * Carves named nodes of one size from a parent, one level below it
+ * Without a network each node takes the lowest free aligned block, so several names can be
+ * added at once; a network places a single node there.
+ */
+export function addAddressPlanNodes(plan: AddressPlan, parentId: string, names: string[], block: AddressPlanBlock): AddressPlan {
+  const parent = plan.nodes.find(node => node.id === parentId);
+  if (!parent) {
+    throw new Error('The parent block is not in the plan');
+  }
+
+  const level = getChildLevel(parent.level);
+  if (!level) {
+    throw new Error(`${getAddressPlanPath(plan, parent.id)} is a subnet and cannot be divided further`);
+  }
+  if (parent.cidr >= 32) {
+    throw new Error(`${describeNode(indexNodes(plan.nodes), parent)} is too small to divide`);
+  }
+  if (names.length === 0) {
+    throw new Error(`Enter a name for each new ${describeLevel(level)}`);
+  }
+  if (plan.nodes.length + names.length > MAX_ADDRESS_PLAN_NODES) {
+    throw new Error(`An address plan can hold at most ${MAX_ADDRESS_PLAN_NODES} blocks`);
+  }
+  if (!Number.isInteger(block.cidr) || block.cidr <= parent.cidr || block.cidr > 32) {
+    throw new Error(`${withArticle(describeLevel(level))} in ${describeNode(indexNodes(plan.nodes), parent)} must be between /${parent.cidr + 1} and /32`);
+  }
+  if (block.network !== undefined && names.length > 1) {
+    throw new Error('Give a single name when placing a block at a specific network');
+  }
+  if (block.network !== undefined && detectIPVersion(block.network) !== 'ipv4') {
+    throw new Error(`Invalid IPv4 network: ${block.network}`);
+  }
+
+  const usedNames = new Set(plan.nodes.filter(node => node.parentId === parent.id).map(node => node.name.toLowerCase()));
+  const nodes = [...plan.nodes];
+
+  names.map(normalizeNodeName).forEach(name => {
+    if (usedNames.has(name.toLowerCase())) {
+      throw new Error(`${withArticle(describeLevel(level))} named "${name}" already exists in ${getAddressPlanPath(plan, parent.id)}`);
+    }
+    usedNames.add(name.toLowerCase());
+
+    const start = block.network !== undefined
+      ? checkPlacement(nodes, parent, block.network.trim(), block.cidr)
+      : findFreeStart(nodes, parent, block.cidr);
+    nodes.push({ id: generateSubnetId(), name, level, network: intToIPv4(start), cidr: block.cidr, parentId: parent.id });
+  });
+
+  return { nodes };
+}
+
+/**
+ * Removes nodes with everything carved from them; the supernet is never removed
+ */
+export function removeAddressPlanNodes(plan: AddressPlan, nodeIds: string[]): AddressPlan {
+  const removed = new Set(plan.nodes.filter(node => node.parentId && nodeIds.includes(node.id)).map(node => node.id));
+
+  // Parents are listed before their children, so one pass reaches every descendant
+  plan.nodes.forEach(node => {
+    if (node.parentId && removed.has(node.parentId)) {
+      removed.add(node.id);
+    }
+  });
+  return { nodes: plan.nodes.filter(node => !removed.has(node.id)) };
+}
+
+/**
+ * Lists blocks that stick out of their parent or overlap a block outside their own branch
+ * Overlaps between branches of different regions are reported as region overlaps.
+ */
+export function findAddressPlanConflicts(plan: AddressPlan): string[] {
+  const { nodes } = plan;
+  const byId = indexNodes(nodes);
+  const conflicts: string[] = [];
+
+  nodes.forEach(node => {
+    const parent = node.parentId ? byId.get(node.parentId) : undefined;
+    if (parent) {
+      const range = getRange(node);
+      const parentRange = getRange(parent);
+      if (range.start < parentRange.start || range.end > parentRange.end) {
+        conflicts.push(`${describeNode(byId, node)} is outside ${describeNode(byId, parent)}`);
+      }
+    }
+  });
+
+  // Each node's ancestor IDs and region are worked out once, not on every overlap check
+  const ancestorIds = new Map(nodes.map(node => [node.id, new Set(getAncestors(byId, node).map(ancestor => ancestor.id))]));
+  const getRegion = (node: AddressPlanNode) =>
+    node.level === 'region' ? node : getAncestors(byId, node).find(ancestor => ancestor.level === 'region');
+  const isAncestor = (ancestor: AddressPlanNode, node: AddressPlanNode) =>
+    ancestorIds.get(node.id)?.has(ancestor.id) ?? false;
+
+  // Sweep in address order, comparing each block with the earlier blocks that are still open
+  const entries = nodes
+    .map(node => ({ node, range: getRange(node) }))
+    .sort((a, b) => a.range.start - b.range.start || a.node.cidr - b.node.cidr);
+  let open: typeof entries = [];
+
+  entries.forEach(entry => {
+    open = open.filter(other => other.range.end >= entry.range.start);
+    open.forEach(other => {
+      if (isAncestor(other.node, entry.node) || isAncestor(entry.node, other.node)) {
+        return;
+      }
+      const regions = [getRegion(other.node), getRegion(entry.node)];
+      conflicts.push(regions[0] && regions[1] && regions[0].id !== regions[1].id
+        ? `Regions ${regions[0].name} and ${regions[1].name} overlap: ${describeNode(byId, other.node)} and ${describeNode(byId, entry.node)}`
+        : `${describeNode(byId, other.node)} overlaps ${describeNode(byId, entry.node)}`);
+    });
+    open.push(entry);
+  });
+
+  return conflicts;
+}
+
+/**
+ * Rolls each node's children up into carved space, child and subnet counts and the largest free block, keyed by node ID
+ */
+export function calculateAddressPlanRollups(plan: AddressPlan): Map<string, AddressPlanRollup> {
+  const rollups = new Map<string, AddressPlanRollup>();
+  const childrenById = new Map<string, AddressPlanNode[]>();
+  plan.nodes.forEach(node => {
+    if (node.parentId) {
+      const children = childrenById.get(node.parentId);
+      if (children) {
+        children.push(node);
+      } else {
+        childrenById.set(node.parentId, [node]);
+      }
+    }
+  });
+
+  // Children are listed after their parents, so walking backwards rolls counts up from the bottom
+  [...plan.nodes].reverse().forEach(node => {
+    const range = getRange(node);
+    const children = childrenById.get(node.id) || [];
+    const childRanges = children.map(getRange);
+
+    rollups.set(node.id, {
+      totalAddresses: range.end - range.start + 1,
+      carvedAddresses: childRanges.reduce((total, child) => total + child.end - child.start + 1, 0),
+      childCount: children.length,
+      subnetCount: children.reduce((count, child) => count + (child.level === 'subnet' ? 1 : 0) + (rollups.get(child.id)?.subnetCount ?? 0), 0),
+      largestFreePrefix: findLargestFreePrefix(range, childRanges)
+    });
+  });
+  return rollups;
+}
+
+/**
+ * Summarizes a rollup on one line, e.g. "3 regions · 12 subnets · 19% carved · largest free /9"
+ * Shares that round to 0 or 100 without being exactly empty or full are shown as "<1" or ">99".
+ */
+export function formatAddressPlanRollup(node: AddressPlanNode, rollup: AddressPlanRollup): string {
+  const childLevel = getChildLevel(node.level);
+  const percent = Math.round((rollup.carvedAddresses / rollup.totalAddresses) * 100);
+  const share = percent === 0 && rollup.carvedAddresses > 0
+    ? '<1'
+    : percent === 100 && rollup.carvedAddresses < rollup.totalAddresses ? '>99' : percent.toString();
+
+  return [
+    childLevel && `${rollup.childCount} ${describeLevel(childLevel, rollup.childCount)}`,
+    childLevel !== 'subnet' && rollup.subnetCount > 0 && `${rollup.subnetCount} ${describeLevel('subnet', rollup.subnetCount)}`,
+    `${share}% carved`,
+    rollup.largestFreePrefix === null ? 'full' : `largest free /${rollup.largestFreePrefix}`
+  ].filter(Boolean).join(' · ');
+}
+
+/**
+ * Converts plan nodes into split subnets for the tree view and the subnet plan
+ * Each node is named after itself and tagged with the region and VPC it belongs to; the
+ * environment is set in its metadata. Pass a level to convert only the nodes at that level.
+ */
+export function addressPlanToSubnets(plan: AddressPlan, cloudMode: CloudMode = 'normal', level?: AddressPlanLevel): SplitSubnet[] {
+  const byId = indexNodes(plan.nodes);
+  return plan.nodes
+    .filter(node => !level || node.level === level)
+    .map(node => {
+      const branch = [...getAncestors(byId, node), node];
+      const environment = branch.find(entry => entry.level === 'environment');
+      const tags = branch
+        .filter(entry => entry.level === 'region' || entry.level === 'vpc')
+        .map(entry => `${entry.level}=${entry.name}`);
+
+      return {
+        ...calculateSubnetDetailsFromNetwork(node.network, node.cidr, 'ipv4', cloudMode),
+        id: node.id,
+        parentId: node.parentId,
+        level: branch.length - 1,
+        isSelected: false,
+        ipVersion: 'ipv4' as const,
+        label: node.name,
+        ...(tags.length > 0 || environment
+          ? { metadata: { ...(tags.length > 0 ? { tags } : {}), ...(environment ? { environment: environment.name } : {}) } }
+          : {})
+      };
+    });
+}
+
+/**
+ * Validates a stored plan, rebuilding each node from its known fields
+ * Parents must be listed before their children, and no two blocks outside one branch may overlap.
+ */
+export function normalizeAddressPlan(value: unknown): AddressPlan {
+  if (!isRecord(value) || !Array.isArray(value.nodes) || value.nodes.length === 0) {
+    throw new Error('Plan has no supernet');
+  }
+  if (value.nodes.length > MAX_ADDRESS_PLAN_NODES) {
+    throw new Error(`An address plan can hold at most ${MAX_ADDRESS_PLAN_NODES} blocks`);
+  }
+
+  const nodes: AddressPlanNode[] = [];
+  const byId = new Map<string, AddressPlanNode>();
+  const childNames = new Map<string, Set<string>>();
+  value.nodes.forEach((entry: unknown, index: number) => {
+    const label = `Block ${index + 1}`;
+    if (!isRecord(entry)) {
+      throw new Error(`${label} is not valid`);
+    }
+    if (typeof entry.id !== 'string' || !NODE_ID_PATTERN.test(entry.id) || byId.has(entry.id)) {
+      throw new Error(`${label} has a missing or repeated ID`);
+    }
+
+    const parent = index === 0 || typeof entry.parentId !== 'string' ? undefined : byId.get(entry.parentId);
+    if (index > 0 && !parent) {
+      throw new Error(`${label} is not listed after its parent`);
+    }
+    const level = parent ? getChildLevel(parent.level) : 'organization';
+    if (!level || entry.level !== level) {
+      throw new Error(`${label} is not at the level below its parent`);
+    }
+
+    const cidr = entry.cidr;
+    if (typeof entry.network !== 'string' || detectIPVersion(entry.network) !== 'ipv4' ||
+      typeof cidr !== 'number' || !Number.isInteger(cidr) || cidr < (parent ? parent.cidr + 1 : 0) || cidr > 32 ||
+      ipv4ToInt(entry.network) % getBlockSize(cidr) !== 0) {
+      throw new Error(`${label} does not have a valid, aligned network`);
+    }
+
+    const name = normalizeNodeName(entry.name);
+    if (parent) {
+      const siblings = childNames.get(parent.id) ?? new Set<string>();
+      if (siblings.has(name.toLowerCase())) {
+        throw new Error(`"${name}" is used twice in ${parent.name}`);
+      }
+      childNames.set(parent.id, siblings.add(name.toLowerCase()));
+    }
+
+    const node: AddressPlanNode = { id: entry.id, name, level, network: entry.network.trim(), cidr, ...(parent ? { parentId: parent.id } : {}) };
+    nodes.push(node);
+    byId.set(node.id, node);
+  });
+
+  const conflicts = findAddressPlanConflicts({ nodes });
+  if (conflicts.length > 0) {
+    throw new Error(conflicts[0]);
+  }
+  return { nodes };
+}
+
+/**
+ * Finds the saved plan for a supernet
+ */
+export function findAddressPlan(plans: AddressPlan[], network: string, cidr: number): AddressPlan | undefined {
+  return plans.find(plan => {
+    const root = plan.nodes[0];
+    return root && root.network === network && root.cidr === cidr;
+  });
+}
+
+/**
+ * Adds a plan, or replaces the plan for the same supernet
+ */
+export function upsertAddressPlan(plans: AddressPlan[], plan: AddressPlan): AddressPlan[] {
+  const root = getAddressPlanRoot(plan);
+  const existing = findAddressPlan(plans, root.network, root.cidr);
+  return existing
+    ? plans.map(candidate => candidate === existing ? plan : candidate)
+    : [...plans, plan];
+}
+
+/**
+ * Loads saved plans from browser storage, skipping damaged ones with a warning
+ */
+export function loadAddressPlans(storage: Storage | null = getBrowserStorage()): AddressPlanLoadResult {
+  const { entries, writable, warnings } = loadStoredList(storage, ADDRESS_PLAN_STORAGE_KEY, {
+    version: ADDRESS_PLAN_SCHEMA_VERSION,
+    listKey: 'plans',
+    label: 'address plans',
+    readEntries: list => {
+      const plans: AddressPlan[] = [];
+      const skipped: string[] = [];
+      list.forEach((entry, index) => {
+        try {
+          const plan = normalizeAddressPlan(entry);
+          const root = getAddressPlanRoot(plan);
+          if (findAddressPlan(plans, root.network, root.cidr)) {
+            throw new Error(`An earlier plan already covers ${formatBlock(root)}`);
+          }
+          plans.push(plan);
+        } catch (error) {
+          skipped.push(`Address plan ${index + 1} skipped: ${error instanceof Error ? error.message : 'invalid plan'}`);
+        }
+      });
+      return { entries: plans, warnings: skipped };
+    }
+  });
+  return { plans: entries, writable, warnings };
+}
+
+/**
+ * Saves plans to browser storage; false means nothing was written
+ */
+export function saveAddressPlans(plans: AddressPlan[], storage: Storage | null = getBrowserStorage()): boolean {
+  const document: AddressPlanStore = { version: ADDRESS_PLAN_SCHEMA_VERSION, plans };
+  return saveStoredDocument(storage, ADDRESS_PLAN_STORAGE_KEY, document, 'address plans');
+}
@@ -0,0 +1,90 @@
+/**
+ * Browser Storage Functions
+ *
+ * This module holds the localStorage plumbing shared by saved projects, custom profiles,
+ * distribution patterns and address plans. Each of them stores one JSON document with a
+ * schema version. Loading follows the same rules everywhere: without storage nothing can be
+ * saved, an unreadable document is reset, and a document written by a newer version of the
+ * calculator is left untouched and opened read-only.
+ */
+
+export interface StoredListLoadResult<T> {
+  entries: T[];
+  writable: boolean; // False when storage is unavailable or holds a newer schema version
+  warnings: string[];
+}
+
+export interface StoredListOptions<T> {
+  version: number; // Current schema version
+  listKey: string; // Property of the document that holds the entries
+  label: string; // Plural description used in warnings, such as "custom profiles"
+  readEntries: (entries: unknown[]) => { entries: T[]; warnings: string[] };
+}
+
+/**
+ * Returns the browser's localStorage, or null during server rendering or when access is denied
+ */
+export function getBrowserStorage(): Storage | null {
+  try {
+    return typeof window !== 'undefined' && window.localStorage ? window.localStorage : null;
+  } catch {
+    return null;
+  }
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Loads a versioned document holding a list of entries, which readEntries validates
+ */
+export function loadStoredList<T>(storage: Storage | null, storageKey: string, options: StoredListOptions<T>): StoredListLoadResult<T> {
+  if (!storage) {
+    return { entries: [], writable: false, warnings: [] };
+  }
+
+  const unreadable = `Saved ${options.label} were unreadable and have been reset`;
+  try {
+    const stored = storage.getItem(storageKey);
+    if (!stored) {
+      return { entries: [], writable: true, warnings: [] };
+    }
+
+    const document = JSON.parse(stored);
+    if (!isRecord(document) || typeof document.version !== 'number' || !Array.isArray(document[options.listKey])) {
+      return { entries: [], writable: true, warnings: [unreadable] };
+    }
+    if (document.version > options.version) {
+      return {
+        entries: [],
+        writable: false,
+        warnings: [`Saved ${options.label} were created by a newer version of the calculator and cannot be opened`]
+      };
+    }
+
+    const { entries, warnings } = options.readEntries(document[options.listKey] as unknown[]);
+    return { entries, writable: true, warnings };
+  } catch (error) {
+    console.warn(`Failed to load ${options.label}:`, error);
+    return { entries: [], writable: true, warnings: [unreadable] };
+  }
+}
+
+/**
+ * Saves a document as JSON under the given key
+ * Returns false when storage is unavailable or full
+ */
+export function saveStoredDocument(storage: Storage | null, storageKey: string, document: object, label: string): boolean {
+  if (!storage) {
+    return false;
+  }
+
+  try {
+    storage.setItem(storageKey, JSON.stringify(document));
+    return true;
+  } catch (error) {
+    console.warn(`Failed to save ${label}:`, error);
+    return false;
+  }
+}
@@ -0,0 +1,266 @@
+/**
+ * CIDR Range Functions
+ *
+ * This module converts arbitrary start–end address ranges into the minimal set of CIDR
+ * blocks that cover them exactly, and summarizes arbitrary prefix lists for route
+ * advertisement. Both IP versions are handled as BigInt bounds so the same algorithms
+ * work across the 32-bit and 128-bit address spaces.
+ */
+
+import { CIDRBlock, CIDRSupernetSummary, IPVersion } from './types';
+import { validateIPv6 } from './utils';
+import { ipv4ToInt, intToIPv4, ipv6ToBigInt, bigIntToIPv6 } from './subnet-splitting';
+
+export interface AddressRange {
+  start: string;
+  end: string;
+}
+
+export interface CIDRListParseResult {
+  blocks: CIDRBlock[];
+  errors: string[];
+  warnings: string[];
+}
+
+// Maximum number of prefixes accepted in a single pasted list
+export const MAX_CIDR_LIST_ENTRIES = 10000;
+
+/**
+ * Validates an IPv4 address in dotted-decimal notation
+ */
+export function isValidIPv4(address: string): boolean {
+  const parts = address.split('.');
+  return parts.length === 4 && parts.every(part => /^\d{1,3}$/.test(part) && parseInt(part, 10) <= 255);
+}
+
+function getAddressBits(ipVersion: IPVersion): number {
+  return ipVersion === 'ipv4' ? 32 : 128;
+}
+
+/**
+ * Determines the IP version of an address, or null when it is not a valid address
+ * IPv6 addresses with embedded IPv4 notation (::ffff:192.0.2.1) are not accepted
+ */
+export function detectIPVersion(address: string): IPVersion | null {
+  const trimmed = address.trim();
+  if (isValidIPv4(trimmed)) {
+    return 'ipv4';
+  }
+  if (trimmed.includes(':') && !trimmed.includes('.') && validateIPv6(trimmed)) {
+    return 'ipv6';
+  }
+  return null;
+}
+
+export function addressToBigInt(address: string, ipVersion: IPVersion): bigint {
+  const trimmed = address.trim();
+  return ipVersion === 'ipv4' ? BigInt(ipv4ToInt(trimmed)) : ipv6ToBigInt(trimmed);
+}
+
+export function bigIntToAddress(value: bigint, ipVersion: IPVersion): string {
+  return ipVersion === 'ipv4' ? intToIPv4(Number(value)) : bigIntToIPv6(value);
+}
+
+/**
+ * Builds a CIDR block from its first address value and prefix length
+ */
+export function createCIDRBlock(start: bigint, prefix: number, ipVersion: IPVersion): CIDRBlock {
+  const addressCount = BigInt(1) << BigInt(getAddressBits(ipVersion) - prefix);
+  const network = bigIntToAddress(start, ipVersion);
+
+  return {
+    network,
+    prefix,
+    ipVersion,
+    firstAddress: network,
+    lastAddress: bigIntToAddress(start + addressCount - BigInt(1), ipVersion),
+    addressCount
+  };
+}
+
+export function formatCIDRBlock(block: CIDRBlock): string {
+  return `${block.network}/${block.prefix}`;
+}
+
+/**
+ * Splits free-form range input such as "10.0.0.5 - 10.0.3.200" into its two addresses
+ * Accepts a hyphen, en dash, em dash or the word "to" between the addresses
+ */
+export function parseAddressRange(input: string): AddressRange | null {
+  const parts = input.trim().split(/\s*(?:[-–—]|\s+to\s+)\s*/i).filter(Boolean);
+  return parts.length === 2 ? { start: parts[0], end: parts[1] } : null;
+}
+
+/**
+ * Returns the minimal list of CIDR blocks that exactly cover the BigInt range [start, end]
+ * Each step takes the largest block that is aligned on the current start address and
+ * does not extend past the end of the range
+ */
+export function bigIntRangeToCIDRs(start: bigint, end: bigint, ipVersion: IPVersion): CIDRBlock[] {
+  const totalBits = getAddressBits(ipVersion);
+  const blocks: CIDRBlock[] = [];
+  let current = start;
+
+  while (current <= end) {
+    let hostBits = 0;
+    while (
+      hostBits < totalBits &&
+      (current & ((BigInt(1) << BigInt(hostBits + 1)) - BigInt(1))) === BigInt(0) &&
+      current + (BigInt(1) << BigInt(hostBits + 1)) - BigInt(1) <= end
+    ) {
+      hostBits++;
+    }
+
+    blocks.push(createCIDRBlock(current, totalBits - hostBits, ipVersion));
+    current += BigInt(1) << BigInt(hostBits);
+  }
+
+  return blocks;
+}
+
+/**
+ * Converts an inclusive start–end address range into the minimal covering CIDR blocks
+ * Both addresses must be valid and of the same IP version, with start not after end
+ */
+export function rangeToCIDRs(startAddress: string, endAddress: string): CIDRBlock[] {
+  const startVersion = detectIPVersion(startAddress);
+  const endVersion = detectIPVersion(endAddress);
+
+  if (!startVersion) {
+    throw new Error(`Invalid start address: ${startAddress}`);
+  }
+  if (!endVersion) {
+    throw new Error(`Invalid end address: ${endAddress}`);
+  }
+  if (startVersion !== endVersion) {
+    throw new Error('Start and end addresses must use the same IP version');
+  }
+
+  const start = addressToBigInt(startAddress, startVersion);
+  const end = addressToBigInt(endAddress, endVersion);
+  if (start > end) {
+    throw new Error('Start address must not be greater than end address');
+  }
+
+  return bigIntRangeToCIDRs(start, end, startVersion);
+}
+
+function getBlockRange(block: CIDRBlock): { start: bigint; end: bigint } {
+  const start = addressToBigInt(block.network, block.ipVersion);
+  return { start, end: start + block.addressCount - BigInt(1) };
+}
+
+/**
+ * Parses a single prefix in address/prefix notation; a bare address is treated as a host route
+ * Host bits are cleared, so 10.0.0.5/24 becomes 10.0.0.0/24
+ */
+export function parseCIDR(input: string): CIDRBlock {
+  const [address, prefixText, ...rest] = input.trim().split('/');
+  const ipVersion = detectIPVersion(address || '');
+  if (!ipVersion || rest.length > 0) {
+    throw new Error(`Invalid prefix: ${input.trim()}`);
+  }
+
+  const totalBits = getAddressBits(ipVersion);
+  const prefix = prefixText === undefined ? totalBits : Number(prefixText);
+  if (!/^\d{1,3}$/.test(prefixText ?? String(totalBits)) || prefix > totalBits) {
+    throw new Error(`Invalid prefix length in ${input.trim()}: must be between 0 and ${totalBits}`);
+  }
+
+  const hostMask = (BigInt(1) << BigInt(totalBits - prefix)) - BigInt(1);
+  return createCIDRBlock(addressToBigInt(address, ipVersion) & ~hostMask, prefix, ipVersion);
+}
+
+/**
+ * Parses a pasted list of prefixes separated by commas, whitespace or new lines
+ * Invalid entries are reported individually instead of failing the whole list
+ */
+export function parseCIDRList(input: string): CIDRListParseResult {
+  const entries = input.split(/[\s,;]+/).filter(Boolean);
+  const result: CIDRListParseResult = { blocks: [], errors: [], warnings: [] };
+
+  if (entries.length > MAX_CIDR_LIST_ENTRIES) {
+    result.errors.push(`Too many prefixes: ${entries.length} exceeds the limit of ${MAX_CIDR_LIST_ENTRIES}`);
+    return result;
+  }
+
+  entries.forEach(entry => {
+    try {
+      const block = parseCIDR(entry);
+      if (addressToBigInt(entry.split('/')[0], block.ipVersion) !== addressToBigInt(block.network, block.ipVersion)) {
+        result.warnings.push(`${entry} has host bits set and was treated as ${formatCIDRBlock(block)}`);
+      }
+      result.blocks.push(block);
+    } catch (error) {
+      result.errors.push(error instanceof Error ? error.message : `Invalid prefix: ${entry}`);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Collapses a prefix list into the minimal set of blocks covering exactly the same addresses
+ * Duplicate, overlapping and adjacent prefixes are merged; IPv4 blocks are listed before IPv6
+ */
+export function aggregateCIDRs(blocks: CIDRBlock[]): CIDRBlock[] {
+  return (['ipv4', 'ipv6'] as IPVersion[]).flatMap(ipVersion => {
+    const ranges = blocks
+      .filter(block => block.ipVersion === ipVersion)
+      .map(getBlockRange)
+      .sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+
+    const merged: { start: bigint; end: bigint }[] = [];
+    ranges.forEach(range => {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end + BigInt(1)) {
+        if (range.end > last.end) {
+          last.end = range.end;
+        }
+      } else {
+        merged.push({ ...range });
+      }
+    });
+
+    return merged.flatMap(range => bigIntRangeToCIDRs(range.start, range.end, ipVersion));
+  });
+}
+
+/**
+ * Finds the smallest single supernet containing every prefix and reports how much address
+ * space it advertises beyond the input prefixes
+ */
+export function summarizeCIDRs(blocks: CIDRBlock[]): CIDRSupernetSummary {
+  if (blocks.length === 0) {
+    throw new Error('At least one prefix is required for summarization');
+  }
+
+  const ipVersion = blocks[0].ipVersion;
+  if (blocks.some(block => block.ipVersion !== ipVersion)) {
+    throw new Error('All prefixes must use the same IP version for summarization');
+  }
+
+  const aggregated = aggregateCIDRs(blocks);
+  const totalBits = getAddressBits(ipVersion);
+  const start = getBlockRange(aggregated[0]).start;
+  const end = getBlockRange(aggregated[aggregated.length - 1]).end;
+
+  // The supernet prefix is the number of leading bits shared by the first and last address
+  let prefix = totalBits;
+  while (prefix > 0 && (start >> BigInt(totalBits - prefix)) !== (end >> BigInt(totalBits - prefix))) {
+    prefix--;
+  }
+
+  const hostMask = (BigInt(1) << BigInt(totalBits - prefix)) - BigInt(1);
+  const supernet = createCIDRBlock(start & ~hostMask, prefix, ipVersion);
+  const coveredAddresses = aggregated.reduce((total, block) => total + block.addressCount, BigInt(0));
+  const extraAddresses = supernet.addressCount - coveredAddresses;
+
+  return {
+    supernet,
+    coveredAddresses,
+    extraAddresses,
+    // Basis points keep two decimal places without converting large IPv6 counts to Number
+    overCoveragePercent: Number((extraAddresses * BigInt(10000)) / supernet.addressCount) / 100
+  };
+}
@@ -0,0 +1,378 @@
+/**
+ * Cloud Provider Registry
+ *
+ * This module is the single definition of the cloud providers the calculator supports.
+ * Each provider lists its IPv4 and IPv6 reservation rules, subnet size limits, network
+ * service naming and documentation link; the calculator, splitting, joining, planning and
+ * export modules read them from here, so a provider is added by adding its entry.
+ * Profiles the user defines are registered alongside the built-in providers under
+ * "custom:" modes and are looked up the same way.
+ */
+
+import { CloudMode, CloudReservation, CustomCloudMode } from './types';
+
+export type CloudProviderId = Exclude<CloudMode, 'normal' | CustomCloudMode>;
+
+export const CUSTOM_MODE_PREFIX = 'custom:';
+
+// Cloud provider configuration for subnet calculations
+export interface CloudProviderConfig {
+  name: string;
+  modeLabel: string; // Label of the provider's mode in the mode selector
+  networkService: string; // Name of the provider's virtual network, e.g. "VPC"
+  documentationUrl: string;
+  minCidr: number;
+  maxCidr: number;
+  reservedCount: number;
+  firstUsableOffset: number;
+  lastUsableOffset: number; // Distance from the broadcast address back to the last usable address
+  minRecommendedHosts: number; // Smallest number of usable addresses that is practical per subnet
+  subnetLimit: number; // Default number of subnets per virtual network
+  networkReferenceExample: string; // Example ID of a virtual network, used as an export placeholder
+  getReservations: (networkInt: number, broadcastInt: number, intToIp: (int: number) => string) => CloudReservation[];
+  ipv6: CloudIPv6Config;
+}
+
+// IPv6 rules of a cloud provider; IPv6 subnets always have a fixed prefix length
+export interface CloudIPv6Config {
+  subnetPrefix: number;
+  reservedCount: number;
+  firstUsableOffset: number;
+  lastUsableOffset: number; // Distance from the last address back to the last usable address
+  summary: string; // One-line description of the provider's IPv6 block and subnet sizes
+  exampleBlock: string; // Example IPv6 block the provider could assign to a network
+  getReservations: (network: bigint, lastAddress: bigint, toIp: (value: bigint) => string) => CloudReservation[];
+  validateNetwork: (network: bigint, prefixLength: number) => string | null; // Error message for blocks the provider cannot assign
+}
+
+// Google Cloud allocates internal IPv6 ranges from fd20::/20 and external ones from its own global unicast space
+const ULA_PREFIX = BigInt('0xfc') << BigInt(120);
+const GCP_INTERNAL_PREFIX = BigInt('0xfd20') << BigInt(112);
+
+function isWithin(address: bigint, prefix: bigint, prefixLength: number): boolean {
+  const shift = BigInt(128 - prefixLength);
+  return (address >> shift) === (prefix >> shift);
+}
+
+// IPv6 rules of providers whose virtual networks are IPv4 only
+function unsupportedIPv6(name: string, networkService: string): CloudIPv6Config {
+  return {
+    subnetPrefix: 64,
+    reservedCount: 0,
+    firstUsableOffset: 0,
+    lastUsableOffset: 0,
+    summary: `${name} ${networkService}s do not support IPv6`,
+    exampleBlock: "",
+    getReservations: () => [],
+    validateNetwork: () => `${name} ${networkService}s do not support IPv6`
+  };
+}
+
+export const CLOUD_PROVIDERS: Record<CloudProviderId, CloudProviderConfig> = {
+  aws: {
+    name: "AWS",
+    modeLabel: "AWS VPC Mode",
+    networkService: "VPC",
+    documentationUrl: "https://docs.aws.amazon.com/vpc/latest/userguide/VPC_Subnets.html",
+    minCidr: 16,
+    maxCidr: 28,
+    reservedCount: 5,
+    firstUsableOffset: 4,
+    lastUsableOffset: 1,
+    minRecommendedHosts: 16,
+    subnetLimit: 200,
+    networkReferenceExample: "vpc-0123456789abcdef0",
+    getReservations: (networkInt, broadcastInt, intToIp) => [
+      { ip: intToIp(networkInt), purpose: "Network Address", description: "Network identifier (not assignable)" },
+      { ip: intToIp(networkInt + 1), purpose: "VPC Router", description: "Reserved for the VPC router" },
+      { ip: intToIp(networkInt + 2), purpose: "DNS Server", description: "Reserved for DNS server" },
+      { ip: intToIp(networkInt + 3), purpose: "Future Use", description: "Reserved for future use" },
+      { ip: intToIp(broadcastInt), purpose: "Broadcast Address", description: "Network broadcast address (not assignable)" }
+    ],
+    ipv6: {
+      subnetPrefix: 64,
+      reservedCount: 5,
+      firstUsableOffset: 4,
+      lastUsableOffset: 1,
+      summary: "AWS VPCs get a /56 IPv6 block; subnets are /64",
+      exampleBlock: "2600:1f18:abcd:ef00::/56",
+      getReservations: (network, lastAddress, toIp) => [
+        { ip: toIp(network), purpose: "Network Address", description: "Network identifier (not assignable)" },
+        { ip: toIp(network + BigInt(1)), purpose: "VPC Router", description: "Reserved for the VPC router" },
+        { ip: toIp(network + BigInt(2)), purpose: "DNS Server", description: "Reserved for DNS server" },
+        { ip: toIp(network + BigInt(3)), purpose: "Future Use", description: "Reserved for future use" },
+        { ip: toIp(lastAddress), purpose: "Last Address", description: "Reserved by AWS" }
+      ],
+      validateNetwork: (_network, prefixLength) => prefixLength < 56
+        ? `AWS assigns a /56 IPv6 block to each VPC; /${prefixLength} is too large`
+        : null
+    }
+  },
+  azure: {
+    name: "Azure",
+    modeLabel: "Azure VNet Mode",
+    networkService: "Virtual Network",
+    documentationUrl: "https://docs.microsoft.com/en-us/azure/virtual-network/virtual-networks-faq",
+    minCidr: 8,
+    maxCidr: 29,
+    reservedCount: 5,
+    firstUsableOffset: 4,
+    lastUsableOffset: 1,
+    minRecommendedHosts: 8,
+    subnetLimit: 3000,
+    networkReferenceExample: "my-vnet",
+    getReservations: (networkInt, broadcastInt, intToIp) => [
+      { ip: intToIp(networkInt), purpose: "Network Address", description: "Network identifier (not assignable)" },
+      { ip: intToIp(networkInt + 1), purpose: "Default Gateway", description: "Reserved for default gateway" },
+      { ip: intToIp(networkInt + 2), purpose: "DNS Mapping", description: "Reserved for Azure DNS" },
+      { ip: intToIp(networkInt + 3), purpose: "DNS Mapping", description: "Reserved for Azure DNS" },
+      { ip: intToIp(broadcastInt), purpose: "Broadcast Address", description: "Network broadcast address (not assignable)" }
+    ],
+    ipv6: {
+      subnetPrefix: 64,
+      reservedCount: 5,
+      firstUsableOffset: 4,
+      lastUsableOffset: 1,
+      summary: "Azure IPv6 subnets are /64",
+      exampleBlock: "ace:cab:deca::/48",
+      getReservations: (network, lastAddress, toIp) => [
+        { ip: toIp(network), purpose: "Network Address", description: "Network identifier (not assignable)" },
+        { ip: toIp(network + BigInt(1)), purpose: "Default Gateway", description: "Reserved for default gateway" },
+        { ip: toIp(network + BigInt(2)), purpose: "DNS Mapping", description: "Reserved for Azure DNS" },
+        { ip: toIp(network + BigInt(3)), purpose: "DNS Mapping", description: "Reserved for Azure DNS" },
+        { ip: toIp(lastAddress), purpose: "Last Address", description: "Reserved by Azure" }
+      ],
+      validateNetwork: () => null
+    }
+  },
+  gcp: {
+    name: "Google Cloud",
+    modeLabel: "Google Cloud VPC Mode",
+    networkService: "VPC network",
+    documentationUrl: "https://cloud.google.com/vpc/docs/subnets",
+    minCidr: 8,
+    maxCidr: 29,
+    reservedCount: 4,
+    firstUsableOffset: 2,
+    lastUsableOffset: 2,
+    minRecommendedHosts: 8,
+    subnetLimit: 100,
+    networkReferenceExample: "projects/my-project/global/networks/my-vpc",
+    getReservations: (networkInt, broadcastInt, intToIp) => [
+      { ip: intToIp(networkInt), purpose: "Network Address", description: "Network identifier (not assignable)" },
+      { ip: intToIp(networkInt + 1), purpose: "Default Gateway", description: "Reserved for default gateway" },
+      { ip: intToIp(broadcastInt - 1), purpose: "Second-to-last IP", description: "Reserved by Google Cloud" },
+      { ip: intToIp(broadcastInt), purpose: "Broadcast Address", description: "Network broadcast address (not assignable)" }
+    ],
+    ipv6: {
+      subnetPrefix: 64,
+      reservedCount: 1,
+      firstUsableOffset: 1,
+      lastUsableOffset: 0,
+      summary: "Google Cloud subnets are /64; internal ranges are /48 blocks from fd20::/20",
+      exampleBlock: "fd20:a:b::/48",
+      getReservations: (network, _lastAddress, toIp) => [
+        { ip: toIp(network), purpose: "Subnet-Router Anycast", description: "Not assignable; VM interfaces receive /96 ranges from the rest of the subnet" }
+      ],
+      validateNetwork: (network, prefixLength) => {
+        if (!isWithin(network, ULA_PREFIX, 7)) {
+          return null; // External ranges come from Google-owned or BYOIP global unicast space
+        }
+        if (!isWithin(network, GCP_INTERNAL_PREFIX, 20) || prefixLength < 20) {
+          return 'Google Cloud internal IPv6 ranges are allocated from fd20::/20';
+        }
+        return prefixLength < 48
+          ? `Google Cloud assigns a /48 internal IPv6 range to each VPC network; /${prefixLength} is too large`
+          : null;
+      }
+    }
+  },
+  oci: {
+    name: "Oracle Cloud",
+    modeLabel: "Oracle Cloud VCN Mode",
+    networkService: "VCN",
+    documentationUrl: "https://docs.oracle.com/en-us/iaas/Content/Network/Concepts/overview.htm",
+    minCidr: 16,
+    maxCidr: 30,
+    reservedCount: 3,
+    firstUsableOffset: 2,
+    lastUsableOffset: 1,
+    minRecommendedHosts: 8,
+    subnetLimit: 300,
+    networkReferenceExample: "ocid1.vcn.oc1.eu-frankfurt-1.example",
+    getReservations: (networkInt, broadcastInt, intToIp) => [
+      { ip: intToIp(networkInt), purpose: "Network Address", description: "Network identifier (not assignable)" },
+      { ip: intToIp(networkInt + 1), purpose: "Default Gateway", description: "Reserved for the subnet's default gateway" },
+      { ip: intToIp(broadcastInt), purpose: "Broadcast Address", description: "Network broadcast address (not assignable)" }
+    ],
+    ipv6: {
+      subnetPrefix: 64,
+      reservedCount: 3,
+      firstUsableOffset: 2,
+      lastUsableOffset: 1,
+      summary: "Oracle Cloud VCNs get a /56 IPv6 prefix, or bring a /48 to /64 of your own; subnets are /64",
+      exampleBlock: "2603:c020:abcd:ef00::/56",
+      getReservations: (network, lastAddress, toIp) => [
+        { ip: toIp(network), purpose: "Network Address", description: "Network identifier (not assignable)" },
+        { ip: toIp(network + BigInt(1)), purpose: "Default Gateway", description: "Reserved for the subnet's default gateway" },
+        { ip: toIp(lastAddress), purpose: "Last Address", description: "Reserved by Oracle Cloud" }
+      ],
+      validateNetwork: (_network, prefixLength) => prefixLength < 48
+        ? `Oracle Cloud VCN IPv6 prefixes are /48 to /64; /${prefixLength} is too large`
+        : null
+    }
+  },
+  alibaba: {
+    name: "Alibaba Cloud",
+    modeLabel: "Alibaba Cloud VPC Mode",
+    networkService: "VPC",
+    documentationUrl: "https://www.alibabacloud.com/help/en/vpc/user-guide/create-and-manage-vswitch",
+    minCidr: 16,
+    maxCidr: 29,
+    reservedCount: 4,
+    firstUsableOffset: 1,
+    lastUsableOffset: 3,
+    minRecommendedHosts: 8,
+    subnetLimit: 150,
+    networkReferenceExample: "vpc-bp1example0123456789",
+    getReservations: (networkInt, broadcastInt, intToIp) => [
+      { ip: intToIp(networkInt), purpose: "Network Address", description: "Network identifier (not assignable)" },
+      { ip: intToIp(broadcastInt - 2), purpose: "System Reserved", description: "Reserved by the vSwitch" },
+      { ip: intToIp(broadcastInt - 1), purpose: "System Reserved", description: "Reserved by the vSwitch" },
+      { ip: intToIp(broadcastInt), purpose: "Broadcast Address", description: "Network broadcast address (not assignable)" }
+    ],
+    ipv6: {
+      subnetPrefix: 64,
+      reservedCount: 4,
+      firstUsableOffset: 1,
+      lastUsableOffset: 3,
+      summary: "Alibaba Cloud VPCs get a /56 IPv6 block; vSwitches are /64",
+      exampleBlock: "2408:4005:abcd:ef00::/56",
+      getReservations: (network, lastAddress, toIp) => [
+        { ip: toIp(network), purpose: "Network Address", description: "Network identifier (not assignable)" },
+        { ip: toIp(lastAddress - BigInt(2)), purpose: "System Reserved", description: "Reserved by the vSwitch" },
+        { ip: toIp(lastAddress - BigInt(1)), purpose: "System Reserved", description: "Reserved by the vSwitch" },
+        { ip: toIp(lastAddress), purpose: "Last Address", description: "Reserved by Alibaba Cloud" }
+      ],
+      validateNetwork: (_network, prefixLength) => prefixLength < 56
+        ? `Alibaba Cloud assigns a /56 IPv6 block to each VPC; /${prefixLength} is too large`
+        : null
+    }
+  },
+  digitalocean: {
+    name: "DigitalOcean",
+    modeLabel: "DigitalOcean VPC Mode",
+    networkService: "VPC network",
+    documentationUrl: "https://docs.digitalocean.com/products/networking/vpc/details/limits/",
+    minCidr: 16,
+    maxCidr: 28,
+    reservedCount: 3,
+    firstUsableOffset: 2,
+    lastUsableOffset: 1,
+    minRecommendedHosts: 8,
+    subnetLimit: 1, // A VPC network is a single range; splits become separate VPC networks
+    networkReferenceExample: "my-vpc",
+    getReservations: (networkInt, broadcastInt, intToIp) => [
+      { ip: intToIp(networkInt), purpose: "Network Address", description: "Network identifier (not assignable)" },
+      { ip: intToIp(networkInt + 1), purpose: "Gateway", description: "Reserved for the VPC gateway" },
+      { ip: intToIp(broadcastInt), purpose: "Broadcast Address", description: "Network broadcast address (not assignable)" }
+    ],
+    ipv6: unsupportedIPv6("DigitalOcean", "VPC network")
+  },
+  ibm: {
+    name: "IBM Cloud",
+    modeLabel: "IBM Cloud VPC Mode",
+    networkService: "VPC",
+    documentationUrl: "https://cloud.ibm.com/docs/vpc?topic=vpc-about-networking-for-vpc",
+    minCidr: 9,
+    maxCidr: 29,
+    reservedCount: 5,
+    firstUsableOffset: 4,
+    lastUsableOffset: 1,
+    minRecommendedHosts: 8,
+    subnetLimit: 100,
+    networkReferenceExample: "r006-example-vpc-id",
+    getReservations: (networkInt, broadcastInt, intToIp) => [
+      { ip: intToIp(networkInt), purpose: "Network Address", description: "Network identifier (not assignable)" },
+      { ip: intToIp(networkInt + 1), purpose: "Gateway", description: "Reserved for the subnet gateway" },
+      { ip: intToIp(networkInt + 2), purpose: "Reserved", description: "Reserved by IBM Cloud" },
+      { ip: intToIp(networkInt + 3), purpose: "Reserved", description: "Reserved by IBM Cloud" },
+      { ip: intToIp(broadcastInt), purpose: "Broadcast Address", description: "Network broadcast address (not assignable)" }
+    ],
+    ipv6: unsupportedIPv6("IBM Cloud", "VPC")
+  }
+};
+
+// Provider IDs in display order
+export const CLOUD_PROVIDER_IDS = Object.keys(CLOUD_PROVIDERS) as CloudProviderId[];
+
+// Providers built from the user's custom profiles, replaced as a whole when the profiles change
+let customProviders = new Map<string, CloudProviderConfig>();
+
+/**
+ * Checks whether a mode names a cloud provider
+ */
+export function isCloudProviderId(mode: string): mode is CloudProviderId {
+  return Object.prototype.hasOwnProperty.call(CLOUD_PROVIDERS, mode);
+}
+
+/**
+ * Checks whether a mode selects a custom profile, whether or not the profile is registered
+ */
+export function isCustomCloudMode(mode: string): mode is CustomCloudMode {
+  return mode.startsWith(CUSTOM_MODE_PREFIX) && mode.length > CUSTOM_MODE_PREFIX.length;
+}
+
+/**
+ * Replaces the registered custom providers
+ */
+export function setCustomCloudProviders(providers: Iterable<[CustomCloudMode, CloudProviderConfig]>): void {
+  customProviders = new Map(providers);
+}
+
+/**
+ * Returns the provider of a calculator mode, or null for normal subnetting and unknown modes
+ */
+export function getCloudProvider(mode: string): CloudProviderConfig | null {
+  if (isCloudProviderId(mode)) {
+    return CLOUD_PROVIDERS[mode];
+  }
+  return customProviders.get(mode) || null;
+}
+
+/**
+ * Returns the first and last usable IPv4 addresses of a subnet, or null when every address is reserved
+ * The provider's offsets are the starting point; addresses reserved from the other end are skipped too,
+ * since start and end reservations can meet in the smallest subnets a custom profile allows
+ */
+export function getUsableHostRange(provider: CloudProviderConfig, networkInt: number, broadcastInt: number): { first: number; last: number } | null {
+  const reserved = new Set(provider.getReservations(networkInt, broadcastInt, String).map(reservation => Number(reservation.ip)));
+  let first = networkInt + provider.firstUsableOffset;
+  let last = broadcastInt - provider.lastUsableOffset;
+  while (first <= last && reserved.has(first)) {
+    first++;
+  }
+  while (last >= first && reserved.has(last)) {
+    last--;
+  }
+  return first <= last ? { first, last } : null;
+}
+
+/**
+ * Describes the position of each IPv4 address a provider reserves, e.g. "VPC Router (2nd IP)"
+ */
+export function describeReservedPositions(provider: CloudProviderConfig): string[] {
+  const size = Math.pow(2, 32 - provider.maxCidr);
+  const ordinal = (position: number) => {
+    const suffix = position % 100 >= 11 && position % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][position % 10] || 'th';
+    return `${position}${suffix}`;
+  };
+
+  return provider.getReservations(0, size - 1, String).map(reservation => {
+    const offset = Number(reservation.ip);
+    const position = offset === size - 1 ? 'last IP' : offset === size - 2 ? 'second-to-last IP' : `${ordinal(offset + 1)} IP`;
+    return reservation.purpose.toLowerCase() === position.toLowerCase()
+      ? `${reservation.purpose} (reserved)`
+      : `${reservation.purpose} (${position})`;
+  });
+}
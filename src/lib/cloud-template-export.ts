@@ -0,0 +1,256 @@
+/**
+ * Cloud Template Export Functions
+ *
+ * This module generates provider-native infrastructure templates for split subnet plans:
+ * AWS CloudFormation (YAML or JSON), Azure Bicep and Google Cloud Deployment Manager.
+ * Like the Terraform export, only leaf subnets are emitted and the containing network
+ * and naming prefix are parameterized. Subnet names and metadata are carried over the same
+ * way: as tags in CloudFormation, a description in Deployment Manager and a comment in Bicep.
+ */
+
+import { SplitSubnet, CloudMode, ExportOptions } from './types';
+import { toYAML, YAMLValue } from './yaml-export';
+import {
+  getSubnetNameSuffix,
+  getSubnetNameSuffixes,
+  generateTerraformResourceName,
+  sanitizeNamePrefix
+} from './terraform-export';
+import { formatSubnetMetadataSummary, getSubnetTagPairs } from './subnet-metadata';
+import { getLeafSubnets } from './subnet-splitting';
+
+type TemplateOptions = Pick<ExportOptions, 'includeHeaders' | 'includeMetadata' | 'namePrefix' | 'networkReference'>;
+
+// Azure Resource Manager API version used for the Bicep resources
+const AZURE_NETWORK_API_VERSION = '2023-09-01';
+
+// Deployment Manager configs cannot declare parameters, so these placeholders are substituted before deployment
+const DEPLOYMENT_MANAGER_NETWORK_PLACEHOLDER = 'projects/PROJECT_ID/global/networks/NETWORK_NAME';
+const DEPLOYMENT_MANAGER_REGION_PLACEHOLDER = 'REGION';
+
+// Compute Engine resource names match [a-z]([-a-z0-9]*[a-z0-9])? and are at most 63 characters long
+const GCP_NAME_MAX_LENGTH = 63;
+
+/**
+ * Returns the infrastructure-as-code export formats that target the given cloud provider mode
+ */
+export function getInfrastructureExportFormats(cloudMode: CloudMode): ExportOptions['format'][] {
+  switch (cloudMode) {
+    case 'aws':
+      return ['terraform', 'cloudformation-yaml', 'cloudformation-json'];
+    case 'azure':
+      return ['terraform', 'bicep'];
+    case 'gcp':
+      return ['terraform', 'deployment-manager'];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Builds unique alphanumeric CloudFormation logical IDs for the given subnets
+ * e.g. 10.0.1.0/24 -> "Subnet10x0x1x0x24"
+ */
+function generateLogicalIds(subnets: SplitSubnet[]): string[] {
+  return subnets.map(subnet => `Subnet${getSubnetNameSuffix(subnet, 'x')}`);
+}
+
+/**
+ * Builds the header comment lines shared by the YAML-based and Bicep templates
+ */
+function buildHeaderComments(title: string, subnets: SplitSubnet[], leafSubnets: SplitSubnet[], options: TemplateOptions): string[] {
+  if (!options.includeHeaders) {
+    return [];
+  }
+
+  const lines = [title, 'Generated by: Art of Infra Subnet Calculator'];
+  if (options.includeMetadata) {
+    lines.push(`Export Date: ${new Date().toISOString()}`);
+  }
+  if (leafSubnets.length < subnets.length) {
+    lines.push(`${subnets.length - leafSubnets.length} parent subnet(s) omitted because they contain other exported subnets`);
+  }
+  return lines;
+}
+
+/**
+ * Formats split subnets as an AWS CloudFormation template with one AWS::EC2::Subnet per leaf subnet
+ * The template uses long-form intrinsic functions so the YAML and JSON documents are equivalent
+ */
+export function formatSubnetsAsCloudFormation(
+  subnets: SplitSubnet[],
+  options: TemplateOptions,
+  documentFormat: 'yaml' | 'json' = 'yaml'
+): string {
+  const leafSubnets = getLeafSubnets(subnets);
+  const logicalIds = generateLogicalIds(leafSubnets);
+  const nameSuffixes = getSubnetNameSuffixes(leafSubnets);
+  const networkReference = options.networkReference?.trim();
+
+  const resources: { [key: string]: YAMLValue } = {};
+  leafSubnets.forEach((subnet, index) => {
+    const cidrBlock = `${subnet.network}/${subnet.cidr}`;
+    resources[logicalIds[index]] = {
+      Type: 'AWS::EC2::Subnet',
+      Properties: {
+        VpcId: { Ref: 'VpcId' },
+        ...(subnet.ipVersion === 'ipv6'
+          ? { Ipv6CidrBlock: cidrBlock, Ipv6Native: true }
+          : { CidrBlock: cidrBlock }),
+        ...(subnet.pairedIPv6 && { Ipv6CidrBlock: subnet.pairedIPv6, AssignIpv6AddressOnCreation: true }),
+        Tags: [
+          { Key: 'Name', Value: { 'Fn::Sub': `\${NamePrefix}-${nameSuffixes[index]}` } },
+          ...getSubnetTagPairs(subnet.metadata).map(([key, value]) => ({ Key: key, Value: value }))
+        ]
+      }
+    };
+  });
+
+  const template: { [key: string]: YAMLValue } = {
+    AWSTemplateFormatVersion: '2010-09-09',
+    Description: 'Subnet plan generated by Art of Infra Subnet Calculator',
+    ...(options.includeMetadata && {
+      Metadata: {
+        ExportDate: new Date().toISOString(),
+        TotalSubnets: leafSubnets.length
+      }
+    }),
+    Parameters: {
+      VpcId: {
+        Type: 'AWS::EC2::VPC::Id',
+        Description: 'ID of the VPC that contains the subnets',
+        Default: networkReference || undefined
+      },
+      NamePrefix: {
+        Type: 'String',
+        Description: 'Prefix applied to subnet names',
+        Default: sanitizeNamePrefix(options.namePrefix)
+      }
+    },
+    Resources: resources
+  };
+
+  if (documentFormat === 'json') {
+    return JSON.stringify(template, null, 2) + '\n';
+  }
+
+  const header = buildHeaderComments('AWS CloudFormation subnet plan', subnets, leafSubnets, options)
+    .map(line => `# ${line}`);
+  return [...header, ...(header.length > 0 ? [''] : []), toYAML(template), ''].join('\n');
+}
+
+/**
+ * Formats split subnets as an Azure Bicep module that adds subnets to an existing virtual network
+ * Each subnet depends on the previous one because Azure rejects concurrent subnet updates on a virtual network.
+ * IPv6-only subnets are skipped because Azure subnets need an IPv4 prefix; IPv6 is carried by dual-stack pairs.
+ */
+export function formatSubnetsAsBicep(subnets: SplitSubnet[], options: TemplateOptions): string {
+  const leafSubnets = getLeafSubnets(subnets);
+  const ipv4Subnets = leafSubnets.filter(subnet => subnet.ipVersion === 'ipv4');
+  const networkReference = options.networkReference?.trim();
+  const header = buildHeaderComments('Azure Bicep subnet plan', subnets, leafSubnets, options);
+  if (options.includeHeaders && ipv4Subnets.length < leafSubnets.length) {
+    header.push(`${leafSubnets.length - ipv4Subnets.length} IPv6-only subnet(s) skipped: Azure subnets need an IPv4 prefix, with IPv6 added as a dual-stack pair`);
+  }
+  const lines = header.map(line => `// ${line}`);
+  const bicepString = (value: string) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\$\{/g, '\\${')}'`;
+
+  if (lines.length > 0) {
+    lines.push('');
+  }
+
+  lines.push(
+    '@description(\'Name of the virtual network that contains the subnets\')',
+    `param virtualNetworkName string${networkReference ? ` = ${bicepString(networkReference)}` : ''}`,
+    '',
+    '@description(\'Prefix applied to subnet names\')',
+    `param namePrefix string = ${bicepString(sanitizeNamePrefix(options.namePrefix))}`,
+    '',
+    `resource virtualNetwork 'Microsoft.Network/virtualNetworks@${AZURE_NETWORK_API_VERSION}' existing = {`,
+    '  name: virtualNetworkName',
+    '}'
+  );
+
+  const nameSuffixes = getSubnetNameSuffixes(ipv4Subnets);
+  let previousSymbol: string | null = null;
+  for (const [index, subnet] of ipv4Subnets.entries()) {
+    const cidrBlock = `${subnet.network}/${subnet.cidr}`;
+    const symbol = generateTerraformResourceName(subnet);
+
+    lines.push('');
+    if (options.includeMetadata) {
+      lines.push(`// ${cidrBlock}: ${subnet.usableHosts} usable of ${subnet.totalHosts} addresses`);
+    }
+    if (subnet.metadata) {
+      lines.push(`// ${formatSubnetMetadataSummary(subnet.metadata)}`);
+    }
+    lines.push(
+      `resource ${symbol} 'Microsoft.Network/virtualNetworks/subnets@${AZURE_NETWORK_API_VERSION}' = {`,
+      '  parent: virtualNetwork',
+      `  name: '\${namePrefix}-${nameSuffixes[index]}'`,
+      '  properties: {',
+      // Dual-stack subnets list their IPv6 /64 alongside the IPv4 prefix
+      ...(subnet.pairedIPv6
+        ? ['    addressPrefixes: [', `      '${cidrBlock}'`, `      '${subnet.pairedIPv6}'`, '    ]']
+        : [`    addressPrefix: '${cidrBlock}'`]),
+      '  }'
+    );
+    if (previousSymbol) {
+      lines.push('  dependsOn: [', `    ${previousSymbol}`, '  ]');
+    }
+    lines.push('}');
+    previousSymbol = symbol;
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Builds a Compute Engine resource name from the name prefix and a subnet's name suffix
+ * The prefix is cut to fit the length limit, and a name suffix that cannot fit falls back to the address.
+ */
+function generateGcpResourceName(namePrefix: string, nameSuffix: string, subnet: SplitSubnet): string {
+  const suffix = nameSuffix.length < GCP_NAME_MAX_LENGTH - 1 ? nameSuffix : getSubnetNameSuffix(subnet);
+  return `${namePrefix.slice(0, GCP_NAME_MAX_LENGTH - suffix.length - 1).replace(/-+$/, '')}-${suffix}`;
+}
+
+/**
+ * Formats split subnets as a Google Cloud Deployment Manager configuration
+ * IPv6 subnets are skipped because Google Cloud allocates IPv6 ranges itself
+ */
+export function formatSubnetsAsDeploymentManager(subnets: SplitSubnet[], options: TemplateOptions): string {
+  const leafSubnets = getLeafSubnets(subnets);
+  const ipv4Subnets = leafSubnets.filter(subnet => subnet.ipVersion === 'ipv4');
+  // Names must start with a letter, so a prefix such as "1st" becomes "subnet-1st"
+  const prefix = sanitizeNamePrefix(options.namePrefix).toLowerCase().replace(/_/g, '-').replace(/^-+/, '');
+  const namePrefix = /^[a-z]/.test(prefix) ? prefix : `subnet${prefix ? `-${prefix}` : ''}`;
+  const networkReference = options.networkReference?.trim();
+
+  const header = buildHeaderComments('Google Cloud Deployment Manager subnet plan', subnets, leafSubnets, options);
+  if (options.includeHeaders) {
+    if (!networkReference) {
+      header.push(`Replace ${DEPLOYMENT_MANAGER_NETWORK_PLACEHOLDER} with the network self link`);
+    }
+    header.push(`Replace ${DEPLOYMENT_MANAGER_REGION_PLACEHOLDER} with the region for the subnets`);
+    if (ipv4Subnets.length < leafSubnets.length) {
+      header.push(`${leafSubnets.length - ipv4Subnets.length} IPv6 subnet(s) skipped: Google Cloud does not support user-defined IPv6 subnet ranges`);
+    }
+  }
+
+  const nameSuffixes = getSubnetNameSuffixes(ipv4Subnets);
+  const config = {
+    resources: ipv4Subnets.map((subnet, index) => ({
+      name: generateGcpResourceName(namePrefix, nameSuffixes[index], subnet),
+      type: 'compute.v1.subnetwork',
+      properties: {
+        network: networkReference || DEPLOYMENT_MANAGER_NETWORK_PLACEHOLDER,
+        ipCidrRange: `${subnet.network}/${subnet.cidr}`,
+        region: DEPLOYMENT_MANAGER_REGION_PLACEHOLDER,
+        description: subnet.metadata ? formatSubnetMetadataSummary(subnet.metadata) : undefined
+      }
+    }))
+  };
+
+  const comments = header.map(line => `# ${line}`);
+  return [...comments, ...(comments.length > 0 ? [''] : []), toYAML(config), ''].join('\n');
+}
@@ -0,0 +1,368 @@
+/**
+ * Custom Profile Functions
+ *
+ * This module manages platform profiles defined by the user for networks that are not one of
+ * the built-in cloud providers, such as an internal OpenStack cloud or a VMware NSX segment.
+ * A profile names the subnet sizes the platform accepts and the addresses it reserves in each
+ * subnet, counted from the start or back from the end. Registered profiles become cloud
+ * providers under "custom:" modes, so validation and reservations apply them exactly like the
+ * built-in providers. Profiles are kept in browser localStorage and exchanged as JSON.
+ */
+
+import { CloudReservation, CustomCloudMode, CustomCloudProfile, CustomProfileReservation, CustomProfileStore } from './types';
+import { CloudProviderConfig, CUSTOM_MODE_PREFIX, setCustomCloudProviders } from './cloud-providers';
+import { getBrowserStorage, isRecord, loadStoredList, saveStoredDocument } from './browser-storage';
+
+export const CUSTOM_PROFILE_STORAGE_KEY = 'subnet_calculator_custom_profiles';
+export const CUSTOM_PROFILE_SCHEMA_VERSION = 1;
+export const MAX_PROFILE_NAME_LENGTH = 60;
+export const MAX_PROFILE_RESERVATIONS = 64;
+export const MAX_RESERVATION_TEXT_LENGTH = 100;
+
+// Custom profiles declare IPv6 subnets at the standard /64 used for SLAAC
+const CUSTOM_IPV6_SUBNET_PREFIX = 64;
+
+const PROFILE_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+const NETWORK_ADDRESS: CustomProfileReservation = {
+  from: 'start', offset: 0, purpose: 'Network Address', description: 'Network identifier (not assignable)'
+};
+const BROADCAST_ADDRESS: CustomProfileReservation = {
+  from: 'end', offset: 0, purpose: 'Broadcast Address', description: 'Network broadcast address (not assignable)'
+};
+
+// Starting points for common platforms, copied into a new profile and edited from there
+export const CUSTOM_PROFILE_TEMPLATES: Array<Omit<CustomCloudProfile, 'id'>> = [
+  {
+    name: 'OpenStack',
+    minCidr: 8,
+    maxCidr: 29,
+    reservations: [
+      NETWORK_ADDRESS,
+      { from: 'start', offset: 1, purpose: 'Gateway', description: 'Neutron router interface' },
+      { from: 'start', offset: 2, purpose: 'DHCP Port', description: 'Neutron DHCP agent' },
+      BROADCAST_ADDRESS
+    ]
+  },
+  {
+    name: 'VMware NSX Segment',
+    minCidr: 16,
+    maxCidr: 29,
+    reservations: [
+      NETWORK_ADDRESS,
+      { from: 'start', offset: 1, purpose: 'Gateway', description: 'Segment gateway' },
+      { from: 'start', offset: 2, purpose: 'VRRP', description: 'First edge node' },
+      { from: 'start', offset: 3, purpose: 'VRRP', description: 'Second edge node' },
+      BROADCAST_ADDRESS
+    ]
+  },
+  {
+    name: 'On-Premises Data Center',
+    minCidr: 16,
+    maxCidr: 28,
+    reservations: [
+      NETWORK_ADDRESS,
+      { from: 'end', offset: 3, purpose: 'Switch A', description: 'First distribution switch' },
+      { from: 'end', offset: 2, purpose: 'Switch B', description: 'Second distribution switch' },
+      { from: 'end', offset: 1, purpose: 'Gateway', description: 'HSRP virtual gateway' },
+      BROADCAST_ADDRESS
+    ]
+  }
+];
+
+export interface CustomProfileLoadResult {
+  profiles: CustomCloudProfile[];
+  writable: boolean; // False when the stored document must not be overwritten
+  warnings: string[];
+}
+
+export interface CustomProfileImportResult {
+  profiles: CustomCloudProfile[];
+  warnings: string[]; // Profiles that were skipped, and why
+}
+
+function generateProfileId(): string {
+  const timestamp = Date.now().toString(36);
+  const randomPart = Math.random().toString(36).substring(2, 8);
+  return `profile_${timestamp}_${randomPart}`;
+}
+
+function isValidPrefix(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 32;
+}
+
+function normalizeText(value: unknown, label: string, required: boolean): string {
+  if (value !== undefined && typeof value !== 'string') {
+    throw new Error(`${label} must be text`);
+  }
+  const trimmed = (value || '').trim().replace(/\s+/g, ' ');
+  if (required && !trimmed) {
+    throw new Error(`${label} is required`);
+  }
+  if (trimmed.length > MAX_RESERVATION_TEXT_LENGTH) {
+    throw new Error(`${label} must be ${MAX_RESERVATION_TEXT_LENGTH} characters or fewer`);
+  }
+  return trimmed;
+}
+
+function describeOffset(reservation: Pick<CustomProfileReservation, 'from' | 'offset'>): string {
+  return `${reservation.offset} from the ${reservation.from}`;
+}
+
+/**
+ * Returns the calculator mode that selects a profile
+ */
+export function getCustomProfileMode(profile: Pick<CustomCloudProfile, 'id'>): CustomCloudMode {
+  return `${CUSTOM_MODE_PREFIX}${profile.id}`;
+}
+
+/**
+ * Finds the profile selected by a calculator mode
+ */
+export function findCustomProfile(profiles: CustomCloudProfile[], mode: string): CustomCloudProfile | null {
+  return profiles.find(profile => getCustomProfileMode(profile) === mode) || null;
+}
+
+/**
+ * Validates a profile and returns it with trimmed text and reservations in address order
+ * Profiles without a valid ID, such as new ones from the editor, are given a new ID
+ */
+export function normalizeCustomProfile(value: unknown): CustomCloudProfile {
+  if (!isRecord(value)) {
+    throw new Error('Profile must be an object');
+  }
+
+  const name = typeof value.name === 'string' ? value.name.trim().replace(/\s+/g, ' ') : '';
+  if (!name) {
+    throw new Error('Profile name is required');
+  }
+  if (name.length > MAX_PROFILE_NAME_LENGTH) {
+    throw new Error(`Profile name must be ${MAX_PROFILE_NAME_LENGTH} characters or fewer`);
+  }
+
+  const { minCidr, maxCidr } = value;
+  if (!isValidPrefix(minCidr) || !isValidPrefix(maxCidr)) {
+    throw new Error('Subnet prefix limits must be whole numbers between /0 and /32');
+  }
+  if (minCidr > maxCidr) {
+    throw new Error(`Largest subnet /${minCidr} cannot be smaller than the smallest subnet /${maxCidr}`);
+  }
+
+  if (!Array.isArray(value.reservations)) {
+    throw new Error('Reserved addresses must be a list');
+  }
+  if (value.reservations.length === 0) {
+    throw new Error('A profile must reserve at least one address');
+  }
+  if (value.reservations.length > MAX_PROFILE_RESERVATIONS) {
+    throw new Error(`A profile can reserve at most ${MAX_PROFILE_RESERVATIONS} addresses`);
+  }
+
+  const reservations = value.reservations.map((entry: unknown, index: number): CustomProfileReservation => {
+    if (!isRecord(entry)) {
+      throw new Error(`Reserved address ${index + 1} must be an object`);
+    }
+    if (entry.from !== 'start' && entry.from !== 'end') {
+      throw new Error(`Reserved address ${index + 1} must be counted from the start or the end`);
+    }
+    if (typeof entry.offset !== 'number' || !Number.isInteger(entry.offset) || entry.offset < 0) {
+      throw new Error(`Reserved address ${index + 1} needs a whole, non-negative offset`);
+    }
+    return {
+      from: entry.from,
+      offset: entry.offset,
+      purpose: normalizeText(entry.purpose, `Purpose of reserved address ${index + 1}`, true),
+      description: normalizeText(entry.description, `Description of reserved address ${index + 1}`, false)
+    };
+  });
+
+  // Every reservation must be a distinct address of the smallest subnet, leaving at least one usable
+  const smallestSize = Math.pow(2, 32 - maxCidr);
+  const positions = new Map<number, CustomProfileReservation>();
+  for (const reservation of reservations) {
+    if (reservation.offset >= smallestSize) {
+      throw new Error(`Reserved address ${describeOffset(reservation)} is outside a /${maxCidr} subnet`);
+    }
+    const position = reservation.from === 'start' ? reservation.offset : smallestSize - 1 - reservation.offset;
+    const existing = positions.get(position);
+    if (existing) {
+      throw new Error(`Reserved addresses ${describeOffset(existing)} and ${describeOffset(reservation)} are the same address in a /${maxCidr} subnet`);
+    }
+    positions.set(position, reservation);
+  }
+  if (reservations.length >= smallestSize) {
+    throw new Error(`A /${maxCidr} subnet would have no usable addresses; allow larger subnets or reserve fewer addresses`);
+  }
+
+  return {
+    id: typeof value.id === 'string' && PROFILE_ID_PATTERN.test(value.id) ? value.id : generateProfileId(),
+    name,
+    minCidr,
+    maxCidr,
+    reservations: Array.from(positions.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([, reservation]) => reservation)
+  };
+}
+
+/**
+ * Builds the cloud provider a profile registers as
+ */
+export function createCustomProvider(profile: CustomCloudProfile): CloudProviderConfig {
+  const startOffsets = new Set(profile.reservations.filter(r => r.from === 'start').map(r => r.offset));
+  let firstUsableOffset = 0;
+  while (startOffsets.has(firstUsableOffset)) {
+    firstUsableOffset++;
+  }
+  const endOffsets = new Set(profile.reservations.filter(r => r.from === 'end').map(r => r.offset));
+  let lastUsableOffset = 0;
+  while (endOffsets.has(lastUsableOffset)) {
+    lastUsableOffset++;
+  }
+
+  const describe = (reservation: CustomProfileReservation): Omit<CloudReservation, 'ip'> => ({
+    purpose: reservation.purpose,
+    description: reservation.description || `Reserved by ${profile.name}`
+  });
+
+  return {
+    name: profile.name,
+    modeLabel: `${profile.name} (Custom)`,
+    networkService: 'network',
+    documentationUrl: '',
+    minCidr: profile.minCidr,
+    maxCidr: profile.maxCidr,
+    reservedCount: profile.reservations.length,
+    firstUsableOffset,
+    lastUsableOffset,
+    minRecommendedHosts: 0,
+    subnetLimit: Number.POSITIVE_INFINITY, // Custom platforms declare no subnet limit
+    networkReferenceExample: '',
+    getReservations: (networkInt, broadcastInt, intToIp) => profile.reservations
+      .filter(reservation => reservation.offset <= broadcastInt - networkInt)
+      .map(reservation => ({
+        ip: intToIp(reservation.from === 'start' ? networkInt + reservation.offset : broadcastInt - reservation.offset),
+        ...describe(reservation)
+      })),
+    ipv6: {
+      subnetPrefix: CUSTOM_IPV6_SUBNET_PREFIX,
+      reservedCount: profile.reservations.length,
+      firstUsableOffset,
+      lastUsableOffset,
+      summary: `${profile.name} IPv6 subnets are /${CUSTOM_IPV6_SUBNET_PREFIX} with the profile's reserved addresses`,
+      exampleBlock: '',
+      getReservations: (network, lastAddress, toIp) => profile.reservations.map(reservation => ({
+        ip: toIp(reservation.from === 'start' ? network + BigInt(reservation.offset) : lastAddress - BigInt(reservation.offset)),
+        ...describe(reservation)
+      })),
+      validateNetwork: () => null
+    }
+  };
+}
+
+/**
+ * Registers profiles as cloud providers, replacing the previously registered profiles
+ */
+export function registerCustomProfiles(profiles: CustomCloudProfile[]): void {
+  setCustomCloudProviders(profiles.map(profile => [getCustomProfileMode(profile), createCustomProvider(profile)]));
+}
+
+/**
+ * Adds a profile, or replaces the profile with the same ID
+ */
+export function upsertCustomProfile(profiles: CustomCloudProfile[], profile: CustomCloudProfile): CustomCloudProfile[] {
+  return profiles.some(existing => existing.id === profile.id)
+    ? profiles.map(existing => existing.id === profile.id ? profile : existing)
+    : [...profiles, profile];
+}
+
+export function deleteCustomProfile(profiles: CustomCloudProfile[], profileId: string): CustomCloudProfile[] {
+  return profiles.filter(profile => profile.id !== profileId);
+}
+
+/**
+ * Validates every profile of a document, skipping invalid ones with a warning
+ */
+function readProfiles(entries: unknown[]): CustomProfileImportResult {
+  const profiles: CustomCloudProfile[] = [];
+  const warnings: string[] = [];
+
+  entries.forEach((entry, index) => {
+    try {
+      const profile = normalizeCustomProfile(entry);
+      if (profiles.some(existing => existing.id === profile.id)) {
+        throw new Error('Profile ID is used by an earlier profile');
+      }
+      profiles.push(profile);
+    } catch (error) {
+      const name = isRecord(entry) && typeof entry.name === 'string' && entry.name.trim() ? ` "${entry.name.trim()}"` : '';
+      warnings.push(`Profile ${index + 1}${name} skipped: ${error instanceof Error ? error.message : 'invalid profile'}`);
+    }
+  });
+
+  return { profiles, warnings };
+}
+
+/**
+ * Loads custom profiles from browser storage
+ */
+export function loadCustomProfiles(storage: Storage | null = getBrowserStorage()): CustomProfileLoadResult {
+  const { entries, writable, warnings } = loadStoredList(storage, CUSTOM_PROFILE_STORAGE_KEY, {
+    version: CUSTOM_PROFILE_SCHEMA_VERSION,
+    listKey: 'profiles',
+    label: 'custom profiles',
+    readEntries: list => {
+      const { profiles, warnings } = readProfiles(list);
+      return { entries: profiles, warnings };
+    }
+  });
+  return { profiles: entries, writable, warnings };
+}
+
+/**
+ * Saves custom profiles to browser storage, returning whether they were written
+ */
+export function saveCustomProfiles(profiles: CustomCloudProfile[], storage: Storage | null = getBrowserStorage()): boolean {
+  const document: CustomProfileStore = { version: CUSTOM_PROFILE_SCHEMA_VERSION, profiles };
+  return saveStoredDocument(storage, CUSTOM_PROFILE_STORAGE_KEY, document, 'custom profiles');
+}
+
+/**
+ * Formats profiles as a JSON document for sharing with other users
+ */
+export function exportCustomProfiles(profiles: CustomCloudProfile[]): string {
+  const document: CustomProfileStore = { version: CUSTOM_PROFILE_SCHEMA_VERSION, profiles };
+  return JSON.stringify(document, null, 2);
+}
+
+/**
+ * Reads profiles from an exported JSON document, a list of profiles or a single profile
+ */
+export function parseCustomProfilesJSON(text: string): CustomProfileImportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Profiles file is not valid JSON');
+  }
+
+  let entries: unknown[];
+  if (Array.isArray(data)) {
+    entries = data;
+  } else if (isRecord(data) && Array.isArray(data.profiles)) {
+    if (typeof data.version === 'number' && data.version > CUSTOM_PROFILE_SCHEMA_VERSION) {
+      throw new Error('Profiles file was created by a newer version of the calculator');
+    }
+    entries = data.profiles;
+  } else if (isRecord(data)) {
+    entries = [data];
+  } else {
+    throw new Error('Profiles file must contain a profile or a list of profiles');
+  }
+
+  const result = readProfiles(entries);
+  if (result.profiles.length === 0) {
+    throw new Error(result.warnings[0] || 'Profiles file contains no profiles');
+  }
+  return result;
+}
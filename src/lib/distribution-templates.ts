@@ -0,0 +1,400 @@
+/**
+ * Distribution Template Functions
+ *
+ * This module lays out a VPC or VNet from a reusable pattern such as "3 AZs × (public,
+ * private, data) tiers". The parent network is split equally between regions, then between
+ * availability zones, and each zone block is divided between the tiers by weight, largest
+ * first, so every subnet stays aligned on its own size. Splits go through splitIPv4Subnet and
+ * splitIPv6Subnet; tier subnets are checked against the cloud provider's subnet sizes and
+ * named after their region, tier and zone. Space no tier needs is returned as unnamed spare
+ * subnets. Patterns saved by the user are kept in browser localStorage.
+ */
+
+import {
+  SubnetInfo,
+  SplitSubnet,
+  CloudMode,
+  IPVersion,
+  DistributionPattern,
+  DistributionPatternStore,
+  DistributionTier
+} from './types';
+import {
+  splitIPv4Subnet,
+  splitIPv6Subnet,
+  validateIPv4Split,
+  validateIPv6Split,
+  calculateSubnetDetailsFromNetwork
+} from './subnet-splitting';
+import { getCloudProvider } from './cloud-providers';
+import { addressToBigInt, detectIPVersion } from './cidr-ranges';
+import { generateSubnetId } from './utils';
+import { getBrowserStorage, isRecord, loadStoredList, saveStoredDocument } from './browser-storage';
+
+export const DISTRIBUTION_PATTERN_STORAGE_KEY = 'subnet_calculator_distribution_patterns';
+export const DISTRIBUTION_PATTERN_SCHEMA_VERSION = 1;
+export const MAX_PATTERN_NAME_LENGTH = 60;
+export const MAX_PATTERN_ENTRIES = 16; // Regions, zones or tiers in one pattern
+export const MAX_TIER_WEIGHT = 64;
+export const MAX_DISTRIBUTION_SUBNETS = 256;
+
+const PATTERN_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const ENTRY_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,31}$/;
+
+// Layouts offered before the user saves any of their own
+export const BUILT_IN_DISTRIBUTION_PATTERNS: DistributionPattern[] = [
+  {
+    id: 'builtin-2az-public-private',
+    name: '2 AZs × public, private',
+    regions: [],
+    zones: ['a', 'b'],
+    tiers: [{ name: 'public', weight: 1 }, { name: 'private', weight: 1 }]
+  },
+  {
+    id: 'builtin-3az-three-tier',
+    name: '3 AZs × public, private, data',
+    regions: [],
+    zones: ['a', 'b', 'c'],
+    tiers: [{ name: 'public', weight: 1 }, { name: 'private', weight: 2 }, { name: 'data', weight: 1 }]
+  },
+  {
+    id: 'builtin-3az-four-tier',
+    name: '3 AZs × public, private, data, transit',
+    regions: [],
+    zones: ['a', 'b', 'c'],
+    tiers: [
+      { name: 'public', weight: 2 },
+      { name: 'private', weight: 4 },
+      { name: 'data', weight: 1 },
+      { name: 'transit', weight: 1 }
+    ]
+  },
+  {
+    id: 'builtin-2region-3az',
+    name: '2 regions × 3 AZs × public, private',
+    regions: ['primary', 'secondary'],
+    zones: ['a', 'b', 'c'],
+    tiers: [{ name: 'public', weight: 1 }, { name: 'private', weight: 2 }]
+  }
+];
+
+export interface DistributionLayout {
+  subnets: SplitSubnet[]; // Tier subnets in address order, named and tagged with their region, zone and tier
+  spareSubnets: SplitSubnet[]; // Space left over in the zone and region blocks
+  blocks: SplitSubnet[]; // Region and zone blocks the tier subnets were carved from
+}
+
+export interface DistributionPatternLoadResult {
+  patterns: DistributionPattern[];
+  writable: boolean; // False when the stored document must not be overwritten
+  warnings: string[];
+}
+
+function generatePatternId(): string {
+  const timestamp = Date.now().toString(36);
+  const randomPart = Math.random().toString(36).substring(2, 8);
+  return `pattern_${timestamp}_${randomPart}`;
+}
+
+function isPowerOfTwo(value: number): boolean {
+  return Number.isInteger(value) && value >= 1 && (value & (value - 1)) === 0;
+}
+
+function nextPowerOfTwo(value: number): number {
+  return Math.pow(2, Math.ceil(Math.log2(value)));
+}
+
+function normalizeNames(value: unknown, label: string, required: boolean): string[] {
+  if (value === undefined && !required) {
+    return [];
+  }
+  if (!Array.isArray(value) || value.some(name => typeof name !== 'string')) {
+    throw new Error(`${label} must be a list of names`);
+  }
+
+  const names = value.map(name => (name as string).trim());
+  if (required && names.length === 0) {
+    throw new Error(`At least one ${label.toLowerCase().replace(/s$/, '')} is required`);
+  }
+  if (names.length > MAX_PATTERN_ENTRIES) {
+    throw new Error(`${label} are limited to ${MAX_PATTERN_ENTRIES}`);
+  }
+
+  const seen = new Set<string>();
+  names.forEach(name => {
+    if (!ENTRY_NAME_PATTERN.test(name)) {
+      throw new Error(`${label.replace(/s$/, '')} name "${name.slice(0, 32)}" must be 1 to 32 letters, digits, dots, hyphens or underscores`);
+    }
+    if (seen.has(name.toLowerCase())) {
+      throw new Error(`${label.replace(/s$/, '')} name "${name}" is used twice`);
+    }
+    seen.add(name.toLowerCase());
+  });
+  return names;
+}
+
+/**
+ * Validates a pattern and returns it with trimmed names
+ * Patterns without a valid ID, such as new ones from the editor, are given a new ID
+ */
+export function normalizeDistributionPattern(value: unknown): DistributionPattern {
+  if (!isRecord(value)) {
+    throw new Error('Pattern must be an object');
+  }
+
+  const name = typeof value.name === 'string' ? value.name.trim().replace(/\s+/g, ' ') : '';
+  if (!name) {
+    throw new Error('Pattern name is required');
+  }
+  if (name.length > MAX_PATTERN_NAME_LENGTH) {
+    throw new Error(`Pattern name must be ${MAX_PATTERN_NAME_LENGTH} characters or fewer`);
+  }
+
+  if (!Array.isArray(value.tiers)) {
+    throw new Error('Tiers must be a list');
+  }
+  const tierNames = normalizeNames(value.tiers.map(tier => isRecord(tier) ? tier.name : tier), 'Tiers', true);
+  const tiers: DistributionTier[] = value.tiers.map((tier, index) => {
+    const weight = isRecord(tier) && tier.weight !== undefined ? tier.weight : 1;
+    if (typeof weight !== 'number' || !isPowerOfTwo(weight) || weight > MAX_TIER_WEIGHT) {
+      throw new Error(`Weight of tier "${tierNames[index]}" must be 1, 2, 4 and so on up to ${MAX_TIER_WEIGHT}, so every tier stays aligned`);
+    }
+    return { name: tierNames[index], weight };
+  });
+
+  return {
+    id: typeof value.id === 'string' && PATTERN_ID_PATTERN.test(value.id) ? value.id : generatePatternId(),
+    name,
+    regions: normalizeNames(value.regions, 'Regions', false),
+    zones: normalizeNames(value.zones, 'Zones', true),
+    tiers
+  };
+}
+
+/**
+ * Reads a comma-separated list of names, such as "a, b, c"
+ */
+export function parseDistributionNames(input: string): string[] {
+  return input.split(/[\n,;]+/).map(name => name.trim()).filter(Boolean);
+}
+
+/**
+ * Reads tiers written as "name" or "name: weight", separated by commas
+ * "public, private: 2, data" gives the private tier twice the space of the others
+ */
+export function parseDistributionTiers(input: string): DistributionTier[] {
+  return parseDistributionNames(input).map(entry => {
+    const match = entry.match(/^(.+?)\s*(?:[:=]\s*(\d+))?$/);
+    const name = match ? match[1].trim() : entry;
+    return { name, weight: match && match[2] ? parseInt(match[2], 10) : 1 };
+  });
+}
+
+/**
+ * Formats tiers the way parseDistributionTiers reads them, leaving out weights of 1
+ */
+export function formatDistributionTiers(tiers: DistributionTier[]): string {
+  return tiers.map(tier => tier.weight === 1 ? tier.name : `${tier.name}: ${tier.weight}`).join(', ');
+}
+
+function toSubnetInfo(subnet: SplitSubnet): SubnetInfo {
+  return {
+    id: subnet.id,
+    network: subnet.network,
+    broadcast: subnet.broadcast,
+    firstHost: subnet.firstHost,
+    lastHost: subnet.lastHost,
+    subnetMask: '',
+    wildcardMask: '',
+    totalHosts: subnet.totalHosts,
+    usableHosts: subnet.usableHosts,
+    cidr: `/${subnet.cidr}`,
+    level: subnet.level
+  };
+}
+
+/**
+ * Splits a block into the next power of two of equal blocks with the calculator's own split
+ * functions. Blocks are split without cloud rules because only the tier subnets become
+ * cloud subnets; results are copied under new IDs since split results are memoized.
+ */
+function splitBlock(block: SubnetInfo, count: number, ipVersion: IPVersion): SplitSubnet[] {
+  const options = { splitType: 'equal' as const, splitCount: nextPowerOfTwo(count) };
+  const validation = ipVersion === 'ipv4' ? validateIPv4Split(block, options) : validateIPv6Split(block, options);
+  if (!validation.isValid) {
+    throw new Error(`Cannot split ${block.network}${block.cidr}: ${validation.errors[0]}`);
+  }
+
+  const result = ipVersion === 'ipv4' ? splitIPv4Subnet(block, options) : splitIPv6Subnet(block, options);
+  return result.subnets.map(subnet => ({ ...subnet, id: generateSubnetId() }));
+}
+
+/**
+ * Lays out the parent network following a pattern: regions, then zones, then weighted tiers
+ * Throws when the pattern is invalid, the network is too small for it, or the tier subnets
+ * fall outside the subnet sizes of the cloud mode.
+ */
+export function planDistribution(
+  parentSubnet: SubnetInfo,
+  pattern: DistributionPattern,
+  cloudMode: CloudMode = 'normal'
+): DistributionLayout {
+  const ipVersion = detectIPVersion(parentSubnet.network);
+  const parentPrefix = parseInt(parentSubnet.cidr.replace('/', ''), 10);
+  const addressBits = ipVersion === 'ipv6' ? 128 : 32;
+  if (!ipVersion || isNaN(parentPrefix) || parentPrefix < 0 || parentPrefix > addressBits) {
+    throw new Error('Distribution templates require a valid parent network');
+  }
+
+  const { regions, zones, tiers } = normalizeDistributionPattern(pattern);
+  const regionCount = Math.max(1, regions.length);
+  const units = nextPowerOfTwo(tiers.reduce((sum, tier) => sum + tier.weight, 0));
+  const zoneBits = Math.ceil(Math.log2(regionCount)) + Math.ceil(Math.log2(zones.length));
+
+  const subnetCount = regionCount * zones.length * tiers.length;
+  if (subnetCount > MAX_DISTRIBUTION_SUBNETS) {
+    throw new Error(`The pattern creates ${subnetCount} subnets, more than the limit of ${MAX_DISTRIBUTION_SUBNETS}`);
+  }
+
+  const tierPrefixes = tiers.map(tier => parentPrefix + zoneBits + Math.log2(units / tier.weight));
+  const longestPrefix = Math.max(...tierPrefixes);
+  if (longestPrefix > addressBits) {
+    throw new Error(`${parentSubnet.network}${parentSubnet.cidr} is too small for this pattern; its smallest tier would need a /${longestPrefix}`);
+  }
+
+  // Tier subnets become cloud subnets, so they must fit the provider's subnet sizes
+  const provider = getCloudProvider(cloudMode);
+  if (provider) {
+    tiers.forEach((tier, index) => {
+      const prefix = tierPrefixes[index];
+      if (ipVersion === 'ipv6' && prefix !== provider.ipv6.subnetPrefix) {
+        throw new Error(`The ${tier.name} tier would use /${prefix} subnets, but ${provider.name} IPv6 subnets must be /${provider.ipv6.subnetPrefix}`);
+      }
+      if (ipVersion === 'ipv4' && (prefix < provider.minCidr || prefix > provider.maxCidr)) {
+        throw new Error(`The ${tier.name} tier would use /${prefix} subnets, but ${provider.name} subnets must be between /${provider.minCidr} and /${provider.maxCidr}`);
+      }
+    });
+  }
+
+  const compareAddresses = (a: SplitSubnet, b: SplitSubnet) => {
+    const difference = addressToBigInt(a.network, ipVersion) - addressToBigInt(b.network, ipVersion);
+    return difference < BigInt(0) ? -1 : difference > BigInt(0) ? 1 : 0;
+  };
+
+  // Applies the cloud reservations; subnets carved by halving are re-parented to their zone block
+  const withDetails = (subnet: SplitSubnet, zoneBlock?: SplitSubnet, label?: string, tags?: string[]): SplitSubnet => ({
+    ...subnet,
+    ...calculateSubnetDetailsFromNetwork(subnet.network, subnet.cidr, ipVersion, cloudMode),
+    ...(zoneBlock ? { parentId: zoneBlock.id, level: zoneBlock.level + 1 } : {}),
+    ...(label ? { label } : {}),
+    ...(tags ? { metadata: { tags } } : {})
+  });
+
+  const subnets: SplitSubnet[] = [];
+  const spareSubnets: SplitSubnet[] = [];
+  const blocks: SplitSubnet[] = [];
+
+  // Splits a block between named regions or zones; blocks beyond the last name are spare space
+  const splitNamed = (parent: SubnetInfo, names: string[], key: 'region' | 'zone', prefixLabel: string[], prefixTags: string[]) => {
+    return splitBlock(parent, names.length, ipVersion).flatMap((part, index) => {
+      if (index >= names.length) {
+        spareSubnets.push(withDetails(part));
+        return [];
+      }
+      const labelParts = [...prefixLabel, names[index]];
+      const tags = [...prefixTags, `${key}=${names[index]}`];
+      const block: SplitSubnet = { ...part, label: labelParts.join('-'), metadata: { tags } };
+      blocks.push(block);
+      return [{ block, name: names[index], tags }];
+    });
+  };
+
+  const root: SubnetInfo = { ...parentSubnet, level: parentSubnet.level || 0 };
+  const regionBlocks = regions.length > 0
+    ? splitNamed(root, regions, 'region', [], [])
+    : [null];
+
+  regionBlocks.forEach(region => {
+    const zoneParent = region ? toSubnetInfo(region.block) : root;
+    const regionLabel = region ? [region.name] : [];
+
+    splitNamed(zoneParent, zones, 'zone', regionLabel, region ? region.tags : []).forEach(({ block: zoneBlock, name: zone, tags: zoneTags }) => {
+      // Largest tier first into the lowest free block, halving blocks until each tier fits
+      let free: SplitSubnet[] = [zoneBlock];
+      const order = tiers.map((tier, index) => ({ tier, prefix: tierPrefixes[index] }))
+        .sort((a, b) => a.prefix - b.prefix);
+
+      order.forEach(({ tier, prefix }) => {
+        const index = free.findIndex(candidate => candidate.cidr <= prefix);
+        let block = free[index];
+        free = free.filter((_, position) => position !== index);
+        while (block.cidr < prefix) {
+          const [lower, upper] = splitBlock(toSubnetInfo(block), 2, ipVersion);
+          free.push(upper);
+          block = lower;
+        }
+        free.sort(compareAddresses);
+
+        const label = [...regionLabel, tier.name, zone].join('-');
+        subnets.push(withDetails(block, zoneBlock, label, [...zoneTags, `tier=${tier.name}`]));
+      });
+
+      free.forEach(block => spareSubnets.push(withDetails(block, zoneBlock)));
+    });
+  });
+
+  return {
+    subnets: subnets.sort(compareAddresses),
+    spareSubnets: spareSubnets.sort(compareAddresses),
+    blocks: blocks.sort(compareAddresses)
+  };
+}
+
+/**
+ * Adds a pattern, or replaces the pattern with the same ID
+ */
+export function upsertDistributionPattern(patterns: DistributionPattern[], pattern: DistributionPattern): DistributionPattern[] {
+  return patterns.some(existing => existing.id === pattern.id)
+    ? patterns.map(existing => existing.id === pattern.id ? pattern : existing)
+    : [...patterns, pattern];
+}
+
+export function deleteDistributionPattern(patterns: DistributionPattern[], patternId: string): DistributionPattern[] {
+  return patterns.filter(pattern => pattern.id !== patternId);
+}
+
+/**
+ * Loads saved patterns from browser storage, skipping damaged ones with a warning
+ */
+export function loadDistributionPatterns(storage: Storage | null = getBrowserStorage()): DistributionPatternLoadResult {
+  const { entries, writable, warnings } = loadStoredList(storage, DISTRIBUTION_PATTERN_STORAGE_KEY, {
+    version: DISTRIBUTION_PATTERN_SCHEMA_VERSION,
+    listKey: 'patterns',
+    label: 'patterns',
+    readEntries: list => {
+      const patterns: DistributionPattern[] = [];
+      const skipped: string[] = [];
+      list.forEach((entry, index) => {
+        try {
+          const pattern = normalizeDistributionPattern(entry);
+          if (patterns.some(existing => existing.id === pattern.id)) {
+            throw new Error('Pattern ID is used by an earlier pattern');
+          }
+          patterns.push(pattern);
+        } catch (error) {
+          skipped.push(`Pattern ${index + 1} skipped: ${error instanceof Error ? error.message : 'invalid pattern'}`);
+        }
+      });
+      return { entries: patterns, warnings: skipped };
+    }
+  });
+  return { patterns: entries, writable, warnings };
+}
+
+/**
+ * Saves patterns to browser storage and reports whether the write succeeded
+ */
+export function saveDistributionPatterns(patterns: DistributionPattern[], storage: Storage | null = getBrowserStorage()): boolean {
+  const document: DistributionPatternStore = { version: DISTRIBUTION_PATTERN_SCHEMA_VERSION, patterns };
+  return saveStoredDocument(storage, DISTRIBUTION_PATTERN_STORAGE_KEY, document, 'distribution patterns');
+}
@@ -0,0 +1,160 @@
+/**
+ * Dual-Stack Functions
+ *
+ * This module pairs the leaf subnets of an IPv4 plan with IPv6 /64 subnets taken from a
+ * dual-stack IPv6 block, such as the /56 assigned to an AWS VPC. A leaf takes the /64 whose
+ * index matches its own index among the subnets of its size in the IPv4 base network, the
+ * cidrsubnet() convention of Terraform plans, so splitting the IPv4 network allocates the
+ * matching IPv6 subnets. When that /64 is outside the block or already paired, the lowest
+ * free /64 is used instead. Pairs are stored on the subnets so existing allocations do not
+ * move as the plan changes; a subnet that is split gives up its pair to its children.
+ */
+
+import { CloudMode, CIDRBlock, SplitSubnet } from './types';
+import { parseCIDR, formatCIDRBlock, addressToBigInt, createCIDRBlock } from './cidr-ranges';
+import { ipv4ToInt, validateCloudIPv6Network, getLeafSubnets } from './subnet-splitting';
+
+// Each dual-stack subnet gets one /64, the only IPv6 subnet size the cloud providers accept
+export const DUAL_STACK_SUBNET_PREFIX = 64;
+
+export interface DualStackPairingResult {
+  subnets: SplitSubnet[];
+  paired: number; // Leaves that received a new pair
+  unpaired: number; // Leaves left without a pair because the block has no free /64
+}
+
+/**
+ * Parses the IPv6 block of a dual-stack plan
+ * Host bits are cleared; throws when the block is not IPv6, smaller than a /64 or not
+ * assignable by the cloud provider.
+ */
+export function parseDualStackBlock(input: string, cloudMode: CloudMode = 'normal'): CIDRBlock {
+  const block = parseCIDR(input);
+  if (block.ipVersion !== 'ipv6') {
+    throw new Error('The dual-stack block must be an IPv6 prefix');
+  }
+  if (block.prefix > DUAL_STACK_SUBNET_PREFIX) {
+    throw new Error(`The dual-stack block must be a /${DUAL_STACK_SUBNET_PREFIX} or larger, not /${block.prefix}`);
+  }
+
+  const cloudError = validateCloudIPv6Network(block.network, block.prefix, cloudMode);
+  if (cloudError) {
+    throw new Error(cloudError);
+  }
+  return block;
+}
+
+/**
+ * Returns the /64 at the given index of the dual-stack block, in CIDR notation
+ */
+export function getDualStackPair(block: CIDRBlock, index: bigint): string {
+  const start = addressToBigInt(block.network, 'ipv6') + (index << BigInt(128 - DUAL_STACK_SUBNET_PREFIX));
+  return formatCIDRBlock(createCIDRBlock(start, DUAL_STACK_SUBNET_PREFIX, 'ipv6'));
+}
+
+/**
+ * Returns the index of a paired /64 within the dual-stack block, or null when it is not a /64 of the block
+ */
+export function getDualStackPairIndex(block: CIDRBlock, pairedIPv6: string): bigint | null {
+  let pair: CIDRBlock;
+  try {
+    pair = parseCIDR(pairedIPv6);
+  } catch {
+    return null;
+  }
+  if (pair.ipVersion !== 'ipv6' || pair.prefix !== DUAL_STACK_SUBNET_PREFIX) {
+    return null;
+  }
+
+  const offset = addressToBigInt(pair.network, 'ipv6') - addressToBigInt(block.network, 'ipv6');
+  const index = offset >> BigInt(128 - DUAL_STACK_SUBNET_PREFIX);
+  return offset >= BigInt(0) && index < getDualStackCapacity(block) ? index : null;
+}
+
+/**
+ * Returns the index of an IPv4 subnet among the subnets of its prefix length in the base network
+ */
+export function getMatchingPairIndex(subnet: Pick<SplitSubnet, 'network' | 'cidr'>, baseNetwork: string): bigint {
+  const offset = BigInt(ipv4ToInt(subnet.network)) - BigInt(ipv4ToInt(baseNetwork));
+  return offset >> BigInt(32 - subnet.cidr);
+}
+
+/**
+ * Returns the number of /64 subnets in the dual-stack block
+ */
+export function getDualStackCapacity(block: CIDRBlock): bigint {
+  return BigInt(1) << BigInt(DUAL_STACK_SUBNET_PREFIX - block.prefix);
+}
+
+function withPair(subnet: SplitSubnet, pairedIPv6: string | undefined): SplitSubnet {
+  if (subnet.pairedIPv6 === pairedIPv6) {
+    return subnet;
+  }
+  const rest = { ...subnet };
+  delete rest.pairedIPv6;
+  return pairedIPv6 ? { ...rest, pairedIPv6 } : rest;
+}
+
+/**
+ * Pairs every IPv4 leaf subnet of a plan with a /64 of the dual-stack block
+ * Valid existing pairs are kept; subnets with children lose theirs. Subnets are returned
+ * in their original order, unchanged objects where the pair did not change.
+ */
+export function assignDualStackPairs(subnets: SplitSubnet[], baseNetwork: string, block: CIDRBlock): DualStackPairingResult {
+  const leaves = getLeafSubnets(subnets).filter(subnet => subnet.ipVersion === 'ipv4');
+  const capacity = getDualStackCapacity(block);
+  const used = new Set<bigint>();
+  const pairs = new Map<string, string>();
+
+  for (const leaf of leaves) {
+    const index = leaf.pairedIPv6 ? getDualStackPairIndex(block, leaf.pairedIPv6) : null;
+    if (index !== null && !used.has(index)) {
+      used.add(index);
+      pairs.set(leaf.id, getDualStackPair(block, index));
+    }
+  }
+
+  // New pairs are allocated in address order so the fallback indices are predictable;
+  // matching indices are taken first so a fallback never claims another leaf's match
+  const pending = leaves
+    .filter(leaf => !pairs.has(leaf.id))
+    .sort((a, b) => ipv4ToInt(a.network) - ipv4ToInt(b.network) || a.cidr - b.cidr);
+  const fallback: SplitSubnet[] = [];
+
+  for (const leaf of pending) {
+    const index = getMatchingPairIndex(leaf, baseNetwork);
+    if (index >= BigInt(0) && index < capacity && !used.has(index)) {
+      used.add(index);
+      pairs.set(leaf.id, getDualStackPair(block, index));
+    } else {
+      fallback.push(leaf);
+    }
+  }
+
+  let nextFree = BigInt(0);
+  let unpaired = 0;
+  for (const leaf of fallback) {
+    while (nextFree < capacity && used.has(nextFree)) {
+      nextFree++;
+    }
+    if (nextFree >= capacity) {
+      unpaired++;
+      continue;
+    }
+    used.add(nextFree);
+    pairs.set(leaf.id, getDualStackPair(block, nextFree));
+  }
+
+  return {
+    subnets: subnets.map(subnet => withPair(subnet, pairs.get(subnet.id))),
+    paired: pending.length - unpaired,
+    unpaired
+  };
+}
+
+/**
+ * Removes the IPv6 pairs from a plan, used when it stops being dual-stack
+ */
+export function clearDualStackPairs(subnets: SplitSubnet[]): SplitSubnet[] {
+  return subnets.map(subnet => withPair(subnet, undefined));
+}
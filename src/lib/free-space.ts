@@ -0,0 +1,255 @@
+/**
+ * Free Space Functions
+ *
+ * This module finds unused, aligned blocks of a requested size in a subnet plan and
+ * allocates them. A subnet is free when it has no name, is in the free status and has
+ * no smaller subnets inside it; with no subnets at all the whole parent network is free.
+ * Allocating a block replaces the free subnet that holds it with the named block, marked
+ * allocated, and the minimal set of free blocks around it, which is the result of
+ * splitting the free subnet in halves until the requested size is reached. Metadata on
+ * the free subnet is kept on every piece.
+ */
+
+import {
+  SubnetInfo,
+  SplitSubnet,
+  SubnetMetadata,
+  CloudMode,
+  IPVersion,
+  FreeBlockStrategy,
+  FreeBlockSearchOptions
+} from './types';
+import { generateSubnetId } from './utils';
+import { calculateSubnetDetailsFromNetwork } from './subnet-splitting';
+import { getCloudProvider } from './cloud-providers';
+import { getSubnetStatus, transitionSubnetStatus } from './subnet-status';
+import { addressToBigInt, bigIntRangeToCIDRs, bigIntToAddress, detectIPVersion } from './cidr-ranges';
+
+// Default limit on the number of blocks listed by the 'all' strategy
+export const DEFAULT_MAX_FREE_BLOCK_RESULTS = 256;
+
+export interface FreeBlock {
+  network: string;
+  prefix: number;
+  ipVersion: IPVersion;
+  containerId: string; // Free subnet holding the block, or the parent id when there are no subnets
+}
+
+export interface FreeBlockSearchResult {
+  blocks: FreeBlock[]; // In address order; a single block for 'first' and 'best-fit'
+  strategy: FreeBlockStrategy;
+  truncated: boolean;
+}
+
+export interface FreeBlockAllocation {
+  subnets: SplitSubnet[]; // The complete plan with the free subnet replaced
+  allocated: SplitSubnet;
+  created: SplitSubnet[]; // The allocated block and the free blocks split off around it, in address order
+}
+
+interface FreeContainer {
+  id: string;
+  start: bigint;
+  prefix: number;
+  parentId: string | undefined;
+  level: number;
+  metadata?: SubnetMetadata;
+}
+
+interface ParentRange {
+  ipVersion: IPVersion;
+  prefix: number;
+  bits: number;
+}
+
+function getParentRange(parentSubnet: SubnetInfo): ParentRange {
+  const ipVersion = detectIPVersion(parentSubnet.network);
+  const prefix = parseInt(parentSubnet.cidr.replace('/', ''), 10);
+  if (!ipVersion || isNaN(prefix)) {
+    throw new Error(`Invalid parent subnet: ${parentSubnet.network}${parentSubnet.cidr}`);
+  }
+  return { ipVersion, prefix, bits: ipVersion === 'ipv4' ? 32 : 128 };
+}
+
+function getBlockSize(prefix: number, bits: number): bigint {
+  return BigInt(1) << BigInt(bits - prefix);
+}
+
+/**
+ * Checks whether a subnet is free: unnamed, in the free status, and not divided into smaller subnets in the plan
+ */
+export function isFreeSubnet(subnet: SplitSubnet, subnets: SplitSubnet[]): boolean {
+  if (subnet.label || getSubnetStatus(subnet) !== 'free') {
+    return false;
+  }
+
+  const bits = subnet.ipVersion === 'ipv4' ? 32 : 128;
+  const start = addressToBigInt(subnet.network, subnet.ipVersion);
+  const end = start + getBlockSize(subnet.cidr, bits) - BigInt(1);
+
+  return !subnets.some(other => {
+    if (other === subnet || other.ipVersion !== subnet.ipVersion || other.cidr <= subnet.cidr) {
+      return false;
+    }
+    const otherStart = addressToBigInt(other.network, other.ipVersion);
+    return otherStart >= start && otherStart <= end;
+  });
+}
+
+function getFreeContainers(parentSubnet: SubnetInfo, subnets: SplitSubnet[], parent: ParentRange): FreeContainer[] {
+  if (subnets.length === 0) {
+    return [{
+      id: parentSubnet.id || `${parentSubnet.network}${parentSubnet.cidr}`,
+      start: addressToBigInt(parentSubnet.network, parent.ipVersion),
+      prefix: parent.prefix,
+      parentId: parentSubnet.id,
+      level: (parentSubnet.level || 0) + 1
+    }];
+  }
+
+  return subnets
+    .filter(subnet => subnet.ipVersion === parent.ipVersion && isFreeSubnet(subnet, subnets))
+    .map(subnet => ({
+      id: subnet.id,
+      start: addressToBigInt(subnet.network, subnet.ipVersion),
+      prefix: subnet.cidr,
+      parentId: subnet.parentId,
+      level: subnet.level,
+      metadata: subnet.metadata
+    }))
+    .sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+}
+
+/**
+ * Validates a requested prefix length against the parent network and the cloud provider limits
+ */
+function validateRequestedPrefix(prefix: number, parent: ParentRange, cloudMode: CloudMode): void {
+  if (!Number.isInteger(prefix) || prefix < parent.prefix || prefix > parent.bits) {
+    throw new Error(`Prefix length must be between /${parent.prefix} and /${parent.bits}`);
+  }
+
+  const provider = getCloudProvider(cloudMode);
+  if (provider && parent.ipVersion === 'ipv4') {
+    if (prefix > provider.maxCidr) {
+      throw new Error(`${provider.name} subnets cannot be smaller than /${provider.maxCidr}`);
+    }
+    if (prefix < provider.minCidr) {
+      throw new Error(`${provider.name} subnets cannot be larger than /${provider.minCidr}`);
+    }
+  } else if (provider && prefix !== provider.ipv6.subnetPrefix) {
+    throw new Error(`${provider.name} IPv6 subnets must be /${provider.ipv6.subnetPrefix}`);
+  }
+}
+
+/**
+ * Finds aligned free blocks of the requested prefix length
+ * 'first' returns the lowest-addressed block, 'best-fit' the block in the smallest free
+ * subnet that fits (lowest address on ties), and 'all' every aligned block up to maxResults.
+ * Throws when the prefix length is invalid for the parent network or cloud provider.
+ */
+export function findFreeBlocks(
+  parentSubnet: SubnetInfo,
+  subnets: SplitSubnet[],
+  options: FreeBlockSearchOptions,
+  cloudMode: CloudMode = 'normal'
+): FreeBlockSearchResult {
+  const parent = getParentRange(parentSubnet);
+  const { prefix, strategy = 'first', maxResults = DEFAULT_MAX_FREE_BLOCK_RESULTS } = options;
+  validateRequestedPrefix(prefix, parent, cloudMode);
+
+  const containers = getFreeContainers(parentSubnet, subnets, parent).filter(container => container.prefix <= prefix);
+  const toBlock = (container: FreeContainer, start: bigint): FreeBlock => ({
+    network: bigIntToAddress(start, parent.ipVersion),
+    prefix,
+    ipVersion: parent.ipVersion,
+    containerId: container.id
+  });
+
+  if (strategy !== 'all') {
+    const container = strategy === 'best-fit'
+      ? containers.reduce<FreeContainer | undefined>((best, candidate) => (!best || candidate.prefix > best.prefix ? candidate : best), undefined)
+      : containers[0];
+    return { blocks: container ? [toBlock(container, container.start)] : [], strategy, truncated: false };
+  }
+
+  const blocks: FreeBlock[] = [];
+  const blockSize = getBlockSize(prefix, parent.bits);
+  for (const container of containers) {
+    const end = container.start + getBlockSize(container.prefix, parent.bits);
+    for (let start = container.start; start < end; start += blockSize) {
+      if (blocks.length >= maxResults) {
+        return { blocks, strategy, truncated: true };
+      }
+      blocks.push(toBlock(container, start));
+    }
+  }
+
+  return { blocks, strategy, truncated: false };
+}
+
+/**
+ * Allocates a free block found by findFreeBlocks under the given name
+ * The free subnet holding the block is split so that only the block itself is named.
+ * Throws when the name is empty or the block is no longer free in the plan.
+ */
+export function allocateFreeBlock(
+  parentSubnet: SubnetInfo,
+  subnets: SplitSubnet[],
+  block: FreeBlock,
+  label: string,
+  cloudMode: CloudMode = 'normal'
+): FreeBlockAllocation {
+  const name = label.trim();
+  if (!name) {
+    throw new Error('A name is required for the allocated subnet');
+  }
+
+  const parent = getParentRange(parentSubnet);
+  validateRequestedPrefix(block.prefix, parent, cloudMode);
+
+  const blockStart = addressToBigInt(block.network, parent.ipVersion);
+  const blockEnd = blockStart + getBlockSize(block.prefix, parent.bits) - BigInt(1);
+  const container = getFreeContainers(parentSubnet, subnets, parent).find(candidate => candidate.id === block.containerId);
+  const containerEnd = container ? container.start + getBlockSize(container.prefix, parent.bits) - BigInt(1) : BigInt(-1);
+  if (
+    !container ||
+    block.ipVersion !== parent.ipVersion ||
+    blockStart < container.start ||
+    blockEnd > containerEnd ||
+    blockStart % getBlockSize(block.prefix, parent.bits) !== BigInt(0)
+  ) {
+    throw new Error(`${block.network}/${block.prefix} is no longer free`);
+  }
+
+  const createSubnet = (start: bigint, prefix: number, subnetLabel?: string): SplitSubnet => ({
+    id: generateSubnetId(),
+    ...calculateSubnetDetailsFromNetwork(bigIntToAddress(start, parent.ipVersion), prefix, parent.ipVersion, cloudMode),
+    parentId: container.parentId,
+    level: container.level,
+    isSelected: false,
+    ...(subnetLabel ? { label: subnetLabel } : {}),
+    ...(container.metadata ? { metadata: container.metadata } : {}),
+    ipVersion: parent.ipVersion
+  });
+
+  const allocated = transitionSubnetStatus(createSubnet(blockStart, block.prefix, name), 'allocated');
+  const before = blockStart > container.start
+    ? bigIntRangeToCIDRs(container.start, blockStart - BigInt(1), parent.ipVersion)
+    : [];
+  const after = blockEnd < containerEnd
+    ? bigIntRangeToCIDRs(blockEnd + BigInt(1), containerEnd, parent.ipVersion)
+    : [];
+  const created = [
+    ...before.map(free => createSubnet(addressToBigInt(free.network, parent.ipVersion), free.prefix)),
+    allocated,
+    ...after.map(free => createSubnet(addressToBigInt(free.network, parent.ipVersion), free.prefix))
+  ];
+
+  // The new subnets take the place of the free subnet so the rest of the plan keeps its order
+  const index = subnets.findIndex(subnet => subnet.id === container.id);
+  const updated = index === -1
+    ? created
+    : [...subnets.slice(0, index), ...created, ...subnets.slice(index + 1)];
+
+  return { subnets: updated, allocated, created };
+}
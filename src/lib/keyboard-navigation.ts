@@ -530,12 +530,67 @@ export function useSubnetKeyboardShortcuts() {
       },
       description: 'Show keyboard shortcuts help',
       category: 'Help'
+    },
+    {
+      key: 'z',
+      ctrlKey: true,
+      action: () => {
+        const undoButton = document.querySelector('[data-action="undo-operation"]') as HTMLElement;
+        undoButton?.click();
+      },
+      description: 'Undo last subnet operation',
+      category: 'History'
+    },
+    {
+      key: 'y',
+      ctrlKey: true,
+      action: () => {
+        const redoButton = document.querySelector('[data-action="redo-operation"]') as HTMLElement;
+        redoButton?.click();
+      },
+      description: 'Redo subnet operation',
+      category: 'History'
     }
   ];
 
   return shortcuts;
 }
 
+/**
+ * Hook for registering keyboard shortcuts that apply anywhere on the page
+ * Shortcuts are ignored while typing in text fields so native editing keys keep working
+ */
+export function useGlobalKeyboardShortcuts(shortcuts: KeyboardShortcut[], enabled: boolean = true) {
+  const shortcutsRef = useRef(shortcuts);
+  shortcutsRef.current = shortcuts;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) {
+        return;
+      }
+
+      const matchingShortcut = shortcutsRef.current.find(shortcut =>
+        shortcut.key.toLowerCase() === event.key.toLowerCase() &&
+        !!shortcut.ctrlKey === (event.ctrlKey || (!shortcut.metaKey && event.metaKey)) &&
+        !!shortcut.altKey === event.altKey &&
+        !!shortcut.shiftKey === event.shiftKey
+      );
+
+      if (matchingShortcut) {
+        event.preventDefault();
+        matchingShortcut.action();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+}
+
 /**
  * Component for displaying keyboard shortcuts help
  */
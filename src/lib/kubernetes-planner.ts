@@ -0,0 +1,483 @@
+/**
+ * Kubernetes Network Planning Functions
+ *
+ * This module sizes the node subnets, pod CIDR and service CIDR of a Kubernetes cluster
+ * and carves them from a parent IPv4 network. How many addresses a node needs depends on
+ * the networking model: overlay and kubenet clusters give each node a pod range of
+ * --node-cidr-mask-size outside the node subnets, the AWS VPC CNI and Azure CNI take pod
+ * addresses from the node subnets themselves, and GKE places pods and services in
+ * secondary ranges of the node subnet. Ranges are placed with the same aligned,
+ * largest-first allocation as the VLSM planner, so they never overlap each other.
+ * Pod and service CIDRs that a platform requires to stay out of the VPC or VNet are
+ * placed in private address space outside the parent network instead.
+ */
+
+import {
+  SubnetInfo,
+  SplitSubnet,
+  CloudMode,
+  KubernetesNetworkModel,
+  KubernetesPlanOptions
+} from './types';
+import { generateSubnetId } from './utils';
+import {
+  ipv4ToInt,
+  intToIPv4,
+  calculateSubnetDetailsFromNetwork
+} from './subnet-splitting';
+import { CloudProviderId, CLOUD_PROVIDERS } from './cloud-providers';
+import { aggregateCIDRs, bigIntRangeToCIDRs, createCIDRBlock, detectIPVersion, parseCIDR } from './cidr-ranges';
+import { AlignedBlock, allocateAlignedBlocks, allocateFromFreeBlocks, getRequiredPrefix } from './vlsm-planner';
+
+export interface KubernetesNetworkModelConfig {
+  name: string;
+  description: string;
+  provider: CloudProviderId | null; // Cloud mode whose reservations apply to the node subnets
+  podsInNodeSubnets: boolean; // Pods take addresses from the node subnets instead of a pod CIDR
+  regionalSubnets: boolean; // One node subnet spans every zone
+  nodeCidrMaskSize: number | 'derived' | 'configurable'; // Size of the pod range given to each node
+  outsideNetwork: Array<'pods' | 'services'>; // Ranges that must not overlap the VPC or VNet
+  defaultMaxPods: number;
+  minPods: number;
+  maxPods: number;
+  maxNodes: number;
+}
+
+export const KUBERNETES_NETWORK_MODELS: Record<KubernetesNetworkModel, KubernetesNetworkModelConfig> = {
+  overlay: {
+    name: 'Overlay or kubenet',
+    description: 'Each node gets a pod range of --node-cidr-mask-size from the cluster CIDR; only node addresses come from the network',
+    provider: null,
+    podsInNodeSubnets: false,
+    regionalSubnets: false,
+    nodeCidrMaskSize: 'configurable',
+    outsideNetwork: [],
+    defaultMaxPods: 110,
+    minPods: 1,
+    maxPods: 250,
+    maxNodes: 5000
+  },
+  'aws-vpc-cni': {
+    name: 'EKS VPC CNI (secondary IPs)',
+    description: 'Every pod takes a VPC address from its node subnet, attached to the node through its ENIs',
+    provider: 'aws',
+    podsInNodeSubnets: true,
+    regionalSubnets: false,
+    nodeCidrMaskSize: 'derived',
+    outsideNetwork: ['services'],
+    defaultMaxPods: 29,
+    minPods: 1,
+    maxPods: 250,
+    maxNodes: 5000
+  },
+  'aws-vpc-cni-prefix': {
+    name: 'EKS VPC CNI (prefix delegation)',
+    description: 'Nodes claim /28 prefixes from their subnet and give each pod an address from them',
+    provider: 'aws',
+    podsInNodeSubnets: true,
+    regionalSubnets: false,
+    nodeCidrMaskSize: 'derived',
+    outsideNetwork: ['services'],
+    defaultMaxPods: 110,
+    minPods: 1,
+    maxPods: 250,
+    maxNodes: 5000
+  },
+  gke: {
+    name: 'GKE VPC-native',
+    description: 'Nodes use the subnet primary range; pods and services use its secondary ranges',
+    provider: 'gcp',
+    podsInNodeSubnets: false,
+    regionalSubnets: true,
+    nodeCidrMaskSize: 'derived',
+    outsideNetwork: [],
+    defaultMaxPods: 110,
+    minPods: 8,
+    maxPods: 256,
+    maxNodes: 15000
+  },
+  'azure-cni': {
+    name: 'AKS Azure CNI',
+    description: 'Every pod takes a VNet address from the node subnet, reserved up front for max pods',
+    provider: 'azure',
+    podsInNodeSubnets: true,
+    regionalSubnets: true,
+    nodeCidrMaskSize: 'derived',
+    outsideNetwork: ['services'],
+    defaultMaxPods: 30,
+    minPods: 10,
+    maxPods: 250,
+    maxNodes: 5000
+  },
+  'azure-kubenet': {
+    name: 'AKS kubenet',
+    description: 'Each node gets a /24 from the pod CIDR, routed through a route table that holds at most 400 nodes',
+    provider: 'azure',
+    podsInNodeSubnets: false,
+    regionalSubnets: true,
+    nodeCidrMaskSize: 24,
+    outsideNetwork: ['pods', 'services'],
+    defaultMaxPods: 110,
+    minPods: 10,
+    maxPods: 250,
+    maxNodes: 400
+  }
+};
+
+// Network interface limits of an m5.large, the usual starting point for EKS node groups
+export const DEFAULT_AWS_ENI_LIMITS = { eniCount: 3, ipsPerEni: 10 };
+
+// Largest IPv4 service CIDR the Kubernetes API server accepts
+const MAX_SERVICE_PREFIX = 12;
+
+// Smallest service CIDR EKS accepts
+const EKS_MIN_SERVICE_PREFIX = 24;
+
+// Private ranges searched, in order, for pod and service CIDRs placed outside the parent network
+const OUTSIDE_NETWORK_RANGES = ['10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16'];
+
+// Pods on the host network (aws-node and kube-proxy) that the EKS max pods formula adds back
+const AWS_HOST_NETWORK_PODS = 2;
+
+// Addresses in each prefix delegated by the VPC CNI
+const AWS_PREFIX_SIZE = 16;
+
+export interface KubernetesCapacity {
+  nodes: number; // Nodes the node subnets and pod CIDR can hold, surge nodes included
+  podsPerNode: number; // Pods per node after network interface and pod range limits
+  pods: number; // Cluster-wide pod capacity
+  addressesPerNode: number; // Node subnet addresses each node consumes
+  nodeCidrMaskSize: number | null; // Pod range given to each node, null when pods use node subnet addresses
+  services: number; // Service IPs in the service CIDR
+}
+
+export interface KubernetesPlanResult {
+  subnets: SplitSubnet[]; // Node subnets, pod CIDR and service CIDR in address order
+  externalSubnets: SplitSubnet[]; // Pod and service CIDRs placed outside the parent network
+  freeSubnets: SplitSubnet[]; // Space left over as the minimal set of blocks
+  capacity: KubernetesCapacity;
+  warnings: string[];
+  notes: string[]; // How to use each range when creating the cluster
+}
+
+/**
+ * Highest max pods value the AWS VPC CNI supports for an instance's network interfaces
+ * Follows the EKS formula ENIs × (addresses per ENI − 1) + 2, where prefix delegation
+ * turns every secondary address slot into a /28 prefix
+ */
+export function getAwsMaxPods(eniCount: number, ipsPerEni: number, prefixDelegation = false): number {
+  const slots = eniCount * (ipsPerEni - 1);
+  return slots * (prefixDelegation ? AWS_PREFIX_SIZE : 1) + AWS_HOST_NETWORK_PODS;
+}
+
+/**
+ * Per-node pod range that holds at least twice the max pods, the headroom upstream
+ * Kubernetes and GKE keep so addresses are not reused immediately as pods churn
+ */
+export function getNodeCidrMaskSize(maxPodsPerNode: number): number {
+  return 32 - Math.ceil(Math.log2(maxPodsPerNode * 2));
+}
+
+/**
+ * Node subnet addresses one node consumes under the given networking model, including
+ * the node's own address and the warm ENI or prefix the AWS VPC CNI keeps attached
+ */
+export function getAddressesPerNode(options: KubernetesPlanOptions): number {
+  const pods = options.maxPodsPerNode;
+
+  switch (options.networkModel) {
+    case 'aws-vpc-cni':
+    case 'aws-vpc-cni-prefix': {
+      const { eniCount, ipsPerEni } = getEniLimits(options);
+      const podAddresses = Math.max(0, pods - AWS_HOST_NETWORK_PODS);
+      const slotsPerEni = ipsPerEni - 1;
+
+      if (options.networkModel === 'aws-vpc-cni') {
+        const enis = Math.min(eniCount, Math.max(1, Math.ceil(podAddresses / slotsPerEni)) + 1);
+        return enis * ipsPerEni;
+      }
+
+      // Each ENI keeps its primary address; pod addresses come from the prefixes in its slots
+      const prefixes = Math.min(eniCount * slotsPerEni, Math.ceil(podAddresses / AWS_PREFIX_SIZE) + 1);
+      const enis = Math.max(1, Math.ceil(prefixes / slotsPerEni));
+      return enis + prefixes * AWS_PREFIX_SIZE;
+    }
+    case 'azure-cni':
+      return pods + 1;
+    default:
+      return 1;
+  }
+}
+
+function getEniLimits(options: KubernetesPlanOptions): { eniCount: number; ipsPerEni: number } {
+  return {
+    eniCount: options.eniCount ?? DEFAULT_AWS_ENI_LIMITS.eniCount,
+    ipsPerEni: options.ipsPerEni ?? DEFAULT_AWS_ENI_LIMITS.ipsPerEni
+  };
+}
+
+/**
+ * Aligned free blocks of the private ranges that do not overlap the parent network
+ */
+function getBlocksOutsideParent(parentStart: number, parentPrefix: number): AlignedBlock[] {
+  const parentEnd = parentStart + Math.pow(2, 32 - parentPrefix) - 1;
+
+  return OUTSIDE_NETWORK_RANGES.flatMap(range => {
+    const { network, prefix } = parseCIDR(range);
+    const start = ipv4ToInt(network);
+    const end = start + Math.pow(2, 32 - prefix) - 1;
+    if (parentEnd < start || parentStart > end) {
+      return [{ start, prefix }];
+    }
+    return [
+      ...(parentStart > start ? bigIntRangeToCIDRs(BigInt(start), BigInt(parentStart - 1), 'ipv4') : []),
+      ...(parentEnd < end ? bigIntRangeToCIDRs(BigInt(parentEnd + 1), BigInt(end), 'ipv4') : [])
+    ].map(block => ({ start: ipv4ToInt(block.network), prefix: block.prefix }));
+  });
+}
+
+function requireWholeNumber(value: number, min: number, max: number, label: string): void {
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new Error(`${label} must be a whole number between ${min.toLocaleString()} and ${max.toLocaleString()}`);
+  }
+}
+
+/**
+ * Sizes and places the node subnets, pod CIDR and service CIDR of a cluster inside the
+ * parent network. Node subnets follow the reservations and size limits of the cloud mode.
+ * Throws when an option is out of range or the ranges do not fit in the parent network.
+ */
+export function planKubernetesNetwork(
+  parentSubnet: SubnetInfo,
+  options: KubernetesPlanOptions,
+  cloudMode: CloudMode = 'normal'
+): KubernetesPlanResult {
+  const parentPrefix = parseInt(parentSubnet.cidr.replace('/', ''), 10);
+  if (detectIPVersion(parentSubnet.network) !== 'ipv4' || isNaN(parentPrefix) || parentPrefix < 0 || parentPrefix > 32) {
+    throw new Error('Kubernetes planning requires an IPv4 parent network');
+  }
+
+  const model = KUBERNETES_NETWORK_MODELS[options.networkModel];
+  if (!model) {
+    throw new Error(`Unknown Kubernetes networking model: ${options.networkModel}`);
+  }
+
+  const zones = model.regionalSubnets ? 1 : options.zones ?? 1;
+  const surgeNodes = options.surgeNodes ?? 0;
+  requireWholeNumber(options.maxNodes, 1, model.maxNodes, `Max nodes for ${model.name}`);
+  requireWholeNumber(options.maxPodsPerNode, model.minPods, model.maxPods, `Max pods per node for ${model.name}`);
+  requireWholeNumber(options.maxServices, 1, Math.pow(2, 32 - MAX_SERVICE_PREFIX) - 2, 'Max services');
+  requireWholeNumber(zones, 1, 6, 'Zones');
+  requireWholeNumber(surgeNodes, 0, 1000, 'Surge nodes');
+
+  const warnings: string[] = [];
+  let podsPerNode = options.maxPodsPerNode;
+
+  if (options.networkModel === 'aws-vpc-cni' || options.networkModel === 'aws-vpc-cni-prefix') {
+    const { eniCount, ipsPerEni } = getEniLimits(options);
+    requireWholeNumber(eniCount, 1, 64, 'Network interfaces per node');
+    requireWholeNumber(ipsPerEni, 2, 64, 'Addresses per network interface');
+
+    const eniLimit = getAwsMaxPods(eniCount, ipsPerEni, options.networkModel === 'aws-vpc-cni-prefix');
+    if (podsPerNode > eniLimit) {
+      warnings.push(`${eniCount} network interfaces with ${ipsPerEni} addresses each support at most ${eniLimit} pods per node`);
+      podsPerNode = eniLimit;
+    }
+    if (podsPerNode > 110) {
+      warnings.push('EKS recommends at most 110 pods per node on instance types with fewer than 30 vCPUs');
+    }
+  } else if (options.networkModel === 'overlay' && podsPerNode > 110) {
+    warnings.push('Kubernetes is tested with at most 110 pods per node');
+  }
+
+  // Per-node pod ranges for the models that keep pods outside the node subnets
+  let nodeCidrMaskSize: number | null = null;
+  if (!model.podsInNodeSubnets) {
+    nodeCidrMaskSize = typeof model.nodeCidrMaskSize === 'number'
+      ? model.nodeCidrMaskSize
+      : options.nodeCidrMaskSize ?? getNodeCidrMaskSize(podsPerNode);
+
+    if (model.nodeCidrMaskSize === 'configurable' && options.nodeCidrMaskSize !== undefined) {
+      requireWholeNumber(nodeCidrMaskSize, 16, 30, 'Node CIDR mask size');
+    }
+    const podAddresses = Math.pow(2, 32 - nodeCidrMaskSize) - 2;
+    if (podAddresses < podsPerNode) {
+      throw new Error(`A /${nodeCidrMaskSize} per node leaves ${podAddresses} pod addresses, fewer than ${podsPerNode} pods per node`);
+    }
+  }
+
+  const nodeCount = options.maxNodes + surgeNodes;
+  const addressesPerNode = getAddressesPerNode({ ...options, maxPodsPerNode: podsPerNode });
+  const nodeHosts = Math.ceil(nodeCount / zones) * addressesPerNode;
+
+  let nodePrefix: number;
+  try {
+    nodePrefix = getRequiredPrefix(nodeHosts, cloudMode);
+  } catch (error) {
+    throw new Error(`Node subnets: ${error instanceof Error ? error.message : 'cannot be sized'}`);
+  }
+  const podPrefix = nodeCidrMaskSize === null ? null : nodeCidrMaskSize - Math.ceil(Math.log2(nodeCount));
+  const servicePrefix = Math.min(
+    32 - Math.ceil(Math.log2(options.maxServices + 2)),
+    model.provider === 'aws' ? EKS_MIN_SERVICE_PREFIX : 32
+  );
+
+  if (podPrefix !== null && podPrefix < 0) {
+    throw new Error(`${nodeCount.toLocaleString()} nodes with a /${nodeCidrMaskSize} each exceed the IPv4 address space`);
+  }
+
+  const ranges: { label: string; prefix: number; description: string; cloudMode: CloudMode; outside: boolean }[] = [];
+  for (let zone = 0; zone < zones; zone++) {
+    ranges.push({
+      label: zones === 1 ? 'nodes' : `nodes-${String.fromCharCode(97 + zone)}`,
+      prefix: nodePrefix,
+      description: model.podsInNodeSubnets ? 'Kubernetes node and pod subnet' : 'Kubernetes node subnet',
+      cloudMode,
+      outside: false
+    });
+  }
+  if (podPrefix !== null) {
+    ranges.push({
+      label: 'pods',
+      prefix: podPrefix,
+      description: `Kubernetes pod CIDR, /${nodeCidrMaskSize} per node`,
+      cloudMode: 'normal',
+      outside: model.outsideNetwork.includes('pods')
+    });
+  }
+  ranges.push({
+    label: 'services',
+    prefix: servicePrefix,
+    description: 'Kubernetes service CIDR',
+    cloudMode: 'normal',
+    outside: model.outsideNetwork.includes('services')
+  });
+
+  const blockSize = (prefix: number) => Math.pow(2, 32 - prefix);
+  const parentStart = ipv4ToInt(parentSubnet.network) - (ipv4ToInt(parentSubnet.network) % blockSize(parentPrefix));
+  const insideRanges = ranges.filter(range => !range.outside);
+  const outsideRanges = ranges.filter(range => range.outside);
+  const { starts, freeBlocks } = allocateAlignedBlocks(parentStart, parentPrefix, insideRanges.map(range => range.prefix));
+
+  if (starts.some(start => start === null)) {
+    const needed = insideRanges.reduce((sum, range) => sum + blockSize(range.prefix), 0);
+    const sizes = [
+      `${zones === 1 ? 'a' : `${zones} ×`} /${nodePrefix} node subnet${zones === 1 ? '' : 's'}`,
+      ...insideRanges.filter(range => range.label === 'pods').map(range => `a /${range.prefix} pod CIDR`),
+      ...insideRanges.filter(range => range.label === 'services').map(range => `a /${range.prefix} service CIDR`)
+    ];
+    throw new Error(
+      `The cluster needs ${needed.toLocaleString()} addresses (${sizes.join(', ')}) but ${parentSubnet.network}${parentSubnet.cidr} has ${blockSize(parentPrefix).toLocaleString()}`
+    );
+  }
+
+  // Ranges that must not overlap the VPC or VNet go in private space outside the parent network
+  const outsideStarts = allocateFromFreeBlocks(getBlocksOutsideParent(parentStart, parentPrefix), outsideRanges.map(range => range.prefix)).starts;
+  outsideRanges.forEach((range, index) => {
+    if (outsideStarts[index] === null) {
+      throw new Error(`No private address space outside ${parentSubnet.network}${parentSubnet.cidr} is left for a /${range.prefix} ${range.label === 'pods' ? 'pod' : 'service'} CIDR`);
+    }
+  });
+
+  const createSubnet = (start: number, prefix: number, subnetCloudMode: CloudMode, label?: string, description?: string): SplitSubnet => ({
+    id: generateSubnetId(),
+    ...calculateSubnetDetailsFromNetwork(intToIPv4(start), prefix, 'ipv4', subnetCloudMode),
+    parentId: parentSubnet.id,
+    level: (parentSubnet.level || 0) + 1,
+    isSelected: false,
+    ...(label ? { label } : {}),
+    ...(description ? { metadata: { description } } : {}),
+    ipVersion: 'ipv4'
+  });
+
+  const placed = [
+    ...insideRanges.map((range, index) => ({ range, start: starts[index] as number })),
+    ...outsideRanges.map((range, index) => ({ range, start: outsideStarts[index] as number }))
+  ].map(({ range, start }) => ({
+    range,
+    subnet: createSubnet(start, range.prefix, range.cloudMode, range.label, range.description)
+  }));
+  const nodeSubnets = placed.filter(({ range }) => range.label.startsWith('nodes')).map(({ subnet }) => subnet);
+  const podSubnet = placed.find(({ range }) => range.label === 'pods')?.subnet ?? null;
+  const serviceSubnet = placed.find(({ range }) => range.label === 'services')!.subnet;
+
+  const freeSubnets = aggregateCIDRs(freeBlocks.map(block => createCIDRBlock(BigInt(block.start), block.prefix, 'ipv4')))
+    .map(block => createSubnet(ipv4ToInt(block.network), block.prefix, cloudMode));
+
+  // Capacity is limited by whichever runs out first: node subnet addresses or per-node pod ranges
+  let nodes = nodeSubnets.reduce((sum, subnet) => sum + Math.floor(subnet.usableHosts / addressesPerNode), 0);
+  if (podPrefix !== null && nodeCidrMaskSize !== null) {
+    nodes = Math.min(nodes, Math.pow(2, nodeCidrMaskSize - podPrefix));
+  }
+  nodes = Math.min(nodes, model.maxNodes + surgeNodes);
+
+  if (model.provider && cloudMode !== model.provider) {
+    warnings.push(`Node subnets are sized without ${CLOUD_PROVIDERS[model.provider].name} reservations; switch to ${CLOUD_PROVIDERS[model.provider].name} mode for exact sizes`);
+  }
+
+  const cidr = (subnet: SplitSubnet) => `${subnet.network}/${subnet.cidr}`;
+  const nodeList = nodeSubnets.map(cidr).join(', ');
+  const serviceRange = cidr(serviceSubnet);
+  const dnsServiceIP = intToIPv4(ipv4ToInt(serviceSubnet.network) + 10);
+  const podRange = podSubnet ? cidr(podSubnet) : '';
+  const notes: string[] = [];
+
+  switch (options.networkModel) {
+    case 'overlay':
+      notes.push(
+        `Create node subnets ${nodeList}; the pod and service ranges are not routed on the network`,
+        `kube-controller-manager: --allocate-node-cidrs=true --cluster-cidr=${podRange} --node-cidr-mask-size=${nodeCidrMaskSize}`,
+        `kube-apiserver: --service-cluster-ip-range=${serviceRange}`
+      );
+      break;
+    case 'aws-vpc-cni':
+    case 'aws-vpc-cni-prefix':
+      notes.push(
+        `Create node subnets ${nodeList} in the VPC, one per availability zone; pods take addresses from them`,
+        `Set the cluster service IPv4 CIDR to ${serviceRange}; it must not overlap the VPC CIDR`,
+        `Set max pods to ${podsPerNode} in the node group launch template`
+      );
+      if (options.networkModel === 'aws-vpc-cni-prefix') {
+        notes.push('Set ENABLE_PREFIX_DELEGATION=true on the aws-node DaemonSet; nodes claim aligned /28 prefixes, so keep the node subnets free of scattered static addresses');
+      }
+      break;
+    case 'gke':
+      notes.push(
+        `Create the subnet with primary range ${nodeList} and secondary ranges pods (${podRange}) and services (${serviceRange})`,
+        `gcloud container clusters create --enable-ip-alias --cluster-secondary-range-name=pods --services-secondary-range-name=services --default-max-pods-per-node=${podsPerNode}`
+      );
+      break;
+    case 'azure-cni':
+      notes.push(
+        `Create node subnet ${nodeList} in the VNet; every node reserves ${addressesPerNode} addresses from it when it joins`,
+        `az aks create --network-plugin azure --vnet-subnet-id <subnet ${nodeList}> --max-pods ${podsPerNode} --service-cidr ${serviceRange} --dns-service-ip ${dnsServiceIP}`,
+        'The service CIDR must not overlap the VNet address space'
+      );
+      break;
+    case 'azure-kubenet':
+      notes.push(
+        `Create node subnet ${nodeList} in the VNet and attach the cluster route table to it`,
+        `az aks create --network-plugin kubenet --vnet-subnet-id <subnet ${nodeList}> --max-pods ${podsPerNode} --pod-cidr ${podRange} --service-cidr ${serviceRange} --dns-service-ip ${dnsServiceIP}`,
+        'The pod and service CIDRs must not overlap the VNet address space'
+      );
+      break;
+  }
+
+  const byAddress = (a: SplitSubnet, b: SplitSubnet) => ipv4ToInt(a.network) - ipv4ToInt(b.network);
+
+  return {
+    subnets: placed.filter(({ range }) => !range.outside).map(({ subnet }) => subnet).sort(byAddress),
+    externalSubnets: placed.filter(({ range }) => range.outside).map(({ subnet }) => subnet).sort(byAddress),
+    freeSubnets,
+    capacity: {
+      nodes,
+      podsPerNode,
+      pods: nodes * podsPerNode,
+      addressesPerNode,
+      nodeCidrMaskSize,
+      services: serviceSubnet.totalHosts - 2
+    },
+    warnings,
+    notes
+  };
+}
@@ -0,0 +1,103 @@
+/**
+ * Operation History Functions
+ *
+ * This module implements the undo/redo stack for subnet management. Each recorded
+ * SubnetOperation is stored with a snapshot of the complete subnet list it produced,
+ * so any point in the history can be restored directly without replaying operations.
+ * All functions are pure and return a new history object.
+ */
+
+import { SplitSubnet, SubnetOperation, SubnetManagementConfig, BaseNetworkInput } from './types';
+
+// Default number of operations kept before the oldest are folded into the baseline
+export const DEFAULT_MAX_OPERATION_HISTORY = 50;
+
+export interface OperationHistoryEntry {
+  operation: SubnetOperation;
+  subnets: SplitSubnet[]; // Complete subnet list after the operation
+}
+
+export interface OperationHistory {
+  baseline: SplitSubnet[]; // Subnet list before the oldest retained operation
+  entries: OperationHistoryEntry[];
+  position: number; // Number of applied entries; 0 means the baseline is current
+}
+
+/**
+ * Creates an empty history starting from the given subnets
+ */
+export function createOperationHistory(baseline: SplitSubnet[] = []): OperationHistory {
+  return { baseline, entries: [], position: 0 };
+}
+
+/**
+ * Records an operation and the subnet list it produced
+ * Any undone operations are discarded, and the oldest entries are folded into the
+ * baseline once the history exceeds maxEntries
+ */
+export function recordOperation(
+  history: OperationHistory,
+  operation: SubnetOperation,
+  subnets: SplitSubnet[],
+  maxEntries: SubnetManagementConfig['maxOperationHistory'] = DEFAULT_MAX_OPERATION_HISTORY
+): OperationHistory {
+  const entries = [...history.entries.slice(0, history.position), { operation, subnets }];
+  const overflow = Math.max(0, entries.length - Math.max(1, maxEntries));
+
+  return {
+    baseline: overflow > 0 ? entries[overflow - 1].subnets : history.baseline,
+    entries: entries.slice(overflow),
+    position: entries.length - overflow
+  };
+}
+
+/**
+ * Returns the subnet list at the current history position
+ */
+export function getCurrentSubnets(history: OperationHistory): SplitSubnet[] {
+  return history.position === 0 ? history.baseline : history.entries[history.position - 1].subnets;
+}
+
+export function canUndo(history: OperationHistory): boolean {
+  return history.position > 0;
+}
+
+export function canRedo(history: OperationHistory): boolean {
+  return history.position < history.entries.length;
+}
+
+/**
+ * Moves to any point in the history; position 0 restores the baseline
+ */
+export function jumpToPosition(history: OperationHistory, position: number): OperationHistory {
+  const clamped = Math.min(Math.max(0, Math.floor(position)), history.entries.length);
+  return clamped === history.position ? history : { ...history, position: clamped };
+}
+
+/**
+ * Returns the base network to restore when moving to a history position, or null when
+ * no operation between the current and target positions changed the base network
+ * Undo restores the network from before the earliest such reset; redo the one after the latest
+ */
+export function getBaseNetworkAtPosition(history: OperationHistory, position: number): BaseNetworkInput | null {
+  if (position < history.position) {
+    const change = history.entries
+      .slice(Math.max(0, position), history.position)
+      .find(entry => entry.operation.baseNetworkChange)?.operation.baseNetworkChange;
+    return change ? change.from : null;
+  }
+
+  const change = history.entries
+    .slice(history.position, Math.min(position, history.entries.length))
+    .reverse()
+    .find(entry => entry.operation.baseNetworkChange)?.operation.baseNetworkChange;
+  return change ? change.to : null;
+}
+
+export function undoOperation(history: OperationHistory): OperationHistory {
+  return jumpToPosition(history, history.position - 1);
+}
+
+export function redoOperation(history: OperationHistory): OperationHistory {
+  return jumpToPosition(history, history.position + 1);
+}
@@ -0,0 +1,244 @@
+/**
+ * Overlap Analysis Functions
+ *
+ * This module finds address conflicts across several parent networks, such as VPCs,
+ * peered VNets and on-premises ranges, and the subnets planned inside them. Every pair
+ * of entries that share addresses is reported as a duplicate, a containment or a partial
+ * overlap together with the exact overlapping range, except a subnet inside its own
+ * network. Entries are compared as BigInt bounds after sorting, so IPv4 and IPv6 lists
+ * of any size are checked without comparing every pair.
+ */
+
+import {
+  AnalyzedNetwork,
+  CIDRBlock,
+  IPVersion,
+  OverlapConflict,
+  OverlapConflictType,
+  OverlapEntryReference
+} from './types';
+import { isIPv6InSubnet } from './utils';
+import { ipv4ToInt } from './subnet-splitting';
+import {
+  addressToBigInt,
+  bigIntRangeToCIDRs,
+  bigIntToAddress,
+  detectIPVersion,
+  formatCIDRBlock,
+  parseAddressRange,
+  parseCIDR
+} from './cidr-ranges';
+
+// Maximum number of conflicts returned; the analysis stops early once reached
+export const MAX_OVERLAP_CONFLICTS = 1000;
+
+export interface NetworkDefinitionParseResult {
+  networks: AnalyzedNetwork[];
+  errors: string[];
+}
+
+export interface OverlapAnalysisResult {
+  conflicts: OverlapConflict[];
+  errors: string[]; // Entries that could not be read
+  warnings: string[]; // Subnets that are not inside their own network
+  truncated: boolean;
+}
+
+interface AnalyzedEntry {
+  reference: OverlapEntryReference;
+  networkIndex: number;
+  ipVersion: IPVersion;
+  start: bigint;
+  end: bigint;
+  block: CIDRBlock | null; // Null for address ranges that are not a single prefix
+}
+
+/**
+ * Parses one network or subnet written as a prefix or as a start–end address range
+ */
+function parseEntry(input: string): Omit<AnalyzedEntry, 'reference' | 'networkIndex'> & { prefix: string } {
+  const range = parseAddressRange(input);
+  if (!range) {
+    const block = parseCIDR(input);
+    const start = addressToBigInt(block.network, block.ipVersion);
+    return {
+      prefix: formatCIDRBlock(block),
+      ipVersion: block.ipVersion,
+      start,
+      end: start + block.addressCount - BigInt(1),
+      block
+    };
+  }
+
+  const ipVersion = detectIPVersion(range.start);
+  if (!ipVersion || detectIPVersion(range.end) !== ipVersion) {
+    throw new Error(`Invalid address range: ${input.trim()}`);
+  }
+
+  const start = addressToBigInt(range.start, ipVersion);
+  const end = addressToBigInt(range.end, ipVersion);
+  if (start > end) {
+    throw new Error(`Range start must not be greater than its end: ${input.trim()}`);
+  }
+
+  return {
+    prefix: `${bigIntToAddress(start, ipVersion)}-${bigIntToAddress(end, ipVersion)}`,
+    ipVersion,
+    start,
+    end,
+    block: null
+  };
+}
+
+/**
+ * Checks whether the outer entry covers every address of the inner entry
+ * Prefixes are compared with the IPv4 integer mask or isIPv6InSubnet; ranges by their bounds
+ */
+function containsEntry(outer: AnalyzedEntry, inner: AnalyzedEntry): boolean {
+  if (outer.ipVersion !== inner.ipVersion) {
+    return false;
+  }
+  if (!outer.block || !inner.block) {
+    return outer.start <= inner.start && inner.end <= outer.end;
+  }
+  if (outer.block.prefix > inner.block.prefix) {
+    return false;
+  }
+  if (outer.ipVersion === 'ipv6') {
+    return isIPv6InSubnet(inner.block.network, outer.block.network, outer.block.prefix);
+  }
+
+  const mask = outer.block.prefix === 0 ? 0 : (0xFFFFFFFF << (32 - outer.block.prefix)) >>> 0;
+  return ((ipv4ToInt(inner.block.network) & mask) >>> 0) === ((ipv4ToInt(outer.block.network) & mask) >>> 0);
+}
+
+function splitEntries(text: string): string[] {
+  return text
+    .split(/[,;]/)
+    .map(part => part.trim())
+    .filter(Boolean)
+    .flatMap(part => (parseAddressRange(part) ? [part] : part.split(/\s+/)));
+}
+
+/**
+ * Parses network definitions written one network per line as "name: prefix"
+ * Further prefixes on the same line, or on following lines without a name, are the
+ * network's subnets. Address ranges such as 10.0.0.5-10.0.3.200 are accepted anywhere.
+ */
+export function parseNetworkDefinitions(input: string): NetworkDefinitionParseResult {
+  const networks: AnalyzedNetwork[] = [];
+  const errors: string[] = [];
+
+  input.split('\n').map(line => line.trim()).filter(Boolean).forEach(line => {
+    // A name cannot contain colons, so IPv6 prefixes are never mistaken for one
+    const match = line.match(/^([^:\s][^:]*?)\s*:\s+(.+)$/);
+    if (match) {
+      const [cidr, ...subnets] = splitEntries(match[2]);
+      if (!cidr) {
+        errors.push(`${match[1]} has no network prefix`);
+        return;
+      }
+      networks.push({ name: match[1], cidr, subnets });
+      return;
+    }
+
+    const current = networks[networks.length - 1];
+    if (!current) {
+      errors.push(`"${line}" has no network; start with a named network, such as vpc-a: 10.0.0.0/16`);
+      return;
+    }
+    current.subnets = [...(current.subnets || []), ...splitEntries(line)];
+  });
+
+  return { networks, errors };
+}
+
+/**
+ * Reports every duplicate, containment and partial overlap between the given networks
+ * and their subnets. A subnet is not compared with its own network; subnets that fall
+ * outside it are returned as warnings instead. Unreadable entries are reported in errors
+ * and left out of the analysis.
+ */
+export function analyzeOverlaps(
+  networks: AnalyzedNetwork[],
+  maxConflicts: number = MAX_OVERLAP_CONFLICTS
+): OverlapAnalysisResult {
+  const result: OverlapAnalysisResult = { conflicts: [], errors: [], warnings: [], truncated: false };
+  const entries: AnalyzedEntry[] = [];
+
+  networks.forEach((network, networkIndex) => {
+    let parent: AnalyzedEntry | null = null;
+    try {
+      const { prefix, ...bounds } = parseEntry(network.cidr);
+      parent = { ...bounds, networkIndex, reference: { networkName: network.name, prefix, isSubnet: false } };
+      entries.push(parent);
+    } catch (error) {
+      result.errors.push(`${network.name}: ${error instanceof Error ? error.message : 'Invalid network'}`);
+    }
+
+    (network.subnets || []).forEach(subnet => {
+      try {
+        const { prefix, ...bounds } = parseEntry(subnet);
+        const entry: AnalyzedEntry = { ...bounds, networkIndex, reference: { networkName: network.name, prefix, isSubnet: true } };
+        if (parent && !containsEntry(parent, entry)) {
+          result.warnings.push(`${network.name}: subnet ${prefix} is not inside ${parent.reference.prefix}`);
+        }
+        entries.push(entry);
+      } catch (error) {
+        result.errors.push(`${network.name}: ${error instanceof Error ? error.message : 'Invalid subnet'}`);
+      }
+    });
+  });
+
+  // IPv4 first, then by start address with larger entries before the entries they contain
+  entries.sort((a, b) => {
+    if (a.ipVersion !== b.ipVersion) {
+      return a.ipVersion === 'ipv4' ? -1 : 1;
+    }
+    if (a.start !== b.start) {
+      return a.start < b.start ? -1 : 1;
+    }
+    return a.end === b.end ? 0 : a.end > b.end ? -1 : 1;
+  });
+
+  for (let i = 0; i < entries.length; i++) {
+    const first = entries[i];
+    for (let j = i + 1; j < entries.length; j++) {
+      const second = entries[j];
+      if (second.ipVersion !== first.ipVersion || second.start > first.end) {
+        break;
+      }
+
+      const sameNetwork = first.networkIndex === second.networkIndex;
+      if (sameNetwork && (!first.reference.isSubnet || !second.reference.isSubnet)) {
+        continue;
+      }
+
+      if (result.conflicts.length >= maxConflicts) {
+        result.truncated = true;
+        return result;
+      }
+
+      const overlapEnd = first.end < second.end ? first.end : second.end;
+      let type: OverlapConflictType = 'overlap';
+      if (first.start === second.start && first.end === second.end) {
+        type = 'duplicate';
+      } else if (containsEntry(first, second)) {
+        type = 'containment';
+      }
+
+      result.conflicts.push({
+        type,
+        first: first.reference,
+        second: second.reference,
+        ipVersion: first.ipVersion,
+        overlapStart: bigIntToAddress(second.start, first.ipVersion),
+        overlapEnd: bigIntToAddress(overlapEnd, first.ipVersion),
+        overlapCIDRs: bigIntRangeToCIDRs(second.start, overlapEnd, first.ipVersion).map(formatCIDRBlock),
+        addressCount: overlapEnd - second.start + BigInt(1)
+      });
+    }
+  }
+
+  return result;
+}
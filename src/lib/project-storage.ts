@@ -0,0 +1,246 @@
+/**
+ * Project Storage Functions
+ *
+ * This module persists named subnet plans ("projects") in browser localStorage. The stored
+ * document carries a schema version; older documents are upgraded through the migration
+ * chain on load, and documents written by a newer version are left untouched. The store
+ * functions are pure and return a new store; loading and saving are the only side effects.
+ */
+
+import { ProjectStore, SavedProject, ShareableCalculatorState } from './types';
+import { getBrowserStorage, isRecord, saveStoredDocument } from './browser-storage';
+import { normalizeCalculatorState } from './share-state';
+
+export const PROJECT_STORAGE_KEY = 'subnet_calculator_projects';
+export const PROJECT_SCHEMA_VERSION = 1;
+export const MAX_PROJECT_NAME_LENGTH = 100;
+
+/**
+ * Schema migrations keyed by the version they upgrade from
+ * Each migration receives a document at version N and returns it at version N + 1
+ */
+export type ProjectStoreMigration = (store: Record<string, unknown>) => Record<string, unknown>;
+export const PROJECT_STORE_MIGRATIONS: Record<number, ProjectStoreMigration> = {};
+
+export interface ProjectStoreLoadResult {
+  store: ProjectStore;
+  writable: boolean; // False when the stored document must not be overwritten
+  warnings: string[];
+}
+
+export function createEmptyProjectStore(): ProjectStore {
+  return {
+    version: PROJECT_SCHEMA_VERSION,
+    activeProjectId: null,
+    autoSave: true,
+    projects: []
+  };
+}
+
+function generateProjectId(): string {
+  const timestamp = Date.now().toString(36);
+  const randomPart = Math.random().toString(36).substring(2, 8);
+  return `project_${timestamp}_${randomPart}`;
+}
+
+/**
+ * Validates a stored project; its state goes through the same checks as a shared link
+ */
+function normalizeProject(value: unknown): SavedProject | null {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== 'string' ||
+    typeof value.name !== 'string' ||
+    typeof value.createdAt !== 'number' ||
+    typeof value.updatedAt !== 'number'
+  ) {
+    return null;
+  }
+
+  const state = normalizeCalculatorState(value.state);
+  return state ? { id: value.id, name: value.name, createdAt: value.createdAt, updatedAt: value.updatedAt, state } : null;
+}
+
+/**
+ * Validates and trims a project name
+ */
+export function normalizeProjectName(name: string): string {
+  const trimmed = name.trim().replace(/\s+/g, ' ');
+  if (!trimmed) {
+    throw new Error('Project name is required');
+  }
+  if (trimmed.length > MAX_PROJECT_NAME_LENGTH) {
+    throw new Error(`Project name must be ${MAX_PROJECT_NAME_LENGTH} characters or fewer`);
+  }
+  return trimmed;
+}
+
+/**
+ * Upgrades a stored document to the current schema version
+ * Invalid projects are dropped with a warning rather than failing the whole load
+ */
+export function migrateProjectStore(
+  data: unknown,
+  migrations: Record<number, ProjectStoreMigration> = PROJECT_STORE_MIGRATIONS,
+  targetVersion: number = PROJECT_SCHEMA_VERSION
+): ProjectStoreLoadResult {
+  if (!isRecord(data) || typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+    return { store: createEmptyProjectStore(), writable: true, warnings: ['Saved projects were unreadable and have been reset'] };
+  }
+
+  if (data.version > targetVersion) {
+    return {
+      store: createEmptyProjectStore(),
+      writable: false,
+      warnings: ['Saved projects were created by a newer version of the calculator and cannot be opened']
+    };
+  }
+
+  let document = data;
+  for (let version = data.version; version < targetVersion; version++) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      return {
+        store: createEmptyProjectStore(),
+        writable: false,
+        warnings: [`Saved projects use schema version ${version}, which can no longer be upgraded`]
+      };
+    }
+    document = { ...migrate(document), version: version + 1 };
+  }
+
+  const warnings: string[] = [];
+  const rawProjects = Array.isArray(document.projects) ? document.projects : [];
+  const projects = rawProjects.map(normalizeProject).filter((project): project is SavedProject => project !== null);
+  if (projects.length < rawProjects.length) {
+    warnings.push(`${rawProjects.length - projects.length} saved project(s) were damaged and could not be loaded`);
+  }
+
+  const activeProjectId = typeof document.activeProjectId === 'string' &&
+    projects.some(project => project.id === document.activeProjectId)
+    ? document.activeProjectId
+    : null;
+
+  return {
+    store: {
+      version: targetVersion,
+      activeProjectId,
+      autoSave: typeof document.autoSave === 'boolean' ? document.autoSave : true,
+      projects
+    },
+    writable: true,
+    warnings
+  };
+}
+
+/**
+ * Loads saved projects from browser storage
+ */
+export function loadProjectStore(storage: Storage | null = getBrowserStorage()): ProjectStoreLoadResult {
+  if (!storage) {
+    return { store: createEmptyProjectStore(), writable: false, warnings: [] };
+  }
+
+  try {
+    const stored = storage.getItem(PROJECT_STORAGE_KEY);
+    if (!stored) {
+      return { store: createEmptyProjectStore(), writable: true, warnings: [] };
+    }
+    return migrateProjectStore(JSON.parse(stored));
+  } catch (error) {
+    console.warn('Failed to load saved projects:', error);
+    return { store: createEmptyProjectStore(), writable: true, warnings: ['Saved projects were unreadable and have been reset'] };
+  }
+}
+
+/**
+ * Saves projects to browser storage
+ * Returns false when storage is unavailable or full
+ */
+export function saveProjectStore(store: ProjectStore, storage: Storage | null = getBrowserStorage()): boolean {
+  return saveStoredDocument(storage, PROJECT_STORAGE_KEY, store, 'projects');
+}
+
+export function getActiveProject(store: ProjectStore): SavedProject | null {
+  return store.projects.find(project => project.id === store.activeProjectId) || null;
+}
+
+/**
+ * Creates a project from the given state and makes it active
+ */
+export function createProject(store: ProjectStore, name: string, state: ShareableCalculatorState): ProjectStore {
+  const now = Date.now();
+  const project: SavedProject = {
+    id: generateProjectId(),
+    name: normalizeProjectName(name),
+    createdAt: now,
+    updatedAt: now,
+    state
+  };
+
+  return { ...store, activeProjectId: project.id, projects: [...store.projects, project] };
+}
+
+export function renameProject(store: ProjectStore, projectId: string, name: string): ProjectStore {
+  const normalized = normalizeProjectName(name);
+  return {
+    ...store,
+    projects: store.projects.map(project =>
+      project.id === projectId ? { ...project, name: normalized, updatedAt: Date.now() } : project
+    )
+  };
+}
+
+/**
+ * Copies a project under a new name and makes the copy active
+ */
+export function duplicateProject(store: ProjectStore, projectId: string): ProjectStore {
+  const source = store.projects.find(project => project.id === projectId);
+  if (!source) {
+    throw new Error('Project not found');
+  }
+
+  const names = new Set(store.projects.map(project => project.name));
+  let name = `${source.name} (copy)`;
+  for (let counter = 2; names.has(name); counter++) {
+    name = `${source.name} (copy ${counter})`;
+  }
+
+  return createProject(store, name.slice(0, MAX_PROJECT_NAME_LENGTH), source.state);
+}
+
+/**
+ * Deletes a project; deleting the active project leaves no project active
+ */
+export function deleteProject(store: ProjectStore, projectId: string): ProjectStore {
+  return {
+    ...store,
+    activeProjectId: store.activeProjectId === projectId ? null : store.activeProjectId,
+    projects: store.projects.filter(project => project.id !== projectId)
+  };
+}
+
+export function setActiveProject(store: ProjectStore, projectId: string | null): ProjectStore {
+  if (projectId !== null && !store.projects.some(project => project.id === projectId)) {
+    throw new Error('Project not found');
+  }
+  return { ...store, activeProjectId: projectId };
+}
+
+/**
+ * Stores the latest calculator state in a project
+ * The store is returned unchanged when the state is identical, so autosave does not churn
+ */
+export function updateProjectState(store: ProjectStore, projectId: string, state: ShareableCalculatorState): ProjectStore {
+  const project = store.projects.find(candidate => candidate.id === projectId);
+  if (!project || JSON.stringify(project.state) === JSON.stringify(state)) {
+    return store;
+  }
+
+  return {
+    ...store,
+    projects: store.projects.map(candidate =>
+      candidate.id === projectId ? { ...candidate, state, updatedAt: Date.now() } : candidate
+    )
+  };
+}
@@ -0,0 +1,535 @@
+/**
+ * Shareable State Functions
+ *
+ * This module encodes the calculator inputs and split hierarchy into a compact, versioned
+ * URL fragment token and restores it on load. Subnets are stored as (parent, prefix length,
+ * offset from the base network) tuples, followed by the subnet name, metadata, status and
+ * dual-stack IPv6 pair when set; derived values are recalculated when decoding. Status history
+ * is not shared. A plan in a custom profile mode carries the profile definition, so the link
+ * opens with the same reservations on another browser.
+ * Tokens read from the URL are validated with the url-security sanitizers before use, and
+ * state read back from browser storage passes the same subnet checks as a token.
+ */
+
+import { ShareableCalculatorState, SplitSubnet, SubnetStatus, SubnetStatusChange, CloudMode, IPVersion, CIDRBlock, CustomCloudProfile } from './types';
+import { ipv4ToInt, intToIPv4, calculateSubnetDetailsFromNetwork } from './subnet-splitting';
+import { CLOUD_PROVIDER_IDS, isCustomCloudMode } from './cloud-providers';
+import { normalizeCustomProfile, getCustomProfileMode } from './custom-profiles';
+import { validateIPv6, ipv6ToBigInt, bigIntToIPv6, generateSubnetId } from './utils';
+import { sanitizeStateToken, validateInternalURL } from './url-security';
+import { parseSubnetDetailsInput, SubnetDetails } from './subnet-metadata';
+import { SUBNET_STATUSES } from './subnet-status';
+import { isValidIPv4 } from './cidr-ranges';
+import { parseDualStackBlock, getDualStackPair, getDualStackPairIndex, getDualStackCapacity } from './dual-stack';
+import { isRecord } from './browser-storage';
+
+export const SHARE_STATE_VERSION = 1;
+export const SHARE_STATE_PARAM = 'plan';
+
+// Upper bound on subnets restored from a link, matching the import row limit
+export const MAX_SHARED_SUBNETS = 10000;
+
+const CLOUD_MODES: CloudMode[] = ['normal', ...CLOUD_PROVIDER_IDS];
+
+// Subnet name, metadata, status and IPv6 pair in version 1 tokens, present only when set
+interface EncodedSubnetDetails {
+  n?: string; // Name
+  d?: string; // Description
+  t?: string[]; // Tags
+  v?: number; // VLAN ID
+  o?: string; // Owner
+  e?: string; // Environment
+  a?: SubnetStatus; // Allocation status, left out when free
+  q?: string; // Base36 index of the paired IPv6 /64 in the dual-stack block
+}
+
+type DecodedSubnetDetails = SubnetDetails & Pick<SplitSubnet, 'status'> & { pairIndex?: bigint };
+
+// Base network, mode and dual-stack block of a token or stored state, once validated
+interface ValidatedStateHeader {
+  ipAddress: string;
+  cidr: number;
+  mode: CloudMode;
+  ipVersion: IPVersion;
+  dualStackBlock: CIDRBlock | null;
+  customProfile?: CustomCloudProfile;
+}
+
+// Subnet position and details once validated; value is the network address
+interface ValidatedSubnetRow {
+  parentIndex: number; // Index of the parent subnet, or -1 for the base network
+  cidr: number;
+  value: bigint;
+  details: DecodedSubnetDetails | null;
+}
+
+// [parent index or -1, prefix length, base36 offset in subnet-sized blocks, details]
+type EncodedSubnetRow = [number, number, string] | [number, number, string, EncodedSubnetDetails];
+
+// Wire format of version 1 tokens; keys are kept short to minimize URL length
+interface EncodedShareStateV1 {
+  v: 1;
+  i: string; // IP address as entered
+  c: number; // Prefix length of the base network
+  m: CloudMode;
+  p: 4 | 6;
+  s: EncodedSubnetRow[];
+  e: number[]; // Indices of expanded subnets, -1 for the base network
+  d?: string; // Dual-stack IPv6 block
+  x?: CustomCloudProfile; // Definition of the custom profile named by the mode
+}
+
+function encodeSubnetDetails(subnet: SplitSubnet, dualStackBlock: CIDRBlock | null): EncodedSubnetDetails | null {
+  const { label, metadata } = subnet;
+  const status = subnet.status && subnet.status !== 'free' ? subnet.status : undefined;
+  const pairIndex = dualStackBlock && subnet.pairedIPv6 ? getDualStackPairIndex(dualStackBlock, subnet.pairedIPv6) : null;
+  if (!label && !metadata && !status && pairIndex === null) {
+    return null;
+  }
+  return {
+    n: label,
+    d: metadata?.description,
+    t: metadata?.tags,
+    v: metadata?.vlanId,
+    o: metadata?.owner,
+    e: metadata?.environment,
+    a: status,
+    q: pairIndex?.toString(36)
+  };
+}
+
+/**
+ * Validates encoded details with the same rules as the editor
+ * Returns null when the details are malformed or out of range
+ */
+function decodeSubnetDetails(encoded: unknown): DecodedSubnetDetails | null {
+  if (!encoded || typeof encoded !== 'object' || Array.isArray(encoded)) {
+    return null;
+  }
+
+  const { n, d, t, v, o, e, a, q } = encoded as Record<string, unknown>;
+  const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+  if (
+    ![n, d, o, e].every(isOptionalString) ||
+    (t !== undefined && (!Array.isArray(t) || !t.every(tag => typeof tag === 'string' && !tag.includes(',')))) ||
+    (v !== undefined && !Number.isInteger(v)) ||
+    (a !== undefined && !SUBNET_STATUSES.includes(a as SubnetStatus)) ||
+    (q !== undefined && (typeof q !== 'string' || !/^[0-9a-z]{1,13}$/.test(q)))
+  ) {
+    return null;
+  }
+
+  try {
+    const details = parseSubnetDetailsInput({
+      label: (n as string | undefined) || '',
+      description: (d as string | undefined) || '',
+      tags: ((t as string[] | undefined) || []).join(','),
+      vlanId: v === undefined ? '' : String(v),
+      owner: (o as string | undefined) || '',
+      environment: (e as string | undefined) || ''
+    });
+    return {
+      ...details,
+      ...(a !== undefined ? { status: a as SubnetStatus } : {}),
+      ...(q !== undefined ? { pairIndex: parseBase36BigInt(q as string) } : {})
+    };
+  } catch {
+    return null;
+  }
+}
+
+function toBase64URL(value: string): string {
+  return btoa(value).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64URL(value: string): string {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+}
+
+function parseBase36BigInt(value: string): bigint {
+  let result = BigInt(0);
+  for (const char of value) {
+    result = result * BigInt(36) + BigInt(parseInt(char, 36));
+  }
+  return result;
+}
+
+/**
+ * Address arithmetic for the base network, shared by both IP versions
+ */
+function getAddressSpace(ipAddress: string, cidr: number, ipVersion: IPVersion) {
+  const totalBits = ipVersion === 'ipv4' ? 32 : 128;
+  const toBigInt = (ip: string) => ipVersion === 'ipv4' ? BigInt(ipv4ToInt(ip)) : ipv6ToBigInt(ip);
+  const fromBigInt = (value: bigint) => ipVersion === 'ipv4' ? intToIPv4(Number(value)) : bigIntToIPv6(value);
+  const blockSize = (prefix: number) => BigInt(1) << BigInt(totalBits - prefix);
+
+  const baseValue = (toBigInt(ipAddress) / blockSize(cidr)) * blockSize(cidr);
+
+  return {
+    totalBits,
+    baseValue,
+    baseNetwork: fromBigInt(baseValue),
+    toBigInt,
+    fromBigInt,
+    blockSize
+  };
+}
+
+/**
+ * Parses a dual-stack IPv6 block, returning null when it is missing or not valid in the cloud mode
+ */
+function parseDualStackBlockOrNull(value: unknown, mode: CloudMode): CIDRBlock | null {
+  if (typeof value !== 'string' || !value) {
+    return null;
+  }
+  try {
+    return parseDualStackBlock(value, mode);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validates the base network, mode, custom profile and dual-stack block of a state
+ * Returns null when any of them is invalid
+ */
+function validateStateHeader(
+  ipAddress: unknown,
+  cidr: unknown,
+  mode: unknown,
+  ipVersion: IPVersion,
+  dualStackIPv6: unknown,
+  encodedProfile: unknown
+): ValidatedStateHeader | null {
+  const totalBits = ipVersion === 'ipv4' ? 32 : 128;
+  if (
+    typeof ipAddress !== 'string' ||
+    !(ipVersion === 'ipv4' ? isValidIPv4(ipAddress) : validateIPv6(ipAddress)) ||
+    typeof cidr !== 'number' || !Number.isInteger(cidr) || cidr < 0 || cidr > totalBits ||
+    typeof mode !== 'string' ||
+    !(CLOUD_MODES.includes(mode as CloudMode) || isCustomCloudMode(mode as CloudMode))
+  ) {
+    return null;
+  }
+
+  let customProfile: CustomCloudProfile | undefined;
+  if (isCustomCloudMode(mode as CloudMode)) {
+    try {
+      customProfile = normalizeCustomProfile(encodedProfile);
+    } catch {
+      return null;
+    }
+    if (getCustomProfileMode(customProfile) !== mode) {
+      return null;
+    }
+  }
+
+  const dualStackBlock = parseDualStackBlockOrNull(dualStackIPv6, mode as CloudMode);
+  if (dualStackIPv6 !== undefined && !dualStackBlock) {
+    return null;
+  }
+
+  return { ipAddress, cidr, mode: mode as CloudMode, ipVersion, dualStackBlock, ...(customProfile ? { customProfile } : {}) };
+}
+
+function isValidStatusHistory(value: unknown): boolean {
+  return value === undefined || (Array.isArray(value) && value.every(change =>
+    isRecord(change) &&
+    SUBNET_STATUSES.includes(change.from as SubnetStatus) &&
+    SUBNET_STATUSES.includes(change.to as SubnetStatus) &&
+    typeof change.timestamp === 'number' && Number.isFinite(change.timestamp)
+  ));
+}
+
+/**
+ * Builds the subnet list from validated rows, recalculating derived values for the mode
+ * Returns null when a parent does not strictly contain its child, which also rules out cycles
+ */
+function buildSplitSubnets(header: ValidatedStateHeader, rows: ValidatedSubnetRow[], ids: string[]): SplitSubnet[] | null {
+  const { mode, ipVersion, dualStackBlock } = header;
+  const space = getAddressSpace(header.ipAddress, header.cidr, ipVersion);
+  const baseId = `${space.baseNetwork}/${header.cidr}`;
+
+  for (const row of rows) {
+    if (row.parentIndex === -1) {
+      continue;
+    }
+    const parent = rows[row.parentIndex];
+    if (parent.cidr >= row.cidr || row.value < parent.value || row.value >= parent.value + space.blockSize(parent.cidr)) {
+      return null;
+    }
+  }
+
+  const getLevel = (index: number): number => {
+    let level = 1;
+    for (let current = rows[index].parentIndex; current !== -1; current = rows[current].parentIndex) {
+      level++;
+    }
+    return level;
+  };
+
+  return rows.map((row, index) => ({
+    ...calculateSubnetDetailsFromNetwork(space.fromBigInt(row.value), row.cidr, ipVersion, mode),
+    id: ids[index],
+    parentId: row.parentIndex === -1 ? baseId : ids[row.parentIndex],
+    level: getLevel(index),
+    isSelected: false,
+    ...(row.details?.label ? { label: row.details.label } : {}),
+    ...(row.details?.metadata ? { metadata: row.details.metadata } : {}),
+    ...(row.details?.status ? { status: row.details.status } : {}),
+    ...(dualStackBlock && row.details?.pairIndex !== undefined ? { pairedIPv6: getDualStackPair(dualStackBlock, row.details.pairIndex) } : {}),
+    ipVersion
+  }));
+}
+
+function createCalculatorState(header: ValidatedStateHeader, splitSubnets: SplitSubnet[], expandedNodes: string[]): ShareableCalculatorState {
+  const { ipAddress, cidr, mode, ipVersion, dualStackBlock, customProfile } = header;
+  return {
+    ipAddress,
+    cidr: cidr.toString(),
+    mode,
+    ipVersion,
+    splitSubnets,
+    expandedNodes,
+    ...(dualStackBlock ? { dualStackIPv6: `${dualStackBlock.network}/${dualStackBlock.prefix}` } : {}),
+    ...(customProfile ? { customProfile } : {})
+  };
+}
+
+/**
+ * Returns the ID the calculator assigns to the base network, used as the parent of top-level subnets
+ */
+export function getBaseNetworkId(ipAddress: string, cidr: number, ipVersion: IPVersion): string {
+  return `${getAddressSpace(ipAddress, cidr, ipVersion).baseNetwork}/${cidr}`;
+}
+
+/**
+ * Encodes calculator state as a URL-safe token
+ * Subnets outside the base network cannot be expressed as offsets and are left out
+ */
+export function encodeShareState(state: ShareableCalculatorState): string {
+  const cidr = parseInt(state.cidr, 10);
+  const isValidAddress = state.ipVersion === 'ipv4' ? isValidIPv4(state.ipAddress) : validateIPv6(state.ipAddress);
+  const totalBits = state.ipVersion === 'ipv4' ? 32 : 128;
+
+  if (!isValidAddress || isNaN(cidr) || cidr < 0 || cidr > totalBits) {
+    throw new Error('Only a valid network configuration can be shared');
+  }
+
+  const space = getAddressSpace(state.ipAddress, cidr, state.ipVersion);
+  const baseEnd = space.baseValue + space.blockSize(cidr);
+  const subnets = state.splitSubnets.filter(subnet => {
+    if (subnet.ipVersion !== state.ipVersion || subnet.cidr < cidr) {
+      return false;
+    }
+    const value = space.toBigInt(subnet.network);
+    return value >= space.baseValue && value < baseEnd;
+  });
+  const indexById = new Map(subnets.map((subnet, index) => [subnet.id, index]));
+  const expandedNodes = new Set(state.expandedNodes);
+  const dualStackBlock = parseDualStackBlockOrNull(state.dualStackIPv6, state.mode);
+
+  if (isCustomCloudMode(state.mode) && (!state.customProfile || getCustomProfileMode(state.customProfile) !== state.mode)) {
+    throw new Error('Plans in a custom profile mode can only be shared with the profile definition');
+  }
+
+  const payload: EncodedShareStateV1 = {
+    v: SHARE_STATE_VERSION,
+    i: state.ipAddress,
+    c: cidr,
+    m: state.mode,
+    p: state.ipVersion === 'ipv4' ? 4 : 6,
+    s: subnets.map((subnet): EncodedSubnetRow => {
+      const row: EncodedSubnetRow = [
+        (subnet.parentId !== undefined ? indexById.get(subnet.parentId) : undefined) ?? -1,
+        subnet.cidr,
+        ((space.toBigInt(subnet.network) - space.baseValue) / space.blockSize(subnet.cidr)).toString(36)
+      ];
+      const details = encodeSubnetDetails(subnet, dualStackBlock);
+      return details ? [...row, details] : row;
+    }),
+    e: [
+      ...(expandedNodes.has(getBaseNetworkId(state.ipAddress, cidr, state.ipVersion)) ? [-1] : []),
+      ...subnets.flatMap((subnet, index) => expandedNodes.has(subnet.id) ? [index] : [])
+    ],
+    ...(dualStackBlock ? { d: `${dualStackBlock.network}/${dualStackBlock.prefix}` } : {}),
+    ...(isCustomCloudMode(state.mode) ? { x: state.customProfile } : {})
+  };
+
+  // Names and metadata may contain any character, so non-ASCII characters are escaped for btoa
+  return toBase64URL(JSON.stringify(payload).replace(/[\u0080-\uffff]/g, char => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`));
+}
+
+/**
+ * Decodes a token produced by encodeShareState
+ * Returns null when the token is malformed, from an unsupported version or describes an invalid hierarchy
+ */
+export function decodeShareState(token: string): ShareableCalculatorState | null {
+  const sanitized = sanitizeStateToken(token);
+  if (!sanitized) {
+    return null;
+  }
+
+  let payload: EncodedShareStateV1;
+  try {
+    payload = JSON.parse(fromBase64URL(sanitized));
+  } catch {
+    return null;
+  }
+
+  if (!payload || typeof payload !== 'object' || payload.v !== SHARE_STATE_VERSION) {
+    return null;
+  }
+
+  const { i: ipAddress, c: cidr, m: mode, p, s: rows, e: expanded, d: dualStackIPv6, x: encodedProfile } = payload;
+  if ((p !== 4 && p !== 6) || !Array.isArray(rows) || rows.length > MAX_SHARED_SUBNETS || !Array.isArray(expanded)) {
+    return null;
+  }
+
+  const header = validateStateHeader(ipAddress, cidr, mode, p === 6 ? 'ipv6' : 'ipv4', dualStackIPv6, encodedProfile);
+  if (!header) {
+    return null;
+  }
+
+  const { dualStackBlock } = header;
+  const space = getAddressSpace(header.ipAddress, header.cidr, header.ipVersion);
+
+  // First pass: validate rows and compute network addresses
+  const decoded: ValidatedSubnetRow[] = [];
+  for (const row of rows) {
+    if (!Array.isArray(row) || (row.length !== 3 && row.length !== 4)) {
+      return null;
+    }
+    const [parentIndex, subnetCidr, offset, encodedDetails] = row;
+    const details = row.length === 4 ? decodeSubnetDetails(encodedDetails) : null;
+    if (row.length === 4 && !details) {
+      return null;
+    }
+    if (details?.pairIndex !== undefined && (!dualStackBlock || details.pairIndex >= getDualStackCapacity(dualStackBlock))) {
+      return null;
+    }
+    if (
+      !Number.isInteger(parentIndex) || parentIndex < -1 || parentIndex >= rows.length ||
+      !Number.isInteger(subnetCidr) || subnetCidr < header.cidr || subnetCidr > space.totalBits ||
+      typeof offset !== 'string' || !/^[0-9a-z]{1,26}$/.test(offset)
+    ) {
+      return null;
+    }
+
+    const blockOffset = parseBase36BigInt(offset);
+    if (blockOffset >= BigInt(1) << BigInt(subnetCidr - header.cidr)) {
+      return null;
+    }
+    decoded.push({ parentIndex, cidr: subnetCidr, value: space.baseValue + blockOffset * space.blockSize(subnetCidr), details });
+  }
+
+  const ids = decoded.map(() => generateSubnetId());
+  const splitSubnets = buildSplitSubnets(header, decoded, ids);
+  if (!splitSubnets) {
+    return null;
+  }
+
+  const baseId = `${space.baseNetwork}/${header.cidr}`;
+  return createCalculatorState(
+    header,
+    splitSubnets,
+    expanded
+      .filter(index => Number.isInteger(index) && index >= -1 && index < ids.length)
+      .map(index => index === -1 ? baseId : ids[index])
+  );
+}
+
+/**
+ * Validates calculator state read back from browser storage, such as a saved project
+ * Subnets must pass the same checks as a shared link and keep their IDs and status history;
+ * derived values are recalculated. Returns null when the state is malformed.
+ */
+export function normalizeCalculatorState(value: unknown): ShareableCalculatorState | null {
+  if (
+    !isRecord(value) ||
+    (value.ipVersion !== 'ipv4' && value.ipVersion !== 'ipv6') ||
+    typeof value.cidr !== 'string' || !/^\d{1,3}$/.test(value.cidr) ||
+    !Array.isArray(value.splitSubnets) || value.splitSubnets.length > MAX_SHARED_SUBNETS ||
+    !Array.isArray(value.expandedNodes)
+  ) {
+    return null;
+  }
+
+  const header = validateStateHeader(value.ipAddress, parseInt(value.cidr, 10), value.mode, value.ipVersion, value.dualStackIPv6, value.customProfile);
+  const subnets = value.splitSubnets;
+  if (!header || !subnets.every(subnet => isRecord(subnet) && typeof subnet.id === 'string')) {
+    return null;
+  }
+
+  const space = getAddressSpace(header.ipAddress, header.cidr, header.ipVersion);
+  const baseId = `${space.baseNetwork}/${header.cidr}`;
+  const records = subnets as Array<Record<string, unknown> & { id: string }>;
+  const indexById = new Map(records.map((subnet, index) => [subnet.id, index]));
+  if (indexById.size !== records.length) {
+    return null;
+  }
+
+  const rows: ValidatedSubnetRow[] = [];
+  for (const subnet of records) {
+    const { network, cidr: subnetCidr, parentId } = subnet;
+    const parentIndex = parentId === undefined || parentId === baseId ? -1 : indexById.get(parentId as string);
+    if (
+      parentIndex === undefined ||
+      subnet.ipVersion !== header.ipVersion ||
+      typeof network !== 'string' ||
+      !(header.ipVersion === 'ipv4' ? isValidIPv4(network) : validateIPv6(network)) ||
+      typeof subnetCidr !== 'number' || !Number.isInteger(subnetCidr) || subnetCidr < header.cidr || subnetCidr > space.totalBits ||
+      !isValidStatusHistory(subnet.statusHistory)
+    ) {
+      return null;
+    }
+
+    const networkValue = space.toBigInt(network);
+    if (
+      networkValue % space.blockSize(subnetCidr) !== BigInt(0) ||
+      networkValue < space.baseValue ||
+      networkValue >= space.baseValue + space.blockSize(header.cidr)
+    ) {
+      return null;
+    }
+
+    // Details go through the share token rules, so both sources accept the same names and metadata
+    const encodedDetails = encodeSubnetDetails(subnet as unknown as SplitSubnet, header.dualStackBlock);
+    const details = encodedDetails ? decodeSubnetDetails(encodedDetails) : null;
+    if (encodedDetails && !details) {
+      return null;
+    }
+    rows.push({ parentIndex, cidr: subnetCidr, value: networkValue, details });
+  }
+
+  const splitSubnets = buildSplitSubnets(header, rows, records.map(subnet => subnet.id));
+  if (!splitSubnets) {
+    return null;
+  }
+
+  return createCalculatorState(
+    header,
+    splitSubnets.map((subnet, index) => {
+      const statusHistory = records[index].statusHistory as SubnetStatusChange[] | undefined;
+      return statusHistory ? { ...subnet, statusHistory } : subnet;
+    }),
+    value.expandedNodes.filter((id): id is string => typeof id === 'string' && (id === baseId || indexById.has(id)))
+  );
+}
+
+/**
+ * Reads and validates the state token from a URL fragment such as "#plan=..."
+ */
+export function getShareTokenFromHash(hash: string): string | null {
+  const params = new URLSearchParams(hash.startsWith('#') ? hash.slice(1) : hash);
+  return sanitizeStateToken(params.get(SHARE_STATE_PARAM));
+}
+
+/**
+ * Builds a shareable link for the current page, using only the validated internal path
+ */
+export function buildShareURL(state: ShareableCalculatorState, location: Pick<Location, 'origin' | 'pathname'>): string {
+  const { sanitizedPath } = validateInternalURL(location.pathname);
+  return `${location.origin}${sanitizedPath}#${SHARE_STATE_PARAM}=${encodeShareState(state)}`;
+}
@@ -0,0 +1,248 @@
+/**
+ * Special-Purpose Address Functions
+ *
+ * This module classifies networks against the IANA IPv4 and IPv6 Special-Purpose Address
+ * Registries (RFC 6890 and the RFCs that added entries since), together with the multicast
+ * and reserved blocks of the address space registries. Each entry carries the registry's
+ * flags: whether the addresses are valid as a source or destination, forwardable by routers,
+ * globally reachable and reserved by protocol. A network takes the most specific entry that
+ * holds all of it; entries inside a larger network are listed separately, so planning with
+ * 0.0.0.0/0 or 192.0.0.0/8 reports the special blocks it covers. Warnings flag plans that use
+ * public IPv4 space or any special-purpose space other than private-use and unique local.
+ */
+
+import { IPVersion } from './types';
+import { addressToBigInt, detectIPVersion, parseCIDR } from './cidr-ranges';
+
+export interface SpecialPurposeBlock {
+  prefix: string; // CIDR notation
+  name: string; // Registry name
+  type: string; // Short address type, such as Private-Use or Link-Local
+  rfc: string;
+  source: boolean; // Valid as a source address
+  destination: boolean; // Valid as a destination address
+  forwardable: boolean; // Routers may forward packets with these addresses between interfaces
+  globallyReachable: boolean | null; // Null where the registry gives N/A, such as 6to4 and Teredo
+  reservedByProtocol: boolean;
+  private?: boolean; // RFC 1918 and unique local space, meant for internal networks
+}
+
+export interface AddressSpaceClassification {
+  ipVersion: IPVersion;
+  block: SpecialPurposeBlock | null; // Most specific entry holding the whole network; null for ordinary space
+  type: string;
+  forwardable: boolean;
+  globallyReachable: boolean | null;
+  isPrivate: boolean;
+  contained: SpecialPurposeBlock[]; // Smaller entries inside the network, in address order
+}
+
+type Flags = Pick<SpecialPurposeBlock, 'source' | 'destination' | 'forwardable' | 'globallyReachable' | 'reservedByProtocol'>;
+
+// Flag sets shared by many entries: source, destination, forwardable, globally reachable, reserved by protocol
+const flags = (source: boolean, destination: boolean, forwardable: boolean, globallyReachable: boolean | null, reservedByProtocol: boolean): Flags =>
+  ({ source, destination, forwardable, globallyReachable, reservedByProtocol });
+const LOCAL_USE = flags(true, true, true, false, false);
+const GLOBAL_SERVICE = flags(true, true, true, true, false);
+const DOCUMENTATION = flags(false, false, false, false, false);
+
+export const IPV4_SPECIAL_PURPOSE_REGISTRY: SpecialPurposeBlock[] = [
+  { prefix: '0.0.0.0/8', name: '"This network"', type: 'This Network', rfc: 'RFC 791', ...flags(true, false, false, false, true) },
+  { prefix: '0.0.0.0/32', name: '"This host on this network"', type: 'Unspecified', rfc: 'RFC 1122', ...flags(true, false, false, false, true) },
+  { prefix: '10.0.0.0/8', name: 'Private-Use', type: 'Private-Use', rfc: 'RFC 1918', ...LOCAL_USE, private: true },
+  { prefix: '100.64.0.0/10', name: 'Shared Address Space', type: 'Shared (CGNAT)', rfc: 'RFC 6598', ...LOCAL_USE },
+  { prefix: '127.0.0.0/8', name: 'Loopback', type: 'Loopback', rfc: 'RFC 1122', ...flags(false, false, false, false, true) },
+  { prefix: '169.254.0.0/16', name: 'Link Local', type: 'Link-Local', rfc: 'RFC 3927', ...flags(true, true, false, false, true) },
+  { prefix: '172.16.0.0/12', name: 'Private-Use', type: 'Private-Use', rfc: 'RFC 1918', ...LOCAL_USE, private: true },
+  { prefix: '192.0.0.0/24', name: 'IETF Protocol Assignments', type: 'Protocol Assignment', rfc: 'RFC 6890', ...flags(false, false, false, false, false) },
+  { prefix: '192.0.0.0/29', name: 'IPv4 Service Continuity Prefix', type: 'Translation', rfc: 'RFC 7335', ...LOCAL_USE },
+  { prefix: '192.0.0.8/32', name: 'IPv4 dummy address', type: 'Dummy', rfc: 'RFC 7600', ...flags(true, false, false, false, false) },
+  { prefix: '192.0.0.9/32', name: 'Port Control Protocol Anycast', type: 'Anycast', rfc: 'RFC 7723', ...GLOBAL_SERVICE },
+  { prefix: '192.0.0.10/32', name: 'Traversal Using Relays around NAT Anycast', type: 'Anycast', rfc: 'RFC 8155', ...GLOBAL_SERVICE },
+  { prefix: '192.0.0.170/32', name: 'NAT64/DNS64 Discovery', type: 'Translation', rfc: 'RFC 7050', ...flags(false, false, false, false, true) },
+  { prefix: '192.0.0.171/32', name: 'NAT64/DNS64 Discovery', type: 'Translation', rfc: 'RFC 7050', ...flags(false, false, false, false, true) },
+  { prefix: '192.0.2.0/24', name: 'Documentation (TEST-NET-1)', type: 'Documentation', rfc: 'RFC 5737', ...DOCUMENTATION },
+  { prefix: '192.31.196.0/24', name: 'AS112-v4', type: 'Anycast', rfc: 'RFC 7535', ...GLOBAL_SERVICE },
+  { prefix: '192.52.193.0/24', name: 'AMT', type: 'Tunnel', rfc: 'RFC 7450', ...GLOBAL_SERVICE },
+  { prefix: '192.88.99.0/24', name: 'Deprecated (6to4 Relay Anycast)', type: 'Deprecated', rfc: 'RFC 7526', ...flags(false, false, false, false, false) },
+  { prefix: '192.88.99.2/32', name: '6a44-relay anycast address', type: '6a44', rfc: 'RFC 6751', ...flags(true, true, true, null, false) },
+  { prefix: '192.168.0.0/16', name: 'Private-Use', type: 'Private-Use', rfc: 'RFC 1918', ...LOCAL_USE, private: true },
+  { prefix: '192.175.48.0/24', name: 'Direct Delegation AS112 Service', type: 'Anycast', rfc: 'RFC 7534', ...GLOBAL_SERVICE },
+  { prefix: '198.18.0.0/15', name: 'Benchmarking', type: 'Benchmarking', rfc: 'RFC 2544', ...LOCAL_USE },
+  { prefix: '198.51.100.0/24', name: 'Documentation (TEST-NET-2)', type: 'Documentation', rfc: 'RFC 5737', ...DOCUMENTATION },
+  { prefix: '203.0.113.0/24', name: 'Documentation (TEST-NET-3)', type: 'Documentation', rfc: 'RFC 5737', ...DOCUMENTATION },
+  { prefix: '224.0.0.0/4', name: 'Multicast', type: 'Multicast', rfc: 'RFC 5771', ...flags(false, true, true, false, false) },
+  { prefix: '240.0.0.0/4', name: 'Reserved', type: 'Reserved', rfc: 'RFC 1112', ...flags(false, false, false, false, true) },
+  { prefix: '255.255.255.255/32', name: 'Limited Broadcast', type: 'Broadcast', rfc: 'RFC 919', ...flags(false, true, false, false, true) }
+];
+
+export const IPV6_SPECIAL_PURPOSE_REGISTRY: SpecialPurposeBlock[] = [
+  { prefix: '::/128', name: 'Unspecified Address', type: 'Unspecified', rfc: 'RFC 4291', ...flags(true, false, false, false, true) },
+  { prefix: '::1/128', name: 'Loopback Address', type: 'Loopback', rfc: 'RFC 4291', ...flags(false, false, false, false, true) },
+  { prefix: '::ffff:0:0/96', name: 'IPv4-mapped Address', type: 'IPv4-Mapped', rfc: 'RFC 4291', ...flags(false, false, false, false, true) },
+  { prefix: '64:ff9b::/96', name: 'IPv4-IPv6 Translation', type: 'NAT64', rfc: 'RFC 6052', ...GLOBAL_SERVICE },
+  { prefix: '64:ff9b:1::/48', name: 'IPv4-IPv6 Translation (local use)', type: 'NAT64', rfc: 'RFC 8215', ...LOCAL_USE },
+  { prefix: '100::/64', name: 'Discard-Only Address Block', type: 'Discard', rfc: 'RFC 6666', ...LOCAL_USE },
+  { prefix: '2001::/23', name: 'IETF Protocol Assignments', type: 'Protocol Assignment', rfc: 'RFC 2928', ...flags(false, false, false, false, false) },
+  { prefix: '2001::/32', name: 'TEREDO', type: 'Teredo', rfc: 'RFC 4380', ...flags(true, true, true, null, false) },
+  { prefix: '2001:1::1/128', name: 'Port Control Protocol Anycast', type: 'Anycast', rfc: 'RFC 7723', ...GLOBAL_SERVICE },
+  { prefix: '2001:1::2/128', name: 'Traversal Using Relays around NAT Anycast', type: 'Anycast', rfc: 'RFC 8155', ...GLOBAL_SERVICE },
+  { prefix: '2001:1::3/128', name: 'DNS-SD Service Registration Protocol Anycast', type: 'Anycast', rfc: 'RFC 9665', ...GLOBAL_SERVICE },
+  { prefix: '2001:2::/48', name: 'Benchmarking', type: 'Benchmarking', rfc: 'RFC 5180', ...LOCAL_USE },
+  { prefix: '2001:3::/32', name: 'AMT', type: 'Tunnel', rfc: 'RFC 7450', ...GLOBAL_SERVICE },
+  { prefix: '2001:4:112::/48', name: 'AS112-v6', type: 'Anycast', rfc: 'RFC 7535', ...GLOBAL_SERVICE },
+  { prefix: '2001:10::/28', name: 'Deprecated (previously ORCHID)', type: 'Deprecated', rfc: 'RFC 4843', ...flags(false, false, false, false, false) },
+  { prefix: '2001:20::/28', name: 'ORCHIDv2', type: 'ORCHID', rfc: 'RFC 7343', ...GLOBAL_SERVICE },
+  { prefix: '2001:30::/28', name: 'Drone Remote ID Protocol Entity Tags (DETs) Prefix', type: 'ORCHID', rfc: 'RFC 9374', ...GLOBAL_SERVICE },
+  { prefix: '2001:db8::/32', name: 'Documentation', type: 'Documentation', rfc: 'RFC 3849', ...DOCUMENTATION },
+  { prefix: '2002::/16', name: '6to4', type: '6to4', rfc: 'RFC 3056', ...flags(true, true, true, null, false) },
+  { prefix: '2620:4f:8000::/48', name: 'Direct Delegation AS112 Service', type: 'Anycast', rfc: 'RFC 7534', ...GLOBAL_SERVICE },
+  { prefix: '3fff::/20', name: 'Documentation', type: 'Documentation', rfc: 'RFC 9637', ...DOCUMENTATION },
+  { prefix: '5f00::/16', name: 'Segment Routing (SRv6) SIDs', type: 'SRv6', rfc: 'RFC 9602', ...LOCAL_USE },
+  { prefix: 'fc00::/7', name: 'Unique-Local', type: 'Unique Local', rfc: 'RFC 4193', ...LOCAL_USE, private: true },
+  { prefix: 'fe80::/10', name: 'Link-Local Unicast', type: 'Link-Local', rfc: 'RFC 4291', ...flags(true, true, false, false, true) },
+  { prefix: 'ff00::/8', name: 'Multicast', type: 'Multicast', rfc: 'RFC 4291', ...flags(false, true, true, false, false) }
+];
+
+// Only 2000::/3 is allocated for global unicast; the rest of the IPv6 space is reserved by the IETF
+const IPV6_GLOBAL_UNICAST = '2000::/3';
+
+interface RegistryRange {
+  block: SpecialPurposeBlock;
+  start: bigint;
+  end: bigint;
+  prefix: number;
+}
+
+const registryRanges = new Map<IPVersion, RegistryRange[]>();
+
+function getRegistryRanges(ipVersion: IPVersion): RegistryRange[] {
+  let ranges = registryRanges.get(ipVersion);
+  if (!ranges) {
+    const registry = ipVersion === 'ipv4' ? IPV4_SPECIAL_PURPOSE_REGISTRY : IPV6_SPECIAL_PURPOSE_REGISTRY;
+    ranges = registry.map(block => {
+      const parsed = parseCIDR(block.prefix);
+      const start = addressToBigInt(parsed.network, ipVersion);
+      return { block, start, end: start + parsed.addressCount - BigInt(1), prefix: parsed.prefix };
+    });
+    registryRanges.set(ipVersion, ranges);
+  }
+  return ranges;
+}
+
+/**
+ * Classifies a network against the special-purpose registry of its IP version
+ * Host bits of the network are ignored. Ordinary IPv4 space is classed as Public and IPv6
+ * space inside 2000::/3 as Global Unicast; other IPv6 space is Reserved by IETF.
+ */
+export function classifyAddressSpace(network: string, prefix: number): AddressSpaceClassification {
+  const ipVersion = detectIPVersion(network);
+  if (!ipVersion) {
+    throw new Error(`Invalid network address: ${network}`);
+  }
+
+  const target = parseCIDR(`${network.trim()}/${prefix}`);
+  const start = addressToBigInt(target.network, ipVersion);
+  const end = start + target.addressCount - BigInt(1);
+  const ranges = getRegistryRanges(ipVersion);
+
+  const holding = ranges
+    .filter(range => range.start <= start && end <= range.end)
+    .sort((a, b) => b.prefix - a.prefix)[0];
+  const contained = ranges
+    .filter(range => range !== holding && start <= range.start && range.end <= end)
+    .sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : a.prefix - b.prefix))
+    .map(range => range.block);
+
+  if (holding) {
+    const { block } = holding;
+    return {
+      ipVersion,
+      block,
+      type: block.type,
+      forwardable: block.forwardable,
+      globallyReachable: block.globallyReachable,
+      isPrivate: Boolean(block.private),
+      contained
+    };
+  }
+
+  const globalUnicast = parseCIDR(IPV6_GLOBAL_UNICAST);
+  const globalUnicastStart = addressToBigInt(globalUnicast.network, 'ipv6');
+  const isGlobal = ipVersion === 'ipv4' ||
+    (start >= globalUnicastStart && end < globalUnicastStart + globalUnicast.addressCount);
+  return {
+    ipVersion,
+    block: null,
+    type: ipVersion === 'ipv4' ? 'Public' : isGlobal ? 'Global Unicast' : 'Reserved by IETF',
+    forwardable: isGlobal,
+    globallyReachable: isGlobal,
+    isPrivate: false,
+    contained
+  };
+}
+
+/**
+ * Describes the registry flags of a classification, e.g. "Forwardable · Not globally reachable"
+ */
+export function formatAddressSpaceFlags(classification: AddressSpaceClassification): string {
+  const { block } = classification;
+  const parts = [
+    classification.forwardable ? 'Forwardable' : 'Not forwardable',
+    classification.globallyReachable === null
+      ? 'Global reachability N/A'
+      : classification.globallyReachable ? 'Globally reachable' : 'Not globally reachable'
+  ];
+
+  if (block && !block.source) {
+    parts.push('Not valid as a source');
+  }
+  if (block && !block.destination) {
+    parts.push('Not valid as a destination');
+  }
+  if (block?.reservedByProtocol) {
+    parts.push('Reserved by protocol');
+  }
+  return parts.join(' · ');
+}
+
+/**
+ * Describes a classification, e.g. "Private-Use (10.0.0.0/8, RFC 1918)" or "Public"
+ */
+export function formatAddressSpace(classification: AddressSpaceClassification): string {
+  const { block } = classification;
+  return block ? `${block.name} (${block.prefix}, ${block.rfc})` : classification.type;
+}
+
+/**
+ * Lists warnings for planning with a network that is not private address space
+ * Public IPv4 space and special-purpose space other than private-use and unique local are
+ * flagged, as are special-purpose blocks inside a larger network. IPv6 plans normally use
+ * global unicast space, so only reserved and special-purpose IPv6 space is flagged.
+ */
+export function getAddressSpaceWarnings(network: string, prefix: number): string[] {
+  const classification = classifyAddressSpace(network, prefix);
+  const target = `${parseCIDR(`${network.trim()}/${prefix}`).network}/${prefix}`;
+  const { block } = classification;
+  const warnings: string[] = [];
+
+  if (block && !block.private) {
+    const limits = [
+      !block.forwardable && 'is not forwarded by routers',
+      !block.source && !block.destination && 'is not valid as a source or destination'
+    ].filter(Boolean);
+    warnings.push(`${target} is ${block.name} space (${block.prefix}, ${block.rfc})${limits.length > 0 ? ` and ${limits.join(' and ')}` : ''}`);
+  } else if (!block && classification.ipVersion === 'ipv4') {
+    warnings.push(`${target} is public address space; plan with it only if it is assigned to your organization`);
+  } else if (!block && !classification.globallyReachable) {
+    warnings.push(`${target} is outside 2000::/3 and is reserved by the IETF`);
+  }
+
+  const special = classification.contained.filter(entry => !entry.private);
+  if (special.length > 0) {
+    const listed = special.slice(0, 3).map(entry => `${entry.prefix} ${entry.name}`).join(', ');
+    warnings.push(`${target} includes special-purpose space: ${listed}${special.length > 3 ? ` and ${special.length - 3} more` : ''}`);
+  }
+
+  return warnings;
+}
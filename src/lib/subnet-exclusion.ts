@@ -0,0 +1,283 @@
+/**
+ * Subnet Exclusion Functions
+ *
+ * This module carves one or more prefixes out of a parent network and returns the
+ * remaining address space as the minimal set of CIDR blocks. The remaining blocks are
+ * built as SplitSubnets one level below the parent, so an exclusion fits into the subnet
+ * hierarchy and operation history in the same way as a split. An existing plan is carved
+ * in place instead, so the subnets outside the excluded prefixes are kept.
+ */
+
+import {
+  SubnetInfo,
+  SplitSubnet,
+  CloudMode,
+  IPVersion,
+  CIDRBlock,
+  ExcludeOptions,
+  SubnetCalculationResult
+} from './types';
+import { generateSubnetId } from './utils';
+import { calculateSubnetDetailsFromNetwork, getLeafSubnets } from './subnet-splitting';
+import { getCloudProvider } from './cloud-providers';
+import {
+  parseCIDR,
+  aggregateCIDRs,
+  addressToBigInt,
+  bigIntRangeToCIDRs,
+  detectIPVersion,
+  formatCIDRBlock
+} from './cidr-ranges';
+
+// Default limit on the number of remaining subnets produced by a single exclusion
+export const DEFAULT_MAX_EXCLUSION_RESULTS = 1000;
+
+export interface ExclusionResult extends SubnetCalculationResult {
+  excludedBlocks: CIDRBlock[]; // Merged excluded prefixes, in address order
+  warnings: string[];
+}
+
+export interface PlanExclusionResult extends ExclusionResult {
+  plan: SplitSubnet[]; // The complete plan after the exclusion
+  removedSubnets: SplitSubnet[]; // Subnets that overlapped an excluded prefix, in plan order
+}
+
+interface ResolvedExclusion {
+  ipVersion: IPVersion;
+  parent: CIDRBlock;
+  excludedBlocks: CIDRBlock[];
+}
+
+/**
+ * Validates the excluded prefixes against the parent network and merges them
+ */
+function resolveExclusion(parentSubnet: SubnetInfo, options: ExcludeOptions): ResolvedExclusion {
+  const ipVersion: IPVersion | null = detectIPVersion(parentSubnet.network);
+  const parentPrefix = parseInt(parentSubnet.cidr.replace('/', ''), 10);
+  if (!ipVersion || isNaN(parentPrefix)) {
+    throw new Error(`Invalid parent subnet: ${parentSubnet.network}${parentSubnet.cidr}`);
+  }
+
+  const prefixes = options.excludedPrefixes.map(prefix => prefix.trim()).filter(Boolean);
+  if (prefixes.length === 0) {
+    throw new Error('At least one prefix to exclude is required');
+  }
+
+  const parent = parseCIDR(`${parentSubnet.network}/${parentPrefix}`);
+  const parentStart = addressToBigInt(parent.network, ipVersion);
+  const parentEnd = parentStart + parent.addressCount - BigInt(1);
+
+  const excluded = prefixes.map(prefix => {
+    const block = parseCIDR(prefix);
+    if (block.ipVersion !== ipVersion) {
+      throw new Error(`${prefix} is not an ${ipVersion === 'ipv4' ? 'IPv4' : 'IPv6'} prefix`);
+    }
+
+    const start = addressToBigInt(block.network, ipVersion);
+    if (start < parentStart || start + block.addressCount - BigInt(1) > parentEnd) {
+      throw new Error(`${formatCIDRBlock(block)} is not inside ${formatCIDRBlock(parent)}`);
+    }
+    return block;
+  });
+
+  const excludedBlocks = aggregateCIDRs(excluded);
+  if (excludedBlocks.length === 1 && excludedBlocks[0].prefix === parentPrefix) {
+    throw new Error(`Excluding ${formatCIDRBlock(excludedBlocks[0])} would leave no address space`);
+  }
+  return { ipVersion, parent, excludedBlocks };
+}
+
+/**
+ * Covers the gaps between the excluded blocks inside [start, end] with minimal CIDR blocks
+ */
+function getRemainingBlocks(start: bigint, end: bigint, excludedBlocks: CIDRBlock[], ipVersion: IPVersion): CIDRBlock[] {
+  const remaining: CIDRBlock[] = [];
+  let cursor = start;
+  excludedBlocks.forEach(block => {
+    const blockStart = addressToBigInt(block.network, ipVersion);
+    const blockEnd = blockStart + block.addressCount - BigInt(1);
+    if (blockEnd < start || blockStart > end) {
+      return;
+    }
+    if (blockStart > cursor) {
+      remaining.push(...bigIntRangeToCIDRs(cursor, blockStart - BigInt(1), ipVersion));
+    }
+    cursor = blockEnd + BigInt(1);
+  });
+  if (cursor <= end) {
+    remaining.push(...bigIntRangeToCIDRs(cursor, end, ipVersion));
+  }
+  return remaining;
+}
+
+function checkResultLimit(remaining: CIDRBlock[], options: ExcludeOptions): void {
+  const maxResults = options.maxResults ?? DEFAULT_MAX_EXCLUSION_RESULTS;
+  if (remaining.length > maxResults) {
+    throw new Error(`Exclusion would create ${remaining.length} subnets, which exceeds the limit of ${maxResults}`);
+  }
+}
+
+/**
+ * Warns about remaining blocks below the cloud provider's minimum subnet size
+ */
+function getSizeWarnings(remaining: CIDRBlock[], ipVersion: IPVersion, cloudMode: CloudMode): string[] {
+  const warnings: string[] = [];
+  const provider = getCloudProvider(cloudMode);
+  if (ipVersion === 'ipv4' && provider) {
+    const tooSmall = remaining.filter(block => block.prefix > provider.maxCidr);
+    if (tooSmall.length > 0) {
+      warnings.push(
+        `${tooSmall.length} remaining subnet${tooSmall.length === 1 ? ' is' : 's are'} smaller than the ${provider.name} minimum of /${provider.maxCidr}`
+      );
+    }
+  } else if (provider) {
+    const tooSmall = remaining.filter(block => block.prefix > provider.ipv6.subnetPrefix);
+    if (tooSmall.length > 0) {
+      warnings.push(
+        `${tooSmall.length} remaining subnet${tooSmall.length === 1 ? ' is' : 's are'} smaller than the /${provider.ipv6.subnetPrefix} ${provider.name} requires for IPv6 subnets`
+      );
+    }
+  }
+  return warnings;
+}
+
+function summarize(subnets: SplitSubnet[], startTime: number): SubnetCalculationResult {
+  return {
+    subnets,
+    totalSubnets: subnets.length,
+    totalAddresses: subnets.reduce((sum, subnet) => sum + subnet.totalHosts, 0),
+    usableAddresses: subnets.reduce((sum, subnet) => sum + subnet.usableHosts, 0),
+    performance: {
+      calculationTime: performance.now() - startTime
+    }
+  };
+}
+
+/**
+ * Removes the excluded prefixes from a parent network
+ * Excluded prefixes must lie inside the parent and use the same IP version; overlapping
+ * exclusions are merged. Throws when the input is invalid or nothing would remain.
+ */
+export function excludeFromSubnet(
+  parentSubnet: SubnetInfo,
+  options: ExcludeOptions,
+  cloudMode: CloudMode = 'normal'
+): ExclusionResult {
+  const startTime = performance.now();
+  const { ipVersion, parent, excludedBlocks } = resolveExclusion(parentSubnet, options);
+  const parentStart = addressToBigInt(parent.network, ipVersion);
+  const remaining = getRemainingBlocks(parentStart, parentStart + parent.addressCount - BigInt(1), excludedBlocks, ipVersion);
+  checkResultLimit(remaining, options);
+
+  const subnets: SplitSubnet[] = remaining.map(block => ({
+    id: generateSubnetId(),
+    ...calculateSubnetDetailsFromNetwork(block.network, block.prefix, ipVersion, cloudMode),
+    parentId: parentSubnet.id,
+    level: (parentSubnet.level || 0) + 1,
+    isSelected: false,
+    ipVersion
+  }));
+
+  return {
+    ...summarize(subnets, startTime),
+    excludedBlocks,
+    warnings: getSizeWarnings(remaining, ipVersion, cloudMode)
+  };
+}
+
+/**
+ * Removes the excluded prefixes from the current subnets of a plan
+ * Subnets inside an excluded prefix are dropped with everything below them. A leaf subnet that
+ * overlaps one is replaced by its remaining space, as siblings that keep its label and metadata.
+ * Without subnets the parent network is carved as in excludeFromSubnet.
+ */
+export function excludeFromPlan(
+  parentSubnet: SubnetInfo,
+  subnets: SplitSubnet[],
+  options: ExcludeOptions,
+  cloudMode: CloudMode = 'normal'
+): PlanExclusionResult {
+  if (subnets.length === 0) {
+    const result = excludeFromSubnet(parentSubnet, options, cloudMode);
+    return { ...result, plan: result.subnets, removedSubnets: [] };
+  }
+
+  const startTime = performance.now();
+  const { ipVersion, excludedBlocks } = resolveExclusion(parentSubnet, options);
+  const excludedRanges = excludedBlocks.map(block => {
+    const start = addressToBigInt(block.network, ipVersion);
+    return { start, end: start + block.addressCount - BigInt(1) };
+  });
+  const getRange = (subnet: SplitSubnet) => {
+    const block = parseCIDR(`${subnet.network}/${subnet.cidr}`);
+    const start = addressToBigInt(block.network, ipVersion);
+    return { start, end: start + block.addressCount - BigInt(1) };
+  };
+  const getExcludedCount = (subnet: SplitSubnet) => {
+    const range = getRange(subnet);
+    return excludedRanges.reduce((count, excluded) => {
+      const start = excluded.start > range.start ? excluded.start : range.start;
+      const end = excluded.end < range.end ? excluded.end : range.end;
+      return start <= end ? count + end - start + BigInt(1) : count;
+    }, BigInt(0));
+  };
+
+  // Subnets wholly inside the excluded space go first, taking their descendants with them
+  const dropped = new Set<string>();
+  subnets.forEach(subnet => {
+    if (subnet.ipVersion !== ipVersion) {
+      return;
+    }
+    const range = getRange(subnet);
+    if (getExcludedCount(subnet) === range.end - range.start + BigInt(1)) {
+      dropped.add(subnet.id);
+    }
+  });
+  const kept = subnets.filter(subnet => !dropped.has(subnet.id));
+
+  // Leaves that still overlap, including parents left without children, give way to their remaining space
+  const carved = new Map<string, CIDRBlock[]>();
+  getLeafSubnets(kept).forEach(leaf => {
+    if (leaf.ipVersion === ipVersion && getExcludedCount(leaf) > BigInt(0)) {
+      const range = getRange(leaf);
+      carved.set(leaf.id, getRemainingBlocks(range.start, range.end, excludedBlocks, ipVersion));
+    }
+  });
+
+  if (dropped.size === 0 && carved.size === 0) {
+    throw new Error(`${excludedBlocks.map(formatCIDRBlock).join(', ')} does not overlap any current subnet`);
+  }
+  const remaining = Array.from(carved.values()).flat();
+  checkResultLimit(remaining, options);
+
+  const created: SplitSubnet[] = [];
+  const plan = kept.flatMap(subnet => {
+    const blocks = carved.get(subnet.id);
+    if (!blocks) {
+      return [subnet];
+    }
+    const pieces: SplitSubnet[] = blocks.map(block => ({
+      id: generateSubnetId(),
+      ...calculateSubnetDetailsFromNetwork(block.network, block.prefix, ipVersion, cloudMode),
+      parentId: subnet.parentId,
+      level: subnet.level,
+      isSelected: false,
+      ...(subnet.label ? { label: subnet.label } : {}),
+      ...(subnet.metadata ? { metadata: subnet.metadata } : {}),
+      ipVersion
+    }));
+    created.push(...pieces);
+    return pieces;
+  });
+  if (plan.length === 0) {
+    throw new Error(`Excluding ${excludedBlocks.map(formatCIDRBlock).join(', ')} would remove every subnet in the plan`);
+  }
+
+  return {
+    ...summarize(created, startTime),
+    excludedBlocks,
+    warnings: getSizeWarnings(remaining, ipVersion, cloudMode),
+    plan,
+    removedSubnets: subnets.filter(subnet => dropped.has(subnet.id) || carved.has(subnet.id))
+  };
+}
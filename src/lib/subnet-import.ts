@@ -0,0 +1,549 @@
+/**
+ * Subnet Import Functions
+ *
+ * This module reads subnet plans produced by the CSV and JSON exports and rebuilds
+ * SplitSubnet objects from them. Derived fields (broadcast, host ranges, counts,
+ * cloud reservations) are recomputed rather than trusted, and the hierarchy is
+ * rebuilt from address containment so that hand-edited files stay consistent. Subnet
+ * names, metadata, status and dual-stack IPv6 pairs are validated and kept.
+ */
+
+import {
+  SplitSubnet,
+  SubnetError,
+  SubnetStatus,
+  IPVersion,
+  CIDRBlock,
+  ImportOptions,
+  ImportResult
+} from './types';
+import { generateSubnetId, validateIPv6, ipv6ToBigInt, compressIPv6 } from './utils';
+import {
+  ipv4ToInt,
+  calculateSubnetDetailsFromNetwork,
+  createSubnetError
+} from './subnet-splitting';
+import { parseSubnetDetailsInput, SubnetDetails } from './subnet-metadata';
+import { SUBNET_STATUSES } from './subnet-status';
+import { parseCIDR, formatCIDRBlock, isValidIPv4 } from './cidr-ranges';
+import { DUAL_STACK_SUBNET_PREFIX } from './dual-stack';
+
+// Maximum number of rows accepted in a single import to keep the UI responsive
+export const MAX_IMPORT_ROWS = 10000;
+
+// Column order used by the CSV export when headers are not included
+const CSV_POSITIONAL_COLUMNS = [
+  'network',
+  'cidr',
+  'broadcast',
+  'firsthost',
+  'lasthost',
+  'totalhosts',
+  'usablehosts',
+  'ipversion'
+];
+
+// Columns added by the CSV export when metadata is included
+const CSV_POSITIONAL_METADATA_COLUMNS = ['level', 'parentid', 'hascloudreserved'];
+
+// Subnet name, metadata, status and IPv6 pair columns, which the CSV export always writes last;
+// older exports end at the status or environment column
+const CSV_POSITIONAL_DETAIL_COLUMNS = ['name', 'description', 'tags', 'vlanid', 'owner', 'environment', 'status', 'pairedipv6'];
+
+// Raw subnet record extracted from an import file before validation
+interface RawSubnetRecord {
+  row: number;
+  id?: string;
+  network?: string;
+  cidr?: string;
+  ipVersion?: string;
+  parentId?: string;
+  level?: string;
+  label?: string;
+  description?: string;
+  tags?: string;
+  vlanId?: string;
+  owner?: string;
+  environment?: string;
+  status?: string;
+  pairedIPv6?: string;
+}
+
+// Validated subnet candidate used while rebuilding the hierarchy
+interface ImportCandidate {
+  row: number;
+  id: string;
+  network: string;
+  cidr: number;
+  ipVersion: IPVersion;
+  start: bigint;
+  end: bigint;
+  parentId?: string;
+  level?: number;
+  details: SubnetDetails;
+  status?: SubnetStatus;
+  pairedIPv6?: string;
+}
+
+/**
+ * Creates a row-level import error
+ */
+function createImportError(
+  row: number,
+  code: string,
+  message: string,
+  details?: Record<string, unknown>
+): SubnetError {
+  return {
+    ...createSubnetError('import', `Row ${row}: ${message}`, { row, ...details }),
+    code
+  };
+}
+
+/**
+ * Creates a file-level import error that prevents any rows from being read
+ */
+function createFileError(code: string, message: string): SubnetError {
+  return {
+    ...createSubnetError('import', message),
+    code,
+    recoverable: false
+  };
+}
+
+/**
+ * Splits CSV text into rows of fields
+ * Supports quoted fields with embedded commas, newlines and doubled quotes
+ */
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(cells => cells.some(cell => cell.trim().length > 0));
+}
+
+/**
+ * Normalizes a CSV header cell to a lookup key ("Parent ID" -> "parentid")
+ */
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Extracts raw subnet records from CSV text
+ */
+function readCSVRecords(text: string): RawSubnetRecord[] {
+  const rows = parseCSV(text);
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const hasHeaders = normalizeHeader(rows[0][0] || '') === 'network';
+  // Without headers, an export without metadata is recognized by its column count
+  const detailCount = rows[0].length - CSV_POSITIONAL_COLUMNS.length;
+  const positionalColumns = detailCount <= CSV_POSITIONAL_DETAIL_COLUMNS.length && detailCount >= CSV_POSITIONAL_DETAIL_COLUMNS.length - 2
+    ? [...CSV_POSITIONAL_COLUMNS, ...CSV_POSITIONAL_DETAIL_COLUMNS]
+    : [...CSV_POSITIONAL_COLUMNS, ...CSV_POSITIONAL_METADATA_COLUMNS, ...CSV_POSITIONAL_DETAIL_COLUMNS];
+  const columns = hasHeaders ? rows[0].map(normalizeHeader) : positionalColumns;
+  const dataRows = hasHeaders ? rows.slice(1) : rows;
+
+  return dataRows.map((cells, index) => {
+    const values: Record<string, string> = {};
+    columns.forEach((column, columnIndex) => {
+      const value = cells[columnIndex]?.trim();
+      if (value) {
+        values[column] = value;
+      }
+    });
+
+    return {
+      row: index + (hasHeaders ? 2 : 1),
+      id: values.id,
+      network: values.network,
+      cidr: values.cidr,
+      ipVersion: values.ipversion,
+      parentId: values.parentid,
+      level: values.level,
+      label: values.name ?? values.label,
+      description: values.description,
+      tags: values.tags,
+      vlanId: values.vlanid ?? values.vlan,
+      owner: values.owner,
+      environment: values.environment,
+      status: values.status,
+      pairedIPv6: values.pairedipv6
+    };
+  });
+}
+
+/**
+ * Extracts raw subnet records from JSON text
+ * Accepts the export document ({ subnets: [...] }) or a bare array of subnets
+ */
+function readJSONRecords(text: string): RawSubnetRecord[] {
+  const parsed: unknown = JSON.parse(text);
+  const entries = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { subnets?: unknown })?.subnets;
+
+  if (!Array.isArray(entries)) {
+    throw new Error('JSON import must contain a "subnets" array');
+  }
+
+  const asString = (value: unknown): string | undefined => {
+    if (typeof value === 'string') return value.trim() || undefined;
+    if (typeof value === 'number') return value.toString();
+    return undefined;
+  };
+
+  return entries.map((entry, index) => {
+    const record = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+    const metadata = (record.metadata && typeof record.metadata === 'object' ? record.metadata : {}) as Record<string, unknown>;
+    return {
+      row: index + 1,
+      id: asString(record.id),
+      network: asString(record.network),
+      cidr: asString(record.cidr),
+      ipVersion: asString(record.ipVersion),
+      parentId: asString(record.parentId),
+      level: asString(record.level),
+      label: asString(record.label),
+      description: asString(metadata.description),
+      tags: Array.isArray(metadata.tags) ? metadata.tags.map(asString).filter(Boolean).join(',') : asString(metadata.tags),
+      vlanId: asString(metadata.vlanId),
+      owner: asString(metadata.owner),
+      environment: asString(metadata.environment),
+      status: asString(record.status),
+      pairedIPv6: asString(record.pairedIPv6)
+    };
+  });
+}
+
+/**
+ * Detects the import format from the file contents
+ */
+export function detectImportFormat(text: string): 'csv' | 'json' {
+  const trimmed = text.trim();
+  return trimmed.startsWith('{') || trimmed.startsWith('[') ? 'json' : 'csv';
+}
+
+/**
+ * Parses a prefix length, accepting an optional leading slash
+ */
+function parsePrefixLength(value: string | undefined): number | null {
+  if (!value) {
+    return null;
+  }
+  const cleaned = value.replace(/^\//, '');
+  if (!/^\d{1,3}$/.test(cleaned)) {
+    return null;
+  }
+  return parseInt(cleaned, 10);
+}
+
+/**
+ * Returns the address range covered by a network as BigInt bounds
+ */
+function getRange(network: string, cidr: number, ipVersion: IPVersion): { start: bigint; end: bigint } {
+  const totalBits = ipVersion === 'ipv4' ? 32 : 128;
+  const start = ipVersion === 'ipv4' ? BigInt(ipv4ToInt(network)) : ipv6ToBigInt(network);
+  const size = BigInt(1) << BigInt(totalBits - cidr);
+  return { start, end: start + size - BigInt(1) };
+}
+
+/**
+ * Validates a raw record and converts it to an import candidate
+ * Returns a SubnetError describing the first problem found in the row
+ */
+function validateRecord(
+  record: RawSubnetRecord,
+  parentRange: { start: bigint; end: bigint; ipVersion: IPVersion; label: string } | null
+): ImportCandidate | SubnetError {
+  const { row } = record;
+
+  if (!record.network) {
+    return createImportError(row, 'MISSING_NETWORK', 'Network address is required');
+  }
+
+  // Allow "10.0.0.0/24" in the network column when the CIDR column is empty
+  let address = record.network;
+  let cidrValue = record.cidr;
+  if (address.includes('/')) {
+    const [addressPart, prefixPart] = address.split('/');
+    address = addressPart.trim();
+    cidrValue = cidrValue || prefixPart;
+  }
+
+  const declaredVersion = record.ipVersion?.toLowerCase();
+  if (declaredVersion && declaredVersion !== 'ipv4' && declaredVersion !== 'ipv6') {
+    return createImportError(row, 'INVALID_IP_VERSION', `Unknown IP version "${record.ipVersion}"`, { value: record.ipVersion });
+  }
+
+  const ipVersion: IPVersion = (declaredVersion as IPVersion | undefined) || (address.includes(':') ? 'ipv6' : 'ipv4');
+  const addressValid = ipVersion === 'ipv4' ? isValidIPv4(address) : validateIPv6(address);
+  if (!addressValid) {
+    return createImportError(row, 'INVALID_ADDRESS', `"${address}" is not a valid ${ipVersion === 'ipv4' ? 'IPv4' : 'IPv6'} address`, { value: address });
+  }
+
+  const cidr = parsePrefixLength(cidrValue);
+  const maxPrefix = ipVersion === 'ipv4' ? 32 : 128;
+  if (cidr === null || cidr > maxPrefix) {
+    return createImportError(row, 'INVALID_CIDR', `CIDR must be a number between 0 and ${maxPrefix}`, { value: cidrValue });
+  }
+
+  const network = ipVersion === 'ipv6' ? compressIPv6(address) : address;
+  const { start, end } = getRange(network, cidr, ipVersion);
+  const hostMask = (BigInt(1) << BigInt(maxPrefix - cidr)) - BigInt(1);
+  if ((start & hostMask) !== BigInt(0)) {
+    return createImportError(row, 'MISALIGNED_NETWORK', `${network} is not a network address for /${cidr}`, { network, cidr });
+  }
+
+  if (parentRange) {
+    if (parentRange.ipVersion !== ipVersion) {
+      return createImportError(row, 'IP_VERSION_MISMATCH', `${network}/${cidr} does not match the ${parentRange.ipVersion === 'ipv4' ? 'IPv4' : 'IPv6'} network ${parentRange.label}`);
+    }
+    if (start < parentRange.start || end > parentRange.end) {
+      return createImportError(row, 'OUTSIDE_PARENT', `${network}/${cidr} is outside the current network ${parentRange.label}`, { network, cidr });
+    }
+  }
+
+  const level = record.level !== undefined && /^\d+$/.test(record.level) ? parseInt(record.level, 10) : undefined;
+
+  let details: SubnetDetails;
+  try {
+    details = parseSubnetDetailsInput({
+      label: record.label || '',
+      description: record.description || '',
+      tags: record.tags || '',
+      vlanId: record.vlanId || '',
+      owner: record.owner || '',
+      environment: record.environment || ''
+    });
+  } catch (error) {
+    return createImportError(row, 'INVALID_METADATA', error instanceof Error ? error.message : 'Invalid subnet metadata');
+  }
+
+  const status = record.status?.trim().toLowerCase() as SubnetStatus | undefined;
+  if (status && !SUBNET_STATUSES.includes(status)) {
+    return createImportError(row, 'INVALID_STATUS', `Unknown status "${record.status}"`, { status: record.status });
+  }
+
+  let pair: CIDRBlock | null = null;
+  if (record.pairedIPv6) {
+    try {
+      pair = parseCIDR(record.pairedIPv6);
+    } catch {
+      pair = null;
+    }
+    if (!pair || pair.ipVersion !== 'ipv6' || pair.prefix !== DUAL_STACK_SUBNET_PREFIX) {
+      return createImportError(row, 'INVALID_PAIRED_IPV6', `Paired IPv6 subnet "${record.pairedIPv6}" must be an IPv6 /${DUAL_STACK_SUBNET_PREFIX}`, { value: record.pairedIPv6 });
+    }
+  }
+
+  return {
+    row,
+    id: record.id || '',
+    network,
+    cidr,
+    ipVersion,
+    start,
+    end,
+    parentId: record.parentId,
+    level,
+    details,
+    ...(status && status !== 'free' ? { status } : {}),
+    ...(pair ? { pairedIPv6: formatCIDRBlock(pair) } : {})
+  };
+}
+
+/**
+ * Imports a subnet plan from CSV or JSON text produced by the export feature
+ */
+export function importSubnets(text: string, options: ImportOptions): ImportResult {
+  const errors: SubnetError[] = [];
+  const warnings: string[] = [];
+
+  if (!text || text.trim().length === 0) {
+    return {
+      subnets: [],
+      errors: [createFileError('EMPTY_FILE', 'Import file is empty')],
+      warnings,
+      totalRows: 0,
+      importedRows: 0
+    };
+  }
+
+  const format = options.format === 'auto' ? detectImportFormat(text) : options.format;
+
+  let records: RawSubnetRecord[];
+  try {
+    records = format === 'json' ? readJSONRecords(text) : readCSVRecords(text);
+  } catch (error) {
+    return {
+      subnets: [],
+      errors: [createFileError('PARSE_ERROR', `Unable to read ${format.toUpperCase()} file: ${error instanceof Error ? error.message : 'Unknown error'}`)],
+      warnings,
+      totalRows: 0,
+      importedRows: 0
+    };
+  }
+
+  if (records.length > MAX_IMPORT_ROWS) {
+    return {
+      subnets: [],
+      errors: [createFileError('TOO_MANY_ROWS', `Import contains ${records.length} subnets, exceeding the maximum of ${MAX_IMPORT_ROWS}`)],
+      warnings,
+      totalRows: records.length,
+      importedRows: 0
+    };
+  }
+
+  // Resolve the containing network, if any, that all rows must fall within
+  let parentRange: { start: bigint; end: bigint; ipVersion: IPVersion; label: string } | null = null;
+  if (options.parentSubnet) {
+    const parentCidr = parsePrefixLength(options.parentSubnet.cidr);
+    if (parentCidr !== null) {
+      const parentVersion: IPVersion = options.parentSubnet.network.includes(':') ? 'ipv6' : 'ipv4';
+      parentRange = {
+        ...getRange(options.parentSubnet.network, parentCidr, parentVersion),
+        ipVersion: parentVersion,
+        label: `${options.parentSubnet.network}/${parentCidr}`
+      };
+    }
+  }
+
+  // Validate rows and reject duplicates
+  const candidates: ImportCandidate[] = [];
+  const seenNetworks = new Map<string, number>();
+  const seenIds = new Set<string>();
+
+  for (const record of records) {
+    const result = validateRecord(record, parentRange);
+    if ('type' in result) {
+      errors.push(result);
+      continue;
+    }
+
+    const key = `${result.ipVersion}:${result.start}/${result.cidr}`;
+    const firstRow = seenNetworks.get(key);
+    if (firstRow !== undefined) {
+      errors.push(createImportError(result.row, 'DUPLICATE_SUBNET', `${result.network}/${result.cidr} duplicates row ${firstRow}`, { duplicateOf: firstRow }));
+      continue;
+    }
+    seenNetworks.set(key, result.row);
+
+    if (!result.id || seenIds.has(result.id)) {
+      if (result.id) {
+        warnings.push(`Row ${result.row}: duplicate ID "${result.id}" was replaced with a new ID`);
+      }
+      result.id = generateSubnetId();
+    }
+    seenIds.add(result.id);
+    candidates.push(result);
+  }
+
+  // Rebuild the hierarchy: larger networks first so parents are resolved before children
+  const byContainment = [...candidates].sort((a, b) => a.cidr - b.cidr);
+  const resolved = new Map<string, { parentId?: string; level: number }>();
+
+  for (const candidate of byContainment) {
+    let parent: ImportCandidate | undefined;
+    for (const other of byContainment) {
+      if (other.cidr >= candidate.cidr) {
+        break;
+      }
+      if (other.ipVersion === candidate.ipVersion && other.start <= candidate.start && other.end >= candidate.end) {
+        // Keep the most specific containing network
+        if (!parent || other.cidr > parent.cidr) {
+          parent = other;
+        }
+      }
+    }
+
+    if (parent) {
+      if (candidate.parentId && candidate.parentId !== parent.id && seenIds.has(candidate.parentId)) {
+        warnings.push(`Row ${candidate.row}: parent reassigned to ${parent.network}/${parent.cidr} based on address containment`);
+      }
+      resolved.set(candidate.id, {
+        parentId: parent.id,
+        level: resolved.get(parent.id)!.level + 1
+      });
+    } else {
+      resolved.set(candidate.id, {
+        parentId: options.parentSubnet?.id ?? candidate.parentId,
+        level: candidate.level ?? 1
+      });
+    }
+  }
+
+  const subnets: SplitSubnet[] = candidates.map(candidate => {
+    const hierarchy = resolved.get(candidate.id)!;
+    return {
+      id: candidate.id,
+      ...calculateSubnetDetailsFromNetwork(candidate.network, candidate.cidr, candidate.ipVersion, options.cloudMode),
+      parentId: hierarchy.parentId,
+      level: hierarchy.level,
+      isSelected: false,
+      ...(candidate.details.label ? { label: candidate.details.label } : {}),
+      ...(candidate.details.metadata ? { metadata: candidate.details.metadata } : {}),
+      ...(candidate.status ? { status: candidate.status } : {}),
+      ...(candidate.pairedIPv6 ? { pairedIPv6: candidate.pairedIPv6 } : {}),
+      ipVersion: candidate.ipVersion
+    };
+  });
+
+  if (records.length === 0) {
+    warnings.push('Import file contains no subnets');
+  }
+
+  return {
+    subnets,
+    errors,
+    warnings,
+    totalRows: records.length,
+    importedRows: subnets.length
+  };
+}
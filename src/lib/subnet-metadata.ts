@@ -0,0 +1,255 @@
+/**
+ * Subnet Metadata Functions
+ *
+ * This module validates and combines the user-maintained details of a subnet: its name
+ * (the label) and the description, tags, VLAN ID, owner and environment metadata. The
+ * same helpers back inline editing, the list and tree search, joins that keep metadata,
+ * and the export formats, so every view treats the fields consistently.
+ */
+
+import { SplitSubnet, SubnetMetadata } from './types';
+
+export const MAX_SUBNET_NAME_LENGTH = 64;
+export const MAX_SUBNET_DESCRIPTION_LENGTH = 256;
+export const MAX_SUBNET_TAGS = 20;
+export const MAX_SUBNET_TAG_LENGTH = 64;
+export const MIN_VLAN_ID = 1;
+export const MAX_VLAN_ID = 4094;
+
+// The editable details of a subnet
+export type SubnetDetails = Pick<SplitSubnet, 'label' | 'metadata'>;
+
+// Editable details as entered in a form, before validation
+export interface SubnetDetailsInput {
+  label: string;
+  description: string;
+  tags: string; // Comma-separated
+  vlanId: string;
+  owner: string;
+  environment: string;
+}
+
+const SCALAR_METADATA_KEYS = ['description', 'vlanId', 'owner', 'environment'] as const;
+
+// Values are kept on one line so they can be written to comments, tags and CSV cells
+function cleanText(value: string | undefined, field: string, maxLength: number): string | undefined {
+  const trimmed = value?.replace(/\s+/g, ' ').trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  if (trimmed.length > maxLength) {
+    throw new Error(`${field} must be at most ${maxLength} characters`);
+  }
+  return trimmed;
+}
+
+/**
+ * Splits comma-separated tags, dropping empty entries and case-insensitive duplicates
+ */
+export function parseTags(input: string): string[] {
+  const seen = new Set<string>();
+  return input.split(',').map(tag => tag.trim()).filter(tag => {
+    const key = tag.toLowerCase();
+    if (!tag || seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Parses a VLAN ID, returning undefined for empty input
+ */
+export function parseVlanId(input: string): number | undefined {
+  const trimmed = input.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  const vlanId = Number(trimmed);
+  if (!/^\d+$/.test(trimmed) || vlanId < MIN_VLAN_ID || vlanId > MAX_VLAN_ID) {
+    throw new Error(`VLAN ID must be a whole number between ${MIN_VLAN_ID} and ${MAX_VLAN_ID}`);
+  }
+  return vlanId;
+}
+
+/**
+ * Validates metadata, trimming values and leaving out empty fields
+ * Returns undefined when no field is set. Throws when a value is out of range or too long.
+ */
+export function normalizeSubnetMetadata(metadata: SubnetMetadata | undefined): SubnetMetadata | undefined {
+  if (!metadata) {
+    return undefined;
+  }
+
+  const tags = parseTags((metadata.tags || []).join(','));
+  if (tags.length > MAX_SUBNET_TAGS) {
+    throw new Error(`A subnet can have at most ${MAX_SUBNET_TAGS} tags`);
+  }
+  tags.forEach(tag => cleanText(tag, `Tag "${tag.slice(0, 16)}"`, MAX_SUBNET_TAG_LENGTH));
+
+  const normalized: SubnetMetadata = {
+    description: cleanText(metadata.description, 'Description', MAX_SUBNET_DESCRIPTION_LENGTH),
+    tags: tags.length > 0 ? tags : undefined,
+    vlanId: metadata.vlanId === undefined ? undefined : parseVlanId(String(metadata.vlanId)),
+    owner: cleanText(metadata.owner, 'Owner', MAX_SUBNET_NAME_LENGTH),
+    environment: cleanText(metadata.environment, 'Environment', MAX_SUBNET_NAME_LENGTH)
+  };
+
+  const entries = Object.entries(normalized).filter(([, value]) => value !== undefined);
+  return entries.length > 0 ? Object.fromEntries(entries) as SubnetMetadata : undefined;
+}
+
+/**
+ * Validates form input and converts it to subnet details
+ */
+export function parseSubnetDetailsInput(input: SubnetDetailsInput): SubnetDetails {
+  return {
+    label: cleanText(input.label, 'Name', MAX_SUBNET_NAME_LENGTH),
+    metadata: normalizeSubnetMetadata({
+      description: input.description,
+      tags: parseTags(input.tags),
+      vlanId: parseVlanId(input.vlanId),
+      owner: input.owner,
+      environment: input.environment
+    })
+  };
+}
+
+/**
+ * Converts subnet details back to form input for editing
+ */
+export function getSubnetDetailsInput(subnet: SubnetDetails): SubnetDetailsInput {
+  return {
+    label: subnet.label || '',
+    description: subnet.metadata?.description || '',
+    tags: (subnet.metadata?.tags || []).join(', '),
+    vlanId: subnet.metadata?.vlanId?.toString() || '',
+    owner: subnet.metadata?.owner || '',
+    environment: subnet.metadata?.environment || ''
+  };
+}
+
+/**
+ * Returns the subnet with its name and metadata replaced; empty fields are removed
+ */
+export function applySubnetDetails(subnet: SplitSubnet, details: SubnetDetails): SplitSubnet {
+  const rest = { ...subnet };
+  delete rest.label;
+  delete rest.metadata;
+  const metadata = normalizeSubnetMetadata(details.metadata);
+  const label = details.label?.trim();
+
+  return {
+    ...rest,
+    ...(label ? { label } : {}),
+    ...(metadata ? { metadata } : {})
+  };
+}
+
+/**
+ * Combines the details of subnets being joined
+ * Values that every subnet setting them agrees on are kept and tags are merged;
+ * conflicting names, descriptions, VLANs, owners or environments are dropped.
+ */
+export function mergeSubnetDetails(subnets: SubnetDetails[]): SubnetDetails {
+  const agreed = <T>(values: (T | undefined)[]): T | undefined => {
+    const set = [...new Set(values.filter((value): value is T => value !== undefined))];
+    return set.length === 1 ? set[0] : undefined;
+  };
+
+  const metadata: SubnetMetadata = {
+    tags: parseTags(subnets.flatMap(subnet => subnet.metadata?.tags || []).join(','))
+  };
+  SCALAR_METADATA_KEYS.forEach(key => {
+    (metadata as Record<string, unknown>)[key] = agreed(subnets.map(subnet => subnet.metadata?.[key]));
+  });
+
+  const label = agreed(subnets.map(subnet => subnet.label));
+  const normalized = normalizeSubnetMetadata(metadata);
+  return {
+    ...(label ? { label } : {}),
+    ...(normalized ? { metadata: normalized } : {})
+  };
+}
+
+/**
+ * Summarizes metadata on one line, e.g. "Web tier; owner: netops; environment: prod; VLAN 110; tags: pci, dmz"
+ */
+export function formatSubnetMetadataSummary(metadata: SubnetMetadata | undefined): string {
+  if (!metadata) {
+    return '';
+  }
+  return [
+    metadata.description,
+    metadata.owner && `owner: ${metadata.owner}`,
+    metadata.environment && `environment: ${metadata.environment}`,
+    metadata.vlanId !== undefined && `VLAN ${metadata.vlanId}`,
+    metadata.tags?.length && `tags: ${metadata.tags.join(', ')}`
+  ].filter(Boolean).join('; ');
+}
+
+/**
+ * Splits a tag into a key/value pair for providers with key/value tags
+ * "team=netops" becomes ["team", "netops"]; a plain tag becomes [tag, ""]
+ */
+export function getTagKeyValue(tag: string): [string, string] {
+  const index = tag.indexOf('=');
+  return index > 0 ? [tag.slice(0, index).trim(), tag.slice(index + 1).trim()] : [tag, ''];
+}
+
+/**
+ * Lists metadata as key/value tags for providers that support them, in a stable order
+ * User tags whose key repeats an earlier key (case-insensitive), including any reserved key, are left out.
+ */
+export function getSubnetTagPairs(metadata: SubnetMetadata | undefined, reservedKeys: string[] = ['Name']): [string, string][] {
+  if (!metadata) {
+    return [];
+  }
+
+  const pairs: [string, string][] = [];
+  const seen = new Set(reservedKeys.map(key => key.toLowerCase()));
+  const add = (key: string, value: string | undefined) => {
+    if (value === undefined || !key || seen.has(key.toLowerCase())) {
+      return;
+    }
+    seen.add(key.toLowerCase());
+    pairs.push([key, value]);
+  };
+
+  add('Description', metadata.description);
+  add('Owner', metadata.owner);
+  add('Environment', metadata.environment);
+  add('VlanId', metadata.vlanId?.toString());
+  (metadata.tags || []).forEach(tag => add(...getTagKeyValue(tag)));
+  return pairs;
+}
+
+/**
+ * Checks whether a subnet matches the list and tree search text
+ * Addresses, the paired IPv6 subnet, sizes, the name and every metadata field are searched
+ */
+export function matchesSubnetSearch(subnet: SplitSubnet, filterText: string): boolean {
+  const searchTerm = filterText.toLowerCase().trim();
+  if (!searchTerm) {
+    return true;
+  }
+
+  const { metadata } = subnet;
+  return [
+    subnet.network,
+    `${subnet.network}/${subnet.cidr}`,
+    subnet.firstHost,
+    subnet.lastHost,
+    subnet.broadcast,
+    subnet.pairedIPv6,
+    subnet.usableHosts.toString(),
+    subnet.totalHosts.toString(),
+    subnet.label,
+    metadata?.description,
+    metadata?.owner,
+    metadata?.environment,
+    metadata?.vlanId !== undefined ? `vlan ${metadata.vlanId}` : undefined,
+    ...(metadata?.tags || [])
+  ].some(value => value?.toLowerCase().includes(searchTerm));
+}
@@ -14,7 +14,9 @@ import {
   ValidationResult,
   SubnetCalculationResult,
   CloudReservation,
-  SubnetError
+  SubnetError,
+  SubnetErrorType,
+  JoinOptions
 } from './types';
 import {
   generateSubnetId,
@@ -28,72 +30,51 @@ import {
   shouldShowPerformanceWarning,
   PERFORMANCE_THRESHOLDS
 } from './performance';
+import { mergeSubnetDetails } from './subnet-metadata';
+import { getCloudProvider, getUsableHostRange } from './cloud-providers';
 
-// Cloud provider configurations for subnet splitting
-interface CloudProviderConfig {
-  name: string;
-  minCidr: number;
-  maxCidr: number;
-  reservedCount: number;
-  firstUsableOffset: number;
-  getReservations: (networkInt: number, broadcastInt: number, intToIp: (int: number) => string) => CloudReservation[];
+/**
+ * Validates an IPv6 network block against the cloud provider's IPv6 rules
+ * Returns an error message, or null when the block can be used in the given mode.
+ */
+export function validateCloudIPv6Network(network: string, prefixLength: number, cloudMode: CloudMode): string | null {
+  const provider = getCloudProvider(cloudMode);
+  if (!provider) {
+    return null;
+  }
+  const rules = provider.ipv6;
+  if (prefixLength > rules.subnetPrefix) {
+    return `${provider.name} IPv6 subnets must be /${rules.subnetPrefix}`;
+  }
+  return rules.validateNetwork(ipv6ToBigInt(network), prefixLength);
 }
 
-const CLOUD_PROVIDERS: Record<Exclude<CloudMode, "normal">, CloudProviderConfig> = {
-  aws: {
-    name: "AWS",
-    minCidr: 16,
-    maxCidr: 28,
-    reservedCount: 5,
-    firstUsableOffset: 4,
-    getReservations: (networkInt, broadcastInt, intToIp) => [
-      { ip: intToIp(networkInt), purpose: "Network Address", description: "Network identifier (not assignable)" },
-      { ip: intToIp(networkInt + 1), purpose: "VPC Router", description: "Reserved for the VPC router" },
-      { ip: intToIp(networkInt + 2), purpose: "DNS Server", description: "Reserved for DNS server" },
-      { ip: intToIp(networkInt + 3), purpose: "Future Use", description: "Reserved for future use" },
-      { ip: intToIp(broadcastInt), purpose: "Broadcast Address", description: "Network broadcast address (not assignable)" }
-    ]
-  },
-  azure: {
-    name: "Azure",
-    minCidr: 8,
-    maxCidr: 29,
-    reservedCount: 5,
-    firstUsableOffset: 4,
-    getReservations: (networkInt, broadcastInt, intToIp) => [
-      { ip: intToIp(networkInt), purpose: "Network Address", description: "Network identifier (not assignable)" },
-      { ip: intToIp(networkInt + 1), purpose: "Default Gateway", description: "Reserved for default gateway" },
-      { ip: intToIp(networkInt + 2), purpose: "DNS Mapping", description: "Reserved for Azure DNS" },
-      { ip: intToIp(networkInt + 3), purpose: "DNS Mapping", description: "Reserved for Azure DNS" },
-      { ip: intToIp(broadcastInt), purpose: "Broadcast Address", description: "Network broadcast address (not assignable)" }
-    ]
-  },
-  gcp: {
-    name: "Google Cloud",
-    minCidr: 8,
-    maxCidr: 29,
-    reservedCount: 4,
-    firstUsableOffset: 2,
-    getReservations: (networkInt, broadcastInt, intToIp) => [
-      { ip: intToIp(networkInt), purpose: "Network Address", description: "Network identifier (not assignable)" },
-      { ip: intToIp(networkInt + 1), purpose: "Default Gateway", description: "Reserved for default gateway" },
-      { ip: intToIp(broadcastInt - 1), purpose: "Second-to-last IP", description: "Reserved by Google Cloud" },
-      { ip: intToIp(broadcastInt), purpose: "Broadcast Address", description: "Network broadcast address (not assignable)" }
-    ]
-  }
-};
+/**
+ * Validates the subnet an IPv6 join would produce against the cloud provider's IPv6 rules
+ * Providers only assign /64 subnets, so any join of /64s is refused in a cloud mode.
+ */
+export function validateCloudIPv6Join(subnets: SplitSubnet[], cloudMode: CloudMode): string | null {
+  const provider = getCloudProvider(cloudMode);
+  if (!provider || subnets.length < 2) {
+    return null;
+  }
+  const joinedPrefix = Math.min(...subnets.map(subnet => subnet.cidr)) - Math.log2(subnets.length);
+  return joinedPrefix !== provider.ipv6.subnetPrefix
+    ? `${provider.name} IPv6 subnets must be /${provider.ipv6.subnetPrefix}`
+    : null;
+}
 
 /**
  * Converts IPv4 address string to 32-bit integer
  */
-function ipv4ToInt(ip: string): number {
+export function ipv4ToInt(ip: string): number {
   return ip.split('.').reduce((acc, octet) => (acc << 8) + parseInt(octet, 10), 0) >>> 0;
 }
 
 /**
  * Converts 32-bit integer to IPv4 address string
  */
-function intToIPv4(int: number): string {
+export function intToIPv4(int: number): string {
   return [
     (int >>> 24) & 255,
     (int >>> 16) & 255,
@@ -142,17 +123,18 @@ function calculateSubnetDetails(
 
   // Apply cloud provider constraints
   if (cloudMode !== 'normal') {
-    const provider = CLOUD_PROVIDERS[cloudMode];
+    const provider = getCloudProvider(cloudMode);
     if (provider) {
       // Validate subnet size meets cloud provider requirements
       if (totalHosts >= provider.reservedCount) {
         usableHosts = Math.max(0, totalHosts - provider.reservedCount);
         
-        // Adjust first usable host based on cloud provider offset
+        // Adjust the first and last usable hosts to skip the provider's reserved addresses
         if (hostBits > 1) { // Only for subnets larger than /31
-          const firstUsableOffset = networkInt + provider.firstUsableOffset;
-          if (firstUsableOffset <= broadcastInt - 1) {
-            firstHost = intToIPv4(firstUsableOffset);
+          const usableRange = getUsableHostRange(provider, networkInt, broadcastInt);
+          if (usableRange) {
+            firstHost = intToIPv4(usableRange.first);
+            lastHost = intToIPv4(usableRange.last);
           }
         }
         
@@ -244,7 +226,7 @@ function validateSplitOptions(
 
   // Cloud provider specific validations
   if (cloudMode !== 'normal') {
-    const provider = CLOUD_PROVIDERS[cloudMode];
+    const provider = getCloudProvider(cloudMode);
     if (provider) {
       if (targetCidr > provider.maxCidr) {
         errors.push(`${provider.name} does not support subnets smaller than /${provider.maxCidr}`);
@@ -559,7 +541,8 @@ export function validateIPv4Split(
  */
 export function calculateSplitPreview(
   parentCidr: number,
-  splitOptions: SplitOptions
+  splitOptions: SplitOptions,
+  ipVersion: IPVersion = 'ipv4'
 ): {
   targetCidr: number;
   subnetCount: number;
@@ -605,18 +588,19 @@ export function calculateSplitPreview(
       };
     }
 
-    if (targetCidr <= parentCidr || targetCidr > 32) {
+    const maxCidr = ipVersion === 'ipv4' ? 32 : 128;
+    if (targetCidr <= parentCidr || targetCidr > maxCidr) {
       return {
         targetCidr,
         subnetCount: 0,
         subnetSize: 0,
         isValid: false,
-        error: 'Target CIDR must be more specific than parent and not exceed /32'
+        error: `Target CIDR must be more specific than parent and not exceed /${maxCidr}`
       };
     }
 
     const subnetCount = Math.pow(2, targetCidr - parentCidr);
-    const subnetSize = Math.pow(2, 32 - targetCidr);
+    const subnetSize = Math.pow(2, maxCidr - targetCidr);
 
     return {
       targetCidr,
@@ -640,7 +624,7 @@ export function calculateSplitPreview(
  * Creates a SubnetError for consistent error handling
  */
 export function createSubnetError(
-  type: 'validation' | 'calculation' | 'performance',
+  type: SubnetErrorType,
   message: string,
   details?: Record<string, unknown>
 ): SubnetError {
@@ -649,7 +633,7 @@ export function createSubnetError(
     message,
     details,
     timestamp: Date.now(),
-    recoverable: type === 'validation' || type === 'performance'
+    recoverable: type === 'validation' || type === 'performance' || type === 'import'
   };
 }
 
@@ -808,20 +792,35 @@ export function findAdjacentSubnets(targetSubnet: SplitSubnet, candidateSubnets:
   );
 }
 
+/**
+ * Orders subnets by IP version, then by network address
+ */
+function compareSubnetNetworks(a: SplitSubnet, b: SplitSubnet): number {
+  if (a.ipVersion !== b.ipVersion) {
+    return a.ipVersion === 'ipv4' ? -1 : 1;
+  }
+  if (a.ipVersion === 'ipv6') {
+    const aBigInt = ipv6ToBigInt(a.network);
+    const bBigInt = ipv6ToBigInt(b.network);
+    return aBigInt < bBigInt ? -1 : aBigInt > bBigInt ? 1 : 0;
+  }
+  return ipv4ToInt(a.network) - ipv4ToInt(b.network);
+}
+
 /**
  * Groups subnets into adjacent clusters that can be joined together
+ * IPv4 and IPv6 subnets are grouped separately.
  */
 export function groupAdjacentSubnets(subnets: SplitSubnet[]): SplitSubnet[][] {
-  const ipv4Subnets = subnets.filter(subnet => subnet.ipVersion === 'ipv4');
   const groups: SplitSubnet[][] = [];
   const processed = new Set<string>();
 
-  // Sort subnets by CIDR first, then by network address
-  const sortedSubnets = ipv4Subnets.sort((a, b) => {
-    if (a.cidr !== b.cidr) {
+  // Sort subnets by IP version and CIDR first, then by network address
+  const sortedSubnets = [...subnets].sort((a, b) => {
+    if (a.ipVersion === b.ipVersion && a.cidr !== b.cidr) {
       return a.cidr - b.cidr;
     }
-    return ipv4ToInt(a.network) - ipv4ToInt(b.network);
+    return compareSubnetNetworks(a, b);
   });
 
   for (const subnet of sortedSubnets) {
@@ -833,19 +832,19 @@ export function groupAdjacentSubnets(subnets: SplitSubnet[]): SplitSubnet[][] {
     const group = [subnet];
     processed.add(subnet.id);
 
-    // Find all adjacent subnets of the same size
+    // Find all adjacent subnets of the same size and IP version
     let foundAdjacent = true;
     while (foundAdjacent) {
       foundAdjacent = false;
       
       for (const candidate of sortedSubnets) {
-        if (processed.has(candidate.id) || candidate.cidr !== subnet.cidr) {
+        if (processed.has(candidate.id) || candidate.cidr !== subnet.cidr || candidate.ipVersion !== subnet.ipVersion) {
           continue;
         }
 
         // Check if this candidate is adjacent to any subnet in the current group
         const isAdjacentToGroup = group.some(groupSubnet => 
-          areSubnetsAdjacent(groupSubnet, candidate)
+          areSubnetsAdjacent(groupSubnet, candidate) || areIPv6SubnetsAdjacent(groupSubnet, candidate)
         );
 
         if (isAdjacentToGroup) {
@@ -856,7 +855,7 @@ export function groupAdjacentSubnets(subnets: SplitSubnet[]): SplitSubnet[][] {
       }
 
       // Sort the group to maintain order
-      group.sort((a, b) => ipv4ToInt(a.network) - ipv4ToInt(b.network));
+      group.sort(compareSubnetNetworks);
     }
 
     // Only include groups with more than one subnet
@@ -868,6 +867,15 @@ export function groupAdjacentSubnets(subnets: SplitSubnet[]): SplitSubnet[][] {
   return groups;
 }
 
+/**
+ * Returns the subnets that have no children in the list
+ * Parent networks overlap their children, so exports, status summaries and joins work on leaves.
+ */
+export function getLeafSubnets(subnets: SplitSubnet[]): SplitSubnet[] {
+  const parentIds = new Set(subnets.map(subnet => subnet.parentId).filter(Boolean));
+  return subnets.filter(subnet => !parentIds.has(subnet.id));
+}
+
 /**
  * Validates that a group of subnets can be joined into a single larger subnet
  */
@@ -906,8 +914,15 @@ export function validateJoinableGroup(subnets: SplitSubnet[]): ValidationResult
 
 /**
  * Calculates the resulting subnet that would be created by joining adjacent subnets
+ * With preserveMetadata set, the joined subnet keeps the names and metadata the sources share.
+ * Given a cloud mode, the host range and reservations are recalculated for the joined block;
+ * without one, the reservations of the first reserved source are carried over.
  */
-export function calculateJoinedSubnet(subnets: SplitSubnet[]): SplitSubnet | null {
+export function calculateJoinedSubnet(
+  subnets: SplitSubnet[],
+  joinOptions?: Partial<JoinOptions>,
+  cloudMode?: CloudMode
+): SplitSubnet | null {
   const validation = validateJoinableGroup(subnets);
   
   if (!validation.isValid) {
@@ -934,6 +949,23 @@ export function calculateJoinedSubnet(subnets: SplitSubnet[]): SplitSubnet | nul
   
   const newNetwork = intToIPv4(newNetworkInt);
   const newBroadcast = intToIPv4(newBroadcastInt);
+
+  const joinedFields = {
+    parentId: firstSubnet.parentId,
+    level: Math.max(0, firstSubnet.level - 1), // Move up one level in hierarchy
+    isSelected: false,
+    ...(joinOptions?.preserveMetadata ? mergeSubnetDetails(subnets) : {}),
+    ipVersion: 'ipv4' as IPVersion
+  };
+
+  // A known cloud mode sets the joined block's reservations itself
+  if (cloudMode) {
+    return {
+      id: generateSubnetId(),
+      ...calculateSubnetDetails(newNetworkInt, newBroadcastInt, newCidr, cloudMode),
+      ...joinedFields
+    };
+  }
   
   // Calculate host addresses
   let newFirstHost: string;
@@ -980,9 +1012,8 @@ export function calculateJoinedSubnet(subnets: SplitSubnet[]): SplitSubnet | nul
       
       // Adjust first host for cloud provider offset
       if (newCidr < 31) {
-        const cloudProvider = firstSubnetWithReservations.cloudReserved.length === 5 ? 'aws' : 
-                             firstSubnetWithReservations.cloudReserved.length === 4 ? 'gcp' : 'azure';
-        const offset = cloudProvider === 'aws' || cloudProvider === 'azure' ? 4 : 2;
+        // The source subnet's first host reflects its provider's offset
+        const offset = ipv4ToInt(firstSubnetWithReservations.firstHost) - ipv4ToInt(firstSubnetWithReservations.network);
         newFirstHost = intToIPv4(newNetworkInt + offset);
       }
     }
@@ -997,10 +1028,7 @@ export function calculateJoinedSubnet(subnets: SplitSubnet[]): SplitSubnet | nul
     cidr: newCidr,
     totalHosts: newTotalHosts,
     usableHosts: newUsableHosts,
-    parentId: firstSubnet.parentId,
-    level: Math.max(0, firstSubnet.level - 1), // Move up one level in hierarchy
-    isSelected: false,
-    ipVersion: 'ipv4' as IPVersion,
+    ...joinedFields,
     cloudReserved
   };
 }/**
@@ -1016,7 +1044,8 @@ Pv4 Subnet Joining Algorithm
  */
 export function joinAdjacentSubnets(
   subnets: SplitSubnet[],
-  cloudMode: CloudMode = 'normal'
+  cloudMode: CloudMode = 'normal',
+  joinOptions?: Partial<JoinOptions>
 ): SubnetCalculationResult {
   const startTime = typeof performance !== 'undefined' ? performance.now() : Date.now();
 
@@ -1038,33 +1067,12 @@ export function joinAdjacentSubnets(
       throw new Error(`Join validation failed: ${validation.errors.join(', ')}`);
     }
 
-    // Calculate the joined subnet
-    const joinedSubnet = calculateJoinedSubnet(subnets);
+    // Calculate the joined subnet with the cloud provider's reservations for its new size
+    const joinedSubnet = calculateJoinedSubnet(subnets, joinOptions, cloudMode);
     if (!joinedSubnet) {
       throw new Error('Failed to calculate joined subnet');
     }
 
-    // Apply cloud provider constraints if needed
-    if (cloudMode !== 'normal') {
-      const provider = CLOUD_PROVIDERS[cloudMode];
-      if (provider) {
-        // Recalculate cloud reservations for the joined subnet
-        const networkInt = ipv4ToInt(joinedSubnet.network);
-        const broadcastInt = ipv4ToInt(joinedSubnet.broadcast);
-        
-        joinedSubnet.cloudReserved = provider.getReservations(networkInt, broadcastInt, intToIPv4);
-        joinedSubnet.usableHosts = Math.max(0, joinedSubnet.totalHosts - provider.reservedCount);
-        
-        // Adjust first host for cloud provider offset
-        if (joinedSubnet.cidr < 31) {
-          const firstUsableOffset = networkInt + provider.firstUsableOffset;
-          if (firstUsableOffset <= broadcastInt - 1) {
-            joinedSubnet.firstHost = intToIPv4(firstUsableOffset);
-          }
-        }
-      }
-    }
-
     const endTime = typeof performance !== 'undefined' ? performance.now() : Date.now();
     const performanceMetrics = calculatePerformanceMetrics(startTime, endTime, 1, 'join');
 
@@ -1131,7 +1139,7 @@ export function validateIPv4Join(
 
   // Cloud provider specific validations
   if (cloudMode !== 'normal' && errors.length === 0) {
-    const provider = CLOUD_PROVIDERS[cloudMode];
+    const provider = getCloudProvider(cloudMode);
     if (provider) {
       // Calculate what the joined subnet would be
       const joinedSubnet = calculateJoinedSubnet(subnets);
@@ -1230,53 +1238,79 @@ export function calculateJoinPreview(subnets: SplitSubnet[]): {
   }
 }
 
+/**
+ * Splits a run of adjacent, equally sized subnets into the largest blocks that can each be
+ * joined, i.e. power-of-2 counts that start on the boundary of the joined subnet
+ */
+function splitIntoJoinableBlocks(run: SplitSubnet[]): SplitSubnet[][] {
+  const addressBits = run[0].ipVersion === 'ipv6' ? 128 : 32;
+  const subnetSize = BigInt(1) << BigInt(addressBits - run[0].cidr);
+  const toBigInt = (subnet: SplitSubnet) =>
+    subnet.ipVersion === 'ipv6' ? ipv6ToBigInt(subnet.network) : BigInt(ipv4ToInt(subnet.network));
+  const blocks: SplitSubnet[][] = [];
+
+  let index = 0;
+  while (index < run.length) {
+    const start = toBigInt(run[index]);
+    let count = 1;
+    while (count * 2 <= run.length - index && start % (subnetSize * BigInt(count * 2)) === BigInt(0)) {
+      count *= 2;
+    }
+
+    if (count > 1) {
+      blocks.push(run.slice(index, index + count));
+    }
+    index += count;
+  }
+
+  return blocks;
+}
+
 /**
  * Finds the optimal grouping of subnets for joining operations
- * Returns groups of subnets that can be joined together
+ * Returns groups of subnets that can be joined together; IPv4 and IPv6 subnets are
+ * grouped separately, and each group is aligned to the boundary of its joined subnet.
  */
 export function findOptimalJoinGroups(subnets: SplitSubnet[]): {
   groups: SplitSubnet[][];
   recommendations: string[];
 } {
   const recommendations: string[] = [];
-  
-  // Filter to IPv4 subnets only
-  const ipv4Subnets = subnets.filter(subnet => subnet.ipVersion === 'ipv4');
-  
-  if (ipv4Subnets.length !== subnets.length) {
-    recommendations.push('Only IPv4 subnets can be joined. IPv6 subnets have been excluded.');
+
+  if (new Set(subnets.map(subnet => subnet.ipVersion)).size > 1) {
+    recommendations.push('IPv4 and IPv6 subnets are grouped separately and cannot be joined with each other.');
   }
 
-  // Group by CIDR size first
-  const subnetsByCidr = new Map<number, SplitSubnet[]>();
-  for (const subnet of ipv4Subnets) {
-    if (!subnetsByCidr.has(subnet.cidr)) {
-      subnetsByCidr.set(subnet.cidr, []);
+  // Group by IP version and CIDR size first
+  const subnetsBySize = new Map<string, SplitSubnet[]>();
+  for (const subnet of subnets) {
+    const key = `${subnet.ipVersion}/${subnet.cidr}`;
+    if (!subnetsBySize.has(key)) {
+      subnetsBySize.set(key, []);
     }
-    subnetsByCidr.get(subnet.cidr)!.push(subnet);
+    subnetsBySize.get(key)!.push(subnet);
   }
 
   const groups: SplitSubnet[][] = [];
 
   // For each CIDR size, find adjacent groups
-  for (const [cidr, subnetsOfSize] of subnetsByCidr) {
+  for (const subnetsOfSize of subnetsBySize.values()) {
     if (subnetsOfSize.length < 2) {
       continue; // Need at least 2 subnets to join
     }
 
     const adjacentGroups = groupAdjacentSubnets(subnetsOfSize);
     
-    // Filter groups to only include those that are powers of 2
-    const validGroups = adjacentGroups.filter(group => {
-      const count = group.length;
-      return count >= 2 && (count & (count - 1)) === 0; // Check if power of 2
-    });
+    // Break runs into aligned power-of-2 blocks that can each be joined
+    const validGroups = adjacentGroups.flatMap(splitIntoJoinableBlocks);
 
     groups.push(...validGroups);
 
     // Add recommendations
-    if (adjacentGroups.length > validGroups.length) {
-      recommendations.push(`Some groups of /${cidr} subnets cannot be joined because they don't form power-of-2 counts`);
+    const groupedCount = validGroups.reduce((sum, group) => sum + group.length, 0);
+    const adjacentCount = adjacentGroups.reduce((sum, group) => sum + group.length, 0);
+    if (adjacentCount > groupedCount) {
+      recommendations.push(`Some adjacent /${subnetsOfSize[0].cidr} subnets cannot be joined because they don't form aligned power-of-2 blocks`);
     }
   }
 
@@ -1305,10 +1339,12 @@ export function findOptimalJoinGroups(subnets: SplitSubnet[]): {
 
 /**
  * Performs batch joining of multiple subnet groups
+ * Each group is joined with the IPv4 or IPv6 join of its subnets' IP version.
  */
 export function batchJoinSubnets(
   subnetGroups: SplitSubnet[][],
-  cloudMode: CloudMode = 'normal'
+  cloudMode: CloudMode = 'normal',
+  joinOptions?: Partial<JoinOptions>
 ): {
   results: SubnetCalculationResult[];
   summary: {
@@ -1329,7 +1365,9 @@ export function batchJoinSubnets(
 
   for (const group of subnetGroups) {
     try {
-      const result = joinAdjacentSubnets(group, cloudMode);
+      const result = group[0]?.ipVersion === 'ipv6'
+        ? joinIPv6Subnets(group, cloudMode, joinOptions)
+        : joinAdjacentSubnets(group, cloudMode, joinOptions);
       
       if (result.subnets.length > 0) {
         results.push(result);
@@ -1369,7 +1407,7 @@ Pv6 Subnet Splitting and Joining Functions
 /**
  * Converts IPv6 address string to BigInt representation
  */
-function ipv6ToBigInt(ipv6: string): bigint {
+export function ipv6ToBigInt(ipv6: string): bigint {
   // Remove any leading/trailing whitespace and convert to lowercase
   const cleanIpv6 = ipv6.trim().toLowerCase();
   
@@ -1421,7 +1459,7 @@ function ipv6ToBigInt(ipv6: string): bigint {
 /**
  * Converts BigInt representation back to IPv6 address string with compression
  */
-function bigIntToIPv6(value: bigint, compress: boolean = true): string {
+export function bigIntToIPv6(value: bigint, compress: boolean = true): string {
   // Extract 8 groups of 16 bits each
   const groups: string[] = [];
   let remaining = value;
@@ -1491,7 +1529,8 @@ function bigIntToIPv6(value: bigint, compress: boolean = true): string {
  */
 function calculateIPv6SubnetDetails(
   networkBigInt: bigint,
-  prefixLength: number
+  prefixLength: number,
+  cloudMode: CloudMode = 'normal'
 ): Omit<SplitSubnet, 'id' | 'parentId' | 'level' | 'isSelected' | 'ipVersion'> {
   const hostBits = 128 - prefixLength;
   const network = bigIntToIPv6(networkBigInt);
@@ -1503,8 +1542,8 @@ function calculateIPv6SubnetDetails(
   
   // For IPv6, first and last host are the same as network and last address
   // since there's no concept of network/broadcast addresses like in IPv4
-  const firstHost = network;
-  const lastHost = lastAddress;
+  let firstHost = network;
+  let lastHost = lastAddress;
   
   // Calculate total addresses (use string representation for very large numbers)
   let totalHosts: number;
@@ -1525,6 +1564,29 @@ function calculateIPv6SubnetDetails(
     totalAddressesFormatted = `2^${hostBits}`;
     usableAddressesFormatted = `2^${hostBits}`;
   }
+
+  // Apply cloud provider reservations; unlike IPv4 there is no broadcast address to exclude
+  let cloudReserved: CloudReservation[] | undefined;
+  const provider = getCloudProvider(cloudMode);
+  if (provider) {
+    const rules = provider.ipv6;
+    if (subnetSizeBigInt > BigInt(rules.reservedCount)) {
+      firstHost = bigIntToIPv6(networkBigInt + BigInt(rules.firstUsableOffset));
+      lastHost = bigIntToIPv6(lastAddressBigInt - BigInt(rules.lastUsableOffset));
+      if (hostBits <= 53) {
+        usableHosts = totalHosts - rules.reservedCount;
+        usableAddressesFormatted = usableHosts.toLocaleString();
+      } else {
+        usableAddressesFormatted = `2^${hostBits} - ${rules.reservedCount}`;
+      }
+      cloudReserved = rules.getReservations(networkBigInt, lastAddressBigInt, value => bigIntToIPv6(value));
+    } else {
+      // Subnet too small for cloud provider
+      usableHosts = 0;
+      usableAddressesFormatted = '0';
+      cloudReserved = [];
+    }
+  }
   
   // Determine address type
   let addressType = 'Global Unicast';
@@ -1548,6 +1610,7 @@ function calculateIPv6SubnetDetails(
     cidr: prefixLength,
     totalHosts,
     usableHosts,
+    cloudReserved,
     ipv6Info: {
       addressType,
       hostBits,
@@ -1562,7 +1625,8 @@ function calculateIPv6SubnetDetails(
  */
 function validateIPv6SplitOptions(
   parentSubnet: SubnetInfo,
-  splitOptions: SplitOptions
+  splitOptions: SplitOptions,
+  cloudMode: CloudMode = 'normal'
 ): ValidationResult {
   const errors: string[] = [];
   const warnings: string[] = [];
@@ -1617,6 +1681,20 @@ function validateIPv6SplitOptions(
     errors.push('IPv6 prefix length cannot exceed /128');
   }
 
+  // Cloud provider specific validations
+  const provider = getCloudProvider(cloudMode);
+  if (provider) {
+    const networkError = validateCloudIPv6Network(parentSubnet.network, parentPrefix, cloudMode);
+    if (networkError) {
+      errors.push(networkError);
+    } else if (targetPrefix > provider.ipv6.subnetPrefix) {
+      errors.push(`${provider.name} IPv6 subnets must be /${provider.ipv6.subnetPrefix}`);
+      suggestions.push(`Use a target prefix of /${provider.ipv6.subnetPrefix} for ${provider.name} subnets`);
+    } else if (targetPrefix < provider.ipv6.subnetPrefix) {
+      warnings.push(`/${targetPrefix} blocks cannot be used as ${provider.name} subnets directly; split them into /${provider.ipv6.subnetPrefix} subnets before assigning them`);
+    }
+  }
+
   // IPv6-specific validations
   if (targetPrefix - parentPrefix > 16) {
     warnings.push(`Large prefix increase (${targetPrefix - parentPrefix} bits) may result in very many subnets`);
@@ -1645,7 +1723,8 @@ function validateIPv6SplitOptions(
  */
 export function splitIPv6Subnet(
   parentSubnet: SubnetInfo,
-  splitOptions: SplitOptions
+  splitOptions: SplitOptions,
+  cloudMode: CloudMode = 'normal'
 ): SubnetCalculationResult {
   const startTime = typeof performance !== 'undefined' ? performance.now() : Date.now();
 
@@ -1656,7 +1735,7 @@ export function splitIPv6Subnet(
     }
 
     // Validate split options
-    const validation = validateIPv6SplitOptions(parentSubnet, splitOptions);
+    const validation = validateIPv6SplitOptions(parentSubnet, splitOptions, cloudMode);
     if (!validation.isValid) {
       throw new Error(`IPv6 split validation failed: ${validation.errors.join(', ')}`);
     }
@@ -1697,7 +1776,7 @@ export function splitIPv6Subnet(
     for (let i = 0; i < subnetCount; i++) {
       const networkBigInt = parentNetworkBigInt + (BigInt(i) * subnetSizeBigInt);
       
-      const subnetDetails = calculateIPv6SubnetDetails(networkBigInt, targetPrefix);
+      const subnetDetails = calculateIPv6SubnetDetails(networkBigInt, targetPrefix, cloudMode);
 
       const splitSubnet: SplitSubnet = {
         id: generateSubnetId(),
@@ -1756,9 +1835,36 @@ export function splitIPv6Subnet(
  */
 export function validateIPv6Split(
   parentSubnet: SubnetInfo,
-  splitOptions: SplitOptions
+  splitOptions: SplitOptions,
+  cloudMode: CloudMode = 'normal'
 ): ValidationResult {
-  return validateIPv6SplitOptions(parentSubnet, splitOptions);
+  return validateIPv6SplitOptions(parentSubnet, splitOptions, cloudMode);
+}
+
+/**
+ * Calculates subnet details for a single network address and prefix length
+ * Used when subnets are rebuilt outside of a split or join operation, such as plan imports
+ */
+export function calculateSubnetDetailsFromNetwork(
+  network: string,
+  cidr: number,
+  ipVersion: IPVersion,
+  cloudMode: CloudMode = 'normal'
+): Omit<SplitSubnet, 'id' | 'parentId' | 'level' | 'isSelected' | 'ipVersion'> {
+  if (ipVersion === 'ipv6') {
+    if (cidr < 0 || cidr > 128) {
+      throw new Error(`Invalid IPv6 prefix length: /${cidr}`);
+    }
+    return calculateIPv6SubnetDetails(ipv6ToBigInt(network), cidr, cloudMode);
+  }
+
+  if (cidr < 0 || cidr > 32) {
+    throw new Error(`Invalid IPv4 CIDR: /${cidr}`);
+  }
+
+  const networkInt = ipv4ToInt(network);
+  const broadcastInt = networkInt + Math.pow(2, 32 - cidr) - 1;
+  return calculateSubnetDetails(networkInt, broadcastInt, cidr, cloudMode);
 }
 
 /**
@@ -1907,8 +2013,13 @@ export function areIPv6SubnetsAdjacent(subnet1: SplitSubnet, subnet2: SplitSubne
 
 /**
  * Calculates the resulting IPv6 subnet that would be created by joining adjacent subnets
+ * With preserveMetadata set, the joined subnet keeps the names and metadata the sources share
  */
-export function calculateJoinedIPv6Subnet(subnets: SplitSubnet[]): SplitSubnet | null {
+export function calculateJoinedIPv6Subnet(
+  subnets: SplitSubnet[],
+  joinOptions?: Partial<JoinOptions>,
+  cloudMode: CloudMode = 'normal'
+): SplitSubnet | null {
   const validation = validateIPv6SubnetAdjacency(subnets);
   
   if (!validation.isValid) {
@@ -1932,7 +2043,7 @@ export function calculateJoinedIPv6Subnet(subnets: SplitSubnet[]): SplitSubnet |
   // Calculate the new network address
   const newNetworkBigInt = ipv6ToBigInt(firstSubnet.network);
   
-  const joinedSubnetDetails = calculateIPv6SubnetDetails(newNetworkBigInt, newPrefix);
+  const joinedSubnetDetails = calculateIPv6SubnetDetails(newNetworkBigInt, newPrefix, cloudMode);
 
   return {
     id: generateSubnetId(),
@@ -1940,6 +2051,7 @@ export function calculateJoinedIPv6Subnet(subnets: SplitSubnet[]): SplitSubnet |
     parentId: firstSubnet.parentId,
     level: Math.max(0, firstSubnet.level - 1), // Move up one level in hierarchy
     isSelected: false,
+    ...(joinOptions?.preserveMetadata ? mergeSubnetDetails(subnets) : {}),
     ipVersion: 'ipv6' as IPVersion
   };
 }
@@ -1947,7 +2059,11 @@ export function calculateJoinedIPv6Subnet(subnets: SplitSubnet[]): SplitSubnet |
 /**
  * Main function to join adjacent IPv6 subnets into a single larger subnet
  */
-export function joinIPv6Subnets(subnets: SplitSubnet[]): SubnetCalculationResult {
+export function joinIPv6Subnets(
+  subnets: SplitSubnet[],
+  cloudMode: CloudMode = 'normal',
+  joinOptions?: Partial<JoinOptions>
+): SubnetCalculationResult {
   const startTime = typeof performance !== 'undefined' ? performance.now() : Date.now();
 
   try {
@@ -1969,11 +2085,17 @@ export function joinIPv6Subnets(subnets: SplitSubnet[]): SubnetCalculationResult
     }
 
     // Calculate the joined subnet
-    const joinedSubnet = calculateJoinedIPv6Subnet(subnets);
+    const joinedSubnet = calculateJoinedIPv6Subnet(subnets, joinOptions, cloudMode);
     if (!joinedSubnet) {
       throw new Error('Failed to calculate joined IPv6 subnet');
     }
 
+    // Cloud providers only assign /64 subnets, so joined IPv6 subnets cannot be deployed
+    const cloudError = validateCloudIPv6Join(subnets, cloudMode);
+    if (cloudError) {
+      throw new Error(cloudError);
+    }
+
     const endTime = typeof performance !== 'undefined' ? performance.now() : Date.now();
     const performanceMetrics = calculatePerformanceMetrics(startTime, endTime, 1, 'join');
 
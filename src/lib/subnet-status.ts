@@ -0,0 +1,167 @@
+/**
+ * Subnet Status Functions
+ *
+ * This module implements the allocation lifecycle of a subnet plan: subnets move between
+ * free, reserved, allocated and deprecated along a fixed set of transitions, each of which
+ * is recorded with a timestamp. Rollups summarize how much of a parent network is in each
+ * status, counting the space not covered by any subnet as free, so the subnet list and
+ * tree can be read as a lightweight IPAM view.
+ */
+
+import { SplitSubnet, SubnetStatus } from './types';
+import { getLeafSubnets } from './subnet-splitting';
+
+export const SUBNET_STATUSES: SubnetStatus[] = ['free', 'reserved', 'allocated', 'deprecated'];
+
+export const SUBNET_STATUS_LABELS: Record<SubnetStatus, string> = {
+  free: 'Free',
+  reserved: 'Reserved',
+  allocated: 'Allocated',
+  deprecated: 'Deprecated'
+};
+
+// Allowed next statuses; deprecated subnets are reclaimed as free or put back into use
+export const SUBNET_STATUS_TRANSITIONS: Record<SubnetStatus, SubnetStatus[]> = {
+  free: ['reserved', 'allocated'],
+  reserved: ['allocated', 'free'],
+  allocated: ['deprecated'],
+  deprecated: ['free', 'allocated']
+};
+
+// Address counts by status for a network
+export interface SubnetStatusSummary {
+  totalAddresses: bigint;
+  addresses: Record<SubnetStatus, bigint>;
+  subnetCounts: Record<SubnetStatus, number>; // Leaf subnets only
+}
+
+/**
+ * Returns the status of a subnet, treating subnets without one as free
+ */
+export function getSubnetStatus(subnet: Pick<SplitSubnet, 'status'>): SubnetStatus {
+  return subnet.status ?? 'free';
+}
+
+/**
+ * Returns when the subnet entered its current status, if the change was recorded
+ */
+export function getStatusChangedAt(subnet: Pick<SplitSubnet, 'statusHistory'>): number | undefined {
+  return subnet.statusHistory?.[subnet.statusHistory.length - 1]?.timestamp;
+}
+
+export function canTransitionStatus(from: SubnetStatus, to: SubnetStatus): boolean {
+  return SUBNET_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Returns the subnet in the given status with the change appended to its history
+ * Setting the current status again returns the subnet unchanged. Throws for transitions
+ * outside SUBNET_STATUS_TRANSITIONS.
+ */
+export function transitionSubnetStatus(subnet: SplitSubnet, status: SubnetStatus, timestamp: number = Date.now()): SplitSubnet {
+  const from = getSubnetStatus(subnet);
+  if (from === status) {
+    return subnet;
+  }
+  if (!canTransitionStatus(from, status)) {
+    throw new Error(`Cannot change subnet status from ${from} to ${status}`);
+  }
+
+  return {
+    ...subnet,
+    status,
+    statusHistory: [...(subnet.statusHistory || []), { from, to: status, timestamp }]
+  };
+}
+
+/**
+ * Orders subnets by status in lifecycle order, for sorting
+ */
+export function compareSubnetStatus(a: Pick<SplitSubnet, 'status'>, b: Pick<SplitSubnet, 'status'>): number {
+  return SUBNET_STATUSES.indexOf(getSubnetStatus(a)) - SUBNET_STATUSES.indexOf(getSubnetStatus(b));
+}
+
+function getAddressCount(subnet: Pick<SplitSubnet, 'cidr' | 'ipVersion'>): bigint {
+  return BigInt(1) << BigInt((subnet.ipVersion === 'ipv4' ? 32 : 128) - subnet.cidr);
+}
+
+function createSummary(totalAddresses: bigint): SubnetStatusSummary {
+  const zero = () => Object.fromEntries(SUBNET_STATUSES.map(status => [status, BigInt(0)])) as Record<SubnetStatus, bigint>;
+  return {
+    totalAddresses,
+    addresses: zero(),
+    subnetCounts: Object.fromEntries(SUBNET_STATUSES.map(status => [status, 0])) as Record<SubnetStatus, number>
+  };
+}
+
+/**
+ * Adds leaf subnets to a summary; space the leaves do not cover is counted as free
+ */
+function fillSummary(summary: SubnetStatusSummary, leaves: SplitSubnet[]): SubnetStatusSummary {
+  let covered = BigInt(0);
+  for (const leaf of leaves) {
+    const status = getSubnetStatus(leaf);
+    const size = getAddressCount(leaf);
+    summary.addresses[status] += size;
+    summary.subnetCounts[status]++;
+    covered += size;
+  }
+  if (summary.totalAddresses > covered) {
+    summary.addresses.free += summary.totalAddresses - covered;
+  }
+  return summary;
+}
+
+/**
+ * Summarizes the leaf subnets of a plan; the total is the space they cover
+ */
+export function summarizeSubnetStatus(subnets: SplitSubnet[]): SubnetStatusSummary {
+  const leaves = getLeafSubnets(subnets);
+  return fillSummary(createSummary(leaves.reduce((total, leaf) => total + getAddressCount(leaf), BigInt(0))), leaves);
+}
+
+/**
+ * Rolls status up to every subnet in the list that has children, keyed by subnet ID
+ * Each rollup covers the leaf subnets below the parent at any depth, relative to the parent's size.
+ */
+export function calculateStatusRollups(subnets: SplitSubnet[]): Map<string, SubnetStatusSummary> {
+  const byId = new Map(subnets.map(subnet => [subnet.id, subnet]));
+  const rollups = new Map<string, SubnetStatusSummary>();
+  const leavesByAncestor = new Map<string, SplitSubnet[]>();
+
+  for (const leaf of getLeafSubnets(subnets)) {
+    const visited = new Set<string>();
+    for (let parent = leaf.parentId ? byId.get(leaf.parentId) : undefined; parent && !visited.has(parent.id); parent = parent.parentId ? byId.get(parent.parentId) : undefined) {
+      visited.add(parent.id);
+      const leaves = leavesByAncestor.get(parent.id);
+      if (leaves) {
+        leaves.push(leaf);
+      } else {
+        leavesByAncestor.set(parent.id, [leaf]);
+      }
+    }
+  }
+
+  leavesByAncestor.forEach((leaves, id) => {
+    rollups.set(id, fillSummary(createSummary(getAddressCount(byId.get(id)!)), leaves));
+  });
+  return rollups;
+}
+
+/**
+ * Returns the share of a summary in the given status as a whole percentage
+ * Shares that round to 0 or 100 without being exactly empty or full are shown as "<1" or ">99".
+ */
+export function formatStatusShare(summary: SubnetStatusSummary, status: SubnetStatus = 'allocated'): string {
+  if (summary.totalAddresses === BigInt(0)) {
+    return `0% ${status}`;
+  }
+
+  const amount = summary.addresses[status];
+  const basisPoints = Number((amount * BigInt(10000)) / summary.totalAddresses);
+  const percent = Math.round(basisPoints / 100);
+  const text = percent === 0 && amount > BigInt(0)
+    ? '<1'
+    : percent === 100 && amount < summary.totalAddresses ? '>99' : percent.toString();
+  return `${text}% ${status}`;
+}
@@ -0,0 +1,247 @@
+/**
+ * Terraform Export Functions
+ *
+ * This module generates Terraform HCL for split subnet plans. Each cloud provider mode
+ * maps to its native subnet resource (aws_subnet, azurerm_subnet or
+ * google_compute_subnetwork), and the containing network is supplied via variables.
+ * Subnet names and metadata become tags on AWS, a description on Google Cloud and a
+ * comment on Azure, whose subnets cannot be tagged. The IPv6 /64 paired with a subnet in a
+ * dual-stack plan is declared alongside its IPv4 range on AWS and Azure.
+ */
+
+import { SplitSubnet, CloudMode, ExportOptions } from './types';
+import { CLOUD_PROVIDERS, CloudProviderId } from './cloud-providers';
+import { formatSubnetMetadataSummary, getSubnetTagPairs } from './subnet-metadata';
+import { expandIPv6 } from './utils';
+import { getLeafSubnets } from './subnet-splitting';
+
+export type TerraformCloudMode = Extract<CloudProviderId, 'aws' | 'azure' | 'gcp'>;
+
+// Terraform resource and variable layout for each cloud provider mode
+interface TerraformProviderTemplate {
+  resourceType: string;
+  variables: Array<{ name: string; description: string; isNetworkReference?: boolean }>;
+  renderBody: (subnet: SplitSubnet, cidrBlock: string, nameSuffix: string) => string[] | null;
+}
+
+/**
+ * Formats a value as an HCL string literal, escaping template sequences
+ */
+function hclString(value: string): string {
+  return JSON.stringify(value).replace(/\$\{/g, () => '$${').replace(/%\{/g, '%%{');
+}
+
+/**
+ * Formats a map key, quoting keys that are not valid HCL identifiers
+ */
+function hclKey(key: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_-]*$/.test(key) ? key : hclString(key);
+}
+
+const TERRAFORM_TEMPLATES: Record<TerraformCloudMode, TerraformProviderTemplate> = {
+  aws: {
+    resourceType: 'aws_subnet',
+    variables: [
+      { name: 'vpc_id', description: 'ID of the VPC that contains the subnets', isNetworkReference: true }
+    ],
+    renderBody: (subnet, cidrBlock, nameSuffix) => [
+      'vpc_id = var.vpc_id',
+      ...(subnet.ipVersion === 'ipv6'
+        ? [`ipv6_cidr_block = "${cidrBlock}"`, 'ipv6_native = true']
+        : [`cidr_block = "${cidrBlock}"`]),
+      ...(subnet.pairedIPv6
+        ? [`ipv6_cidr_block = "${subnet.pairedIPv6}"`, 'assign_ipv6_address_on_creation = true']
+        : []),
+      '',
+      'tags = {',
+      `  Name = "\${var.name_prefix}-${nameSuffix}"`,
+      ...getSubnetTagPairs(subnet.metadata).map(([key, value]) => `  ${hclKey(key)} = ${hclString(value)}`),
+      '}'
+    ]
+  },
+  azure: {
+    resourceType: 'azurerm_subnet',
+    variables: [
+      { name: 'resource_group_name', description: 'Name of the resource group that contains the virtual network' },
+      { name: 'virtual_network_name', description: 'Name of the virtual network that contains the subnets', isNetworkReference: true }
+    ],
+    renderBody: (subnet, cidrBlock, nameSuffix) => [
+      ...(subnet.metadata ? [`# ${formatSubnetMetadataSummary(subnet.metadata)}`] : []),
+      `name = "\${var.name_prefix}-${nameSuffix}"`,
+      'resource_group_name = var.resource_group_name',
+      'virtual_network_name = var.virtual_network_name',
+      `address_prefixes = [${[cidrBlock, subnet.pairedIPv6].filter(Boolean).map(prefix => `"${prefix}"`).join(', ')}]`
+    ]
+  },
+  gcp: {
+    resourceType: 'google_compute_subnetwork',
+    variables: [
+      { name: 'network_id', description: 'ID or self link of the VPC network that contains the subnets', isNetworkReference: true },
+      { name: 'region', description: 'Region in which the subnets are created' }
+    ],
+    // Google Cloud allocates IPv6 ranges itself, so only IPv4 ranges can be declared
+    renderBody: (subnet, cidrBlock, nameSuffix) => subnet.ipVersion === 'ipv6' ? null : [
+      `name = "\${var.name_prefix}-${nameSuffix}"`,
+      `ip_cidr_range = "${cidrBlock}"`,
+      'network = var.network_id',
+      'region = var.region',
+      ...(subnet.metadata ? [`description = ${hclString(formatSubnetMetadataSummary(subnet.metadata))}`] : [])
+    ]
+  }
+};
+
+/**
+ * Builds a deterministic identifier suffix from a subnet's network and prefix length
+ * e.g. 10.0.1.0/24 -> "10-0-1-0-24"
+ * IPv6 networks list all eight groups, so 2001:db8::1:64 and 2001:db8:1::64 stay distinct
+ */
+export function getSubnetNameSuffix(subnet: Pick<SplitSubnet, 'network' | 'cidr'>, separator: string = '-'): string {
+  const network = subnet.network.includes(':')
+    ? expandIPv6(subnet.network).split(':').map(group => parseInt(group, 16).toString(16)).join(':')
+    : subnet.network;
+  return `${network}/${subnet.cidr}`
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, separator)
+    .replace(new RegExp(`^${separator}|${separator}$`, 'g'), '');
+}
+
+/**
+ * Builds the name suffix of each subnet in a list
+ * Named subnets use their name, e.g. "Web Tier" -> "web-tier", when no other subnet in
+ * the list has the same name; the others fall back to getSubnetNameSuffix.
+ */
+export function getSubnetNameSuffixes(subnets: SplitSubnet[]): string[] {
+  const slugs = subnets.map(subnet => (subnet.label || '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, ''));
+  const counts = new Map<string, number>();
+  slugs.forEach(slug => counts.set(slug, (counts.get(slug) || 0) + 1));
+  return subnets.map((subnet, index) =>
+    slugs[index] && counts.get(slugs[index]) === 1 ? slugs[index] : getSubnetNameSuffix(subnet)
+  );
+}
+
+/**
+ * Generates a deterministic Terraform resource name for a subnet
+ * e.g. 10.0.1.0/24 -> "subnet_10_0_1_0_24"
+ * Identifiers must start with a letter or underscore, so a prefix such as "1st" becomes "_1st"
+ */
+export function generateTerraformResourceName(subnet: Pick<SplitSubnet, 'network' | 'cidr'>, prefix: string = 'subnet'): string {
+  const safePrefix = prefix.toLowerCase().replace(/[^a-z0-9_]+/g, '_').replace(/^(?=\d)/, '_') || 'subnet';
+  return `${safePrefix}_${getSubnetNameSuffix(subnet, '_')}`;
+}
+
+/**
+ * Aligns the "=" signs of consecutive attribute lines, matching `terraform fmt`
+ */
+function alignAttributes(lines: string[]): string[] {
+  const result: string[] = [];
+  let block: string[] = [];
+
+  const flush = () => {
+    const width = Math.max(...block.map(line => line.indexOf(' = ')));
+    block.forEach(line => {
+      const index = line.indexOf(' = ');
+      result.push(line.slice(0, index).padEnd(width) + line.slice(index));
+    });
+    block = [];
+  };
+
+  for (const line of lines) {
+    if (/^[a-z0-9_]+ = /.test(line)) {
+      block.push(line);
+    } else {
+      if (block.length > 0) flush();
+      result.push(line);
+    }
+  }
+  if (block.length > 0) flush();
+
+  return result;
+}
+
+/**
+ * Normalizes a user-supplied name prefix for use in resource names
+ */
+export function sanitizeNamePrefix(namePrefix: string | undefined): string {
+  return (namePrefix || '').trim().replace(/[^A-Za-z0-9_-]+/g, '-') || 'subnet';
+}
+
+function isTerraformCloudMode(cloudMode: CloudMode): cloudMode is TerraformCloudMode {
+  return Object.prototype.hasOwnProperty.call(TERRAFORM_TEMPLATES, cloudMode);
+}
+
+/**
+ * Formats split subnets as Terraform HCL for the given cloud provider mode
+ * The network reference, when supplied, becomes the default of the network variable
+ */
+export function formatSubnetsAsTerraform(
+  subnets: SplitSubnet[],
+  cloudMode: CloudMode,
+  options: Pick<ExportOptions, 'includeHeaders' | 'includeMetadata' | 'namePrefix' | 'networkReference'>
+): string {
+  if (!isTerraformCloudMode(cloudMode)) {
+    throw new Error('Terraform export requires a cloud provider mode (AWS, Azure or Google Cloud)');
+  }
+
+  const template = TERRAFORM_TEMPLATES[cloudMode];
+  const provider = CLOUD_PROVIDERS[cloudMode];
+  const prefix = sanitizeNamePrefix(options.namePrefix);
+  const networkReference = options.networkReference?.trim();
+  const leafSubnets = getLeafSubnets(subnets);
+  const lines: string[] = [];
+
+  if (options.includeHeaders) {
+    lines.push(`# ${provider.name} subnet plan`);
+    lines.push('# Generated by: Art of Infra Subnet Calculator');
+    if (options.includeMetadata) {
+      lines.push(`# Export Date: ${new Date().toISOString()}`);
+    }
+    if (leafSubnets.length < subnets.length) {
+      lines.push(`# ${subnets.length - leafSubnets.length} parent subnet(s) omitted because they contain other exported subnets`);
+    }
+    lines.push('');
+  }
+
+  // Variables for the containing network and naming
+  for (const variable of [
+    ...template.variables.map(({ name, description, isNetworkReference }) => ({
+      name,
+      description,
+      defaultValue: isNetworkReference && networkReference ? networkReference : undefined
+    })),
+    { name: 'name_prefix', description: 'Prefix applied to subnet names', defaultValue: prefix }
+  ]) {
+    lines.push(`variable "${variable.name}" {`);
+    lines.push(...alignAttributes([
+      'type = string',
+      `description = "${variable.description}"`,
+      ...(variable.defaultValue !== undefined ? [`default = ${JSON.stringify(variable.defaultValue).replace(/\$\{/g, () => '$${')}`] : [])
+    ]).map(line => `  ${line}`));
+    lines.push('}');
+    lines.push('');
+  }
+
+  const nameSuffixes = getSubnetNameSuffixes(leafSubnets);
+  for (const [index, subnet] of leafSubnets.entries()) {
+    const cidrBlock = `${subnet.network}/${subnet.cidr}`;
+    const resourceName = generateTerraformResourceName(subnet, prefix);
+    const body = template.renderBody(subnet, cidrBlock, nameSuffixes[index]);
+
+    if (!body) {
+      lines.push(`# ${cidrBlock} skipped: ${provider.name} does not support user-defined IPv6 subnet ranges`);
+      lines.push('');
+      continue;
+    }
+
+    if (options.includeMetadata) {
+      lines.push(subnet.ipVersion === 'ipv6' && subnet.ipv6Info
+        ? `# ${cidrBlock}: ${subnet.ipv6Info.totalAddressesFormatted} addresses`
+        : `# ${cidrBlock}: ${subnet.usableHosts} usable of ${subnet.totalHosts} addresses (${provider.name} reserves ${provider.reservedCount})`);
+    }
+    lines.push(`resource "${template.resourceType}" "${resourceName}" {`);
+    lines.push(...alignAttributes(body).map(line => line ? `  ${line}` : ''));
+    lines.push('}');
+    lines.push('');
+  }
+
+  return lines.join('\n').replace(/\n+$/, '\n');
+}
@@ -2,7 +2,10 @@
 
 // IP Version and Cloud Mode types (existing in main component, now centralized)
 export type IPVersion = "ipv4" | "ipv6";
-export type CloudMode = "normal" | "aws" | "azure" | "gcp";
+export type CloudMode = "normal" | "aws" | "azure" | "gcp" | "oci" | "alibaba" | "digitalocean" | "ibm" | CustomCloudMode;
+
+// Mode of a user-defined platform profile, "custom:" followed by the profile ID
+export type CustomCloudMode = `custom:${string}`;
 
 // Cloud reservation interface (existing in main component, now centralized)
 export interface CloudReservation {
@@ -37,6 +40,24 @@ export interface SubnetInfo {
   parentId?: string; // Parent subnet ID for hierarchy
 }
 
+// User-maintained details describing what a subnet is for
+export interface SubnetMetadata {
+  description?: string;
+  tags?: string[]; // Free-form tags; "key=value" tags become key/value pairs in cloud templates
+  vlanId?: number; // 802.1Q VLAN ID, 1-4094
+  owner?: string; // Owning person or team
+  environment?: string; // Such as production, staging or dev
+}
+
+// Allocation lifecycle of a subnet; subnets without a status are free
+export type SubnetStatus = 'free' | 'reserved' | 'allocated' | 'deprecated';
+
+export interface SubnetStatusChange {
+  from: SubnetStatus;
+  to: SubnetStatus;
+  timestamp: number;
+}
+
 // Split subnet interface for subnet management
 export interface SplitSubnet {
   id: string;
@@ -50,8 +71,13 @@ export interface SplitSubnet {
   parentId?: string;
   level: number;
   isSelected: boolean;
+  label?: string; // Display name, such as a VLSM requirement name
+  metadata?: SubnetMetadata;
+  status?: SubnetStatus;
+  statusHistory?: SubnetStatusChange[]; // Oldest first
   cloudReserved?: CloudReservation[];
   ipVersion: IPVersion;
+  pairedIPv6?: string; // IPv6 /64 paired with an IPv4 leaf subnet in a dual-stack plan, in CIDR notation
   // IPv6 specific fields
   ipv6Info?: {
     addressType: string;
@@ -62,7 +88,7 @@ export interface SplitSubnet {
 }
 
 // Subnet operation types for history tracking
-export type SubnetOperationType = 'split' | 'join' | 'reset';
+export type SubnetOperationType = 'split' | 'join' | 'reset' | 'import' | 'exclude' | 'allocate' | 'edit';
 
 // Subnet operation interface for tracking changes
 export interface SubnetOperation {
@@ -74,6 +100,14 @@ export interface SubnetOperation {
   description: string;
   ipVersion: IPVersion;
   cloudMode: CloudMode;
+  baseNetworkChange?: { from: BaseNetworkInput; to: BaseNetworkInput }; // Set on resets caused by editing the base network
+}
+
+// Base network inputs as entered
+export interface BaseNetworkInput {
+  ipAddress: string;
+  cidr: string;
+  ipVersion: IPVersion;
 }
 
 // Split options interface for configuring subnet splitting
@@ -92,6 +126,90 @@ export interface JoinOptions {
   preserveMetadata: boolean; // Whether to preserve original subnet metadata
 }
 
+// Exclude options interface for carving prefixes out of a subnet
+export interface ExcludeOptions {
+  excludedPrefixes: string[]; // Prefixes in network/prefix notation
+  maxResults?: number; // Limit for performance
+}
+
+// Free space search options for finding an unused block of a given size
+export type FreeBlockStrategy = 'first' | 'best-fit' | 'all';
+
+export interface FreeBlockSearchOptions {
+  prefix: number; // Requested prefix length
+  strategy?: FreeBlockStrategy;
+  maxResults?: number; // Limit for the 'all' strategy
+}
+
+// VLSM planning interfaces
+export interface VlsmRequirement {
+  name: string;
+  hosts: number; // Usable hosts required after network, broadcast and cloud reservations
+}
+
+// Multi-zone distribution templates, such as 3 AZs × (public, private, data) tiers
+export interface DistributionTier {
+  name: string;
+  weight: number; // Relative size as a power of two; a tier of weight 2 gets twice the addresses of weight 1
+}
+
+export interface DistributionPattern {
+  id: string;
+  name: string;
+  regions: string[]; // Optional outer level; empty for a single-region layout
+  zones: string[]; // Availability zone names, such as a, b and c
+  tiers: DistributionTier[];
+}
+
+// Saved pattern library, versioned so later releases can migrate it
+export interface DistributionPatternStore {
+  version: number;
+  patterns: DistributionPattern[];
+}
+
+// Kubernetes planning interfaces
+export type KubernetesNetworkModel =
+  | 'overlay' // Upstream node IPAM with an overlay or routed CNI such as Calico or Flannel
+  | 'aws-vpc-cni' // EKS with one VPC address per pod
+  | 'aws-vpc-cni-prefix' // EKS with /28 prefix delegation
+  | 'gke' // GKE VPC-native with alias IP secondary ranges
+  | 'azure-cni' // AKS with one VNet address per pod
+  | 'azure-kubenet'; // AKS with a /24 pod range per node
+
+export interface KubernetesPlanOptions {
+  networkModel: KubernetesNetworkModel;
+  maxNodes: number;
+  maxPodsPerNode: number;
+  maxServices: number;
+  zones?: number; // Node subnets, one per availability zone; models with regional subnets always use one
+  surgeNodes?: number; // Extra nodes created during upgrades, which need addresses too
+  nodeCidrMaskSize?: number; // Per-node pod range (--node-cidr-mask-size) for the overlay model; derived from max pods when omitted
+  eniCount?: number; // Network interfaces per node for the AWS VPC CNI models
+  ipsPerEni?: number; // IPv4 addresses per network interface for the AWS VPC CNI models
+}
+
+// Organization address plans: a supernet carved into regions, environments, VPCs and subnets
+export type AddressPlanLevel = 'organization' | 'region' | 'environment' | 'vpc' | 'subnet';
+
+export interface AddressPlanNode {
+  id: string;
+  name: string;
+  level: AddressPlanLevel;
+  network: string; // IPv4 network address
+  cidr: number;
+  parentId?: string; // Unset only on the organization supernet
+}
+
+export interface AddressPlan {
+  nodes: AddressPlanNode[]; // Flat list linked by parentId, like split subnets; the first node is the supernet
+}
+
+// Saved address plans, one per organization supernet
+export interface AddressPlanStore {
+  version: number;
+  plans: AddressPlan[];
+}
+
 // Subnet management state interface
 export interface SubnetManagementState {
   splitSubnets: SplitSubnet[];
@@ -128,11 +246,13 @@ export interface SubnetCalculationResult {
 
 // Export functionality interfaces
 export interface ExportOptions {
-  format: 'text' | 'csv' | 'json' | 'yaml';
+  format: 'text' | 'csv' | 'json' | 'yaml' | 'terraform' | 'cloudformation-yaml' | 'cloudformation-json' | 'bicep' | 'deployment-manager';
   includeHeaders: boolean;
   includeMetadata: boolean;
   selectedOnly: boolean;
   compression?: boolean;
+  namePrefix?: string; // Prefix for resource names in infrastructure-as-code formats
+  networkReference?: string; // VPC or virtual network that infrastructure-as-code templates attach to
 }
 
 export interface ExportResult {
@@ -142,6 +262,113 @@ export interface ExportResult {
   size: number;
 }
 
+// Import functionality interfaces
+export interface ImportOptions {
+  format: 'auto' | 'csv' | 'json';
+  cloudMode: CloudMode;
+  parentSubnet?: SubnetInfo; // Rows outside this network are rejected
+}
+
+export interface ImportResult {
+  subnets: SplitSubnet[];
+  errors: SubnetError[]; // Row-level errors for rows that were skipped
+  warnings: string[];
+  totalRows: number;
+  importedRows: number;
+}
+
+// Shareable link state interface
+export interface ShareableCalculatorState {
+  ipAddress: string;
+  cidr: string;
+  mode: CloudMode;
+  ipVersion: IPVersion;
+  splitSubnets: SplitSubnet[];
+  expandedNodes: string[]; // IDs of expanded tree nodes
+  dualStackIPv6?: string; // IPv6 block paired with an IPv4 plan, in CIDR notation
+  customProfile?: CustomCloudProfile; // Definition of the custom profile selected as the mode
+}
+
+// User-defined platform profile interfaces
+export interface CustomProfileReservation {
+  from: 'start' | 'end'; // Counted from the network address or back from the last address
+  offset: number; // 0 is the network address, or the broadcast address when counted from the end
+  purpose: string;
+  description: string;
+}
+
+export interface CustomCloudProfile {
+  id: string;
+  name: string;
+  minCidr: number; // Largest subnet the platform accepts
+  maxCidr: number; // Smallest subnet the platform accepts
+  reservations: CustomProfileReservation[];
+}
+
+export interface CustomProfileStore {
+  version: number;
+  profiles: CustomCloudProfile[];
+}
+
+// Saved project interfaces
+export interface SavedProject {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  state: ShareableCalculatorState;
+}
+
+export interface ProjectStore {
+  version: number; // Schema version, upgraded by migrations on load
+  activeProjectId: string | null;
+  autoSave: SubnetManagementConfig['autoSaveState'];
+  projects: SavedProject[];
+}
+
+// Address range conversion interfaces
+export interface CIDRBlock {
+  network: string;
+  prefix: number;
+  ipVersion: IPVersion;
+  firstAddress: string;
+  lastAddress: string;
+  addressCount: bigint; // BigInt so IPv6 block sizes stay exact
+}
+
+export interface CIDRSupernetSummary {
+  supernet: CIDRBlock;
+  coveredAddresses: bigint; // Addresses in the input prefixes, counted once
+  extraAddresses: bigint; // Addresses in the supernet outside every input prefix
+  overCoveragePercent: number;
+}
+
+// Overlap analysis interfaces
+export interface AnalyzedNetwork {
+  name: string; // VPC, VNet or on-premises range name
+  cidr: string; // network/prefix notation, or an address range such as 10.0.0.5-10.0.3.200
+  subnets?: string[];
+}
+
+export type OverlapConflictType = 'duplicate' | 'containment' | 'overlap';
+
+export interface OverlapEntryReference {
+  networkName: string;
+  prefix: string; // The entry as written, normalized to network/prefix for CIDRs
+  isSubnet: boolean;
+}
+
+export interface OverlapConflict {
+  type: OverlapConflictType;
+  first: OverlapEntryReference; // For containment, the enclosing entry
+  second: OverlapEntryReference;
+  ipVersion: IPVersion;
+  overlapStart: string;
+  overlapEnd: string;
+  overlapCIDRs: string[]; // Overlapping range as minimal CIDR blocks
+  addressCount: bigint;
+}
+
 // Performance monitoring interface
 export interface PerformanceMetrics {
   operationType: string;
@@ -187,8 +414,10 @@ export interface SubnetJoinerProps {
   availableSubnets: SplitSubnet[];
   selectedSubnets: Set<string>;
   ipVersion: IPVersion;
+  cloudMode: CloudMode;
   onSelectionChange: (selected: Set<string>) => void;
   onJoin: (joinedSubnet: SplitSubnet, operation: SubnetOperation) => void;
+  onJoinAll?: (joinedSubnets: SplitSubnet[], operation: SubnetOperation) => void; // Joins several groups as one operation
   onError: (error: SubnetError) => void;
   disabled?: boolean;
 }
@@ -58,6 +58,7 @@ export const SUBNET_CALCULATOR_SECURITY_CONFIG = {
   ],
   fallbackPath: '/',
   maxPathLength: 200,
+  maxStateTokenLength: 65536,
   blockedPatterns: [
     /^https?:\/\//i,  // Block absolute URLs
     /^\/\//,          // Block protocol-relative URLs
@@ -275,6 +276,36 @@ export function sanitizePath(path: string): string {
   return sanitized;
 }
 
+/**
+ * Validates an encoded application state token read from the URL
+ * Only base64url characters are accepted; anything else is rejected rather than repaired
+ */
+export function sanitizeStateToken(token: unknown): string | null {
+  if (!token || typeof token !== 'string') {
+    return null;
+  }
+
+  let reason: string | null = null;
+  if (token.length > SUBNET_CALCULATOR_SECURITY_CONFIG.maxStateTokenLength) {
+    reason = 'State token exceeds maximum length';
+  } else if (!/^[A-Za-z0-9_-]+$/.test(token)) {
+    reason = 'State token contains invalid characters';
+  }
+
+  if (reason) {
+    logSecurityEvent({
+      type: 'validation_failure',
+      originalPath: token.substring(0, SUBNET_CALCULATOR_SECURITY_CONFIG.maxPathLength),
+      reason,
+      timestamp: new Date().toISOString(),
+      userAgent: typeof window !== 'undefined' ? window.navigator?.userAgent : undefined
+    });
+    return null;
+  }
+
+  return token;
+}
+
 /**
  * Validates that a URL is safe for internal navigation using allowlist-based validation
  */
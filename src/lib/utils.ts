@@ -427,6 +427,7 @@ export function isIPv6InSubnet(ipv6: string, networkAddress: string, prefixLengt
 
 /**
  * Generates IPv6 subnet summary information
+ * The address type is left to classifyAddressSpace, which reads the special-purpose registry.
  */
 export function getIPv6SubnetSummary(ipv6: string, prefixLength: number): {
   address: string;
@@ -435,35 +436,17 @@ export function getIPv6SubnetSummary(ipv6: string, prefixLength: number): {
   hostBits: number;
   totalAddresses: string;
   usableAddresses: string;
-  addressType: string;
 } {
   const subnet = calculateIPv6Subnet(ipv6, prefixLength);
   const hostBits = 128 - prefixLength;
-  
-  // Determine address type based on prefix
-  let addressType = 'Global Unicast';
-  const compressed = compressIPv6(ipv6);
-  
-  if (compressed.startsWith('fe80:')) {
-    addressType = 'Link-Local';
-  } else if (compressed.startsWith('fc') || compressed.startsWith('fd')) {
-    addressType = 'Unique Local';
-  } else if (compressed === '::1') {
-    addressType = 'Loopback';
-  } else if (compressed.startsWith('::')) {
-    addressType = 'Unspecified/Special';
-  } else if (compressed.startsWith('2001:db8:')) {
-    addressType = 'Documentation';
-  }
-  
+
   return {
     address: compressIPv6(ipv6),
     network: subnet.network,
     prefixLength,
     hostBits,
     totalAddresses: formatIPv6AddressCount(subnet.totalAddresses),
-    usableAddresses: formatIPv6AddressCount(subnet.usableAddresses),
-    addressType
+    usableAddresses: formatIPv6AddressCount(subnet.usableAddresses)
   };
 }
 
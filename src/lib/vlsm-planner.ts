@@ -0,0 +1,257 @@
+/**
+ * VLSM Planning Functions
+ *
+ * This module allocates variable-length subnets from a parent IPv4 network to satisfy
+ * named host-count requirements. Requirements are sized with the same usable-host rules
+ * as the rest of the calculator, including cloud provider reservations and CIDR limits,
+ * then placed largest-first into the lowest free block that fits. Splitting free blocks
+ * in halves keeps every subnet aligned on its own size, and the space left over is
+ * returned as the minimal set of free blocks.
+ */
+
+import {
+  SubnetInfo,
+  SplitSubnet,
+  CloudMode,
+  VlsmRequirement
+} from './types';
+import { generateSubnetId } from './utils';
+import {
+  ipv4ToInt,
+  intToIPv4,
+  calculateSubnetDetailsFromNetwork
+} from './subnet-splitting';
+import { getCloudProvider } from './cloud-providers';
+import { aggregateCIDRs, createCIDRBlock, detectIPVersion } from './cidr-ranges';
+
+// Maximum number of requirements accepted in a single plan
+export const MAX_VLSM_REQUIREMENTS = 256;
+
+export interface VlsmAllocationFailure {
+  requirement: VlsmRequirement;
+  reason: string;
+}
+
+export interface VlsmPlanResult {
+  subnets: SplitSubnet[]; // Allocated subnets in address order, labelled with requirement names
+  freeSubnets: SplitSubnet[]; // Unallocated space as the minimal set of blocks
+  unallocated: VlsmAllocationFailure[];
+  totalAddresses: number;
+  allocatedAddresses: number;
+}
+
+// An aligned block of addresses, given by its first address and prefix length
+export interface AlignedBlock {
+  start: number;
+  prefix: number;
+}
+
+/**
+ * Usable hosts in a subnet of the given prefix, matching the subnet detail calculation:
+ * cloud modes subtract the provider reservations, /31 and /32 follow RFC 3021
+ */
+export function getUsableHostCount(prefix: number, cloudMode: CloudMode = 'normal'): number {
+  const totalHosts = Math.pow(2, 32 - prefix);
+  const provider = getCloudProvider(cloudMode);
+  if (provider) {
+    return Math.max(0, totalHosts - provider.reservedCount);
+  }
+  if (prefix === 32) {
+    return 1;
+  }
+  return prefix === 31 ? 2 : totalHosts - 2;
+}
+
+/**
+ * Returns the longest prefix whose usable hosts cover the requirement
+ * In cloud modes the result is kept within the provider's smallest and largest subnet sizes
+ */
+export function getRequiredPrefix(hosts: number, cloudMode: CloudMode = 'normal'): number {
+  if (!Number.isInteger(hosts) || hosts < 1) {
+    throw new Error('Host count must be a positive whole number');
+  }
+
+  const provider = getCloudProvider(cloudMode);
+  const longestPrefix = provider ? provider.maxCidr : 32;
+  const shortestPrefix = provider ? provider.minCidr : 0;
+
+  for (let prefix = longestPrefix; prefix >= shortestPrefix; prefix--) {
+    if (getUsableHostCount(prefix, cloudMode) >= hosts) {
+      return prefix;
+    }
+  }
+
+  throw new Error(
+    provider
+      ? `${hosts.toLocaleString()} hosts exceeds the largest ${provider.name} subnet (/${provider.minCidr})`
+      : `${hosts.toLocaleString()} hosts exceeds the IPv4 address space`
+  );
+}
+
+/**
+ * Places a block of each prefix inside the parent network, largest first into the lowest
+ * free block that fits, and returns the start of each block in input order (null when it
+ * did not fit) together with the free blocks left over, in address order.
+ * Blocks of equal size keep their input order.
+ */
+export function allocateAlignedBlocks(
+  parentStart: number,
+  parentPrefix: number,
+  prefixes: number[]
+): { starts: Array<number | null>; freeBlocks: AlignedBlock[] } {
+  return allocateFromFreeBlocks([{ start: parentStart, prefix: parentPrefix }], prefixes);
+}
+
+/**
+ * Places a block of each prefix in a list of aligned free blocks, with the same
+ * largest-first, lowest-address allocation as allocateAlignedBlocks
+ */
+export function allocateFromFreeBlocks(
+  available: AlignedBlock[],
+  prefixes: number[]
+): { starts: Array<number | null>; freeBlocks: AlignedBlock[] } {
+  const blockSize = (prefix: number) => Math.pow(2, 32 - prefix);
+  const starts: Array<number | null> = prefixes.map(() => null);
+  let freeBlocks: AlignedBlock[] = [...available].sort((a, b) => a.start - b.start);
+
+  const order = prefixes.map((prefix, index) => ({ prefix, index }))
+    .sort((a, b) => a.prefix - b.prefix || a.index - b.index);
+
+  order.forEach(({ prefix, index: position }) => {
+    const index = freeBlocks.findIndex(block => block.prefix <= prefix);
+    if (index === -1) {
+      return;
+    }
+
+    // Halve the free block until it matches the required size, returning the upper halves
+    const block = freeBlocks[index];
+    const remainder: AlignedBlock[] = [];
+    for (let current = block.prefix; current < prefix; current++) {
+      remainder.push({ start: block.start + blockSize(current + 1), prefix: current + 1 });
+    }
+
+    freeBlocks = [...freeBlocks.slice(0, index), ...remainder, ...freeBlocks.slice(index + 1)]
+      .sort((a, b) => a.start - b.start);
+    starts[position] = block.start;
+  });
+
+  return { starts, freeBlocks };
+}
+
+/**
+ * Parses requirements written as "name: hosts", one per line or separated by commas
+ * "web: 500", "web 500" and "web = 500 hosts" are all accepted
+ */
+export function parseVlsmRequirements(input: string): { requirements: VlsmRequirement[]; errors: string[] } {
+  const requirements: VlsmRequirement[] = [];
+  const errors: string[] = [];
+  const names = new Set<string>();
+
+  input.split(/[\n,;]+/).map(entry => entry.trim()).filter(Boolean).forEach(entry => {
+    const match = entry.match(/^(.+?)\s*(?:[:=]\s*|\s+)(\d+)\s*(?:hosts?)?$/i);
+    if (!match) {
+      errors.push(`Could not read "${entry}"; use the form name: hosts`);
+      return;
+    }
+
+    const name = match[1].trim();
+    const hosts = parseInt(match[2], 10);
+    if (names.has(name.toLowerCase())) {
+      errors.push(`Duplicate requirement name: ${name}`);
+      return;
+    }
+    if (hosts < 1) {
+      errors.push(`${name} must require at least 1 host`);
+      return;
+    }
+
+    names.add(name.toLowerCase());
+    requirements.push({ name, hosts });
+  });
+
+  if (requirements.length > MAX_VLSM_REQUIREMENTS) {
+    errors.push(`Too many requirements: ${requirements.length} exceeds the limit of ${MAX_VLSM_REQUIREMENTS}`);
+  }
+
+  return { requirements, errors };
+}
+
+/**
+ * Allocates subnets for each requirement inside the parent network
+ * Requirements that cannot be sized or placed are reported in unallocated rather than
+ * failing the whole plan. Throws only when the parent network or input list is invalid.
+ */
+export function planVlsm(
+  parentSubnet: SubnetInfo,
+  requirements: VlsmRequirement[],
+  cloudMode: CloudMode = 'normal'
+): VlsmPlanResult {
+  const parentPrefix = parseInt(parentSubnet.cidr.replace('/', ''), 10);
+  if (detectIPVersion(parentSubnet.network) !== 'ipv4' || isNaN(parentPrefix) || parentPrefix < 0 || parentPrefix > 32) {
+    throw new Error('VLSM planning requires an IPv4 parent network');
+  }
+  if (requirements.length === 0) {
+    throw new Error('At least one requirement is required');
+  }
+  if (requirements.length > MAX_VLSM_REQUIREMENTS) {
+    throw new Error(`Too many requirements: ${requirements.length} exceeds the limit of ${MAX_VLSM_REQUIREMENTS}`);
+  }
+
+  const blockSize = (prefix: number) => Math.pow(2, 32 - prefix);
+  const parentStart = ipv4ToInt(parentSubnet.network) - (ipv4ToInt(parentSubnet.network) % blockSize(parentPrefix));
+  const unallocated: VlsmAllocationFailure[] = [];
+  const sized: { requirement: VlsmRequirement; prefix: number }[] = [];
+
+  requirements.forEach(requirement => {
+    try {
+      const prefix = getRequiredPrefix(requirement.hosts, cloudMode);
+      if (prefix < parentPrefix) {
+        unallocated.push({ requirement, reason: `Needs a /${prefix}, which is larger than the /${parentPrefix} parent network` });
+      } else {
+        sized.push({ requirement, prefix });
+      }
+    } catch (error) {
+      unallocated.push({ requirement, reason: error instanceof Error ? error.message : 'Invalid requirement' });
+    }
+  });
+
+  const { starts, freeBlocks } = allocateAlignedBlocks(parentStart, parentPrefix, sized.map(entry => entry.prefix));
+  const allocated: { requirement: VlsmRequirement; block: AlignedBlock }[] = [];
+
+  sized.forEach(({ requirement, prefix }, index) => {
+    const start = starts[index];
+    if (start === null) {
+      unallocated.push({ requirement, reason: `Not enough free space for a /${prefix}` });
+    } else {
+      allocated.push({ requirement, block: { start, prefix } });
+    }
+  });
+
+  const createSubnet = (start: number, prefix: number, label?: string): SplitSubnet => ({
+    id: generateSubnetId(),
+    ...calculateSubnetDetailsFromNetwork(intToIPv4(start), prefix, 'ipv4', cloudMode),
+    parentId: parentSubnet.id,
+    level: (parentSubnet.level || 0) + 1,
+    isSelected: false,
+    ...(label ? { label } : {}),
+    ipVersion: 'ipv4'
+  });
+
+  const subnets = allocated
+    .sort((a, b) => a.block.start - b.block.start)
+    .map(({ requirement, block }) => createSubnet(block.start, block.prefix, requirement.name));
+
+  const freeSubnets = aggregateCIDRs(freeBlocks.map(block => createCIDRBlock(BigInt(block.start), block.prefix, 'ipv4')))
+    .map(block => createSubnet(ipv4ToInt(block.network), block.prefix));
+
+  // Failures are listed in the order the requirements were entered
+  unallocated.sort((a, b) => requirements.indexOf(a.requirement) - requirements.indexOf(b.requirement));
+
+  return {
+    subnets,
+    freeSubnets,
+    unallocated,
+    totalAddresses: blockSize(parentPrefix),
+    allocatedAddresses: subnets.reduce((sum, subnet) => sum + subnet.totalHosts, 0)
+  };
+}
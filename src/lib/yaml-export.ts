@@ -0,0 +1,220 @@
+/**
+ * YAML Export Functions
+ *
+ * This module serializes split subnet plans to YAML. The document structure mirrors
+ * the JSON export so that plans can be stored in configuration repositories and
+ * converted between the two formats without loss.
+ */
+
+import { SplitSubnet, ExportOptions } from './types';
+import { getSubnetStatus } from './subnet-status';
+
+// Any value that can be represented in the YAML documents produced by this module
+export type YAMLValue =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | YAMLValue[]
+  | { [key: string]: YAMLValue };
+
+// Words that YAML 1.1 parsers interpret as booleans or null when left unquoted
+const RESERVED_PLAIN_WORDS = new Set([
+  'true', 'false', 'yes', 'no', 'on', 'off', 'y', 'n', 'null', '~'
+]);
+
+const INDENT = '  ';
+
+/**
+ * Determines whether a string can be written as a plain (unquoted) YAML scalar
+ */
+function isPlainSafe(value: string): boolean {
+  if (!/^[A-Za-z_][A-Za-z0-9_ ./()-]*$/.test(value)) {
+    return false;
+  }
+
+  if (value.endsWith(' ')) {
+    return false;
+  }
+
+  return !RESERVED_PLAIN_WORDS.has(value.toLowerCase());
+}
+
+/**
+ * Formats a scalar value for YAML output
+ * Strings that could be misread are emitted as double-quoted scalars
+ */
+function formatScalar(value: string | number | boolean | null): string {
+  if (value === null) {
+    return 'null';
+  }
+
+  if (typeof value === 'boolean') {
+    return value ? 'true' : 'false';
+  }
+
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value.toString() : JSON.stringify(value.toString());
+  }
+
+  // JSON string escaping is a valid subset of YAML double-quoted scalars
+  return isPlainSafe(value) ? value : JSON.stringify(value);
+}
+
+/**
+ * Formats a mapping key for YAML output
+ */
+function formatKey(key: string): string {
+  return isPlainSafe(key) ? key : JSON.stringify(key);
+}
+
+function isContainer(value: YAMLValue): value is YAMLValue[] | { [key: string]: YAMLValue } {
+  return value !== null && typeof value === 'object';
+}
+
+function isEmptyContainer(value: YAMLValue[] | { [key: string]: YAMLValue }): boolean {
+  if (Array.isArray(value)) {
+    return value.length === 0;
+  }
+  return Object.values(value).every(entry => entry === undefined);
+}
+
+/**
+ * Serializes a container node into indented YAML lines
+ */
+function serializeNode(value: YAMLValue[] | { [key: string]: YAMLValue }, depth: number): string[] {
+  const pad = INDENT.repeat(depth);
+  const lines: string[] = [];
+
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      if (item === undefined) {
+        continue;
+      }
+
+      if (!isContainer(item)) {
+        lines.push(`${pad}- ${formatScalar(item)}`);
+      } else if (isEmptyContainer(item)) {
+        lines.push(`${pad}- ${Array.isArray(item) ? '[]' : '{}'}`);
+      } else {
+        // Nested containers start on the same line as the sequence dash
+        const childLines = serializeNode(item, depth + 1);
+        childLines[0] = `${pad}- ${childLines[0].slice(pad.length + INDENT.length)}`;
+        lines.push(...childLines);
+      }
+    }
+    return lines;
+  }
+
+  for (const [key, entry] of Object.entries(value)) {
+    if (entry === undefined) {
+      continue;
+    }
+
+    if (!isContainer(entry)) {
+      lines.push(`${pad}${formatKey(key)}: ${formatScalar(entry)}`);
+    } else if (isEmptyContainer(entry)) {
+      lines.push(`${pad}${formatKey(key)}: ${Array.isArray(entry) ? '[]' : '{}'}`);
+    } else {
+      lines.push(`${pad}${formatKey(key)}:`);
+      lines.push(...serializeNode(entry, depth + 1));
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Serializes an arbitrary value to a YAML document
+ * Undefined values are omitted, matching JSON.stringify behaviour
+ */
+export function toYAML(value: YAMLValue): string {
+  if (value === undefined) {
+    return '';
+  }
+
+  if (!isContainer(value)) {
+    return formatScalar(value);
+  }
+
+  if (isEmptyContainer(value)) {
+    return Array.isArray(value) ? '[]' : '{}';
+  }
+
+  return serializeNode(value, 0).join('\n');
+}
+
+/**
+ * Formats split subnets as a YAML document
+ * Subnet names, metadata, status and IPv6 pairs are always included; status history, hierarchy, cloud
+ * reservations and IPv6 details are included with export metadata
+ */
+export function formatSubnetsAsYAML(subnets: SplitSubnet[], options: ExportOptions): string {
+  const lines: string[] = [];
+
+  if (options.includeHeaders) {
+    lines.push('# Subnet Export Report');
+    lines.push('# Generated by: Art of Infra Subnet Calculator');
+    lines.push('---');
+  }
+
+  const document: { [key: string]: YAMLValue } = {};
+
+  if (options.includeMetadata) {
+    document.metadata = {
+      exportDate: new Date().toISOString(),
+      totalSubnets: subnets.length,
+      exportFormat: options.format,
+      generatedBy: 'Art of Infra Subnet Calculator',
+      version: '1.0'
+    };
+  }
+
+  document.subnets = subnets.map(subnet => ({
+    id: subnet.id,
+    network: subnet.network,
+    cidr: subnet.cidr,
+    broadcast: subnet.broadcast,
+    firstHost: subnet.firstHost,
+    lastHost: subnet.lastHost,
+    totalHosts: subnet.totalHosts,
+    usableHosts: subnet.usableHosts,
+    ipVersion: subnet.ipVersion,
+    pairedIPv6: subnet.pairedIPv6,
+    label: subnet.label,
+    metadata: subnet.metadata && {
+      description: subnet.metadata.description,
+      tags: subnet.metadata.tags,
+      vlanId: subnet.metadata.vlanId,
+      owner: subnet.metadata.owner,
+      environment: subnet.metadata.environment
+    },
+    status: getSubnetStatus(subnet),
+    ...(options.includeMetadata && {
+      statusHistory: subnet.statusHistory?.map(change => ({
+        from: change.from,
+        to: change.to,
+        timestamp: new Date(change.timestamp).toISOString()
+      })),
+      level: subnet.level,
+      parentId: subnet.parentId,
+      isSelected: subnet.isSelected,
+      cloudReserved: subnet.cloudReserved?.map(reservation => ({
+        ip: reservation.ip,
+        purpose: reservation.purpose,
+        description: reservation.description
+      })),
+      ipv6Info: subnet.ipv6Info && {
+        addressType: subnet.ipv6Info.addressType,
+        hostBits: subnet.ipv6Info.hostBits,
+        totalAddressesFormatted: subnet.ipv6Info.totalAddressesFormatted,
+        usableAddressesFormatted: subnet.ipv6Info.usableAddressesFormatted
+      }
+    })
+  }));
+
+  lines.push(toYAML(document));
+
+  return lines.join('\n') + '\n';
+}